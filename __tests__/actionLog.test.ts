@@ -0,0 +1,166 @@
+/**
+ * アクションログ（イベントソーシング）のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  applyAndRecordCommand,
+  replayActionLog,
+  serializeActionLog,
+  deserializeActionLog,
+  ACTION_LOG_VERSION
+} from '../utils/actionLog';
+import { saveActionLog, getActionLog, clearAllGameData } from '../utils/dataPersistence';
+import { ActionLog, GameCommand, GameSession, Player } from '../types/game';
+
+const createTestPlayers = (): Player[] => [
+  {
+    id: 'player1',
+    name: 'プレイヤー1',
+    color: 'red',
+    money: 3,
+    points: 0,
+    otakuPieces: [
+      { id: 'p1-otaku1', playerId: 'player1', isKagebunshin: false },
+      { id: 'p1-otaku2', playerId: 'player1', isKagebunshin: false }
+    ]
+  },
+  {
+    id: 'player2',
+    name: 'プレイヤー2',
+    color: 'blue',
+    money: 3,
+    points: 0,
+    otakuPieces: [
+      { id: 'p2-otaku1', playerId: 'player2', isKagebunshin: false },
+      { id: 'p2-otaku2', playerId: 'player2', isKagebunshin: false }
+    ]
+  }
+];
+
+const playCommands = (seed: number): GameCommand[] => [
+  {
+    type: 'INITIALIZE_GAME',
+    payload: { players: createTestPlayers(), seed, gameId: 'game-replay', createdAt: new Date('2024-01-01T00:00:00Z') }
+  },
+  { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-B' } },
+  { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-E' } },
+  { type: 'ROLL_DICE_AND_PROCESS_LABOR' },
+  { type: 'NEXT_PHASE' },
+  { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player1', decision: 'participate' } },
+  { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player2', decision: 'rest' } },
+  { type: 'REVEAL_OSHIKATSU_DECISIONS' },
+  { type: 'NEXT_PHASE' },
+  { type: 'GENERATE_FANSERVICE_SPOT_CARDS' },
+  { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } },
+  { type: 'NEXT_PHASE' },
+  { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: 2 } },
+  { type: 'NEXT_PHASE' },
+  { type: 'PROCESS_FANSA_TIME' },
+  { type: 'NEXT_PHASE' }
+];
+
+// ターンマネージャーの関数は再生のたびに作り直されるため、データ部分だけで比較する
+const snapshot = (state: GameSession | null) => JSON.parse(JSON.stringify(state));
+
+// コマンドを順に適用し、各時点の状態とアクションログを返す
+const record = (commands: GameCommand[]) => {
+  let state: GameSession | null = null;
+  let log: ActionLog | null = null;
+  const states: (GameSession | null)[] = [];
+
+  commands.forEach(command => {
+    const result = applyAndRecordCommand(state, log, command, new Date('2024-01-01T00:00:00Z'));
+    if (result.log !== log) {
+      states.push(result.state);
+    }
+    state = result.state;
+    log = result.log;
+  });
+
+  return { state, log: log as unknown as ActionLog, states };
+};
+
+describe('アクションログ', () => {
+  test('適用したコマンドが通し番号付きで記録される', () => {
+    const { log } = record(playCommands(1));
+
+    expect(log.version).toBe(ACTION_LOG_VERSION);
+    expect(log.gameId).toBe('game-replay');
+    expect(log.seed).toBe(1);
+    expect(log.entries.map(entry => entry.index)).toEqual(log.entries.map((_, i) => i));
+    expect(log.entries[0].rngStateBefore).toBeNull();
+  });
+
+  test('乱数を消費したコマンドは乱数結果と乱数状態の変化を記録する', () => {
+    const { log } = record(playCommands(99));
+    const laborEntry = log.entries.find(entry => entry.command.type === 'ROLL_DICE_AND_PROCESS_LABOR')!;
+
+    expect(laborEntry.events[0].type).toBe('LABOR_PROCESSED');
+    expect(laborEntry.rngStateAfter).not.toBe(laborEntry.rngStateBefore);
+  });
+
+  test('拒否されたコマンドは記録されない', () => {
+    const { log } = record([
+      ...playCommands(3).slice(0, 1),
+      { type: 'ROLL_DICE_AND_PROCESS_LABOR' } // 報酬配分カード未選択のため拒否される
+    ]);
+
+    expect(log.entries).toHaveLength(1);
+  });
+
+  test('任意のイベント番号まで再生すると記録時と同じ状態が再構築される', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        const { log, states } = record(playCommands(seed));
+
+        log.entries.forEach((_, index) => {
+          expect(snapshot(replayActionLog(log, index))).toEqual(snapshot(states[index]));
+        });
+        expect(replayActionLog(log, -1)).toBeNull();
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('シリアライズしたログからも同じ状態を再構築できる', () => {
+    const { state, log } = record(playCommands(2024));
+    const restored = deserializeActionLog(serializeActionLog(log));
+
+    expect(snapshot(replayActionLog(restored))).toEqual(snapshot(state));
+  });
+
+  test('乱数状態が記録と食い違う場合は再生を中断する', () => {
+    const { log } = record(playCommands(5));
+    const tampered: ActionLog = {
+      ...log,
+      entries: log.entries.map(entry =>
+        entry.command.type === 'ROLL_DICE_AND_PROCESS_LABOR' ? { ...entry, rngStateAfter: -1 } : entry
+      )
+    };
+
+    expect(() => replayActionLog(tampered)).toThrow(/Replay diverged/);
+  });
+
+  test('新しいバージョンのログと範囲外のイベント番号は拒否する', () => {
+    const { log } = record(playCommands(8));
+
+    expect(() => replayActionLog({ ...log, version: ACTION_LOG_VERSION + 1 })).toThrow('Unsupported action log version');
+    expect(() => replayActionLog(log, log.entries.length)).toThrow('Invalid event index');
+  });
+
+  test('アクションログをローカルストレージに保存・取得できる', () => {
+    clearAllGameData();
+    const { state, log } = record(playCommands(11));
+
+    saveActionLog(log);
+    const loaded = getActionLog('game-replay');
+
+    expect(loaded).not.toBeNull();
+    expect(snapshot(replayActionLog(loaded!))).toEqual(snapshot(state));
+
+    clearAllGameData();
+    expect(getActionLog('game-replay')).toBeNull();
+  });
+});
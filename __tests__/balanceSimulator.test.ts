@@ -0,0 +1,96 @@
+/**
+ * 報酬配分カードのバランスシミュレーターのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  runBalanceSimulation,
+  simulateGame,
+  pearsonCorrelation,
+  formatBalanceReportTable,
+  formatBalanceReportJson
+} from '../utils/balanceSimulator';
+import {
+  getCardExpectedIncome,
+  getCardIncomeVariance,
+  estimateSpotProbabilities,
+  randomStrategy,
+  expectedValueStrategy,
+  lowVarianceStrategy
+} from '../utils/botPlayer';
+import { createRewardDistributionCards, createAllFanserviceSpotCards } from '../utils/gameLogic';
+
+describe('バランスシミュレーター', () => {
+  test('カードの期待収入と分散を計算できる', () => {
+    const cards = createRewardDistributionCards();
+    const cardC = cards.find(card => card.name === 'C')!;
+
+    expect(getCardExpectedIncome(cardC)).toBeCloseTo(1.5);
+    expect(getCardIncomeVariance(cardC)).toBeCloseTo(5.5 / 6);
+  });
+
+  test('スポットの期待数の合計は公開カード枚数に等しい', () => {
+    const allCards = createAllFanserviceSpotCards();
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: allCards.length - 1 }), { minLength: 1, maxLength: 3 }), (indices) => {
+        const expected = estimateSpotProbabilities(indices.map(i => allCards[i]));
+        const total = expected.reduce((sum, v) => sum + v, 0);
+        expect(total).toBeCloseTo(indices.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('相関係数は-1から1の範囲に収まる', () => {
+    fc.assert(
+      fc.property(fc.array(fc.tuple(fc.integer({ min: 0, max: 8 }), fc.integer({ min: 0, max: 100 })), { minLength: 2, maxLength: 30 }), (pairs) => {
+        const r = pearsonCorrelation(pairs.map(p => p[0]), pairs.map(p => p[1]));
+        expect(r).toBeGreaterThanOrEqual(-1 - 1e-9);
+        expect(r).toBeLessThanOrEqual(1 + 1e-9);
+      }),
+      { numRuns: 100 }
+    );
+    expect(pearsonCorrelation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(pearsonCorrelation([1, 1, 1], [2, 4, 6])).toBe(0);
+  });
+
+  test('ボット同士のゲームが8ラウンドで終了する', () => {
+    const session = simulateGame(7, [randomStrategy, expectedValueStrategy, lowVarianceStrategy]);
+
+    expect(session.currentPhase).toBe('game-end');
+    expect(session.gameState.roundHistory).toHaveLength(8);
+  });
+
+  test('同じシードのシミュレーションは同じレポートになる', () => {
+    const options = { games: 20, seed: 99, strategies: [randomStrategy, randomStrategy] };
+
+    expect(runBalanceSimulation(options)).toEqual(runBalanceSimulation(options));
+  });
+
+  test('レポートの選択回数と選択率が整合する', () => {
+    const report = runBalanceSimulation({ games: 30, seed: 1, strategies: [randomStrategy, expectedValueStrategy] });
+
+    const totalPicks = report.cards.reduce((sum, card) => sum + card.timesSelected, 0);
+    expect(totalPicks).toBe(30 * 2 * 8);
+    expect(report.cards.reduce((sum, card) => sum + card.pickRate, 0)).toBeCloseTo(1);
+    report.cards.forEach(card => {
+      expect(card.incomeVariance).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  test('不正なゲーム数やプレイヤー数は拒否する', () => {
+    expect(() => runBalanceSimulation({ games: 0, seed: 1, strategies: [randomStrategy] })).toThrow('Invalid game count');
+    expect(() => runBalanceSimulation({ games: 1, seed: 1, strategies: [] })).toThrow('Invalid player count');
+  });
+
+  test('表形式とJSON形式で出力できる', () => {
+    const report = runBalanceSimulation({ games: 5, seed: 3, strategies: [randomStrategy, lowVarianceStrategy] });
+
+    const table = formatBalanceReportTable(report);
+    ['A', 'B', 'C', 'D', 'E', 'F'].forEach(name => {
+      expect(table).toContain(name);
+    });
+    expect(JSON.parse(formatBalanceReportJson(report))).toEqual(report);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * ボットプレイヤーのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  chooseBotCommand,
+  getBotStrategy,
+  isBotPlayer,
+  createBotRandom,
+  randomStrategy,
+  expectedValueStrategy,
+  lowVarianceStrategy,
+  BOT_STRATEGIES,
+  BotStrategy
+} from '../utils/botPlayer';
+import { applyGameCommand } from '../utils/gameEngine';
+import { createSeededRandom } from '../utils/random';
+import { GameCommand, GameSession, Player } from '../types/game';
+
+const createPlayers = (): Player[] => [
+  {
+    id: 'player1',
+    name: 'プレイヤー1',
+    color: 'red',
+    money: 3,
+    points: 0,
+    otakuPieces: [
+      { id: 'p1-otaku1', playerId: 'player1', isKagebunshin: false },
+      { id: 'p1-otaku2', playerId: 'player1', isKagebunshin: false }
+    ]
+  },
+  {
+    id: 'player2',
+    name: 'ボット',
+    color: 'blue',
+    money: 3,
+    points: 0,
+    controller: 'bot',
+    botStrategy: 'expected-value',
+    otakuPieces: [
+      { id: 'p2-otaku1', playerId: 'player2', isKagebunshin: false },
+      { id: 'p2-otaku2', playerId: 'player2', isKagebunshin: false }
+    ]
+  }
+];
+
+const initialize = (seed: number): GameSession => applyGameCommand(null, {
+  type: 'INITIALIZE_GAME',
+  payload: { players: createPlayers(), seed, gameId: 'bot-test', createdAt: new Date('2024-01-01T00:00:00Z') }
+}).state!;
+
+const apply = (session: GameSession, command: GameCommand): GameSession => applyGameCommand(session, command).state!;
+
+// 人間のプレイヤーが完了を宣言した状態にし、推し活ステップの手番をボットに回す
+const withBotTurn = (session: GameSession): GameSession => ({
+  ...session,
+  activePlayerIndex: 1,
+  turnManager: { ...session.turnManager, currentPlayer: 1, phaseActions: { ...session.turnManager.phaseActions, player1: true } }
+});
+
+// ボットに行うことがなくなるまで操作させ、実行したコマンドを返す
+const playBot = (session: GameSession, playerId: string, strategy: BotStrategy, seed: number) => {
+  const rng = createSeededRandom(seed);
+  const commands: GameCommand[] = [];
+  for (let i = 0; i < 50; i++) {
+    const command = chooseBotCommand(session, playerId, strategy, rng);
+    if (!command) break;
+    commands.push(command);
+    session = apply(session, command);
+  }
+  return { session, commands };
+};
+
+describe('ボットプレイヤー', () => {
+  test('戦略を名前で取得でき、不明な名前はランダム戦略になる', () => {
+    BOT_STRATEGIES.forEach(strategy => {
+      expect(getBotStrategy(strategy.name)).toBe(strategy);
+    });
+    expect(getBotStrategy('unknown')).toBe(randomStrategy);
+    expect(getBotStrategy(undefined)).toBe(randomStrategy);
+  });
+
+  test('controller が bot のプレイヤーのみボットと判定される', () => {
+    const [human, bot] = createPlayers();
+    expect(isBotPlayer(human)).toBe(false);
+    expect(isBotPlayer(bot)).toBe(true);
+  });
+
+  test('労働フェーズでは手番が来てから報酬配分カードを1回だけ選択する', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 10000 }), fc.constantFrom(...BOT_STRATEGIES), fc.constantFrom('card-A', 'card-C', 'card-D'), (seed, strategy, humanCardId) => {
+        // スタートプレイヤー（人間）が選ぶまでは何もしない
+        expect(playBot(initialize(seed), 'player2', strategy, seed).commands).toEqual([]);
+
+        const afterHuman = apply(initialize(seed), { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: humanCardId } });
+        const { session, commands } = playBot(afterHuman, 'player2', strategy, seed);
+
+        expect(commands).toHaveLength(1);
+        expect(commands[0].type).toBe('SELECT_REWARD_CARD');
+        // 人間が選んだカードは選ばない
+        expect(session.players[1].selectedRewardCard!.id).not.toBe(humanCardId);
+        expect(session.players[0].selectedRewardCard!.id).toBe(humanCardId);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('期待値戦略は残っているカードのうち期待収入が最大のカードを選ぶ', () => {
+    const afterHuman = apply(initialize(1), { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } });
+    const { session } = playBot(afterHuman, 'player2', expectedValueStrategy, 1);
+    expect(['C', 'D']).toContain(session.players[1].selectedRewardCard!.name);
+  });
+
+  test('推し活フェーズではグッズ購入・配置・グッズの割り当てを終えると完了になる', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 10000 }), fc.constantFrom(...BOT_STRATEGIES), (seed, strategy) => {
+        let session = initialize(seed);
+        session = { ...session, currentPhase: 'oshikatsu-goods', players: session.players.map(p => ({ ...p, oshikatsuDecision: 'participate' as const })) };
+        session = apply(session, { type: 'GENERATE_FANSERVICE_SPOT_CARDS' });
+
+        session = playBot(withBotTurn(session), 'player2', strategy, seed).session;
+        const afterGoods = session.players[1];
+        expect(session.turnManager.phaseActions.player2).toBe(true);
+        expect(afterGoods.money).toBeGreaterThanOrEqual(0);
+
+        session = apply(session, { type: 'NEXT_PHASE' });
+        expect(session.currentPhase).toBe('oshikatsu-placement');
+        session = playBot(withBotTurn(session), 'player2', strategy, seed).session;
+
+        expect(session.turnManager.phaseActions.player2).toBe(true);
+        // 影分身以外のコマは全て配置されている（満員の場合を除く）
+        session.players[1].otakuPieces
+          .filter(piece => !piece.isKagebunshin)
+          .forEach(piece => expect(piece.boardSpotId).toBeDefined());
+
+        session = apply(session, { type: 'NEXT_PHASE' });
+        expect(session.currentPhase).toBe('oshikatsu-kagebunshin');
+        session = playBot(withBotTurn(session), 'player2', strategy, seed).session;
+        expect(session.turnManager.phaseActions.player2).toBe(true);
+        session.players[1].otakuPieces.forEach(piece => expect(piece.boardSpotId).toBeDefined());
+        session.gameState.hanamichiBoardState.spots.forEach(spot => {
+          expect(spot.otakuPieces.length).toBeLessThanOrEqual(session.rules.spotCapacity);
+        });
+
+        session = apply(session, { type: 'NEXT_PHASE' });
+        expect(session.currentPhase).toBe('oshikatsu-goods-assign');
+        session = playBot(session, 'player2', strategy, seed).session;
+        expect(session.turnManager.phaseActions.player2).toBe(true);
+        // 手持ちのグッズは配置済みのコマに全て乗せている
+        const bot = session.players[1];
+        expect(bot.goodsInventory ?? []).toEqual([]);
+        expect(bot.otakuPieces.filter(piece => piece.goods).length).toBe(afterGoods.otakuPieces.filter(piece => piece.goods).length + (afterGoods.goodsInventory ?? []).length);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('グッズを買い終えて資金が残った期待値戦略のボットは影分身を購入する', () => {
+    let session = initialize(1);
+    session = withBotTurn({
+      ...session,
+      currentPhase: 'oshikatsu-goods',
+      players: session.players.map(p => p.id === 'player2'
+        ? { ...p, money: 3, oshikatsuDecision: 'participate' as const, otakuPieces: [{ ...p.otakuPieces[0], goods: 'sashiire' as const }, { ...p.otakuPieces[1], goods: 'uchiwa' as const }] }
+        : p)
+    });
+
+    const { commands } = playBot(session, 'player2', expectedValueStrategy, 1);
+    expect(commands.map(c => c.type)).toEqual(['CREATE_KAGEBUNSHIN', 'SET_PLAYER_ACTION_COMPLETED']);
+
+    const lowVariance = playBot(session, 'player2', lowVarianceStrategy, 1);
+    expect(lowVariance.commands.map(c => c.type)).toEqual(['SET_PLAYER_ACTION_COMPLETED']);
+  });
+
+  test('推し活ステップでは自分の手番が来るまで何もしない', () => {
+    let session = initialize(1);
+    session = { ...session, currentPhase: 'oshikatsu-decision', players: session.players.map(p => ({ ...p, oshikatsuDecision: 'participate' as const })) };
+    session = apply(session, { type: 'NEXT_PHASE' });
+    expect(playBot(session, 'player2', randomStrategy, 1).commands).toEqual([]);
+
+    // スタートプレイヤーがパスすると手番が回ってくる
+    session = apply(session, { type: 'PASS_TURN', payload: { playerId: 'player1' } });
+    const { commands } = playBot(session, 'player2', randomStrategy, 1);
+    expect(commands).toHaveLength(1);
+  });
+
+  test('休むボットは推し活フェーズで最初から完了扱いになり何もしない', () => {
+    let session = initialize(1);
+    session = { ...session, currentPhase: 'oshikatsu-decision', players: session.players.map(p => ({ ...p, oshikatsuDecision: 'rest' as const })) };
+    session = apply(session, { type: 'NEXT_PHASE' });
+
+    expect(session.turnManager.phaseActions.player2).toBe(true);
+    expect(playBot(session, 'player2', randomStrategy, 1).commands).toEqual([]);
+  });
+
+  test('同じ乱数なら同じ選択をする', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 10000 }), (seed) => {
+        const session = apply(initialize(seed), { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } });
+        const a = playBot(session, 'player2', randomStrategy, seed).commands;
+        const b = playBot(session, 'player2', randomStrategy, seed).commands;
+        expect(a).toEqual(b);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('画面上のボットの乱数はシードと操作の件数で決まる', () => {
+    fc.assert(
+      fc.property(fc.nat(), fc.nat({ max: 1000 }), (seed, actionCount) => {
+        const draw = (rng: { next(): number }) => Array.from({ length: 5 }, () => rng.next());
+        expect(draw(createBotRandom(seed, actionCount))).toEqual(draw(createBotRandom(seed, actionCount)));
+        expect(draw(createBotRandom(seed, actionCount))).not.toEqual(draw(createBotRandom(seed, actionCount + 1)));
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -5,6 +5,7 @@
 
 import * as fc from 'fast-check';
 import { GameSession, Player, GameState, OtakuPiece, GamePhase, PlayerColor, GoodsType, OshikatsuDecision } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 import { 
   serializeGameState, 
   deserializeGameState,
@@ -69,27 +70,31 @@ const boardSpotArbitrary = fc.record({
     col: fc.integer({ min: 0, max: 3 })
   }),
   otakuPieces: fc.array(otakuPieceArbitrary, { maxLength: 3 }),
-  oshiPiece: fc.option(fc.record({
+  oshiPieces: fc.array(fc.record({
     id: fc.constantFrom('A', 'B', 'C'),
     currentSpotId: fc.option(fc.integer({ min: 0, max: 7 }))
-  }))
+  }), { maxLength: 3 })
 });
 
 // ファンサスポットカード生成
+const cardFaceArbitrary = fc.tuple(
+  fc.integer({ min: 0, max: 7 }),
+  fc.integer({ min: 0, max: 7 }),
+  fc.integer({ min: 0, max: 7 })
+).filter(([a, b, c]) => a < b && b < c).map(([a, b, c]) => [a, b, c] as [number, number, number]);
+
 const fanserviceSpotCardArbitrary = fc.record({
   id: fc.string({ minLength: 1, maxLength: 20 }),
-  spots: fc.tuple(
-    fc.integer({ min: 0, max: 7 }),
-    fc.integer({ min: 0, max: 7 }),
-    fc.integer({ min: 0, max: 7 })
-  ).filter(([a, b, c]) => a < b && b < c).map(([a, b, c]) => [a, b, c] as [number, number, number]),
-  orientation: fc.constantFrom('front', 'back'),
-  rotation: fc.constantFrom(0, 90, 180, 270)
+  front: cardFaceArbitrary,
+  back: cardFaceArbitrary,
+  orientation: fc.constantFrom('front' as const, 'back' as const),
+  rotation: fc.constantFrom(0 as const, 180 as const)
 });
 
 // ラウンド結果生成
 const roundResultArbitrary = fc.record({
   roundNumber: fc.integer({ min: 1, max: 8 }),
+  startPlayerId: playerIdArbitrary,
   laborResults: fc.array(fc.record({
     playerId: playerIdArbitrary,
     selectedCard: fc.constantFrom('A', 'B', 'C', 'D', 'E', 'F'),
@@ -153,9 +158,13 @@ const gameSessionArbitrary = fc.array(playerArbitrary, { minLength: 1, maxLength
       currentRound: fc.integer({ min: 1, max: 8 }),
       currentPhase: gamePhaseArbitrary,
       activePlayerIndex: fc.integer({ min: 0, max: Math.max(0, players.length - 1) }),
+      startPlayerIndex: fc.integer({ min: 0, max: Math.max(0, players.length - 1) }),
       gameState: gameStateArbitrary,
       turnManager: turnManagerArbitrary,
-      createdAt: fc.date({ min: new Date('2020-01-01T00:00:00.000Z'), max: new Date('2030-12-31T23:59:59.999Z') }).filter(date => !isNaN(date.getTime()))
+      createdAt: fc.date({ min: new Date('2020-01-01T00:00:00.000Z'), max: new Date('2030-12-31T23:59:59.999Z') }).filter(date => !isNaN(date.getTime())),
+      seed: fc.nat(),
+      rngState: fc.nat(),
+      rules: fc.constant(DEFAULT_RULE_SET)
     })
   );
 
@@ -5,6 +5,7 @@
 
 import * as fc from 'fast-check';
 import { GameSession, Player, GameError, GoodsType } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 import { 
   validatePlayerName, 
   validatePlayerCount, 
@@ -56,18 +57,22 @@ const gameSessionArbitrary = fc.record({
     'oshikatsu-placement', 'fansa-time', 'round-end', 'game-end'
   ),
   activePlayerIndex: fc.integer({ min: 0, max: 3 }),
-  createdAt: fc.constant(new Date())
+  createdAt: fc.constant(new Date()),
+  seed: fc.nat(),
+  rngState: fc.nat(),
+  rules: fc.constant(DEFAULT_RULE_SET)
 }).map(({ players, activePlayerIndex, ...rest }) => ({
   ...rest,
   players,
   activePlayerIndex: activePlayerIndex % players.length,
+  startPlayerIndex: activePlayerIndex % players.length,
   gameState: {
     hanamichiBoardState: {
       spots: Array.from({ length: 8 }, (_, i) => ({
         id: i,
         position: { row: Math.floor(i / 4), col: i % 4 },
         otakuPieces: [],
-        oshiPiece: undefined
+        oshiPieces: []
       }))
     },
     oshiPieces: [
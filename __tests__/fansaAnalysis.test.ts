@@ -0,0 +1,161 @@
+/**
+ * ファンサタイムの期待値分析のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  getOshiSpotProbabilities,
+  calculateExpectedFansaPoints,
+  evaluateCandidatePlacement,
+  calculateSpotHeatmap
+} from '../utils/fansaAnalysis';
+import { createAllFanserviceSpotCards, getFanserviceCardSpots, getOppositeSpot, processFansaTime } from '../utils/gameLogic';
+import { applyGameCommand } from '../utils/gameEngine';
+import { createSeededRandom } from '../utils/random';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
+import { GameSession, OtakuPiece, Player } from '../types/game';
+
+const allCards = createAllFanserviceSpotCards();
+const revealedCardsArbitrary = fc.tuple(
+  fc.integer({ min: 0, max: allCards.length - 1 }),
+  fc.integer({ min: 0, max: allCards.length - 1 }),
+  fc.integer({ min: 0, max: allCards.length - 1 })
+).map(indices => indices.map(i => allCards[i]));
+
+const createPlayers = (): Player[] => ['player1', 'player2'].map((id, i) => ({
+  id,
+  name: `プレイヤー${i + 1}`,
+  color: i === 0 ? 'red' : 'blue',
+  money: 3,
+  points: 0,
+  otakuPieces: [{ id: `p${i + 1}-otaku1`, playerId: id, isKagebunshin: false }]
+}));
+
+const createSession = (revealedCards: typeof allCards): GameSession => {
+  const session = applyGameCommand(null, {
+    type: 'INITIALIZE_GAME',
+    payload: { players: createPlayers(), seed: 1, gameId: 'analysis-test', createdAt: new Date('2024-01-01T00:00:00Z') }
+  }).state!;
+  return {
+    ...session,
+    currentPhase: 'oshikatsu-placement',
+    gameState: { ...session.gameState, revealedCards }
+  };
+};
+
+// 全推しについて、指定スポットに来る確率の合計
+const probabilityAt = (revealedCards: typeof allCards, spotId: number) => {
+  return getOshiSpotProbabilities(revealedCards).reduce((sum, oshi) => sum + oshi.probabilities[spotId], 0);
+};
+
+describe('ファンサタイムの期待値分析', () => {
+  test('各推しの出現確率の合計は1になる', () => {
+    fc.assert(
+      fc.property(revealedCardsArbitrary, (revealedCards) => {
+        getOshiSpotProbabilities(revealedCards).forEach(oshi => {
+          expect(oshi.probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+          oshi.probabilities.forEach((p, spotId) => {
+            if (p > 0) {
+              expect(getFanserviceCardSpots(revealedCards[['A', 'B', 'C'].indexOf(oshi.oshiId)])).toContain(spotId);
+            }
+          });
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('単独のコマの期待ポイントは基本ポイントと出現確率の積になる', () => {
+    fc.assert(
+      fc.property(revealedCardsArbitrary, fc.integer({ min: 0, max: 7 }), fc.constantFrom('uchiwa' as const, 'sashiire' as const), (revealedCards, spotId, goods) => {
+        const session = createSession(revealedCards);
+        const [result] = evaluateCandidatePlacement(session, [{ playerId: 'player1', goods, spotId, pieceId: 'p1-otaku1' }]);
+
+        // 単独のコマには隣接のうちわボーナスが自分にも入りうるため、うちわは基本ポイント以上になる
+        const multiplier = goods === 'sashiire' ? DEFAULT_RULE_SET.sashiireMultiplier : 1;
+        const basic = DEFAULT_RULE_SET.basePoints * multiplier * probabilityAt(revealedCards, spotId);
+        if (goods === 'sashiire') {
+          expect(result.expectedPoints).toBeCloseTo(basic);
+        } else {
+          expect(result.expectedPoints).toBeGreaterThanOrEqual(basic - 1e-9);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('ペンライトは向かい側に推しが来る確率分のボーナスを得る', () => {
+    fc.assert(
+      fc.property(revealedCardsArbitrary, fc.integer({ min: 0, max: 7 }), (revealedCards, spotId) => {
+        const session = createSession(revealedCards);
+        const [result] = evaluateCandidatePlacement(session, [{ playerId: 'player1', goods: 'penlight', spotId }]);
+
+        const expected = DEFAULT_RULE_SET.basePoints * probabilityAt(revealedCards, spotId)
+          + DEFAULT_RULE_SET.penlightBonus * probabilityAt(revealedCards, getOppositeSpot(spotId)!);
+        expect(result.expectedPoints).toBeCloseTo(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('期待ポイントは実際のファンサタイムの平均に近い', () => {
+    const revealedCards = [allCards[0], { ...allCards[5], orientation: 'back' as const }, { ...allCards[10], rotation: 180 as const }];
+    const pieces: OtakuPiece[] = [
+      { id: 'a', playerId: 'player1', boardSpotId: getFanserviceCardSpots(revealedCards[0])[0], goods: 'uchiwa', isKagebunshin: false },
+      { id: 'b', playerId: 'player2', boardSpotId: getFanserviceCardSpots(revealedCards[1])[1], goods: 'penlight', isKagebunshin: false },
+      { id: 'c', playerId: 'player2', boardSpotId: getFanserviceCardSpots(revealedCards[0])[0], goods: 'sashiire', isKagebunshin: false }
+    ];
+    const board = {
+      spots: Array.from({ length: 8 }, (_, id) => ({
+        id,
+        position: { row: Math.floor(id / 4), col: id % 4 },
+        otakuPieces: pieces.filter(p => p.boardSpotId === id),
+        oshiPieces: []
+      }))
+    };
+
+    const expected = calculateExpectedFansaPoints(revealedCards, board, pieces);
+    const rng = createSeededRandom(123);
+    const samples = 3000;
+    const totals: { [playerId: string]: number } = {};
+    for (let i = 0; i < samples; i++) {
+      processFansaTime(revealedCards, board, pieces, rng).pointResults.forEach(({ playerId, totalPoints }) => {
+        totals[playerId] = (totals[playerId] || 0) + totalPoints;
+      });
+    }
+
+    expected.forEach(({ playerId, expectedPoints }) => {
+      expect(Math.abs((totals[playerId] || 0) / samples - expectedPoints)).toBeLessThan(0.15);
+    });
+  });
+
+  test('ヒートマップは満員のスポットを除外し、単独配置の期待値と一致する', () => {
+    const revealedCards = [allCards[1], allCards[2], allCards[3]];
+    let session = createSession(revealedCards);
+    const blockers: OtakuPiece[] = Array.from({ length: DEFAULT_RULE_SET.spotCapacity }, (_, i) => ({
+      id: `blocker${i}`, playerId: 'player2', boardSpotId: 7, goods: 'uchiwa', isKagebunshin: false
+    }));
+    session = {
+      ...session,
+      gameState: {
+        ...session.gameState,
+        hanamichiBoardState: {
+          spots: session.gameState.hanamichiBoardState.spots.map(spot => spot.id === 7 ? { ...spot, otakuPieces: blockers } : spot)
+        }
+      }
+    };
+
+    const heatmap = calculateSpotHeatmap(session, 'player1', 'sashiire');
+    expect(heatmap).toHaveLength(8);
+    expect(heatmap[7]).toBeNull();
+    heatmap.slice(0, 7).forEach((value, spotId) => {
+      const [result] = evaluateCandidatePlacement(session, [{ playerId: 'player1', goods: 'sashiire', spotId }]);
+      expect(value).toBeCloseTo(result.expectedPoints);
+    });
+  });
+
+  test('予測カードが揃っていない場合は期待値を計算しない', () => {
+    expect(calculateExpectedFansaPoints([], { spots: [] }, [])).toEqual([]);
+  });
+});
@@ -15,8 +15,10 @@ import {
   applySashiireBonus,
   calculateFansaPoints,
   processFansaTime,
-  mapDiceToFanserviceSpot
+  mapDiceToFanserviceSpot,
+  getFanserviceCardSpots
 } from '../utils/gameLogic';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 
 // テスト用のアービトラリ生成
 const spotIdArbitrary = fc.integer({ min: 0, max: 7 });
@@ -25,15 +27,18 @@ const goodsTypeArbitrary = fc.constantFrom('uchiwa', 'penlight', 'sashiire');
 const playerIdArbitrary = fc.string({ minLength: 1, maxLength: 10 }).filter(s => /^[a-zA-Z0-9_-]+$/.test(s));
 
 // ファンサスポットカード生成
+const cardFaceArbitrary = fc.tuple(
+  fc.integer({ min: 0, max: 7 }),
+  fc.integer({ min: 0, max: 7 }),
+  fc.integer({ min: 0, max: 7 })
+).filter(([a, b, c]) => a < b && b < c).map(([a, b, c]) => [a, b, c] as [number, number, number]);
+
 const fanserviceSpotCardArbitrary = fc.record({
   id: fc.string({ minLength: 1, maxLength: 20 }),
-  spots: fc.tuple(
-    fc.integer({ min: 0, max: 7 }),
-    fc.integer({ min: 0, max: 7 }),
-    fc.integer({ min: 0, max: 7 })
-  ).filter(([a, b, c]) => a < b && b < c).map(([a, b, c]) => [a, b, c] as [number, number, number]),
-  orientation: fc.constantFrom('front', 'back'),
-  rotation: fc.constantFrom(0, 90, 180, 270)
+  front: cardFaceArbitrary,
+  back: cardFaceArbitrary,
+  orientation: fc.constantFrom('front' as const, 'back' as const),
+  rotation: fc.constantFrom(0 as const, 180 as const)
 });
 
 // オタクコマ生成
@@ -53,10 +58,10 @@ const boardSpotArbitrary = fc.record({
     col: fc.integer({ min: 0, max: 3 })
   }),
   otakuPieces: fc.array(otakuPieceArbitrary, { maxLength: 3 }),
-  oshiPiece: fc.option(fc.record({
+  oshiPieces: fc.array(fc.record({
     id: fc.constantFrom('A', 'B', 'C'),
     currentSpotId: fc.option(spotIdArbitrary)
-  }))
+  }), { maxLength: 3 })
 });
 
 // ボード状態生成
@@ -120,7 +125,7 @@ describe('ファンサタイムとポイント計算システム プロパティ
             
             // サイコロマッピングルールの確認
             const expectedSpotIndex = mapDiceToFanserviceSpot(diceResults[index]);
-            const expectedSpotId = revealedCards[index].spots[expectedSpotIndex];
+            const expectedSpotId = getFanserviceCardSpots(revealedCards[index])[expectedSpotIndex];
             expect(placement.spotId).toBe(expectedSpotId);
           });
           
@@ -191,7 +196,7 @@ describe('ファンサタイムとポイント計算システム プロパティ
             
             // サイコロマッピングが正しいこと
             const expectedSpotIndex = mapDiceToFanserviceSpot(diceResults[index]);
-            const expectedSpotId = revealedCards[index].spots[expectedSpotIndex];
+            const expectedSpotId = getFanserviceCardSpots(revealedCards[index])[expectedSpotIndex];
             expect(placement.spotId).toBe(expectedSpotId);
           });
         }
@@ -405,4 +410,46 @@ describe('ファンサタイムとポイント計算システム プロパティ
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+
+  /**
+   * 同じスポットに複数の推しがいる場合の目の前のポイント
+   * 標準では推しごとに山分けし、共有ルールでは1回分だけ山分けする
+   */
+  test('同じスポットの推しは、ルールに応じて目の前のポイントを推しごとに、または1回分だけ山分けする', () => {
+    fc.assert(
+      fc.property(
+        spotIdArbitrary,
+        fc.subarray(['A', 'B', 'C'] as const, { minLength: 2 }),
+        fc.array(fc.constantFrom('player1', 'player2', 'player3'), { minLength: 1, maxLength: 3 }),
+        (spotId, oshiIds, owners) => {
+          const otakuPieces: OtakuPiece[] = owners.map((playerId, i) => ({
+            id: `piece${i}`,
+            playerId,
+            boardSpotId: spotId,
+            isKagebunshin: false
+          }));
+          const boardState = {
+            spots: Array.from({ length: 8 }, (_, id) => ({
+              id,
+              position: { row: Math.floor(id / 4), col: id % 4 },
+              otakuPieces: id === spotId ? otakuPieces : [],
+              oshiPieces: id === spotId ? oshiIds.map(oshiId => ({ id: oshiId, currentSpotId: spotId })) : []
+            }))
+          };
+          const oshiPlacements = oshiIds.map(oshiId => ({ oshiId, spotId }));
+          const total = (results: { totalPoints: number }[]) => results.reduce((sum, r) => sum + r.totalPoints, 0);
+
+          const duplicated = calculateFansaPoints(oshiPlacements, boardState, otakuPieces, DEFAULT_RULE_SET);
+          const shared = calculateFansaPoints(oshiPlacements, boardState, otakuPieces, { ...DEFAULT_RULE_SET, shareColocatedOshiPool: true });
+
+          expect(total(duplicated)).toBe(DEFAULT_RULE_SET.basePoints * oshiIds.length);
+          expect(total(shared)).toBe(DEFAULT_RULE_SET.basePoints);
+          shared.forEach(result => {
+            result.breakdown.forEach(entry => expect(entry).toContain(`推し${oshiIds.join('・')}目の前`));
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -5,9 +5,15 @@
 
 import * as fc from 'fast-check';
 import { FanserviceSpotCard } from '../types/game';
+import { createSeededRandom, shuffleArray } from '../utils/random';
 import { 
   generateAllFanserviceSpotCombinations,
+  generateFanserviceSpotFaces,
   createAllFanserviceSpotCards,
+  getFanserviceCardSpots,
+  rotateSpot180,
+  placeFansaOshiPieces,
+  drawFanserviceSpotCards,
   selectRandomFanserviceSpotCards,
   randomizeCardOrientation,
   randomizeCardRotation,
@@ -36,31 +42,22 @@ describe('ファンサスポットカードシステム プロパティベース
             // カードの基本構造を確認
             expect(card.id).toBeDefined();
             expect(typeof card.id).toBe('string');
-            expect(card.spots).toHaveLength(3);
             expect(card.orientation).toMatch(/^(front|back)$/);
-            expect([0, 90, 180, 270]).toContain(card.rotation);
+            expect([0, 180]).toContain(card.rotation);
             
-            // スポットが有効な範囲内（0-7）であることを確認
-            card.spots.forEach(spot => {
+            // ボード上のスポットが有効な範囲内（0-7）で重複がないことを確認
+            const spots = getFanserviceCardSpots(card);
+            expect(spots).toHaveLength(3);
+            spots.forEach(spot => {
               expect(spot).toBeGreaterThanOrEqual(0);
               expect(spot).toBeLessThanOrEqual(7);
             });
-            
-            // スポットが昇順でソートされていることを確認（重複なし）
-            const sortedSpots = [...card.spots].sort((a, b) => a - b);
-            expect(card.spots).toEqual(sortedSpots);
-            
-            // スポットに重複がないことを確認
-            const uniqueSpots = [...new Set(card.spots)];
-            expect(uniqueSpots).toHaveLength(3);
+            expect(new Set(spots).size).toBe(3);
           });
           
-          // カード間で重複がないことを確認（同じ組み合わせが選ばれていない）
-          const cardCombinations = revealedCards.map(card => 
-            card.spots.join(',')
-          );
-          const uniqueCombinations = [...new Set(cardCombinations)];
-          expect(uniqueCombinations).toHaveLength(revealedCards.length);
+          // 同じカードが2枚選ばれていないことを確認
+          const uniqueIds = [...new Set(revealedCards.map(card => card.id))];
+          expect(uniqueIds).toHaveLength(revealedCards.length);
           
           // 表裏と向きがランダムに決定されていることを確認
           // （複数回実行して異なる結果が出ることを期待）
@@ -147,30 +144,116 @@ describe('ファンサスポットカードシステム プロパティベース
     );
   });
 
+  test('28通りの面は180度回転を合わせると全56通りの組み合わせを1回ずつ表す', () => {
+    const faces = generateFanserviceSpotFaces();
+    expect(faces).toHaveLength(28);
+
+    const key = (spots: number[]) => [...spots].sort((a, b) => a - b).join(',');
+    const covered = faces.flatMap(face => [key(face), key(face.map(rotateSpot180))]);
+    expect(new Set(covered).size).toBe(56);
+    expect(new Set(covered)).toEqual(new Set(generateAllFanserviceSpotCombinations().map(key)));
+  });
+
   // 補助テスト: 個別関数の動作確認
   test('createAllFanserviceSpotCards 関数の正確性', () => {
     const allCards = createAllFanserviceSpotCards();
     
-    // カード数の確認
-    expect(allCards).toHaveLength(56); // 8C3 = 56
+    // カード数の確認（表裏で28面）
+    expect(allCards).toHaveLength(14);
     
     // 各カードの構造確認
     allCards.forEach((card, index) => {
       expect(card.id).toBe(`fanservice-card-${index + 1}`);
-      expect(card.spots).toHaveLength(3);
       expect(card.orientation).toBe('front'); // デフォルト値
       expect(card.rotation).toBe(0); // デフォルト値
       
-      // スポットの有効性確認
-      card.spots.forEach(spot => {
-        expect(spot).toBeGreaterThanOrEqual(0);
-        expect(spot).toBeLessThanOrEqual(7);
+      [card.front, card.back].forEach(face => {
+        expect(face).toHaveLength(3);
+        // スポットの有効性と順序確認
+        face.forEach(spot => {
+          expect(spot).toBeGreaterThanOrEqual(0);
+          expect(spot).toBeLessThanOrEqual(7);
+        });
+        expect(face[0]).toBeLessThan(face[1]);
+        expect(face[1]).toBeLessThan(face[2]);
       });
-      
-      // スポットの順序確認
-      expect(card.spots[0]).toBeLessThan(card.spots[1]);
-      expect(card.spots[1]).toBeLessThan(card.spots[2]);
     });
+
+    // 全ての面が異なる
+    const faces = allCards.flatMap(card => [card.front.join(','), card.back.join(',')]);
+    expect(new Set(faces).size).toBe(28);
+  });
+
+  test('表裏で面が選ばれ、180度回転するとスポットがボードの反対側に移る', () => {
+    const [card] = createAllFanserviceSpotCards();
+
+    expect(getFanserviceCardSpots(card)).toEqual(card.front);
+    expect(getFanserviceCardSpots({ ...card, orientation: 'back' })).toEqual(card.back);
+    expect(getFanserviceCardSpots({ ...card, rotation: 180 })).toEqual(card.front.map(spot => 7 - spot));
+    expect(getFanserviceCardSpots({ ...card, orientation: 'back', rotation: 180 })).toEqual(card.back.map(spot => 7 - spot));
+
+    // 左上のスポットは右下に、上段は下段に移る
+    expect(rotateSpot180(0)).toBe(7);
+    expect(rotateSpot180(1)).toBe(6);
+    expect(rotateSpot180(4)).toBe(3);
+  });
+
+  test('推しコマは公開された面と上下の向きに従って配置される', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 13 }), { minLength: 3, maxLength: 3 }),
+        fc.array(fc.constantFrom('front' as const, 'back' as const), { minLength: 3, maxLength: 3 }),
+        fc.array(fc.constantFrom(0 as const, 180 as const), { minLength: 3, maxLength: 3 }),
+        fc.tuple(fc.integer({ min: 1, max: 6 }), fc.integer({ min: 1, max: 6 }), fc.integer({ min: 1, max: 6 })),
+        (indices, orientations, rotations, diceResults) => {
+          const allCards = createAllFanserviceSpotCards();
+          const revealedCards = indices.map((cardIndex, i) => ({
+            ...allCards[cardIndex],
+            orientation: orientations[i],
+            rotation: rotations[i]
+          }));
+
+          placeFansaOshiPieces(revealedCards, diceResults).forEach((placement, i) => {
+            const face = orientations[i] === 'front' ? allCards[indices[i]].front : allCards[indices[i]].back;
+            const printedSpot = face[mapDiceToFanserviceSpot(diceResults[i])];
+            expect(placement.spotId).toBe(rotations[i] === 180 ? 7 - printedSpot : printedSpot);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('山札から引いたカードは山札から除かれ、足りなければ捨て札を切り直して引く', () => {
+    fc.assert(
+      fc.property(fc.nat(), fc.integer({ min: 0, max: 14 }), (seed, pileSize) => {
+        const rng = createSeededRandom(seed);
+        const deck = shuffleArray(createAllFanserviceSpotCards(), rng);
+        const drawPile = deck.slice(0, pileSize);
+        const discardPile = deck.slice(pileSize);
+
+        const result = drawFanserviceSpotCards(drawPile, discardPile, 3, rng);
+        const ids = (cards: FanserviceSpotCard[]) => cards.map(card => card.id);
+
+        expect(result.drawn).toHaveLength(3);
+        expect(new Set(ids(result.drawn)).size).toBe(3);
+        // カードは増えも減りもしない
+        const allIds = [...ids(result.drawn), ...ids(result.drawPile), ...ids(result.discardPile)];
+        expect(new Set(allIds).size).toBe(14);
+        expect(allIds).toHaveLength(14);
+
+        expect(result.reshuffled).toBe(pileSize < 3);
+        if (pileSize >= 3) {
+          ids(result.drawn).forEach(id => expect(ids(drawPile)).toContain(id));
+          expect(result.discardPile).toEqual(discardPile);
+        } else {
+          // 残っていた山札は全て引かれ、捨て札は山札に戻る
+          ids(drawPile).forEach(id => expect(ids(result.drawn)).toContain(id));
+          expect(result.discardPile).toEqual([]);
+        }
+      }),
+      { numRuns: 100 }
+    );
   });
 
   test('selectRandomFanserviceSpotCards 関数の正確性', () => {
@@ -223,7 +306,7 @@ describe('ファンサスポットカードシステム プロパティベース
         fc.integer({ min: 1, max: 100 }), // テスト実行回数
         () => {
           const rotation = randomizeCardRotation();
-          expect([0, 90, 180, 270]).toContain(rotation);
+          expect([0, 180]).toContain(rotation);
         }
       ),
       { numRuns: 100 }
@@ -235,24 +318,30 @@ describe('ファンサスポットカードシステム プロパティベース
       fc.property(
         fc.record({
           id: fc.string({ minLength: 1, maxLength: 20 }),
-          spots: fc.tuple(
+          front: fc.tuple(
             fc.integer({ min: 0, max: 7 }),
             fc.integer({ min: 0, max: 7 }),
             fc.integer({ min: 0, max: 7 })
           ).filter(([a, b, c]) => a < b && b < c), // 昇順で重複なし
-          orientation: fc.constantFrom('front', 'back'),
-          rotation: fc.constantFrom(0, 90, 180, 270)
+          back: fc.tuple(
+            fc.integer({ min: 0, max: 7 }),
+            fc.integer({ min: 0, max: 7 }),
+            fc.integer({ min: 0, max: 7 })
+          ).filter(([a, b, c]) => a < b && b < c),
+          orientation: fc.constantFrom('front' as const, 'back' as const),
+          rotation: fc.constantFrom(0 as const, 180 as const)
         }),
         (originalCard) => {
           const updatedCard = applyRandomCardProperties(originalCard);
           
           // 基本属性が保持されていることを確認
           expect(updatedCard.id).toBe(originalCard.id);
-          expect(updatedCard.spots).toEqual(originalCard.spots);
+          expect(updatedCard.front).toEqual(originalCard.front);
+          expect(updatedCard.back).toEqual(originalCard.back);
           
           // ランダム属性が有効な値に設定されていることを確認
           expect(['front', 'back']).toContain(updatedCard.orientation);
-          expect([0, 90, 180, 270]).toContain(updatedCard.rotation);
+          expect([0, 180]).toContain(updatedCard.rotation);
         }
       ),
       { numRuns: 100 }
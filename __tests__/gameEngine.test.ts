@@ -0,0 +1,511 @@
+/**
+ * ヘッドレスゲームエンジンのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { applyGameCommand, applyGameCommands } from '../utils/gameEngine';
+import { GameCommand, GameSession, Player, RuleSet } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
+
+const createTestPlayers = (): Player[] => [
+  {
+    id: 'player1',
+    name: 'プレイヤー1',
+    color: 'red',
+    money: 3,
+    points: 0,
+    otakuPieces: [
+      { id: 'p1-otaku1', playerId: 'player1', isKagebunshin: false },
+      { id: 'p1-otaku2', playerId: 'player1', isKagebunshin: false }
+    ]
+  },
+  {
+    id: 'player2',
+    name: 'プレイヤー2',
+    color: 'blue',
+    money: 3,
+    points: 0,
+    otakuPieces: [
+      { id: 'p2-otaku1', playerId: 'player2', isKagebunshin: false },
+      { id: 'p2-otaku2', playerId: 'player2', isKagebunshin: false }
+    ]
+  }
+];
+
+const initCommand = (seed: number, rules?: RuleSet): GameCommand => ({
+  type: 'INITIALIZE_GAME',
+  payload: {
+    players: createTestPlayers(),
+    seed,
+    gameId: 'game-test',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    rules
+  }
+});
+
+// プレイヤー1・2のコマンドを手番順に並べる（スタートプレイヤーはラウンドごとに交代する）
+const inTurnOrder = (round: number, commands: GameCommand[]): GameCommand[] => {
+  return round % 2 === 1 ? commands : [...commands].reverse();
+};
+
+// 1ラウンド分のコマンド列（全員参加、グッズを買えるだけ買い、配置したオタクコマに乗せる）
+const roundCommands = (round: number): GameCommand[] => [
+  ...inTurnOrder(round, [
+    { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } },
+    { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-D' } }
+  ]),
+  { type: 'ROLL_DICE_AND_PROCESS_LABOR' },
+  { type: 'NEXT_PHASE' },
+  { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player1', decision: 'participate' } },
+  { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player2', decision: 'participate' } },
+  { type: 'REVEAL_OSHIKATSU_DECISIONS' },
+  { type: 'NEXT_PHASE' },
+  { type: 'GENERATE_FANSERVICE_SPOT_CARDS' },
+  ...inTurnOrder(round, [
+    { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } },
+    { type: 'PURCHASE_GOODS', payload: { playerId: 'player2', goodsType: 'penlight' } }
+  ]),
+  { type: 'NEXT_PHASE' },
+  ...inTurnOrder(round, [
+    { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: round % 8 } },
+    { type: 'MOVE_PIECE', payload: { pieceId: 'p2-otaku1', spotId: (round + 3) % 8 } }
+  ]),
+  { type: 'NEXT_PHASE' },
+  { type: 'NEXT_PHASE' },
+  { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'uchiwa' } },
+  { type: 'ASSIGN_GOODS', payload: { playerId: 'player2', pieceId: 'p2-otaku1', goodsType: 'penlight' } },
+  { type: 'NEXT_PHASE' },
+  { type: 'PROCESS_FANSA_TIME' },
+  { type: 'NEXT_PHASE' }
+];
+
+const fullGameCommands = (seed: number): GameCommand[] => {
+  const commands: GameCommand[] = [initCommand(seed)];
+  for (let round = 1; round <= 8; round++) {
+    commands.push(...roundCommands(round));
+  }
+  return commands;
+};
+
+describe('ゲームエンジン', () => {
+  test('コマンドだけで8ラウンドを最後までプレイできる', () => {
+    const { state, events } = applyGameCommands(null, fullGameCommands(42));
+
+    expect(state).not.toBeNull();
+    expect(state!.currentPhase).toBe('game-end');
+    expect(state!.currentRound).toBe(8);
+    expect(state!.gameState.roundHistory).toHaveLength(8);
+    expect(events.filter(e => e.type === 'LABOR_PROCESSED')).toHaveLength(8);
+    expect(events.filter(e => e.type === 'FANSA_TIME_PROCESSED')).toHaveLength(8);
+    expect(events[events.length - 1]).toEqual({ type: 'GAME_ENDED' });
+  });
+
+  test('同じシードとコマンド列からは同じ状態とイベントが得られる', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        const first = applyGameCommands(null, fullGameCommands(seed));
+        const second = applyGameCommands(null, fullGameCommands(seed));
+
+        expect(second.events).toEqual(first.events);
+        expect(second.state!.players).toEqual(first.state!.players);
+        expect(second.state!.rngState).toBe(first.state!.rngState);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('コマンド適用は元の状態を変更しない', () => {
+    const { state } = applyGameCommands(null, [initCommand(7), ...roundCommands(1).slice(0, 12)]);
+    const snapshot = JSON.stringify(state);
+
+    applyGameCommand(state, { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: 5 } });
+    applyGameCommand(state, { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'penlight' } });
+
+    expect(JSON.stringify(state)).toBe(snapshot);
+  });
+
+  test('適用できないコマンドは状態を変えずに拒否イベントを返す', () => {
+    const { state } = applyGameCommands(null, [initCommand(1)]);
+
+    const result = applyGameCommand(state, { type: 'ROLL_DICE_AND_PROCESS_LABOR' });
+    expect(result.state).toBe(state);
+    expect(result.events).toEqual([
+      expect.objectContaining({ type: 'COMMAND_REJECTED', commandType: 'ROLL_DICE_AND_PROCESS_LABOR' })
+    ]);
+
+    const noGame = applyGameCommand(null, { type: 'NEXT_PHASE' });
+    expect(noGame.state).toBeNull();
+    expect(noGame.events[0].type).toBe('COMMAND_REJECTED');
+  });
+
+  test('存在しないオタクコマの移動は拒否される', () => {
+    const { state } = applyGameCommands(null, [initCommand(3)]);
+    const result = applyGameCommand(state as GameSession, {
+      type: 'MOVE_PIECE',
+      payload: { pieceId: 'p1-otaku9', spotId: 0 }
+    });
+
+    expect(result.state).toBe(state);
+    expect(result.events[0]).toMatchObject({ type: 'COMMAND_REJECTED', commandType: 'MOVE_PIECE' });
+  });
+
+  test('グッズ購入で価格分の資金が減りイベントが発生する', () => {
+    const { state } = applyGameCommands(null, [initCommand(5)]);
+    const result = applyGameCommand({ ...state!, currentPhase: 'oshikatsu-goods' }, {
+      type: 'PURCHASE_GOODS',
+      payload: { playerId: 'player1', goodsType: 'uchiwa' }
+    });
+
+    expect(result.state!.players[0].money).toBe(1);
+    expect(result.state!.players[0].goodsInventory).toEqual(['uchiwa']);
+    expect(result.state!.players[0].otakuPieces[0].goods).toBeUndefined();
+    // 購入ステップは手番制のため、購入すると次のプレイヤーの手番になる
+    expect(result.events).toEqual([
+      { type: 'GOODS_PURCHASED', playerId: 'player1', goodsType: 'uchiwa', price: 2 },
+      { type: 'TURN_CHANGED', activePlayerIndex: 1 }
+    ]);
+  });
+
+  test('推しかつ決断・グッズ購入・影分身はそれぞれのフェーズ以外では拒否される', () => {
+    const commands: [GameCommand, GameSession['currentPhase']][] = [
+      [{ type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player1', decision: 'participate' } }, 'oshikatsu-decision'],
+      [{ type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } }, 'oshikatsu-goods'],
+      [{ type: 'CREATE_KAGEBUNSHIN', payload: { playerId: 'player1', kagebunshinId: 'p1-kage1' } }, 'oshikatsu-goods']
+    ];
+    const { state } = applyGameCommands(null, [initCommand(5)]);
+
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...commands),
+        fc.constantFrom<GameSession['currentPhase']>('labor', 'oshikatsu-decision', 'oshikatsu-goods', 'oshikatsu-placement', 'fansa-time', 'round-end'),
+        ([command, allowedPhase], phase) => {
+          const session = { ...state!, currentPhase: phase };
+          const result = applyGameCommand(session, command);
+          if (phase === allowedPhase) {
+            expect(result.state).not.toBe(session);
+          } else {
+            expect(result.state).toBe(session);
+            expect(result.events).toEqual([expect.objectContaining({ type: 'COMMAND_REJECTED', commandType: command.type })]);
+          }
+        }
+      )
+    );
+  });
+
+  test('スタートプレイヤーはラウンドごとに次のプレイヤーへ移り、ラウンド結果に記録される', () => {
+    const { state, events } = applyGameCommands(null, fullGameCommands(7));
+
+    expect(state!.gameState.roundHistory.map(round => round.startPlayerId)).toEqual(
+      Array.from({ length: 8 }, (_, i) => `player${(i % 2) + 1}`)
+    );
+    expect(events.filter(e => e.type === 'START_PLAYER_CHANGED')).toHaveLength(7);
+
+    // 各ラウンドの記録はスタートプレイヤーからの手番順に並ぶ
+    state!.gameState.roundHistory.forEach(round => {
+      expect(round.laborResults[0].playerId).toBe(round.startPlayerId);
+      expect(round.oshikatsuDecisions[0].playerId).toBe(round.startPlayerId);
+    });
+  });
+
+  test('フェーズが変わると手番はスタートプレイヤーに戻る', () => {
+    let { state } = applyGameCommands(null, [initCommand(9), ...roundCommands(1)]);
+    expect(state!.startPlayerIndex).toBe(1);
+    expect(state!.activePlayerIndex).toBe(1);
+
+    state = applyGameCommand(state, { type: 'NEXT_TURN' }).state;
+    expect(state!.activePlayerIndex).toBe(0);
+    state = applyGameCommand(state, { type: 'NEXT_PHASE' }).state;
+    expect(state!.activePlayerIndex).toBe(1);
+    expect(state!.turnManager.currentPlayer).toBe(1);
+  });
+
+  test('ドラフトでは手番以外のプレイヤーと選ばれたカードの選択が拒否される', () => {
+    let { state } = applyGameCommands(null, [initCommand(11)]);
+
+    const outOfTurn = applyGameCommand(state, { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-B' } });
+    expect(outOfTurn.state).toBe(state);
+    expect(outOfTurn.events[0].type).toBe('COMMAND_REJECTED');
+
+    const picked = applyGameCommand(state, { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-B' } });
+    state = picked.state;
+    expect(picked.events).toContainEqual({ type: 'TURN_CHANGED', activePlayerIndex: 1 });
+    expect(state!.activePlayerIndex).toBe(1);
+
+    const taken = applyGameCommand(state, { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-B' } });
+    expect(taken.state).toBe(state);
+    expect(taken.events[0].type).toBe('COMMAND_REJECTED');
+
+    state = applyGameCommands(state, [
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-C' } },
+      { type: 'ROLL_DICE_AND_PROCESS_LABOR' }
+    ]).state;
+    expect(state!.gameState.roundHistory[0].laborResults.map(r => [r.playerId, r.selectedCard, r.draftPick])).toEqual([
+      ['player1', 'B', 1],
+      ['player2', 'C', 2]
+    ]);
+  });
+
+  test('ドラフトなしのルールでは同じカードを順不同で選べる', () => {
+    const { state, events } = applyGameCommands(null, [
+      initCommand(13, { ...DEFAULT_RULE_SET, rewardCardDraft: false }),
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-A' } },
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } },
+      { type: 'ROLL_DICE_AND_PROCESS_LABOR' }
+    ]);
+
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    state!.gameState.roundHistory[0].laborResults.forEach(result => {
+      expect(result.selectedCard).toBe('A');
+      expect(result.draftPick).toBeUndefined();
+    });
+  });
+
+  test('グッズ購入は手番のプレイヤーが1つずつ行い、パスと完了宣言で手番が回る', () => {
+    const toGoods = roundCommands(1).slice(0, roundCommands(1).findIndex(c => c.type === 'PURCHASE_GOODS'));
+    let { state } = applyGameCommands(null, [initCommand(15), ...toGoods]);
+    expect(state!.currentPhase).toBe('oshikatsu-goods');
+    expect(state!.activePlayerIndex).toBe(0);
+
+    const outOfTurn = applyGameCommand(state, { type: 'PURCHASE_GOODS', payload: { playerId: 'player2', goodsType: 'uchiwa' } });
+    expect(outOfTurn.state).toBe(state);
+    expect(outOfTurn.events[0].type).toBe('COMMAND_REJECTED');
+
+    const purchased = applyGameCommand(state, { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } });
+    expect(purchased.events).toContainEqual({ type: 'TURN_CHANGED', activePlayerIndex: 1 });
+
+    const passed = applyGameCommand(purchased.state, { type: 'PASS_TURN', payload: { playerId: 'player2' } });
+    expect(passed.events).toEqual([
+      { type: 'TURN_PASSED', playerId: 'player2' },
+      { type: 'TURN_CHANGED', activePlayerIndex: 0 }
+    ]);
+
+    // 完了を宣言したプレイヤーは飛ばされ、以降は行動できない
+    state = applyGameCommand(passed.state, { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player1', completed: true } }).state;
+    expect(state!.activePlayerIndex).toBe(1);
+    state = applyGameCommand(state, { type: 'PASS_TURN', payload: { playerId: 'player2' } }).state;
+    expect(state!.activePlayerIndex).toBe(1);
+    expect(applyGameCommand(state, { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } }).events[0].type)
+      .toBe('COMMAND_REJECTED');
+
+    state = applyGameCommand(state, { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player2', completed: true } }).state;
+    expect(state!.turnManager.waitingForPlayers).toEqual([]);
+    expect(state!.activePlayerIndex).toBe(state!.startPlayerIndex);
+  });
+
+  test('休む選択をしたプレイヤーはグッズ購入と配置の手番を飛ばされる', () => {
+    const { state, events } = applyGameCommands(null, [
+      initCommand(17),
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } },
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-D' } },
+      { type: 'ROLL_DICE_AND_PROCESS_LABOR' },
+      { type: 'NEXT_PHASE' },
+      { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player1', decision: 'rest' } },
+      { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player2', decision: 'participate' } },
+      { type: 'REVEAL_OSHIKATSU_DECISIONS' },
+      { type: 'NEXT_PHASE' },
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player2', goodsType: 'uchiwa' } },
+      { type: 'NEXT_PHASE' }
+    ]);
+
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(state!.currentPhase).toBe('oshikatsu-placement');
+    expect(state!.activePlayerIndex).toBe(1);
+    expect(state!.turnManager.phaseActions).toEqual({ player1: true, player2: false });
+    expect(state!.turnManager.waitingForPlayers).toEqual(['player2']);
+  });
+
+  test('休む選択をしたプレイヤーはラウンド終了まで推し活の操作ができず、ファンサタイムで得点しない', () => {
+    let { state, events } = applyGameCommands(null, [
+      initCommand(21),
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } },
+      { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player2', cardId: 'card-D' } },
+      { type: 'ROLL_DICE_AND_PROCESS_LABOR' },
+      { type: 'NEXT_PHASE' },
+      { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player1', decision: 'rest' } },
+      { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId: 'player2', decision: 'participate' } },
+      { type: 'REVEAL_OSHIKATSU_DECISIONS' },
+      { type: 'NEXT_PHASE' },
+      { type: 'GENERATE_FANSERVICE_SPOT_CARDS' }
+    ]);
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+
+    const restingCommands: GameCommand[] = [
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } },
+      { type: 'CREATE_KAGEBUNSHIN', payload: { playerId: 'player1', kagebunshinId: 'p1-kage1' } },
+      { type: 'PASS_TURN', payload: { playerId: 'player1' } }
+    ];
+    restingCommands.forEach(command => {
+      const result = applyGameCommand(state, command);
+      expect(result.state).toBe(state);
+      expect(result.events[0].type).toBe('COMMAND_REJECTED');
+    });
+
+    ({ state, events } = applyGameCommands(state, [
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player2', goodsType: 'uchiwa' } },
+      { type: 'NEXT_PHASE' }
+    ]));
+    expect(applyGameCommand(state, { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: 0 } }).events[0].type)
+      .toBe('COMMAND_REJECTED');
+
+    ({ state, events } = applyGameCommands(state, [
+      { type: 'MOVE_PIECE', payload: { pieceId: 'p2-otaku1', spotId: 0 } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player2', completed: true } },
+      { type: 'NEXT_PHASE' },
+      { type: 'NEXT_PHASE' }
+    ]));
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(state!.currentPhase).toBe('oshikatsu-goods-assign');
+    expect(state!.turnManager.phaseActions.player1).toBe(true);
+    expect(applyGameCommand(state, { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'uchiwa' } }).events[0].type)
+      .toBe('COMMAND_REJECTED');
+
+    // 休むプレイヤーのオタクコマがボードに残っていても得点しない
+    const restingPiece = { id: 'p1-otaku2', playerId: 'player1', isKagebunshin: false, goods: 'penlight' as const };
+    const withLeftoverPieces: GameSession = {
+      ...state!,
+      gameState: {
+        ...state!.gameState,
+        hanamichiBoardState: {
+          spots: state!.gameState.hanamichiBoardState.spots.map(spot => ({
+            ...spot,
+            otakuPieces: [...spot.otakuPieces, { ...restingPiece, boardSpotId: spot.id }]
+          }))
+        }
+      }
+    };
+    const pointsBefore = withLeftoverPieces.players[0].points;
+    ({ state, events } = applyGameCommands(withLeftoverPieces, [
+      { type: 'NEXT_PHASE' },
+      { type: 'PROCESS_FANSA_TIME' }
+    ]));
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(state!.players[0].points).toBe(pointsBefore);
+    const fansaResults = state!.gameState.roundHistory.find(round => round.roundNumber === 1)!.fansaResults;
+    expect(fansaResults.some(result => result.playerId === 'player1')).toBe(false);
+  });
+
+  test('影分身は通常のオタクコマの配置が全員終わった後に配置する', () => {
+    const toGoods = roundCommands(1).slice(0, roundCommands(1).findIndex(c => c.type === 'PURCHASE_GOODS'));
+    let { state, events } = applyGameCommands(null, [
+      initCommand(19),
+      ...toGoods,
+      { type: 'CREATE_KAGEBUNSHIN', payload: { playerId: 'player1', kagebunshinId: 'p1-kage1' } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player2', completed: true } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player1', completed: true } },
+      { type: 'NEXT_PHASE' }
+    ]);
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(events).toContainEqual({ type: 'KAGEBUNSHIN_CREATED', playerId: 'player1', kagebunshinId: 'p1-kage1', price: 3 });
+    expect(state!.currentPhase).toBe('oshikatsu-placement');
+
+    // 通常の配置中は影分身を置けない
+    const kageTooEarly = applyGameCommand(state, { type: 'MOVE_PIECE', payload: { pieceId: 'p1-kage1', spotId: 1 } });
+    expect(kageTooEarly.events[0].type).toBe('COMMAND_REJECTED');
+
+    ({ state, events } = applyGameCommands(state, [
+      { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: 0 } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player2', completed: true } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player1', completed: true } },
+      { type: 'NEXT_PHASE' }
+    ]));
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(state!.currentPhase).toBe('oshikatsu-kagebunshin');
+    // 影分身を持たないプレイヤーは自動的に完了になる
+    expect(state!.turnManager.phaseActions).toEqual({ player1: false, player2: true });
+    expect(state!.activePlayerIndex).toBe(0);
+
+    // 影分身の配置中は通常のオタクコマを置けない
+    const regularTooLate = applyGameCommand(state, { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku2', spotId: 1 } });
+    expect(regularTooLate.events[0].type).toBe('COMMAND_REJECTED');
+
+    const placed = applyGameCommand(state, { type: 'MOVE_PIECE', payload: { pieceId: 'p1-kage1', spotId: 1 } });
+    expect(placed.events[0]).toMatchObject({ type: 'PIECE_MOVED', pieceId: 'p1-kage1', toSpotId: 1 });
+    expect(placed.state!.gameState.hanamichiBoardState.spots[1].otakuPieces.map(p => p.id)).toEqual(['p1-kage1']);
+  });
+
+  test('グッズは配置後に手持ちから自分の配置済みオタクコマへ1つずつ乗せる', () => {
+    const cheapRules: RuleSet = { ...DEFAULT_RULE_SET, goodsPrices: { uchiwa: 1, penlight: 1, sashiire: 1, kagebunshin: 1 } };
+    const toGoods = roundCommands(1).slice(0, roundCommands(1).findIndex(c => c.type === 'PURCHASE_GOODS'));
+    let { state, events } = applyGameCommands(null, [
+      initCommand(21, cheapRules),
+      ...toGoods,
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'uchiwa' } },
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player2', goodsType: 'penlight' } },
+      { type: 'PURCHASE_GOODS', payload: { playerId: 'player1', goodsType: 'sashiire' } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player2', completed: true } },
+      { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: 'player1', completed: true } },
+      { type: 'NEXT_PHASE' },
+      { type: 'MOVE_PIECE', payload: { pieceId: 'p1-otaku1', spotId: 0 } },
+      { type: 'MOVE_PIECE', payload: { pieceId: 'p2-otaku1', spotId: 3 } },
+      { type: 'NEXT_PHASE' },
+      { type: 'NEXT_PHASE' }
+    ]);
+    expect(events.some(e => e.type === 'COMMAND_REJECTED')).toBe(false);
+    expect(state!.currentPhase).toBe('oshikatsu-goods-assign');
+    expect(state!.players[0].goodsInventory).toEqual(['uchiwa', 'sashiire']);
+
+    const rejected: GameCommand[] = [
+      // 持っていないグッズ
+      { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'penlight' } },
+      // 他のプレイヤーのオタクコマ
+      { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p2-otaku1', goodsType: 'uchiwa' } },
+      // 配置していないオタクコマ
+      { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku2', goodsType: 'uchiwa' } }
+    ];
+    rejected.forEach(command => {
+      const result = applyGameCommand(state, command);
+      expect(result.state).toBe(state);
+      expect(result.events[0].type).toBe('COMMAND_REJECTED');
+    });
+
+    ({ state, events } = applyGameCommands(state, [
+      { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'uchiwa' } },
+      { type: 'ASSIGN_GOODS', payload: { playerId: 'player2', pieceId: 'p2-otaku1', goodsType: 'penlight' } }
+    ]));
+    expect(events).toEqual([
+      { type: 'GOODS_ASSIGNED', playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'uchiwa' },
+      { type: 'GOODS_ASSIGNED', playerId: 'player2', pieceId: 'p2-otaku1', goodsType: 'penlight' }
+    ]);
+    expect(state!.players[0].goodsInventory).toEqual(['sashiire']);
+    expect(state!.gameState.hanamichiBoardState.spots[0].otakuPieces[0].goods).toBe('uchiwa');
+
+    // 1つのオタクコマに乗せられるグッズは1つまで
+    const second = applyGameCommand(state, { type: 'ASSIGN_GOODS', payload: { playerId: 'player1', pieceId: 'p1-otaku1', goodsType: 'sashiire' } });
+    expect(second.state).toBe(state);
+    expect(second.events[0].type).toBe('COMMAND_REJECTED');
+  });
+
+  test('ファンサスポットカードは山札が尽きるまで同じカードが出ず、尽きたら捨て札を切り直す', () => {
+    const { state, events } = applyGameCommands(null, fullGameCommands(23));
+    const revealed = events.flatMap(e => e.type === 'FANSERVICE_CARDS_REVEALED' ? [e.cards.map(card => card.id)] : []);
+    expect(revealed).toHaveLength(8);
+
+    // 14枚の山札から3枚ずつ引くため、4ラウンド目までは同じカードが出ない
+    expect(new Set(revealed.slice(0, 4).flat()).size).toBe(12);
+    // 5ラウンド目で山札が尽きて1回だけ切り直す
+    expect(events.filter(e => e.type === 'FANSERVICE_DECK_RESHUFFLED')).toHaveLength(1);
+
+    const { fanserviceSpotCards, fanserviceDiscardPile, revealedCards } = state!.gameState;
+    const allIds = [...fanserviceSpotCards, ...(fanserviceDiscardPile ?? []), ...revealedCards].map(card => card.id);
+    expect(allIds).toHaveLength(14);
+    expect(new Set(allIds).size).toBe(14);
+  });
+
+  test('ファンサタイムでは同じスポットに止まった推しコマがすべてそのスポットに置かれる', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        const { state } = applyGameCommands(null, [initCommand(seed), ...roundCommands(1).slice(0, -1)]);
+        const { oshiPieces, hanamichiBoardState } = state!.gameState;
+
+        hanamichiBoardState.spots.forEach(spot => {
+          expect(spot.oshiPieces.map(oshi => oshi.id)).toEqual(
+            oshiPieces.filter(oshi => oshi.currentSpotId === spot.id).map(oshi => oshi.id)
+          );
+        });
+        expect(hanamichiBoardState.spots.flatMap(spot => spot.oshiPieces)).toHaveLength(3);
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
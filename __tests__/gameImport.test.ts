@@ -0,0 +1,190 @@
+/**
+ * 書き出したゲームデータの取り込みのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { ActionLog, GameCommand, GameSession, Player } from '../types/game';
+import { applyAndRecordCommand } from '../utils/actionLog';
+import {
+  saveGameToLocalStorage,
+  saveActionLog,
+  logGameAction,
+  getGameHistory,
+  getGameLogs,
+  getActionLog,
+  exportGameDataForAnalysis,
+  mergeImportedGameData,
+  serializeGameState
+} from '../utils/dataPersistence';
+import { readGameImport } from '../utils/gameImport';
+import { createMemoryBackend, createLocalStorageBackend, setStorageBackend } from '../utils/storageBackend';
+import { ERROR_MESSAGES } from '../utils/errorHandling';
+import { GameProvider, useGame } from '../contexts/GameContext';
+
+const createPlayers = (): Player[] => [1, 2].map(n => ({
+  id: `player${n}`,
+  name: `プレイヤー${n}`,
+  color: (['red', 'blue'] as const)[n - 1],
+  money: 3,
+  points: 0,
+  otakuPieces: [1, 2, 3, 4].map(i => ({ id: `p${n}-otaku${i}`, playerId: `player${n}`, isKagebunshin: false }))
+}));
+
+// 開始したゲームを、ログ・アクションログと一緒に保存する
+const playAndSave = (seed: number): GameSession => {
+  let state: GameSession | null = null;
+  let log: ActionLog | null = null;
+  const commands: GameCommand[] = [
+    { type: 'INITIALIZE_GAME', payload: { players: createPlayers(), seed, gameId: `import-${seed}`, createdAt: new Date('2024-01-01T00:00:00Z') } },
+    { type: 'SELECT_REWARD_CARD', payload: { playerId: 'player1', cardId: 'card-A' } }
+  ];
+  commands.forEach(command => {
+    ({ state, log } = applyAndRecordCommand(state, log, command));
+  });
+  saveGameToLocalStorage(state!);
+  saveActionLog(log!);
+  logGameAction(state!.id, 1, 'labor', 'LABOR_PHASE_PROCESSED', { phase: 'labor' });
+  return state!;
+};
+
+describe('ゲームデータの取り込み', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+  });
+
+  afterAll(() => {
+    setStorageBackend(createLocalStorageBackend());
+  });
+
+  test('書き出したゲームを取り込むと、同じゲームとして読み込める', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        setStorageBackend(createMemoryBackend());
+        const session = playAndSave(seed);
+
+        const { data, error } = readGameImport(exportGameDataForAnalysis());
+        expect(error).toBeNull();
+        expect(serializeGameState(data!.session!)).toBe(serializeGameState(session));
+        expect(data!.preview).toEqual(expect.objectContaining({
+          gameId: session.id,
+          players: [{ id: 'player1', name: 'プレイヤー1' }, { id: 'player2', name: 'プレイヤー2' }],
+          currentRound: session.currentRound,
+          currentPhase: session.currentPhase,
+          historyCount: 1
+        }));
+
+        // セーブデータそのもののファイルも取り込める
+        expect(readGameImport(serializeGameState(session)).data!.session).toEqual(data!.session);
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('ゲームごとの書き出しはアクションログから復元し、ログと履歴を追加できる', () => {
+    const session = playAndSave(3);
+    const exported = exportGameDataForAnalysis(session.id);
+    const actionLog = getActionLog(session.id);
+
+    const { data, error } = readGameImport(exported);
+    expect(error).toBeNull();
+    expect(serializeGameState(data!.session!)).toBe(serializeGameState(session));
+    expect(data!.preview.logCount).toBe(1);
+
+    // 別の環境に取り込む
+    setStorageBackend(createMemoryBackend());
+    expect(mergeImportedGameData(data!)).toEqual({ historyAdded: 1, logsAdded: 1, actionLogAdded: true });
+    expect(getGameHistory().map(entry => entry.gameId)).toEqual([session.id]);
+    expect(getGameLogs(session.id).map(log => log.action)).toEqual(['LABOR_PHASE_PROCESSED']);
+    expect(getActionLog(session.id)).toEqual(actionLog);
+
+    // 既にあるデータは上書きしない
+    expect(mergeImportedGameData(data!)).toEqual({ historyAdded: 0, logsAdded: 0, actionLogAdded: false });
+    expect(getGameLogs(session.id)).toHaveLength(1);
+  });
+
+  test('取り込んだゲームを読み込むと、取り込んだアクションログを引き継いで記録を続ける', async () => {
+    const session = playAndSave(5);
+    const actionLog = getActionLog(session.id)!;
+    const { data } = readGameImport(exportGameDataForAnalysis(session.id));
+
+    // 別の環境で読み込む
+    const storage = createMemoryBackend();
+    const wrapper: React.FC<{ children: React.ReactNode }> = ({ children }) =>
+      React.createElement(GameProvider, { storage, children });
+    const { result, unmount } = renderHook(() => useGame(), { wrapper });
+    await waitFor(() => expect(result.current.storageReady).toBe(true));
+
+    act(() => {
+      expect(result.current.importGame(data!.session!, data!.actionLog)).toBe(true);
+    });
+    expect(getActionLog(session.id)).toEqual(actionLog);
+
+    act(() => {
+      result.current.selectRewardCard('player2', 'card-B');
+    });
+    expect(getActionLog(session.id)!.entries.map(entry => entry.command.type)).toEqual([
+      ...actionLog.entries.map(entry => entry.command.type),
+      'SELECT_REWARD_CARD'
+    ]);
+    unmount();
+  });
+
+  test('古い形式は移行し、壊れたデータや不整合なデータは取り込まない', () => {
+    const session = playAndSave(5);
+    const { schemaVersion, rules, startPlayerIndex, ...legacy } = JSON.parse(serializeGameState(session));
+    const migrated = readGameImport(JSON.stringify({ currentGame: legacy }));
+    expect(migrated.error).toBeNull();
+    expect(migrated.data!.session!.startPlayerIndex).toBe(0);
+
+    const broken = readGameImport(JSON.stringify({ currentGame: { ...legacy, players: 'none' } }));
+    expect(broken.error).toEqual(expect.objectContaining({
+      message: ERROR_MESSAGES.DESERIALIZATION_ERROR,
+      context: expect.objectContaining({ reason: 'invalid-structure' })
+    }));
+
+    const inconsistent = readGameImport(JSON.stringify({ ...JSON.parse(serializeGameState(session)), activePlayerIndex: 5 }));
+    expect(inconsistent.error).toEqual(expect.objectContaining({
+      message: ERROR_MESSAGES.GAME_STATE_INCONSISTENCY,
+      context: expect.objectContaining({ reason: 'inconsistent' })
+    }));
+
+    expect(readGameImport('{not json').error!.context.reason).toBe('invalid-json');
+    expect(readGameImport(JSON.stringify({ timestamp: '2024-01-01', currentGame: null })).error!.message)
+      .toBe(ERROR_MESSAGES.IMPORT_NO_GAME_DATA);
+  });
+
+  test('形式が正しくない履歴やログは取り込まず、問題として報告する', () => {
+    const session = playAndSave(7);
+    const exported = JSON.parse(exportGameDataForAnalysis(session.id));
+    const [validHistory] = exported.gameHistory;
+    const [validLog] = exported.logs;
+    const { players, ...withoutPlayers } = validHistory;
+
+    const { data, error } = readGameImport(JSON.stringify({
+      ...exported,
+      gameHistory: [null, withoutPlayers, { ...validHistory, gameId: 'other', rules: { ...validHistory.rules, totalRounds: undefined } }, validHistory],
+      logs: [validLog, { ...validLog, timestamp: 'not a date' }, 3]
+    }));
+    expect(error).toBeNull();
+    expect(data!.history.map(entry => entry.gameId)).toEqual([session.id]);
+    expect(data!.logs).toHaveLength(1);
+    expect(data!.problems).toEqual([
+      'logs[1].timestamp: expected ISO date string',
+      'logs[2]: expected object',
+      'gameHistory[0]: expected object',
+      'gameHistory[1].players: expected array',
+      'gameHistory[2].rules.totalRounds: invalid value'
+    ]);
+    expect(data!.preview.historyCount).toBe(1);
+
+    // 取り込めるものが残らなければ、問題と一緒にエラーを返す
+    const empty = readGameImport(JSON.stringify({ gameHistory: [null] }));
+    expect(empty.error).toEqual(expect.objectContaining({
+      message: ERROR_MESSAGES.IMPORT_NO_GAME_DATA,
+      context: expect.objectContaining({ problems: ['gameHistory[0]: expected object'] })
+    }));
+  });
+});
@@ -6,6 +6,7 @@
 
 import fc from 'fast-check';
 import { GameSession, Player, OshikatsuDecision, GameState, TurnManager } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 
 // Test utilities
 const createTestPlayer = (id: string, name: string): Player => ({
@@ -46,9 +47,13 @@ const createTestGameSession = (players: Player[]): GameSession => {
     currentRound: 1,
     currentPhase: 'oshikatsu-decision',
     activePlayerIndex: 0,
+    startPlayerIndex: 0,
     gameState,
     turnManager,
-    createdAt: new Date()
+    createdAt: new Date(),
+    seed: 1,
+    rngState: 1,
+    rules: DEFAULT_RULE_SET
   };
 };
 
@@ -287,6 +292,7 @@ describe('Oshi-katsu Decision Phase Property Tests', () => {
 
         gameSession.gameState.roundHistory = [{
           roundNumber: 1,
+          startPlayerId: players[0].id,
           laborResults,
           oshikatsuDecisions: [],
           fansaResults: []
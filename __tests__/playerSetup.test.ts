@@ -0,0 +1,109 @@
+/**
+ * プレイヤー設定のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  PLAYER_COLORS,
+  MAX_PLAYERS,
+  PIECES_PER_PLAYER,
+  PlayerSetupEntry,
+  createDefaultSetupEntries,
+  resizeSetupEntries,
+  createPlayersFromSetup
+} from '../utils/playerSetup';
+import { validatePlayerSetup, ERROR_MESSAGES } from '../utils/errorHandling';
+import { applyGameCommand } from '../utils/gameEngine';
+
+const entryArbitrary: fc.Arbitrary<PlayerSetupEntry> = fc.record({
+  name: fc.string({ minLength: 1, maxLength: 10 }),
+  color: fc.constantFrom(...PLAYER_COLORS),
+  controller: fc.constantFrom('human' as const, 'bot' as const)
+});
+
+describe('プレイヤー設定', () => {
+  test('セットアップ入力からプレイヤーとオタクコマが作成される', () => {
+    fc.assert(
+      fc.property(fc.array(entryArbitrary, { minLength: 1, maxLength: MAX_PLAYERS }), fc.integer({ min: 0, max: 10 }), (entries, startingMoney) => {
+        const players = createPlayersFromSetup(entries, startingMoney);
+
+        expect(players).toHaveLength(entries.length);
+        players.forEach((player, i) => {
+          expect(player.id).toBe(`player${i + 1}`);
+          expect(player.name).toBe(entries[i].name.trim());
+          expect(player.color).toBe(entries[i].color);
+          expect(player.money).toBe(startingMoney);
+          expect(player.controller).toBe(entries[i].controller);
+          expect(player.botStrategy !== undefined).toBe(entries[i].controller === 'bot');
+          expect(player.otakuPieces).toHaveLength(PIECES_PER_PLAYER);
+          player.otakuPieces.forEach(piece => expect(piece.playerId).toBe(player.id));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('人数を変更しても色は重複しない', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 1, max: MAX_PLAYERS }), { minLength: 1, maxLength: 10 }), (counts) => {
+        let entries = createDefaultSetupEntries(2);
+        counts.forEach(count => {
+          entries = resizeSetupEntries(entries, count);
+          expect(entries).toHaveLength(count);
+          expect(new Set(entries.map(entry => entry.color)).size).toBe(count);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('既定の設定はエラーにならない', () => {
+    for (let count = 1; count <= MAX_PLAYERS; count++) {
+      expect(validatePlayerSetup(createPlayersFromSetup(createDefaultSetupEntries(count), 3))).toEqual([]);
+    }
+  });
+
+  test('重複した名前と色は後から入力したプレイヤーの欄にエラーが出る', () => {
+    const players = createPlayersFromSetup([
+      { name: 'あかり', color: 'red', controller: 'human' },
+      { name: 'あかり', color: 'blue', controller: 'human' },
+      { name: 'みどり', color: 'red', controller: 'bot' }
+    ], 3);
+
+    const errors = validatePlayerSetup(players);
+    expect(errors.map(error => error.context)).toEqual([
+      { playerIndex: 1, field: 'name' },
+      { playerIndex: 2, field: 'color' }
+    ]);
+    expect(errors[1].message).toBe(ERROR_MESSAGES.DUPLICATE_PLAYER_COLOR);
+  });
+
+  test('範囲外のスタートプレイヤーはエラーになる', () => {
+    const players = createPlayersFromSetup(createDefaultSetupEntries(3), 3);
+
+    expect(validatePlayerSetup(players, 2)).toEqual([]);
+    [-1, 3, 1.5].forEach(startPlayerIndex => {
+      const errors = validatePlayerSetup(players, startPlayerIndex);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe(ERROR_MESSAGES.INVALID_START_PLAYER);
+    });
+  });
+
+  test('ゲーム開始時にスタートプレイヤーの手番から始まる', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: MAX_PLAYERS }), fc.nat(), (count, n) => {
+        const startPlayerIndex = n % count;
+        const players = createPlayersFromSetup(createDefaultSetupEntries(count), 3);
+        const session = applyGameCommand(null, {
+          type: 'INITIALIZE_GAME',
+          payload: { players, seed: 1, gameId: 'setup-test', createdAt: new Date('2024-01-01T00:00:00Z'), startPlayerIndex }
+        }).state!;
+
+        expect(session.activePlayerIndex).toBe(startPlayerIndex);
+        expect(session.turnManager.currentPlayer).toBe(startPlayerIndex);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
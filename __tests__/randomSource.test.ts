@@ -0,0 +1,120 @@
+/**
+ * シード付き乱数生成器のプロパティベーステスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { createSeededRandom, randomInt, shuffleArray } from '../utils/random';
+import {
+  rollDice,
+  createAllFanserviceSpotCards,
+  prepareOshikatsuPhaseCards,
+  processFansaTime
+} from '../utils/gameLogic';
+
+const seedArbitrary = fc.nat();
+
+describe('シード付き乱数生成器 プロパティベーステスト', () => {
+  test('同じシードからは同じ乱数列が生成される', () => {
+    fc.assert(
+      fc.property(seedArbitrary, (seed) => {
+        const rngA = createSeededRandom(seed);
+        const rngB = createSeededRandom(seed);
+
+        for (let i = 0; i < 20; i++) {
+          expect(rngA.next()).toBe(rngB.next());
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('乱数は0以上1未満の範囲に収まる', () => {
+    fc.assert(
+      fc.property(seedArbitrary, (seed) => {
+        const rng = createSeededRandom(seed);
+
+        for (let i = 0; i < 50; i++) {
+          const value = rng.next();
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('保存した内部状態から乱数列を再開できる', () => {
+    fc.assert(
+      fc.property(seedArbitrary, fc.integer({ min: 0, max: 20 }), (seed, consumed) => {
+        const original = createSeededRandom(seed);
+        for (let i = 0; i < consumed; i++) {
+          original.next();
+        }
+
+        const resumed = createSeededRandom(original.getState());
+        for (let i = 0; i < 10; i++) {
+          expect(resumed.next()).toBe(original.next());
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('shuffleArray は元の配列を変更せず並べ替えのみを行う', () => {
+    fc.assert(
+      fc.property(seedArbitrary, fc.array(fc.integer(), { maxLength: 30 }), (seed, items) => {
+        const original = [...items];
+        const shuffled = shuffleArray(items, createSeededRandom(seed));
+
+        expect(items).toEqual(original);
+        expect([...shuffled].sort((a, b) => a - b)).toEqual([...items].sort((a, b) => a - b));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('shuffleArray は全ての並びをほぼ均等に生成する', () => {
+    const rng = createSeededRandom(12345);
+    const counts = new Map<string, number>();
+    const trials = 6000;
+
+    for (let i = 0; i < trials; i++) {
+      const key = shuffleArray([1, 2, 3], rng).join('');
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    // 3! = 6通りがそれぞれ期待値1000回の±15%以内
+    expect(counts.size).toBe(6);
+    counts.forEach(count => {
+      expect(count).toBeGreaterThan(850);
+      expect(count).toBeLessThan(1150);
+    });
+  });
+
+  test('randomInt は範囲外の上限を拒否する', () => {
+    const rng = createSeededRandom(1);
+    expect(() => randomInt(rng, 0)).toThrow('Invalid range: 0');
+    expect(() => randomInt(rng, 1.5)).toThrow('Invalid range: 1.5');
+  });
+
+  test('同じシードでゲームの乱数結果が再現される', () => {
+    fc.assert(
+      fc.property(seedArbitrary, (seed) => {
+        const allCards = createAllFanserviceSpotCards();
+        const board = { spots: [] };
+
+        const run = () => {
+          const rng = createSeededRandom(seed);
+          const laborDice = rollDice(rng);
+          const cards = prepareOshikatsuPhaseCards(allCards, rng);
+          const fansa = processFansaTime(cards, board, [], rng);
+          return { laborDice, cards, diceResults: fansa.diceResults };
+        };
+
+        expect(run()).toEqual(run());
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
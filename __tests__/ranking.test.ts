@@ -0,0 +1,160 @@
+/**
+ * 最終順位とタイブレークのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { Player, RoundResult, TieBreaker } from '../types/game';
+import {
+  TIE_BREAKERS,
+  PlayerRankingStats,
+  collectRankingStats,
+  rankPlayers,
+  describeTieBreak
+} from '../utils/ranking';
+import { calculateFansaPoints } from '../utils/gameLogic';
+
+const statsArbitrary: fc.Arbitrary<PlayerRankingStats[]> = fc.array(
+  fc.record({
+    points: fc.integer({ min: 0, max: 3 }),
+    money: fc.integer({ min: 0, max: 3 }),
+    fansaHits: fc.integer({ min: 0, max: 3 }),
+    rests: fc.integer({ min: 0, max: 3 })
+  }),
+  { minLength: 1, maxLength: 4 }
+).map(entries => entries.map((entry, i) => ({ ...entry, playerId: `player${i + 1}`, playerName: `プレイヤー${i + 1}` })));
+
+// 重複なく並べ、同順位（shared）は最後にのみ置いたタイブレーク
+const tieBreakersArbitrary: fc.Arbitrary<TieBreaker[]> = fc
+  .shuffledSubarray(TIE_BREAKERS.filter(breaker => breaker !== 'shared'))
+  .chain(breakers => fc.boolean().map(shared => shared ? [...breakers, 'shared' as const] : breakers));
+
+const compareBy = (a: PlayerRankingStats, b: PlayerRankingStats, breaker: TieBreaker): number => {
+  switch (breaker) {
+    case 'money':
+      return b.money - a.money;
+    case 'fansa-hits':
+      return b.fansaHits - a.fansaHits;
+    case 'fewest-rests':
+      return a.rests - b.rests;
+    case 'shared':
+      return 0;
+  }
+};
+
+// 得点→タイブレークの順で比べる（0なら同順位）
+const compareRanking = (a: PlayerRankingStats, b: PlayerRankingStats, tieBreakers: TieBreaker[]): number => {
+  if (a.points !== b.points) return b.points - a.points;
+  for (const breaker of tieBreakers) {
+    if (breaker === 'shared') return 0;
+    const result = compareBy(a, b, breaker);
+    if (result !== 0) return result;
+  }
+  return 0;
+};
+
+describe('最終順位', () => {
+  test('順位は得点とタイブレークの比較と一致し、同順位は最後まで同点の場合のみ', () => {
+    fc.assert(
+      fc.property(statsArbitrary, tieBreakersArbitrary, (stats, tieBreakers) => {
+        const ranking = rankPlayers(stats, tieBreakers);
+        expect(ranking.map(player => player.playerId).sort()).toEqual(stats.map(player => player.playerId).sort());
+
+        ranking.forEach(player => {
+          // 順位は自分より上位のプレイヤーの人数 + 1（1位〜4位、同順位あり）
+          const ahead = ranking.filter(other => compareRanking(other, player, tieBreakers) < 0).length;
+          expect(player.rank).toBe(ahead + 1);
+
+          // 同点の相手がいる場合のみ、順位を決めたタイブレークが記録される
+          const tiedOnPoints = ranking.filter(other => other.playerId !== player.playerId && other.points === player.points);
+          expect(player.tieBreak?.tiedWith.slice().sort()).toEqual(tiedOnPoints.length > 0 ? tiedOnPoints.map(other => other.playerId).sort() : undefined);
+          const sharesRank = tiedOnPoints.some(other => other.rank === player.rank);
+          if (player.tieBreak) {
+            expect(player.tieBreak.decidedBy === 'shared').toBe(sharesRank);
+          }
+        });
+
+        // 並びは順位順
+        ranking.slice(1).forEach((player, i) => expect(player.rank).toBeGreaterThanOrEqual(ranking[i].rank));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  test('タイブレークは設定した順に適用され、説明に決め手が表示される', () => {
+    const stats: PlayerRankingStats[] = [
+      { playerId: 'player1', playerName: 'あかり', points: 10, money: 2, fansaHits: 5, rests: 1 },
+      { playerId: 'player2', playerName: 'みどり', points: 10, money: 4, fansaHits: 3, rests: 0 },
+      { playerId: 'player3', playerName: 'あおい', points: 10, money: 4, fansaHits: 3, rests: 2 },
+      { playerId: 'player4', playerName: 'きいろ', points: 12, money: 0, fansaHits: 6, rests: 0 }
+    ];
+
+    const byMoney = rankPlayers(stats, ['money', 'fewest-rests']);
+    expect(byMoney.map(player => [player.playerId, player.rank])).toEqual([
+      ['player4', 1], ['player2', 2], ['player3', 3], ['player1', 4]
+    ]);
+    expect(byMoney[0].tieBreak).toBeUndefined();
+    expect(byMoney.find(player => player.playerId === 'player1')!.tieBreak!.decidedBy).toBe('money');
+    expect(byMoney.find(player => player.playerId === 'player2')!.tieBreak!.decidedBy).toBe('fewest-rests');
+    expect(describeTieBreak(byMoney[1], byMoney)).toBe('あかり・あおいと同点（10ポイント）のため休んだ回数の少なさで決定（休み0回）');
+
+    const shared = rankPlayers(stats, ['money', 'shared']);
+    expect(shared.map(player => [player.playerId, player.rank])).toEqual([
+      ['player4', 1], ['player2', 2], ['player3', 2], ['player1', 4]
+    ]);
+    expect(describeTieBreak(shared[1], shared)).toBe('あかり・あおいと同点（10ポイント）のため同順位');
+  });
+
+  test('ファンサ獲得回数と休んだ回数はラウンド履歴から集計される', () => {
+    const players = [1, 2].map(n => ({
+      id: `player${n}`, name: `プレイヤー${n}`, color: 'red', money: n, points: 5, otakuPieces: []
+    })) as Player[];
+    const round = (roundNumber: number, restingPlayerId: string | null, hits: { [playerId: string]: number }): RoundResult => ({
+      roundNumber,
+      startPlayerId: 'player1',
+      laborResults: [],
+      oshikatsuDecisions: players.map(player => ({ playerId: player.id, decision: player.id === restingPlayerId ? 'rest' : 'participate' })),
+      // グッズのボーナスの内訳行は得点回数に数えない
+      fansaResults: Object.entries(hits).map(([playerId, count]) => ({
+        playerId,
+        pointsEarned: count * 2,
+        breakdown: Array.from({ length: count }, () => ['推しA目の前: 1ポイント', '推しA隣接(うちわ): 1ポイント']).flat(),
+        hits: count
+      }))
+    });
+
+    const stats = collectRankingStats(players, [
+      round(1, 'player1', { player2: 2 }),
+      round(2, null, { player1: 1, player2: 1 }),
+      round(3, 'player1', {})
+    ]);
+    expect(stats).toEqual([
+      { playerId: 'player1', playerName: 'プレイヤー1', points: 5, money: 1, fansaHits: 1, rests: 2 },
+      { playerId: 'player2', playerName: 'プレイヤー2', points: 5, money: 2, fansaHits: 3, rests: 0 }
+    ]);
+
+    // 得点回数の記録前のラウンドは、得点したかどうかで数える
+    const legacyRound = { ...round(4, null, {}), fansaResults: [{ playerId: 'player1', pointsEarned: 3, breakdown: ['a', 'b', 'c'] }] };
+    expect(collectRankingStats(players, [legacyRound])[0].fansaHits).toBe(1);
+  });
+
+  test('基本ポイントとグッズのボーナスは、同じ推しなら1回の得点として数える', () => {
+    // 推しAはスポット1、推しBはスポット6
+    const pieces = [
+      { id: 'p1-a', playerId: 'player1', boardSpotId: 1, goods: 'uchiwa' },
+      { id: 'p1-b', playerId: 'player1', boardSpotId: 0, goods: 'uchiwa' },  // 推しAの隣（うちわ）
+      { id: 'p1-c', playerId: 'player1', boardSpotId: 2, goods: 'penlight' }, // 推しBの向かい側（ペンライト）
+      { id: 'p2-a', playerId: 'player2', boardSpotId: 5, goods: 'uchiwa' }   // 推しAの隣・推しBの隣（うちわのみ）
+    ];
+    const boardState = {
+      spots: Array.from({ length: 8 }, (_, id) => ({ id, otakuPieces: pieces.filter(piece => piece.boardSpotId === id) }))
+    };
+
+    const results = calculateFansaPoints([{ oshiId: 'A', spotId: 1 }, { oshiId: 'B', spotId: 6 }], boardState, pieces);
+    const player1 = results.find(result => result.playerId === 'player1')!;
+    const player2 = results.find(result => result.playerId === 'player2')!;
+    expect(player1.breakdown.length).toBeGreaterThan(player1.hits);
+    expect(player1.hits).toBe(2);
+    expect(player2.hits).toBe(2);
+  });
+});
@@ -1,5 +1,6 @@
 import { isGameComplete, calculateFinalResults, cleanupRoundEnd, getNextGameState } from '../utils/gameLogic';
 import { Player, GamePhase } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 
 describe('Round Management', () => {
   const createTestPlayers = (): Player[] => [
@@ -74,10 +75,23 @@ describe('Round Management', () => {
       const players = createTestPlayers();
       players[0].points = 15; // 同点にする
 
-      const results = calculateFinalResults(players);
+      // 同順位のルールでは同点のプレイヤー全員が勝者
+      const results = calculateFinalResults(players, { ...DEFAULT_RULE_SET, tieBreakers: ['shared'] });
 
       expect(results.winners).toHaveLength(2);
       expect(results.winners.every(w => w.totalPoints === 15)).toBe(true);
+      expect(results.finalScores.map(score => score.rank)).toEqual([1, 1]);
+    });
+
+    test('should break ties by remaining money', () => {
+      const players = createTestPlayers();
+      players[0].points = 15; // 同点にする（残り資金はプレイヤー1が多い）
+
+      const results = calculateFinalResults(players, { ...DEFAULT_RULE_SET, tieBreakers: ['money', 'shared'] });
+
+      expect(results.winners.map(w => w.playerName)).toEqual(['プレイヤー1']);
+      expect(results.finalScores.map(score => score.rank)).toEqual([1, 2]);
+      expect(results.finalScores[0].tieBreak).toEqual({ tiedWith: ['player2'], decidedBy: 'money' });
     });
   });
 
@@ -105,16 +119,16 @@ describe('Round Management', () => {
       expect(cleanedPlayers[0].oshikatsuDecision).toBeUndefined();
     });
 
-    test('should preserve goods on otaku pieces', () => {
+    test('should discard goods on otaku pieces and in hand', () => {
       const players = createTestPlayers();
+      players[1].goodsInventory = ['sashiire'];
       const cleanedPlayers = cleanupRoundEnd(players);
 
-      // グッズは保持される
-      const player1Piece = cleanedPlayers[0].otakuPieces.find(p => p.id === 'p1-otaku1');
-      expect(player1Piece?.goods).toBe('uchiwa');
-
-      const player2Piece = cleanedPlayers[1].otakuPieces.find(p => p.id === 'p2-otaku1');
-      expect(player2Piece?.goods).toBe('penlight');
+      // グッズは次のラウンドに持ち越さない
+      cleanedPlayers.forEach(player => {
+        expect(player.otakuPieces.every(piece => piece.goods === undefined)).toBe(true);
+        expect(player.goodsInventory).toEqual([]);
+      });
     });
   });
 
@@ -0,0 +1,209 @@
+/**
+ * ラウンド終了時の精算パイプラインのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { GameSession, GoodsType, Player } from '../types/game';
+import { applyGameCommand, applyGameCommands } from '../utils/gameEngine';
+import { ROUND_SETTLEMENT_STEPS, settleRound, isRoundSettled } from '../utils/roundSettlement';
+import { createAllFanserviceSpotCards, calculateFinalResults } from '../utils/gameLogic';
+
+const goodsArbitrary = fc.constantFrom<GoodsType>('uchiwa', 'penlight', 'sashiire');
+
+const createPlayers = (): Player[] => [1, 2, 3].map(n => ({
+  id: `player${n}`,
+  name: `プレイヤー${n}`,
+  color: (['red', 'blue', 'green'] as const)[n - 1],
+  money: 3,
+  points: 0,
+  otakuPieces: [
+    { id: `p${n}-otaku1`, playerId: `player${n}`, isKagebunshin: false },
+    { id: `p${n}-otaku2`, playerId: `player${n}`, isKagebunshin: false }
+  ]
+}));
+
+const initialSession = (round: number, startPlayerIndex: number): GameSession => {
+  const session = applyGameCommand(null, {
+    type: 'INITIALIZE_GAME',
+    payload: { players: createPlayers(), seed: 5, gameId: 'settlement-test', createdAt: new Date('2024-01-01T00:00:00Z'), startPlayerIndex }
+  }).state!;
+  return { ...session, currentRound: round, currentPhase: 'round-end' };
+};
+
+// ラウンド終了時点の状態（配置済みのオタクコマと影分身、グッズ、推しコマ、公開中のカード）を作る
+const endOfRoundSession = (
+  round: number,
+  startPlayerIndex: number,
+  points: number[],
+  goods: (GoodsType | null)[],
+  inventory: GoodsType[],
+  money: number[] = [3, 3, 3]
+): GameSession => {
+  const session = initialSession(round, startPlayerIndex);
+  const players = session.players.map((player, i) => ({
+    ...player,
+    points: points[i],
+    money: money[i],
+    goodsInventory: i === 0 ? inventory : [],
+    otakuPieces: [
+      ...player.otakuPieces.map((piece, j) => ({ ...piece, boardSpotId: i * 2 + j, goods: goods[i * 2 + j] ?? undefined })),
+      { id: `${player.id}-kage`, playerId: player.id, isKagebunshin: true, boardSpotId: 7, goods: goods[6] ?? undefined }
+    ]
+  }));
+  const spots = session.gameState.hanamichiBoardState.spots.map(spot => ({
+    ...spot,
+    otakuPieces: players.flatMap(player => player.otakuPieces.filter(piece => piece.boardSpotId === spot.id)),
+    oshiPieces: spot.id === 3 ? [{ id: 'A' as const, currentSpotId: 3 }] : []
+  }));
+  const allCards = createAllFanserviceSpotCards();
+
+  return {
+    ...session,
+    players,
+    gameState: {
+      ...session.gameState,
+      hanamichiBoardState: { spots },
+      oshiPieces: session.gameState.oshiPieces.map(oshi => oshi.id === 'A' ? { ...oshi, currentSpotId: 3 } : oshi),
+      fanserviceSpotCards: allCards.slice(3),
+      revealedCards: allCards.slice(0, 3),
+      fanserviceDiscardPile: [],
+      roundHistory: [{
+        roundNumber: round,
+        startPlayerId: players[startPlayerIndex].id,
+        laborResults: [],
+        oshikatsuDecisions: [],
+        fansaResults: []
+      }]
+    }
+  };
+};
+
+const sessionArbitrary = fc.record({
+  round: fc.integer({ min: 1, max: 8 }),
+  startPlayerIndex: fc.integer({ min: 0, max: 2 }),
+  points: fc.array(fc.integer({ min: 0, max: 20 }), { minLength: 3, maxLength: 3 }),
+  goods: fc.array(fc.option(goodsArbitrary, { nil: null }), { minLength: 7, maxLength: 7 }),
+  inventory: fc.array(goodsArbitrary, { maxLength: 2 }),
+  money: fc.array(fc.integer({ min: 0, max: 3 }), { minLength: 3, maxLength: 3 })
+}).map(({ round, startPlayerIndex, points, goods, inventory, money }) =>
+  endOfRoundSession(round, startPlayerIndex, points, goods, inventory, money)
+);
+
+describe('ラウンド終了時の精算', () => {
+  test('精算の手順は決まった順番で適用され、それぞれイベントを発行する', () => {
+    expect(ROUND_SETTLEMENT_STEPS.map(step => step.name)).toEqual([
+      'discard-goods',
+      'remove-kagebunshin',
+      'clear-board',
+      'rotate-start-player',
+      'finalize-round-result',
+      'snapshot-standings'
+    ]);
+
+    const session = endOfRoundSession(1, 0, [3, 5, 3], ['uchiwa', null, 'penlight', null, 'sashiire', null, 'uchiwa'], ['penlight']);
+    const { events } = settleRound(session);
+    expect(events.map(event => event.type)).toEqual([
+      'ROUND_GOODS_DISCARDED',
+      'KAGEBUNSHIN_REMOVED',
+      'BOARD_CLEARED',
+      'START_PLAYER_CHANGED',
+      'ROUND_RESULT_FINALIZED',
+      'STANDINGS_SNAPSHOT_TAKEN'
+    ]);
+    expect(events[0]).toEqual({
+      type: 'ROUND_GOODS_DISCARDED',
+      roundNumber: 1,
+      discardedGoods: [
+        { playerId: 'player1', goods: ['uchiwa', 'uchiwa', 'penlight'] },
+        { playerId: 'player2', goods: ['penlight', 'uchiwa'] },
+        { playerId: 'player3', goods: ['sashiire', 'uchiwa'] }
+      ]
+    });
+    expect(events[1]).toEqual({ type: 'KAGEBUNSHIN_REMOVED', roundNumber: 1, pieceIds: ['player1-kage', 'player2-kage', 'player3-kage'] });
+    expect(events[2]).toEqual({ type: 'BOARD_CLEARED', roundNumber: 1, discardedCardCount: 3 });
+    expect(events[5]).toEqual({
+      type: 'STANDINGS_SNAPSHOT_TAKEN',
+      roundNumber: 1,
+      standings: [
+        { playerId: 'player1', points: 3, money: 3, rank: 2 },
+        { playerId: 'player2', points: 5, money: 3, rank: 1 },
+        { playerId: 'player3', points: 3, money: 3, rank: 2 }
+      ]
+    });
+  });
+
+  test('精算後はグッズ・影分身・ボード上のコマが残らず、次のラウンドのスタートプレイヤーに交代する', () => {
+    fc.assert(
+      fc.property(sessionArbitrary, (session) => {
+        const { state } = settleRound(session);
+        const isFinalRound = session.currentRound === session.rules.totalRounds;
+
+        state.players.forEach(player => {
+          expect(player.goodsInventory).toEqual([]);
+          expect(player.otakuPieces).toHaveLength(2);
+          player.otakuPieces.forEach(piece => {
+            expect(piece.isKagebunshin).toBe(false);
+            expect(piece.goods).toBeUndefined();
+            expect(piece.boardSpotId).toBeUndefined();
+          });
+        });
+        state.gameState.hanamichiBoardState.spots.forEach(spot => {
+          expect(spot.otakuPieces).toEqual([]);
+          expect(spot.oshiPieces).toEqual([]);
+        });
+        expect(state.gameState.oshiPieces.every(oshi => oshi.currentSpotId === undefined)).toBe(true);
+        expect(state.gameState.revealedCards).toEqual([]);
+        expect(state.gameState.fanserviceDiscardPile).toHaveLength(3);
+
+        // 最終ラウンドでは次のラウンドがないため交代しない
+        expect(state.startPlayerIndex).toBe(isFinalRound ? session.startPlayerIndex : (session.startPlayerIndex + 1) % 3);
+
+        // ラウンド結果は確定し、精算前のスタートプレイヤーからの順に順位が記録される
+        const result = state.gameState.roundHistory.find(round => round.roundNumber === session.currentRound)!;
+        expect(result.finalized).toBe(true);
+        expect(result.standings!.map(standing => standing.playerId)[0]).toBe(session.players[session.startPlayerIndex].id);
+        // 順位はタイブレークも含めて最終順位と同じ決め方で付ける
+        const { ranking } = calculateFinalResults(state.players, state.rules, state.gameState.roundHistory);
+        result.standings!.forEach(standing => {
+          expect(standing.rank).toBe(ranking.find(ranked => ranked.playerId === standing.playerId)!.rank);
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('精算済みのラウンドは二重に精算されない', () => {
+    fc.assert(
+      fc.property(sessionArbitrary, (session) => {
+        expect(isRoundSettled(session)).toBe(false);
+        const settled = settleRound(session).state;
+        expect(isRoundSettled(settled)).toBe(true);
+
+        const again = settleRound(settled);
+        expect(again.state).toBe(settled);
+        expect(again.events).toEqual([]);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('END_ROUND とラウンド終了フェーズからの NEXT_PHASE は同じ精算を一度だけ行う', () => {
+    const session = endOfRoundSession(2, 1, [4, 1, 6], ['uchiwa', 'penlight', null, null, 'sashiire', null, null], []);
+    const viaNextPhase = applyGameCommand(session, { type: 'NEXT_PHASE' });
+    const viaEndRound = applyGameCommands({ ...session, currentPhase: 'fansa-time' }, [
+      { type: 'END_ROUND' },
+      { type: 'NEXT_PHASE' }
+    ]);
+
+    const settlementEvents = settleRound(session).events;
+    expect(viaNextPhase.events.slice(0, settlementEvents.length)).toEqual(settlementEvents);
+    expect(viaEndRound.events.slice(0, settlementEvents.length)).toEqual(settlementEvents);
+    expect(viaEndRound.events.filter(event => event.type === 'START_PLAYER_CHANGED')).toHaveLength(1);
+
+    expect(viaEndRound.state!.currentPhase).toBe('labor');
+    expect(viaEndRound.state!.players).toEqual(viaNextPhase.state!.players);
+    expect(viaEndRound.state!.startPlayerIndex).toBe(2);
+    expect(viaEndRound.state!.gameState).toEqual(viaNextPhase.state!.gameState);
+  });
+});
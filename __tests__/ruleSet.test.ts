@@ -0,0 +1,95 @@
+/**
+ * ルール設定のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { DEFAULT_RULE_SET, RULE_SET_PRESETS, getRuleSetPreset } from '../utils/ruleSet';
+import { validateRuleSet } from '../utils/errorHandling';
+import { calculateBasicPoints, applySashiireBonus, mapDiceToFanserviceSpot, isGameComplete } from '../utils/gameLogic';
+import { simulateGame } from '../utils/balanceSimulator';
+import { randomStrategy, expectedValueStrategy } from '../utils/botPlayer';
+import { RuleSet } from '../types/game';
+
+describe('ルール設定', () => {
+  test('全てのプリセットがバリデーションを通過する', () => {
+    RULE_SET_PRESETS.forEach(preset => {
+      expect(validateRuleSet(preset)).toEqual([]);
+    });
+    expect(getRuleSetPreset('standard')).toBe(DEFAULT_RULE_SET);
+    expect(getRuleSetPreset('unknown')).toBeUndefined();
+  });
+
+  test('範囲外の値を含むルール設定は拒否される', () => {
+    const invalidRules: RuleSet[] = [
+      { ...DEFAULT_RULE_SET, totalRounds: 0 },
+      { ...DEFAULT_RULE_SET, spotCapacity: 0 },
+      { ...DEFAULT_RULE_SET, goodsPrices: { ...DEFAULT_RULE_SET.goodsPrices, uchiwa: -1 } },
+      { ...DEFAULT_RULE_SET, diceToSpotIndex: [0, 1, 2] as unknown as RuleSet['diceToSpotIndex'] },
+      { ...DEFAULT_RULE_SET, sashiireMultiplier: 0 },
+      { ...DEFAULT_RULE_SET, rewardCards: [] },
+      { ...DEFAULT_RULE_SET, rewardCards: [DEFAULT_RULE_SET.rewardCards[0], DEFAULT_RULE_SET.rewardCards[0]] },
+      { ...DEFAULT_RULE_SET, rewardCards: DEFAULT_RULE_SET.rewardCards.slice(0, 3) },
+      { ...DEFAULT_RULE_SET, tieBreakers: ['money', 'money'] },
+      { ...DEFAULT_RULE_SET, tieBreakers: ['shared', 'money'] }
+    ];
+
+    invalidRules.forEach(rules => {
+      const errors = validateRuleSet(rules);
+      expect(errors.length).toBeGreaterThan(0);
+      errors.forEach(error => expect(error.type).toBe('validation'));
+    });
+
+    // ドラフトしないルールなら4枚未満のカードでもよい
+    expect(validateRuleSet({ ...DEFAULT_RULE_SET, rewardCards: DEFAULT_RULE_SET.rewardCards.slice(0, 3), rewardCardDraft: false })).toEqual([]);
+  });
+
+  test('基本ポイントはルールの値をスポットの人数で山分けする', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 100 }), fc.integer({ min: 1, max: 6 }), (basePoints, pieceCount) => {
+        const rules = { ...DEFAULT_RULE_SET, basePoints, spotCapacity: 6 };
+        const pieces = Array.from({ length: pieceCount }, (_, i) => ({ id: `piece${i}`, playerId: `player${i}`, isKagebunshin: false }));
+
+        const results = calculateBasicPoints(0, pieces, rules);
+        expect(results.reduce((sum, result) => sum + result.points, 0)).toBe(basePoints);
+        results.forEach(result => {
+          expect(result.points).toBeGreaterThanOrEqual(Math.floor(basePoints / pieceCount));
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('差し入れの倍率とサイコロの対応表がルールに従う', () => {
+    const rules: RuleSet = { ...DEFAULT_RULE_SET, sashiireMultiplier: 3, diceToSpotIndex: [2, 2, 2, 0, 0, 1] };
+    const pieces = [{ id: 'piece1', playerId: 'player1', isKagebunshin: false, goods: 'sashiire' as const }];
+
+    expect(applySashiireBonus(0, pieces, [{ playerId: 'player1', points: 2 }], rules)[0].points).toBe(6);
+    expect(mapDiceToFanserviceSpot(1, rules)).toBe(2);
+    expect(mapDiceToFanserviceSpot(6, rules)).toBe(1);
+  });
+
+  test('短縮ルールのゲームは指定ラウンド数で終了する', () => {
+    const shortRules = getRuleSetPreset('short')!;
+    const session = simulateGame(42, [randomStrategy, expectedValueStrategy], shortRules.startingMoney, 4, shortRules);
+
+    expect(session.rules).toEqual(shortRules);
+    expect(session.currentPhase).toBe('game-end');
+    expect(session.gameState.roundHistory).toHaveLength(shortRules.totalRounds);
+    expect(isGameComplete(shortRules.totalRounds, 'round-end', shortRules)).toBe(true);
+    expect(isGameComplete(shortRules.totalRounds, 'round-end', DEFAULT_RULE_SET)).toBe(false);
+  });
+
+  test('スポットの定員を超えて配置されない', () => {
+    const crowdedRules = getRuleSetPreset('crowded')!;
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 10000 }), (seed) => {
+        const session = simulateGame(seed, [randomStrategy, randomStrategy, randomStrategy, randomStrategy], crowdedRules.startingMoney, 4, crowdedRules);
+        session.gameState.hanamichiBoardState.spots.forEach(spot => {
+          expect(spot.otakuPieces.length).toBeLessThanOrEqual(crowdedRules.spotCapacity);
+        });
+      }),
+      { numRuns: 10 }
+    );
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * ルールバリアントの保存とゲーム履歴への記録のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  saveRuleVariant,
+  getRuleVariants,
+  deleteRuleVariant,
+  getAvailableRuleSets,
+  updateGameHistory,
+  getGameHistory,
+  summarizeGameHistoryByRuleSet,
+  clearAllGameData
+} from '../utils/dataPersistence';
+import { DEFAULT_RULE_SET, RULE_SET_PRESETS, getRuleSetPreset } from '../utils/ruleSet';
+import { simulateGame } from '../utils/balanceSimulator';
+import { randomStrategy } from '../utils/botPlayer';
+import { RuleSet } from '../types/game';
+
+const createVariant = (id: string, changes: Partial<RuleSet> = {}): RuleSet => ({
+  ...DEFAULT_RULE_SET,
+  id,
+  name: `バリアント ${id}`,
+  ...changes
+});
+
+describe('ルールバリアント', () => {
+  beforeEach(() => {
+    clearAllGameData();
+  });
+
+  test('保存したバリアントを読み込める', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.integer({ min: 1, max: 100 }),
+        fc.integer({ min: 1, max: 16 }),
+        (totalRounds, basePoints, spotCapacity) => {
+          clearAllGameData();
+          const variant = createVariant('variant-1', { totalRounds, basePoints, spotCapacity });
+          saveRuleVariant(variant);
+
+          expect(getRuleVariants()).toEqual([variant]);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('同じIDのバリアントは上書きされ、削除もできる', () => {
+    saveRuleVariant(createVariant('variant-1'));
+    saveRuleVariant(createVariant('variant-2'));
+    saveRuleVariant(createVariant('variant-1', { totalRounds: 3 }));
+
+    expect(getRuleVariants()).toHaveLength(2);
+    expect(getRuleVariants().find(v => v.id === 'variant-1')!.totalRounds).toBe(3);
+    expect(getAvailableRuleSets()).toHaveLength(RULE_SET_PRESETS.length + 2);
+
+    deleteRuleVariant('variant-1');
+    expect(getRuleVariants().map(v => v.id)).toEqual(['variant-2']);
+  });
+
+  test('プリセットは上書きできない', () => {
+    expect(() => saveRuleVariant({ ...DEFAULT_RULE_SET, totalRounds: 3 })).toThrow('Cannot overwrite preset rule set');
+    expect(getRuleVariants()).toEqual([]);
+  });
+
+  test('ゲーム履歴にプレイしたバリアントが記録される', () => {
+    const variant = createVariant('variant-short', { totalRounds: 2 });
+    const session = simulateGame(5, [randomStrategy, randomStrategy], variant.startingMoney, 4, variant);
+    updateGameHistory(session);
+
+    const [entry] = getGameHistory();
+    expect(entry.rules).toEqual(variant);
+    expect(entry.gameStatus).toBe('completed');
+    expect(entry.finalScores).toHaveLength(2);
+  });
+
+  test('ゲーム結果をバリアントごとに集計できる', () => {
+    const shortRules = getRuleSetPreset('short')!;
+    [1, 2, 3].forEach(seed => updateGameHistory(simulateGame(seed, [randomStrategy, randomStrategy])));
+    [4, 5].forEach(seed => updateGameHistory(simulateGame(seed, [randomStrategy, randomStrategy], shortRules.startingMoney, 4, shortRules)));
+
+    const summaries = summarizeGameHistoryByRuleSet();
+    const standard = summaries.find(s => s.ruleSetId === DEFAULT_RULE_SET.id)!;
+    const short = summaries.find(s => s.ruleSetId === 'short')!;
+
+    expect(standard.gamesCompleted).toBe(3);
+    expect(short.gamesCompleted).toBe(2);
+    expect(short.averageWinningScore).toBeGreaterThanOrEqual(short.averageScore);
+  });
+
+  test('バリアント記録前の履歴は標準ルールとして読み込まれる', () => {
+    localStorage.setItem('oshi-game-history', JSON.stringify([{
+      gameId: 'old-game',
+      startTime: new Date().toISOString(),
+      players: [],
+      totalRounds: 8,
+      gameStatus: 'completed'
+    }]));
+
+    expect(getGameHistory()[0].rules).toEqual(DEFAULT_RULE_SET);
+  });
+});
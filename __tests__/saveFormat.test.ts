@@ -0,0 +1,200 @@
+/**
+ * セーブデータの形式（バージョンと移行、構造の検証）のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { GameError, Player } from '../types/game';
+import { applyGameCommand, applyGameCommands } from '../utils/gameEngine';
+import { getFanserviceCardSpots, FANSERVICE_SPOT_CARD_COUNT } from '../utils/gameLogic';
+import {
+  serializeGameState,
+  deserializeGameState,
+  readSaveData,
+  loadGameFromLocalStorage,
+  STORAGE_KEYS
+} from '../utils/dataPersistence';
+import { SAVE_SCHEMA_VERSION, SAVE_MIGRATIONS, migrateSaveData, validateSaveData } from '../utils/saveFormat';
+import { createMemoryBackend, createLocalStorageBackend, setStorageBackend, subscribeStorageErrors } from '../utils/storageBackend';
+import { ERROR_MESSAGES, validateGameStateConsistency } from '../utils/errorHandling';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
+import baselineSave from './fixtures/baselineSave.json';
+import baselineFansaTimeSave from './fixtures/baselineFansaTimeSave.json';
+
+const createPlayers = (): Player[] => [1, 2, 3].map(n => ({
+  id: `player${n}`,
+  name: `プレイヤー${n}`,
+  color: (['red', 'blue', 'green'] as const)[n - 1],
+  money: 3,
+  points: 0,
+  otakuPieces: [{ id: `p${n}-otaku1`, playerId: `player${n}`, isKagebunshin: false }]
+}));
+
+// 初期化して労働フェーズを1回進めたセッション
+const createSession = (seed: number) => applyGameCommands(null, [
+  { type: 'INITIALIZE_GAME', payload: { players: createPlayers(), seed, gameId: `save-${seed}`, createdAt: new Date('2024-01-01T00:00:00Z') } },
+  { type: 'ROLL_DICE_AND_PROCESS_LABOR' }
+]).state!;
+
+// バージョン記録前の形式のセーブデータ（ベースラインのコードで2人プレイのゲームを推し活フェーズまで進めて保存したもの）
+// ルール設定・スタートプレイヤー・シードがなく、ファンサスポットカードは片面56枚で90度単位に回転する
+const createLegacySave = () => JSON.parse(JSON.stringify(baselineSave));
+
+// 同じゲームをファンサタイムまで進め、公開中のカードとダイスの出目がある状態で保存したもの
+const createLegacyFansaTimeSave = () => JSON.parse(JSON.stringify(baselineFansaTimeSave));
+
+describe('セーブデータの形式', () => {
+  afterEach(() => {
+    setStorageBackend(createLocalStorageBackend());
+  });
+
+  test('セーブデータには現在のバージョンが記録され、そのまま読み込める', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        const session = createSession(seed);
+        const serialized = serializeGameState(session);
+
+        expect(JSON.parse(serialized).schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+        const loaded = deserializeGameState(serialized);
+        expect(loaded.createdAt).toEqual(session.createdAt);
+        expect(serializeGameState(loaded)).toBe(serialized);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  test('古いセーブデータは1バージョンずつ現在の形式に移行される', () => {
+    expect(SAVE_MIGRATIONS.map(migration => migration.fromVersion)).toEqual(
+      Array.from({ length: SAVE_SCHEMA_VERSION }, (_, version) => version)
+    );
+
+    const legacy = createLegacySave();
+    const applied: number[] = [];
+    const tracked = SAVE_MIGRATIONS.map(migration => ({
+      ...migration,
+      migrate: (save: any) => {
+        applied.push(save.schemaVersion ?? 0);
+        return migration.migrate(save);
+      }
+    }));
+    expect(migrateSaveData(legacy, tracked).schemaVersion).toBe(SAVE_SCHEMA_VERSION);
+    expect(applied).toEqual([0]);
+
+    const { session, error } = readSaveData(JSON.stringify(legacy));
+    expect(error).toBeNull();
+    expect(validateGameStateConsistency(session!)).toEqual([]);
+    expect(session!.startPlayerIndex).toBe(0);
+    expect(session!.rules).toEqual(DEFAULT_RULE_SET);
+    expect(session!.rngState).toBe(session!.seed);
+    expect(session!.gameState.roundHistory.map(round => round.startPlayerId)).toEqual(['player1']);
+    expect(session!.gameState.hanamichiBoardState.spots.map(spot => spot.oshiPieces)).toEqual(Array.from({ length: 8 }, () => []));
+    expect(session).not.toHaveProperty('schemaVersion');
+
+    // 公開中のカードは同じスポットを同じ順番で示す両面カードになり、残りのカードが山札になる
+    const { revealedCards, fanserviceSpotCards, fanserviceDiscardPile } = session!.gameState;
+    expect(revealedCards.map(getFanserviceCardSpots)).toEqual(
+      legacy.gameState.revealedCards.map((card: { spots: number[] }) => card.spots)
+    );
+    expect(fanserviceDiscardPile).toEqual([]);
+    const cardIds = [...fanserviceSpotCards, ...revealedCards].map(card => card.id);
+    expect(new Set(cardIds).size).toBe(FANSERVICE_SPOT_CARD_COUNT);
+
+    // 移行したゲームはそのまま続けられ、カードの枚数も変わらない
+    const next = applyGameCommand(session!, { type: 'GENERATE_FANSERVICE_SPOT_CARDS' }).state!;
+    const { fanserviceSpotCards: drawPile, fanserviceDiscardPile: discardPile, revealedCards: drawn } = next.gameState;
+    expect(drawn).toHaveLength(3);
+    expect(drawPile.length + discardPile!.length + drawn.length).toBe(FANSERVICE_SPOT_CARD_COUNT);
+
+    // スポットに1つだけ置いていた推しコマはリストになる
+    const withOshi = createLegacySave();
+    withOshi.gameState.hanamichiBoardState.spots[2].oshiPiece = { id: 'B', currentSpotId: 2 };
+    expect(deserializeGameState(JSON.stringify(withOshi)).gameState.hanamichiBoardState.spots.map(spot => spot.oshiPieces)).toEqual(
+      Array.from({ length: 8 }, (_, id) => id === 2 ? [{ id: 'B', currentSpotId: 2 }] : [])
+    );
+
+  });
+
+  test('ファンサタイム中の古いセーブデータは、ダイスの出目が同じスポットを指したまま移行される', () => {
+    const legacy = createLegacyFansaTimeSave();
+    const { session, error } = readSaveData(JSON.stringify(legacy));
+    expect(error).toBeNull();
+    expect(session!.currentPhase).toBe('fansa-time');
+    expect(session!.gameState.currentDiceResult).toBe(legacy.gameState.currentDiceResult);
+
+    const { diceToSpotIndex } = session!.rules;
+    session!.gameState.revealedCards.forEach((card, i) => {
+      const legacySpots: number[] = legacy.gameState.revealedCards[i].spots;
+      [1, 2, 3, 4, 5, 6].forEach(dice => {
+        expect(getFanserviceCardSpots(card)[diceToSpotIndex[dice - 1]]).toBe(legacySpots[diceToSpotIndex[dice - 1]]);
+      });
+    });
+
+    // 同じ順番でスポットを示す両面カードがない場合は、問題のカードを示して読み込みを拒否する
+    legacy.gameState.revealedCards[1].spots = [5, 6, 7];
+    const rejected = readSaveData(JSON.stringify(legacy));
+    expect(rejected.session).toBeNull();
+    expect(rejected.error!.message).toBe(ERROR_MESSAGES.DESERIALIZATION_ERROR);
+    expect(rejected.error!.context).toMatchObject({
+      reason: 'migration-failed',
+      problems: ['gameState.revealedCards[1]: no double-sided fanservice card shows spots 5, 6, 7 in this order']
+    });
+    expect(() => migrateSaveData(legacy)).toThrow('gameState.revealedCards[1]');
+  });
+
+  test('構造の壊れたセーブデータは、問題の場所を示して読み込みを拒否する', () => {
+    const corruptions: [string, (save: any) => void][] = [
+      ['players[1].money', save => { save.players[1].money = '3'; }],
+      ['players[0].otakuPieces[0].isKagebunshin', save => { delete save.players[0].otakuPieces[0].isKagebunshin; }],
+      ['gameState.hanamichiBoardState.spots[5].oshiPieces', save => { save.gameState.hanamichiBoardState.spots[5].oshiPieces = null; }],
+      ['gameState.revealedCards', save => { save.gameState.revealedCards = {}; }],
+      ['gameState.rewardDistributionCards[0].rewards.6', save => { delete save.gameState.rewardDistributionCards[0].rewards[6]; }],
+      ['currentPhase', save => { save.currentPhase = 'unknown-phase'; }],
+      ['turnManager.waitingForPlayers', save => { save.turnManager.waitingForPlayers = 'player1'; }],
+      ['createdAt', save => { save.createdAt = 'not a date'; }],
+      ['rules.totalRounds', save => { save.rules.totalRounds = 0; }]
+    ];
+
+    fc.assert(
+      fc.property(fc.nat(), fc.constantFrom(...corruptions), (seed, [path, corrupt]) => {
+        const save = JSON.parse(serializeGameState(createSession(seed)));
+        expect(validateSaveData(save)).toEqual([]);
+
+        corrupt(save);
+        const problems = validateSaveData(save);
+        expect(problems.some(problem => problem.startsWith(`${path}:`))).toBe(true);
+
+        const { session, error } = readSaveData(JSON.stringify(save));
+        expect(session).toBeNull();
+        expect(error).toEqual(expect.objectContaining({
+          message: ERROR_MESSAGES.DESERIALIZATION_ERROR,
+          context: expect.objectContaining({ reason: 'invalid-structure', problems })
+        }));
+        expect(() => deserializeGameState(JSON.stringify(save))).toThrow(path);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  test('新しいバージョンのセーブデータは読み込まずに残し、エラーを通知する', () => {
+    const newer = JSON.stringify({ ...JSON.parse(serializeGameState(createSession(9))), schemaVersion: SAVE_SCHEMA_VERSION + 1 });
+
+    const { error } = readSaveData(newer);
+    expect(error).toEqual(expect.objectContaining({
+      type: 'system',
+      message: ERROR_MESSAGES.SAVE_FROM_NEWER_VERSION,
+      context: { reason: 'newer-version', saveVersion: SAVE_SCHEMA_VERSION + 1, supportedVersion: SAVE_SCHEMA_VERSION }
+    }));
+    expect(() => deserializeGameState(newer)).toThrow(ERROR_MESSAGES.SAVE_FROM_NEWER_VERSION);
+
+    const backend = createMemoryBackend({ initialEntries: { [STORAGE_KEYS.CURRENT_GAME]: newer } });
+    setStorageBackend(backend);
+    const errors: GameError[] = [];
+    const unsubscribe = subscribeStorageErrors(notified => errors.push(notified));
+
+    expect(loadGameFromLocalStorage()).toBeNull();
+    unsubscribe();
+
+    expect(backend.getItem(STORAGE_KEYS.CURRENT_GAME)).toBe(newer);
+    expect(errors.map(notified => notified.message)).toEqual([ERROR_MESSAGES.SAVE_FROM_NEWER_VERSION]);
+  });
+});
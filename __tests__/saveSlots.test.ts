@@ -0,0 +1,167 @@
+/**
+ * セーブスロット（複数ゲームの保存と一覧からの操作）のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { ActionLog, GameCommand, GameSession, Player } from '../types/game';
+import { applyAndRecordCommand, replayActionLog } from '../utils/actionLog';
+import {
+  saveGameToLocalStorage,
+  loadGameFromLocalStorage,
+  saveActionLog,
+  getActionLog,
+  getGameLogs,
+  logGameAction,
+  listSavedGames,
+  loadGameFromSlot,
+  duplicateSavedGame,
+  renameSavedGame,
+  archiveSavedGame,
+  deleteSavedGame
+} from '../utils/dataPersistence';
+import { createMemoryBackend, createLocalStorageBackend, setStorageBackend } from '../utils/storageBackend';
+import { ERROR_MESSAGES } from '../utils/errorHandling';
+
+const createPlayers = (names: string[]): Player[] => names.map((name, i) => ({
+  id: `player${i + 1}`,
+  name,
+  color: (['red', 'blue', 'green'] as const)[i],
+  money: 3,
+  points: 0,
+  otakuPieces: [{ id: `p${i + 1}-otaku1`, playerId: `player${i + 1}`, isKagebunshin: false }]
+}));
+
+// コマンドを順に適用し、アクションログと一緒に保存する
+const playAndSave = (gameId: string, names: string[], seed: number, commands: GameCommand[] = []): { session: GameSession; log: ActionLog } => {
+  let state: GameSession | null = null;
+  let log: ActionLog | null = null;
+  [
+    { type: 'INITIALIZE_GAME', payload: { players: createPlayers(names), seed, gameId, createdAt: new Date('2024-01-01T00:00:00Z') } } as GameCommand,
+    ...commands
+  ].forEach(command => {
+    ({ state, log } = applyAndRecordCommand(state, log, command));
+  });
+  saveGameToLocalStorage(state!);
+  saveActionLog(log!);
+  return { session: state!, log: log! };
+};
+
+describe('セーブスロット', () => {
+  beforeEach(() => {
+    setStorageBackend(createMemoryBackend());
+  });
+
+  afterAll(() => {
+    setStorageBackend(createLocalStorageBackend());
+  });
+
+  test('新しいゲームを始めても、途中のゲームはスロットに残り再開できる', () => {
+    fc.assert(
+      fc.property(fc.nat(), fc.nat(), (seedA, seedB) => {
+        setStorageBackend(createMemoryBackend());
+        const first = playAndSave('game-a', ['アリス', 'ボブ'], seedA, [{ type: 'ROLL_DICE_AND_PROCESS_LABOR' }]).session;
+        const second = playAndSave('game-b', ['キャロル', 'デイブ', 'イヴ'], seedB).session;
+
+        expect(loadGameFromLocalStorage()!.id).toBe('game-b');
+        expect(loadGameFromSlot('game-a').session).toEqual(first);
+        expect(loadGameFromSlot('game-b').session).toEqual(second);
+
+        const [latest, older] = listSavedGames();
+        expect(latest.lastModified.getTime()).toBeGreaterThanOrEqual(older.lastModified.getTime());
+        const firstEntry = listSavedGames().find(entry => entry.gameId === 'game-a')!;
+        expect(firstEntry).toEqual(expect.objectContaining({
+          name: 'アリス・ボブのゲーム',
+          totalRounds: first.currentRound,
+          currentPhase: first.currentPhase,
+          gameStatus: 'in-progress',
+          archived: false,
+          hasSaveData: true
+        }));
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('名前の変更とアーカイブは、その後の保存でも保たれる', () => {
+    const { session } = playAndSave('game-a', ['アリス', 'ボブ'], 1);
+    renameSavedGame('game-a', '  金曜の卓  ');
+    archiveSavedGame('game-a');
+
+    saveGameToLocalStorage({ ...session, currentRound: 2 });
+    const [entry] = listSavedGames();
+    expect(entry).toEqual(expect.objectContaining({ name: '金曜の卓', archived: true, totalRounds: 2 }));
+
+    archiveSavedGame('game-a', false);
+    expect(listSavedGames()[0].archived).toBe(false);
+    expect(() => renameSavedGame('game-a', '   ')).toThrow();
+    expect(() => renameSavedGame('missing', '名前')).toThrow('ゲーム名の変更に失敗しました');
+  });
+
+  test('複製したゲームは別のIDで保存され、アクションログも再生できる', () => {
+    fc.assert(
+      fc.property(fc.nat(), (seed) => {
+        setStorageBackend(createMemoryBackend());
+        const { session } = playAndSave('game-a', ['アリス', 'ボブ'], seed, [{ type: 'ROLL_DICE_AND_PROCESS_LABOR' }]);
+
+        const copy = duplicateSavedGame('game-a', 'game-copy');
+        expect(copy).toEqual({ ...session, id: 'game-copy' });
+        expect(loadGameFromSlot('game-copy').session).toEqual(copy);
+        expect(listSavedGames().find(entry => entry.gameId === 'game-copy')!.name).toBe('アリス・ボブのゲームのコピー');
+
+        const log = getActionLog('game-copy')!;
+        expect(log.gameId).toBe('game-copy');
+        expect(replayActionLog(log)).toEqual(copy);
+        expect(loadGameFromSlot('game-a').session).toEqual(session);
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  test('削除したゲームはセーブデータ・履歴・ログが残らない', () => {
+    playAndSave('game-a', ['アリス', 'ボブ'], 1);
+    playAndSave('game-b', ['キャロル', 'デイブ'], 2);
+    logGameAction('game-b', 1, 'labor', 'ROLL_DICE', { dice: 3 }, 'player1');
+
+    deleteSavedGame('game-b');
+
+    expect(listSavedGames().map(entry => entry.gameId)).toEqual(['game-a']);
+    expect(loadGameFromSlot('game-b').error!.message).toBe(ERROR_MESSAGES.SAVE_SLOT_NOT_FOUND);
+    expect(getActionLog('game-b')).toBeNull();
+    expect(getGameLogs('game-b')).toEqual([]);
+    // 起動時に読み込むゲームだった場合はそれも削除される
+    expect(loadGameFromLocalStorage()).toBeNull();
+
+    deleteSavedGame('game-a');
+    expect(listSavedGames()).toEqual([]);
+  });
+
+  test('履歴が上限を超えると、終了したゲームを更新日時の古い順に削除し、進行中のゲームは残す', () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    try {
+      const { session, log } = playAndSave('game-active', ['アリス', 'ボブ'], 1);
+      const saveCompleted = (gameId: string) => {
+        jest.advanceTimersByTime(1000);
+        saveGameToLocalStorage({ ...session, id: gameId, currentPhase: 'game-end' });
+        saveActionLog({ ...log, gameId });
+      };
+      for (let i = 0; i < 49; i++) {
+        saveCompleted(`game-${i}`);
+      }
+      // 履歴の先頭にあるゲームでも、保存し直せば新しいゲームとして扱う
+      saveCompleted('game-0');
+      saveCompleted('game-49');
+
+      const gameIds = listSavedGames().map(entry => entry.gameId);
+      expect(gameIds).toHaveLength(50);
+      expect(gameIds).toEqual(expect.arrayContaining(['game-active', 'game-0', 'game-49']));
+      expect(gameIds).not.toContain('game-1');
+      expect(loadGameFromSlot('game-active').session).toEqual(session);
+      expect(getActionLog('game-active')).not.toBeNull();
+      expect(loadGameFromSlot('game-1').error!.message).toBe(ERROR_MESSAGES.SAVE_SLOT_NOT_FOUND);
+      expect(getActionLog('game-1')).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * ストレージバックエンドのテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import { GameError, Player } from '../types/game';
+import { applyGameCommand } from '../utils/gameEngine';
+import {
+  saveGameToLocalStorage,
+  loadGameFromLocalStorage,
+  logGameAction,
+  getGameLogs,
+  getGameHistory,
+  clearAllGameData,
+  STORAGE_KEYS
+} from '../utils/dataPersistence';
+import {
+  createMemoryBackend,
+  createLocalStorageBackend,
+  setStorageBackend,
+  getStorageBackend,
+  resolveStorageBackend,
+  subscribeStorageErrors,
+  isQuotaExceededError
+} from '../utils/storageBackend';
+import { ERROR_MESSAGES } from '../utils/errorHandling';
+
+const createPlayers = (): Player[] => [1, 2].map(n => ({
+  id: `player${n}`,
+  name: `プレイヤー${n}`,
+  color: (['red', 'blue'] as const)[n - 1],
+  money: 3,
+  points: 0,
+  otakuPieces: [{ id: `p${n}-otaku1`, playerId: `player${n}`, isKagebunshin: false }]
+}));
+
+const createSession = () => applyGameCommand(null, {
+  type: 'INITIALIZE_GAME',
+  payload: { players: createPlayers(), seed: 3, gameId: 'storage-test', createdAt: new Date('2024-01-01T00:00:00Z') }
+}).state!;
+
+describe('ストレージバックエンド', () => {
+  afterEach(() => {
+    setStorageBackend(createLocalStorageBackend());
+  });
+
+  test('メモリのバックエンドを選ぶと localStorage を使わずに保存・読み込みできる', () => {
+    localStorage.clear();
+    const backend = createMemoryBackend();
+    setStorageBackend(backend);
+
+    const session = createSession();
+    saveGameToLocalStorage(session);
+    logGameAction(session.id, 1, 'labor', 'ROLL_DICE', { dice: 3 }, 'player1');
+
+    expect(loadGameFromLocalStorage()!.id).toBe(session.id);
+    expect(getGameLogs(session.id)).toHaveLength(1);
+    expect(getGameHistory().map(entry => entry.gameId)).toEqual([session.id]);
+    expect(backend.keys()).toContain(STORAGE_KEYS.CURRENT_GAME);
+    expect(localStorage.length).toBe(0);
+
+    clearAllGameData();
+    expect(backend.keys()).toEqual([]);
+  });
+
+  test('メモリのバックエンドは容量の上限を超える書き込みを拒否し、既存の内容を保つ', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 10, max: 200 }),
+        fc.array(fc.tuple(fc.constantFrom('a', 'b', 'c'), fc.string({ maxLength: 80 })), { maxLength: 20 }),
+        (quota, writes) => {
+          const backend = createMemoryBackend({ quota });
+          writes.forEach(([key, value]) => {
+            const before = backend.getItem(key);
+            try {
+              backend.setItem(key, value);
+              expect(backend.getItem(key)).toBe(value);
+            } catch (error) {
+              expect(isQuotaExceededError(error)).toBe(true);
+              expect(backend.getItem(key)).toBe(before);
+            }
+          });
+
+          const used = backend.keys().reduce((sum, key) => sum + key.length + backend.getItem(key)!.length, 0);
+          expect(used).toBeLessThanOrEqual(quota);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('容量超過は GameError として通知される', () => {
+    setStorageBackend(createMemoryBackend({ quota: 100 }));
+    const errors: GameError[] = [];
+    const unsubscribe = subscribeStorageErrors(error => errors.push(error));
+
+    logGameAction('storage-test', 1, 'labor', 'ROLL_DICE', { dice: 3 }, 'player1');
+    expect(() => saveGameToLocalStorage(createSession())).toThrow('ゲームの保存に失敗しました');
+    unsubscribe();
+
+    expect(errors.length).toBeGreaterThanOrEqual(2);
+    errors.forEach(error => {
+      expect(error).toEqual(expect.objectContaining({
+        type: 'system',
+        message: ERROR_MESSAGES.STORAGE_QUOTA_EXCEEDED,
+        context: expect.objectContaining({ backend: 'memory' })
+      }));
+    });
+  });
+
+  test('IndexedDB が使えない環境では localStorage を使う', async () => {
+    expect(isQuotaExceededError(new DOMException('full', 'QuotaExceededError'))).toBe(true);
+    expect(isQuotaExceededError(new Error('other'))).toBe(false);
+
+    const backend = await resolveStorageBackend('indexedDB');
+    expect(backend.type).toBe('localStorage');
+    expect((await resolveStorageBackend('memory')).type).toBe('memory');
+
+    const custom = createMemoryBackend();
+    expect(await resolveStorageBackend(custom)).toBe(custom);
+    expect(getStorageBackend().type).toBe('localStorage');
+  });
+
+  test('IndexedDB を開くのが別の接続に妨げられた場合は、待ち続けずに localStorage を使う', async () => {
+    const blockedIndexedDB = {
+      open: () => {
+        const request: Partial<IDBOpenDBRequest> = {};
+        setTimeout(() => request.onblocked?.call(request as IDBOpenDBRequest, new Event('blocked') as IDBVersionChangeEvent));
+        return request;
+      }
+    };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    Object.defineProperty(global, 'indexedDB', { value: blockedIndexedDB, configurable: true });
+    try {
+      const backend = await resolveStorageBackend('indexedDB');
+      expect(backend.type).toBe('localStorage');
+      expect(consoleError).toHaveBeenCalledWith('Failed to open IndexedDB, falling back to localStorage:', expect.any(Error));
+    } finally {
+      delete (global as { indexedDB?: unknown }).indexedDB;
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -4,8 +4,19 @@
  */
 
 import * as fc from 'fast-check';
-import { GameSession, Player, GamePhase } from '../types/game';
+import { GameSession, Player, GamePhase, GameCommand, GameEvent } from '../types/game';
 import { getNextPlayerIndex } from '../utils/gameLogic';
+import { applyGameCommand } from '../utils/gameEngine';
+import { serializeGameState, deserializeGameState } from '../utils/dataPersistence';
+import { chooseBotCommand, randomStrategy } from '../utils/botPlayer';
+import { RandomSource, createSeededRandom } from '../utils/random';
+import {
+  createInitialTurnManager,
+  setCurrentPlayer,
+  isPlayerTurn,
+  allPlayersCompleted,
+  setPlayerActionCompleted
+} from '../utils/turnManager';
 
 // テスト用のプレイヤー生成
 const playerArbitrary = fc.record({
@@ -182,4 +193,110 @@ describe('ターン管理システム プロパティベーステスト', () =>
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+
+  test('ターンマネージャーの操作はプレーンなデータを返す純粋関数', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(playerArbitrary, { minLength: 1, maxLength: 4, selector: player => player.id })
+          .map(players => players.map((player): Player => ({ ...player, otakuPieces: [] }))),
+        fc.nat(),
+        fc.array(fc.tuple(fc.nat(), fc.boolean()), { maxLength: 12 }),
+        (players, start, updates) => {
+          const startIndex = start % players.length;
+          const initial = createInitialTurnManager(players, startIndex);
+          const snapshot = JSON.stringify(initial);
+
+          // 手番のプレイヤーは設定した位置のプレイヤーだけ
+          let turnManager = initial;
+          players.forEach((_, i) => {
+            turnManager = setCurrentPlayer(turnManager, (startIndex + i) % players.length);
+            players.forEach((player, j) => {
+              expect(isPlayerTurn(turnManager, players, player.id)).toBe(j === (startIndex + i) % players.length);
+            });
+          });
+
+          // 完了状態と待ちプレイヤーの一覧は常に一致する
+          updates.forEach(([index, completed]) => {
+            turnManager = setPlayerActionCompleted(turnManager, players[index % players.length].id, completed);
+          });
+          expect(turnManager.waitingForPlayers.slice().sort()).toEqual(
+            players.filter(player => !turnManager.phaseActions[player.id]).map(player => player.id).sort()
+          );
+          expect(allPlayersCompleted(turnManager, players)).toBe(turnManager.waitingForPlayers.length === 0);
+
+          expect(JSON.stringify(initial)).toBe(snapshot);
+          expect(JSON.parse(JSON.stringify(turnManager))).toEqual(turnManager);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('保存して読み込んだゲーム途中のセッションは、元のセッションと同じように進行する', () => {
+    const players: Player[] = [1, 2, 3].map(n => ({
+      id: `player${n}`,
+      name: `プレイヤー${n}`,
+      color: (['red', 'blue', 'green'] as const)[n - 1],
+      money: 3,
+      points: 0,
+      otakuPieces: [1, 2].map(i => ({ id: `p${n}-otaku${i}`, playerId: `player${n}`, isKagebunshin: false }))
+    }));
+
+    // ボットの操作とフェーズ進行から、状態を変える次のコマンドを決める（同じ状態と乱数からは同じコマンドになる）
+    const chooseNextCommand = (session: GameSession, rng: RandomSource): GameCommand => {
+      const botCommands = session.players
+        .map(player => chooseBotCommand(session, player.id, randomStrategy, rng))
+        .filter((command): command is GameCommand => command !== null);
+      const phaseCommands: GameCommand[] = [
+        ...(session.currentPhase === 'labor' ? [{ type: 'ROLL_DICE_AND_PROCESS_LABOR' } as const] : []),
+        ...(session.currentPhase === 'oshikatsu-decision' ? [{ type: 'REVEAL_OSHIKATSU_DECISIONS' } as const] : []),
+        ...(session.currentPhase === 'oshikatsu-goods' && session.gameState.revealedCards.length === 0
+          ? [{ type: 'GENERATE_FANSERVICE_SPOT_CARDS' } as const] : []),
+        ...(session.currentPhase === 'fansa-time' ? [{ type: 'PROCESS_FANSA_TIME' } as const] : []),
+        { type: 'NEXT_PHASE' }
+      ];
+      const candidates = session.currentPhase === 'oshikatsu-goods' && session.gameState.revealedCards.length === 0
+        ? [...phaseCommands, ...botCommands]
+        : [...botCommands, ...phaseCommands];
+      return candidates.find(command => applyGameCommand(session, command).state !== session) ?? { type: 'NEXT_PHASE' };
+    };
+
+    const play = (session: GameSession, steps: number, rng: RandomSource): { session: GameSession; events: GameEvent[] } => {
+      const events: GameEvent[] = [];
+      for (let i = 0; i < steps && session.currentPhase !== 'game-end'; i++) {
+        const result = applyGameCommand(session, chooseNextCommand(session, rng));
+        session = result.state!;
+        events.push(...result.events);
+      }
+      return { session, events };
+    };
+
+    fc.assert(
+      fc.property(fc.nat(), fc.integer({ min: 0, max: 120 }), (seed, saveAt) => {
+        const initial = applyGameCommand(null, {
+          type: 'INITIALIZE_GAME',
+          payload: { players, seed, gameId: `resume-${seed}`, createdAt: new Date('2024-01-01T00:00:00Z') }
+        }).state!;
+        const live = play(initial, saveAt, createSeededRandom(seed)).session;
+        const loaded = applyGameCommand(null, {
+          type: 'LOAD_SAVED_GAME',
+          payload: deserializeGameState(serializeGameState(live))
+        }).state!;
+
+        // 読み込んだ直後の手番と完了状態は元のセッションと同じ
+        expect(loaded.turnManager).toEqual(live.turnManager);
+        live.players.forEach(player => {
+          expect(isPlayerTurn(loaded.turnManager, loaded.players, player.id)).toBe(isPlayerTurn(live.turnManager, live.players, player.id));
+        });
+        expect(allPlayersCompleted(loaded.turnManager, loaded.players)).toBe(allPlayersCompleted(live.turnManager, live.players));
+
+        // 続きを同じ操作で進めると、同じイベントと状態になる
+        const continuedLive = play(live, 150, createSeededRandom(seed + 1));
+        const continuedLoaded = play(loaded, 150, createSeededRandom(seed + 1));
+        expect(continuedLoaded.events).toEqual(continuedLive.events);
+        expect(serializeGameState(continuedLoaded.session)).toBe(serializeGameState(continuedLive.session));
+      }),
+      { numRuns: 15 }
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * 取り消し・やり直し履歴のテスト
+ * Feature: oshi-game-testplay
+ */
+
+import * as fc from 'fast-check';
+import {
+  createUndoHistory,
+  recordCommandInHistory,
+  undoHistory,
+  redoHistory,
+  isUndoableCommand,
+  isBotCommand,
+  MAX_UNDO_HISTORY,
+  UndoHistory
+} from '../utils/undoHistory';
+import { GameCommand, Player } from '../types/game';
+
+const undoableCommandArbitrary: fc.Arbitrary<GameCommand> = fc.oneof(
+  fc.record({
+    type: fc.constant('SELECT_REWARD_CARD' as const),
+    payload: fc.record({ playerId: fc.constant('player1'), cardId: fc.constantFrom('card-A', 'card-B') })
+  }),
+  fc.record({
+    type: fc.constant('PURCHASE_GOODS' as const),
+    payload: fc.record({ playerId: fc.constant('player1'), goodsType: fc.constantFrom('uchiwa' as const, 'penlight' as const) })
+  }),
+  fc.record({
+    type: fc.constant('MOVE_PIECE' as const),
+    payload: fc.record({ pieceId: fc.constant('p1-otaku1'), spotId: fc.integer({ min: 0, max: 7 }) })
+  })
+);
+
+describe('取り消し・やり直し履歴', () => {
+  test('対象コマンドのみ取り消し可能と判定される', () => {
+    expect(isUndoableCommand({ type: 'SELECT_REWARD_CARD', payload: { playerId: 'p', cardId: 'card-A' } })).toBe(true);
+    expect(isUndoableCommand({ type: 'PURCHASE_GOODS', payload: { playerId: 'p', goodsType: 'uchiwa' } })).toBe(true);
+    expect(isUndoableCommand({ type: 'CREATE_KAGEBUNSHIN', payload: { playerId: 'p', kagebunshinId: 'b' } })).toBe(true);
+    expect(isUndoableCommand({ type: 'ASSIGN_GOODS', payload: { playerId: 'p', pieceId: 'a', goodsType: 'uchiwa' } })).toBe(true);
+    expect(isUndoableCommand({ type: 'MOVE_PIECE', payload: { pieceId: 'a', spotId: 0 } })).toBe(true);
+    expect(isUndoableCommand({ type: 'ROLL_DICE_AND_PROCESS_LABOR' })).toBe(false);
+    expect(isUndoableCommand({ type: 'NEXT_PHASE' })).toBe(false);
+  });
+
+  test('取り消しとやり直しで操作前後の状態を行き来できる', () => {
+    fc.assert(
+      fc.property(fc.array(undoableCommandArbitrary, { minLength: 1, maxLength: 20 }), (commands) => {
+        // 状態は適用済みコマンド数で表す
+        let history: UndoHistory<number> = createUndoHistory();
+        commands.forEach((command, i) => {
+          history = recordCommandInHistory(history, command, i);
+        });
+        const final = commands.length;
+
+        let state = final;
+        for (let i = 0; i < commands.length; i++) {
+          const result = undoHistory(history, state)!;
+          history = result.history;
+          state = result.state;
+        }
+        expect(state).toBe(0);
+        expect(undoHistory(history, state)).toBeNull();
+
+        for (let i = 0; i < commands.length; i++) {
+          const result = redoHistory(history, state)!;
+          history = result.history;
+          state = result.state;
+        }
+        expect(state).toBe(final);
+        expect(redoHistory(history, state)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('確定操作で履歴が打ち切られ、それ以前には戻れない', () => {
+    let history: UndoHistory<string> = createUndoHistory();
+    history = recordCommandInHistory(history, { type: 'SELECT_REWARD_CARD', payload: { playerId: 'p', cardId: 'card-A' } }, 'before-select');
+    history = recordCommandInHistory(history, { type: 'ROLL_DICE_AND_PROCESS_LABOR' }, 'before-roll');
+
+    expect(undoHistory(history, 'after-roll')).toBeNull();
+  });
+
+  test('新しい操作を行うとやり直し履歴は破棄される', () => {
+    let history: UndoHistory<string> = createUndoHistory();
+    history = recordCommandInHistory(history, { type: 'MOVE_PIECE', payload: { pieceId: 'a', spotId: 0 } }, 's0');
+    history = undoHistory(history, 's1')!.history;
+    expect(history.future).toHaveLength(1);
+
+    history = recordCommandInHistory(history, { type: 'MOVE_PIECE', payload: { pieceId: 'a', spotId: 1 } }, 's0');
+    expect(history.future).toHaveLength(0);
+    expect(redoHistory(history, 's2')).toBeNull();
+  });
+
+  test('履歴は上限件数までしか保持しない', () => {
+    let history: UndoHistory<number> = createUndoHistory();
+    for (let i = 0; i < MAX_UNDO_HISTORY + 10; i++) {
+      history = recordCommandInHistory(history, { type: 'MOVE_PIECE', payload: { pieceId: 'a', spotId: 0 } }, i);
+    }
+
+    expect(history.past).toHaveLength(MAX_UNDO_HISTORY);
+    expect(history.past[0]).toBe(10);
+  });
+
+  test('ボットの操作は確定操作として扱い、人の操作と一緒に取り消せない', () => {
+    const players: Player[] = [
+      { id: 'human', name: '人', color: 'red', money: 3, points: 0, otakuPieces: [{ id: 'h-otaku1', playerId: 'human', isKagebunshin: false }] },
+      { id: 'bot', name: 'ボット', color: 'blue', money: 3, points: 0, controller: 'bot', otakuPieces: [{ id: 'b-otaku1', playerId: 'bot', isKagebunshin: false }] }
+    ];
+    const humanMove: GameCommand = { type: 'MOVE_PIECE', payload: { pieceId: 'h-otaku1', spotId: 0 } };
+    const botMove: GameCommand = { type: 'MOVE_PIECE', payload: { pieceId: 'b-otaku1', spotId: 1 } };
+    const botPurchase: GameCommand = { type: 'PURCHASE_GOODS', payload: { playerId: 'bot', goodsType: 'uchiwa' } };
+    expect(isBotCommand(humanMove, players)).toBe(false);
+    expect(isBotCommand(botMove, players)).toBe(true);
+    expect(isBotCommand(botPurchase, players)).toBe(true);
+    expect(isBotCommand({ type: 'NEXT_PHASE' }, players)).toBe(false);
+
+    let history: UndoHistory<string> = createUndoHistory();
+    history = recordCommandInHistory(history, humanMove, 'before-human', isBotCommand(humanMove, players));
+    history = recordCommandInHistory(history, botMove, 'before-bot', isBotCommand(botMove, players));
+    expect(undoHistory(history, 'after-bot')).toBeNull();
+
+    // ボットの操作の後の人の操作は、ボットの操作の直後まで取り消せる
+    history = recordCommandInHistory(history, humanMove, 'after-bot', isBotCommand(humanMove, players));
+    expect(undoHistory(history, 'after-human')!.state).toBe('after-bot');
+  });
+});
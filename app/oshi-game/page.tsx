@@ -1,7 +1,8 @@
 "use client";
 
-import React, { useState } from "react";
-import { Container, Typography, Button, Box } from "@mui/material";
+import React, { useState, useEffect, useMemo } from "react";
+import { Container, Typography, Button, Box, TextField, MenuItem, FormControlLabel, Switch } from "@mui/material";
+import Link from "next/link";
 import { GameProvider, useGame } from "../../contexts/GameContext";
 import HanamichiBoard from "../../components/game/HanamichiBoard";
 import OtakuPieceComponent from "../../components/game/OtakuPiece";
@@ -11,46 +12,34 @@ import OshikatsuPhase from "../../components/game/OshikatsuPhase";
 import RoundEndPhase from "../../components/game/RoundEndPhase";
 import GameResults from "../../components/game/GameResults";
 import ErrorDisplay from "../../components/game/ErrorDisplay";
+import UndoRedoControls from "../../components/game/UndoRedoControls";
 import ErrorBoundary from "../../components/game/ErrorBoundary";
 import PerformanceMonitor from "../../components/game/PerformanceMonitor";
 import AccessibilityTester from "../../components/game/AccessibilityTester";
 import ResponsiveContainer from "../../components/game/ResponsiveContainer";
-import { Player } from "../../types/game";
+import PlayerSetup from "../../components/game/PlayerSetup";
+import SavedGamesBrowser from "../../components/game/SavedGamesBrowser";
+import GameImportPanel from "../../components/game/GameImportPanel";
+import { ActionLog, GamePhase, GameSession, Player, RuleSet } from "../../types/game";
+import { DEFAULT_RULE_SET, RULE_SET_PRESETS } from "../../utils/ruleSet";
+import { getAvailableRuleSets } from "../../utils/dataPersistence";
+import { BOT_ACTION_DELAY_MS, isBotPlayer } from "../../utils/botPlayer";
+import { useBotPlayers } from "../../hooks/useBotPlayers";
+import { calculateSpotHeatmap } from "../../utils/fansaAnalysis";
+import { getGoodsInventory, isPlaceablePiece, isRestingPlayer } from "../../utils/gameLogic";
 
-// テスト用のプレイヤーデータ
-const createTestPlayers = (): Player[] => [
-  {
-    id: 'player1',
-    name: 'プレイヤー1',
-    color: 'red',
-    money: 3,
-    points: 0,
-    otakuPieces: [
-      { id: 'p1-otaku1', playerId: 'player1', isKagebunshin: false },
-      { id: 'p1-otaku2', playerId: 'player1', isKagebunshin: false },
-      { id: 'p1-otaku3', playerId: 'player1', isKagebunshin: false },
-      { id: 'p1-otaku4', playerId: 'player1', isKagebunshin: false }
-    ]
-  },
-  {
-    id: 'player2',
-    name: 'プレイヤー2',
-    color: 'blue',
-    money: 3,
-    points: 0,
-    otakuPieces: [
-      { id: 'p2-otaku1', playerId: 'player2', isKagebunshin: false },
-      { id: 'p2-otaku2', playerId: 'player2', isKagebunshin: false },
-      { id: 'p2-otaku3', playerId: 'player2', isKagebunshin: false },
-      { id: 'p2-otaku4', playerId: 'player2', isKagebunshin: false }
-    ]
-  }
-];
+// オタクコマ・影分身を花道ボードに置くフェーズ
+const isPlacementPhase = (phase: GamePhase): boolean => {
+  return phase === 'oshikatsu-placement' || phase === 'oshikatsu-kagebunshin';
+};
 
 const GameContent: React.FC = () => {
   const { 
     gameSession, 
     initializeGame, 
+    resumeGame,
+    importGame,
+    storageReady,
     movePiece, 
     nextTurn, 
     nextPhase, 
@@ -66,13 +55,62 @@ const GameContent: React.FC = () => {
     repairGameStateIfNeeded
   } = useGame();
   const [isGameStarted, setIsGameStarted] = useState(false);
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>(RULE_SET_PRESETS);
+  const [selectedRuleSetId, setSelectedRuleSetId] = useState<string>(DEFAULT_RULE_SET.id);
+  const [botDelayMs, setBotDelayMs] = useState(BOT_ACTION_DELAY_MS);
+
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  useBotPlayers({ enabled: isGameStarted, delayMs: botDelayMs });
+
+  // 配置フェーズで、手番のプレイヤー（いなければ配置待ちの人間プレイヤー）が次に置くコマの期待値ヒートマップ
+  // グッズは配置後に乗せるため、手持ちの先頭のグッズ（なければうちわ）を乗せる想定で計算する
+  const heatmapTarget = useMemo(() => {
+    if (!gameSession || !isPlacementPhase(gameSession.currentPhase)) return null;
+    const hasPendingPiece = (player: Player) => player.otakuPieces.some(p => isPlaceablePiece(gameSession.currentPhase, p));
+    const current = gameSession.players[gameSession.activePlayerIndex];
+    const player = current && hasPendingPiece(current)
+      ? current
+      : gameSession.players.find(p => !isBotPlayer(p) && hasPendingPiece(p));
+    const piece = player?.otakuPieces.find(p => isPlaceablePiece(gameSession.currentPhase, p));
+    return player && piece ? { player, piece, goods: getGoodsInventory(player)[0] ?? 'uchiwa' } : null;
+  }, [gameSession]);
 
-  const handleStartGame = () => {
-    const players = createTestPlayers();
-    initializeGame(players);
+  const heatmap = useMemo(() => {
+    if (!showHeatmap || !gameSession || !heatmapTarget) return null;
+    return calculateSpotHeatmap(gameSession, heatmapTarget.player.id, heatmapTarget.goods, heatmapTarget.piece.id);
+  }, [showHeatmap, gameSession, heatmapTarget]);
+
+  // 保存済みバリアントの読み込みと、デザイナー画面から指定されたバリアントの選択（保存先の準備ができてから読み込む）
+  useEffect(() => {
+    if (!storageReady) return;
+    const available = getAvailableRuleSets();
+    setRuleSets(available);
+    const variantId = new URLSearchParams(window.location.search).get('variant');
+    if (variantId && available.some(rules => rules.id === variantId)) {
+      setSelectedRuleSetId(variantId);
+    }
+  }, [storageReady]);
+
+  const selectedRules = ruleSets.find(r => r.id === selectedRuleSetId) ?? DEFAULT_RULE_SET;
+
+  const handleStartGame = (players: Player[], startPlayerIndex: number) => {
+    initializeGame(players, undefined, selectedRules, startPlayerIndex);
     setIsGameStarted(true);
   };
 
+  const handleResumeGame = (gameId: string) => {
+    if (resumeGame(gameId)) {
+      setIsGameStarted(true);
+    }
+  };
+
+  const handleImportGame = (session: GameSession, actionLog: ActionLog | null) => {
+    if (importGame(session, actionLog)) {
+      setIsGameStarted(true);
+    }
+  };
+
   const handleNewGame = () => {
     setIsGameStarted(false);
     // ゲームセッションは新しく開始する時にリセットされる
@@ -114,29 +152,48 @@ const GameContent: React.FC = () => {
           <Typography sx={{ mb: 6, fontSize: '1.1rem', maxWidth: '600px', mx: 'auto' }} align="center">
             最大4人のプレイヤーで推しのファンサスポットを予測し、オタクコマを配置してポイントを競うボードゲームです
           </Typography>
-          <Box>
-            <Button 
-              variant="contained" 
-              color="primary" 
-              size="large"
-              onClick={handleStartGame}
-              sx={{ 
-                py: 2, 
-                px: 4, 
-                fontSize: '1.2rem',
-                borderRadius: 3,
-                boxShadow: '0 4px 15px rgba(33, 150, 243, 0.3)',
-                transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
-                '&:hover': {
-                  transform: 'translateY(-2px)',
-                  boxShadow: '0 6px 20px rgba(33, 150, 243, 0.4)'
-                }
-              }}
-              aria-label="ゲームを開始する"
+          {storageReady && (
+            <>
+              <SavedGamesBrowser onResume={handleResumeGame} />
+              <GameImportPanel onLoad={handleImportGame} />
+            </>
+          )}
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 2 }}>
+            <TextField
+              select
+              label="ルール"
+              size="small"
+              value={selectedRuleSetId}
+              onChange={(e) => setSelectedRuleSetId(e.target.value)}
+              sx={{ minWidth: 260 }}
             >
-              ゲーム開始
+              {ruleSets.map(rules => (
+                <MenuItem key={rules.id} value={rules.id}>
+                  {rules.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button component={Link} href="/rule-designer" size="small">
+              ルールを編集
             </Button>
           </Box>
+          {storageReady ? (
+            <PlayerSetup startingMoney={selectedRules.startingMoney} onStart={handleStartGame} />
+          ) : (
+            <Typography color="text.secondary" sx={{ mb: 3 }}>
+              保存データを読み込んでいます…
+            </Typography>
+          )}
+          <Box sx={{ mb: 3, display: 'flex', justifyContent: 'center' }}>
+            <TextField
+              label="ボットの操作間隔（ミリ秒）"
+              type="number"
+              size="small"
+              value={botDelayMs}
+              onChange={(e) => setBotDelayMs(Math.max(0, Number(e.target.value)))}
+              sx={{ width: 200 }}
+            />
+          </Box>
         </Box>
       </Container>
     );
@@ -170,6 +227,9 @@ const GameContent: React.FC = () => {
           推し活ボードゲーム - ゲーム中
         </Typography>
         
+        {/* 取り消し・やり直し */}
+        <UndoRedoControls />
+        
         {/* エラー表示 */}
         {currentError && (
           <Box sx={{ mb: 3 }} className="animate-slide-in">
@@ -195,7 +255,7 @@ const GameContent: React.FC = () => {
       )}
       
       {/* 推し活フェーズの表示 */}
-      {['oshikatsu-goods', 'oshikatsu-placement', 'fansa-time'].includes(gameSession.currentPhase) && (
+      {['oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin', 'oshikatsu-goods-assign', 'fansa-time'].includes(gameSession.currentPhase) && (
         <Box sx={{ mb: 4 }}>
           <OshikatsuPhase />
         </Box>
@@ -221,11 +281,28 @@ const GameContent: React.FC = () => {
               justifyContent: 'center',
               width: '100%'
             }}>
-              <HanamichiBoard
-                board={gameSession.gameState.hanamichiBoardState}
-                onSpotClick={handleSpotClick}
-                onPieceDrop={handlePieceDrop}
-              />
+              <Box>
+                {isPlacementPhase(gameSession.currentPhase) && (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 1, mb: 1 }}>
+                    <FormControlLabel
+                      control={<Switch checked={showHeatmap} onChange={(e) => setShowHeatmap(e.target.checked)} />}
+                      label="期待値ヒント"
+                    />
+                    {showHeatmap && heatmapTarget && (
+                      <Typography variant="body2" color="text.secondary">
+                        {heatmapTarget.player.name}の次のコマを置いた場合の期待ポイント
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+                <HanamichiBoard
+                  board={gameSession.gameState.hanamichiBoardState}
+                  onSpotClick={handleSpotClick}
+                  onPieceDrop={handlePieceDrop}
+                  spotCapacity={gameSession.rules.spotCapacity}
+                  heatmap={heatmap}
+                />
+              </Box>
             </Box>
 
             {/* プレイヤー情報とオタクコマ */}
@@ -246,6 +323,8 @@ const GameContent: React.FC = () => {
               {gameSession.players.map((player, index) => {
                 const isCurrentPlayer = isPlayerTurn(player.id);
                 const hasCompletedAction = gameSession.turnManager.phaseActions[player.id];
+                // 推しかつ決断の公開後、休むプレイヤーはラウンド終了まで推し活に参加しない
+                const isResting = gameSession.currentPhase !== 'oshikatsu-decision' && isRestingPlayer(player);
                 
                 return (
                   <Box 
@@ -290,6 +369,25 @@ const GameContent: React.FC = () => {
                         }}
                       >
                         {player.name}
+                        {isBotPlayer(player) && (
+                          <Box component="span" sx={{ ml: 1 }} aria-label="ボット">
+                            🤖
+                          </Box>
+                        )}
+                        {isResting && (
+                          <Box 
+                            component="span" 
+                            sx={{ 
+                              color: 'text.secondary',
+                              fontWeight: 'bold',
+                              ml: 1,
+                              fontSize: { xs: '0.8rem', md: '0.9rem' }
+                            }}
+                            aria-label="休み"
+                          >
+                            (休み)
+                          </Box>
+                        )}
                         {isCurrentPlayer && (
                           <Box 
                             component="span" 
@@ -452,6 +550,18 @@ const GameContent: React.FC = () => {
                   >
                     📋 フェーズ: <strong>{gameSession.currentPhase}</strong>
                   </Typography>
+                  <Typography
+                    variant="body2"
+                    sx={{ fontSize: { xs: '0.9rem', md: '1rem' } }}
+                  >
+                    🎲 シード: <strong>{gameSession.seed}</strong>
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    sx={{ fontSize: { xs: '0.9rem', md: '1rem' } }}
+                  >
+                    🚩 スタートプレイヤー: <strong>{gameSession.players[gameSession.startPlayerIndex]?.name}</strong>
+                  </Typography>
                 </Box>
                 
                 <Box sx={{ 
@@ -18,6 +18,11 @@ export default function Home() {
           推し活ミニゲームへ
         </Button>
       </Box>
+      <Box textAlign="center" sx={{ mt: 2 }}>
+        <Button component={Link} href="/rule-designer" variant="outlined" color="primary">
+          ルールバリアント編集
+        </Button>
+      </Box>
     </Container>
   );
 }
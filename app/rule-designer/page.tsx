@@ -0,0 +1,19 @@
+"use client";
+
+import React from "react";
+import { Container, Button, Box } from "@mui/material";
+import Link from "next/link";
+import RuleVariantEditor from "../../components/game/RuleVariantEditor";
+
+export default function RuleDesigner() {
+  return (
+    <Container maxWidth="lg" sx={{ py: { xs: 2, md: 4 } }}>
+      <Box sx={{ mb: 2 }}>
+        <Button component={Link} href="/oshi-game">
+          ← ゲームへ戻る
+        </Button>
+      </Box>
+      <RuleVariantEditor />
+    </Container>
+  );
+}
@@ -2,19 +2,26 @@ import React, { useState } from 'react';
 import { Box, Paper } from '@mui/material';
 import { BoardSpot } from '../../types/game';
 import OtakuPieceComponent from './OtakuPiece';
-import OshiPieceComponent from './OshiPiece';
+import { OshiPieceStack } from './OshiPiece';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import { DEFAULT_RULE_SET } from '../../utils/ruleSet';
 
 interface BoardSpotProps {
   spot?: BoardSpot;
   onSpotClick?: (spotId: number) => void;
   onPieceDrop?: (pieceId: string, spotId: number) => void;
+  capacity?: number;
+  heatValue?: number | null;   // 期待値ヒートマップの値（未指定なら表示しない）
+  heatIntensity?: number;      // 0〜1 の濃さ
 }
 
 const BoardSpotComponent: React.FC<BoardSpotProps> = ({
   spot,
   onSpotClick,
-  onPieceDrop
+  onPieceDrop,
+  capacity = DEFAULT_RULE_SET.spotCapacity,
+  heatValue,
+  heatIntensity = 0
 }) => {
   const [isHovering, setIsHovering] = useState(false);
   const { handleDragOver, handleDrop } = useDragAndDrop();
@@ -43,7 +50,9 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
     });
   };
 
-  const canAcceptMorePieces = !spot || spot.otakuPieces.length < 3;
+  const canAcceptMorePieces = !spot || spot.otakuPieces.length < capacity;
+  const oshiPieces = spot?.oshiPieces ?? [];
+  const hasOshi = oshiPieces.length > 0;
 
   return (
     <Paper
@@ -66,12 +75,12 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
           : canAcceptMorePieces 
             ? 'background.paper' 
             : 'error.light',
-        border: spot?.oshiPiece 
+        border: hasOshi 
           ? '3px solid' 
           : isHovering && canAcceptMorePieces
             ? '3px dashed'
             : '2px solid',
-        borderColor: spot?.oshiPiece 
+        borderColor: hasOshi 
           ? 'secondary.main' 
           : isHovering && canAcceptMorePieces
             ? 'primary.main'
@@ -94,7 +103,7 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
       }}
       tabIndex={0}
       role="gridcell"
-      aria-label={`ボードスポット${spot?.id}${spot?.oshiPiece ? ` - 推し${spot.oshiPiece.id}が配置済み` : ''}${spot?.otakuPieces.length ? ` - オタクコマ${spot.otakuPieces.length}個配置済み` : ''}`}
+      aria-label={`ボードスポット${spot?.id}${hasOshi ? ` - 推し${oshiPieces.map(oshi => oshi.id).join('・')}が配置済み` : ''}${spot?.otakuPieces.length ? ` - オタクコマ${spot.otakuPieces.length}個配置済み` : ''}`}
       onKeyDown={(e) => {
         if (e.key === 'Enter' || e.key === ' ') {
           e.preventDefault();
@@ -102,6 +111,28 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
         }
       }}
     >
+      {/* 期待値ヒートマップ */}
+      {heatValue !== undefined && heatValue !== null && (
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            borderRadius: 2,
+            backgroundColor: `rgba(255, 152, 0, ${0.1 + heatIntensity * 0.5})`,
+            pointerEvents: 'none',
+            display: 'flex',
+            alignItems: 'flex-end',
+            justifyContent: 'center',
+            pb: 0.5
+          }}
+          aria-label={`期待値 +${heatValue.toFixed(2)}ポイント`}
+        >
+          <Box component="span" sx={{ fontSize: { xs: '9px', sm: '11px' }, fontWeight: 'bold', color: 'warning.dark' }}>
+            +{heatValue.toFixed(2)}
+          </Box>
+        </Box>
+      )}
+
       {/* スポットID表示 */}
       <Box
         sx={{
@@ -125,8 +156,8 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
         {spot?.id}
       </Box>
 
-      {/* 推しコマ表示 */}
-      {spot?.oshiPiece && (
+      {/* 推しコマ表示（複数の推しは重ねて表示） */}
+      {hasOshi && (
         <Box 
           sx={{ 
             position: 'absolute', 
@@ -135,7 +166,7 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
             animation: 'bounce 0.6s ease-in-out'
           }}
         >
-          <OshiPieceComponent oshi={spot.oshiPiece} />
+          <OshiPieceStack oshiPieces={oshiPieces} size={oshiPieces.length > 1 ? 'small' : 'medium'} />
         </Box>
       )}
 
@@ -147,7 +178,7 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
           gap: { xs: 0.25, sm: 0.5 },
           alignItems: 'center',
           justifyContent: 'center',
-          mt: spot?.oshiPiece ? { xs: 1.5, sm: 2 } : 0,
+          mt: hasOshi ? { xs: 1.5, sm: 2 } : 0,
           width: '100%',
           height: '100%',
           position: 'relative'
@@ -181,7 +212,7 @@ const BoardSpotComponent: React.FC<BoardSpotProps> = ({
       </Box>
 
       {/* 配置制限表示 */}
-      {spot && spot.otakuPieces.length >= 3 && (
+      {spot && spot.otakuPieces.length >= capacity && (
         <Box
           sx={{
             position: 'absolute',
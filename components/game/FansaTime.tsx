@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useGame } from '../../contexts/GameContext';
+import { getFanserviceCardSpots } from '../../utils/gameLogic';
 
 interface FansaTimeProps {
   onPhaseComplete: () => void;
@@ -62,10 +63,10 @@ const FansaTime: React.FC<FansaTimeProps> = ({ onPhaseComplete }) => {
                     推し{['A', 'B', 'C'][index]}のカード
                   </div>
                   <div className="text-xs text-gray-600">
-                    スポット: {card.spots.join(', ')}
+                    スポット: {getFanserviceCardSpots(card).join(', ')}
                   </div>
                   <div className="text-xs text-gray-600">
-                    向き: {card.orientation === 'front' ? '表' : '裏'} / {card.rotation}°
+                    向き: {card.orientation === 'front' ? '表' : '裏'} / {card.rotation === 180 ? '上下逆' : '正位置'}
                   </div>
                 </div>
               ))}
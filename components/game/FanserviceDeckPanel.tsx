@@ -0,0 +1,77 @@
+import React from 'react';
+import { FanserviceSpotCard as FanserviceSpotCardType } from '../../types/game';
+
+interface FanserviceDeckPanelProps {
+  drawPile: FanserviceSpotCardType[];
+  discardPile: FanserviceSpotCardType[];
+  revealedCards: FanserviceSpotCardType[];
+  className?: string;
+}
+
+// カードの1面を2行×4列の小さなグリッドで表示（数字はスポット1〜3）
+const MiniFace: React.FC<{ spots: [number, number, number]; label: string }> = ({ spots, label }) => (
+  <div className="flex flex-col items-center">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="grid grid-cols-4 gap-px">
+      {Array.from({ length: 8 }, (_, i) => {
+        const spotNumber = spots.indexOf(i) + 1;
+        return (
+          <div
+            key={i}
+            className={`w-3 h-3 text-[8px] leading-3 text-center border ${spotNumber > 0 ? 'bg-pink-300 border-pink-500' : 'bg-gray-100 border-gray-300'}`}
+          >
+            {spotNumber > 0 ? spotNumber : ''}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+/**
+ * ファンサスポットカードの山札・捨て札パネル
+ * 山札を切り直すまでに公開されたカード（両面）を一覧し、残りのカードを推測できるようにする
+ */
+const FanserviceDeckPanel: React.FC<FanserviceDeckPanelProps> = ({
+  drawPile,
+  discardPile,
+  revealedCards,
+  className = ''
+}) => {
+  const seenCards = [...discardPile, ...revealedCards];
+
+  return (
+    <div className={`fanservice-deck-panel ${className}`}>
+      <div className="bg-white border border-gray-300 rounded-lg p-4">
+        <h3 className="font-semibold mb-2">ファンサスポットカードの山札</h3>
+        <div className="text-sm text-gray-600 mb-3">
+          山札: <span className="font-semibold">{drawPile.length}</span>枚 /
+          捨て札: <span className="font-semibold">{discardPile.length}</span>枚 /
+          公開中: <span className="font-semibold">{revealedCards.length}</span>枚
+        </div>
+
+        <div className="text-sm font-medium mb-2">切り直し以降に出たカード:</div>
+        {seenCards.length > 0 ? (
+          <div className="flex flex-wrap gap-3">
+            {seenCards.map(card => (
+              <div key={card.id} className="border border-gray-200 rounded p-2">
+                <div className="text-xs font-medium mb-1">
+                  {card.id.replace('fanservice-card-', 'カード')}
+                  {revealedCards.some(revealed => revealed.id === card.id) ? '（公開中）' : ''}
+                </div>
+                <div className="flex gap-2">
+                  <MiniFace spots={card.front} label="表" />
+                  <MiniFace spots={card.back} label="裏" />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500">まだカードは出ていません</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FanserviceDeckPanel;
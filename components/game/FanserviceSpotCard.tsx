@@ -1,5 +1,6 @@
 import React from 'react';
 import type { FanserviceSpotCard } from '../../types/game';
+import { getFanserviceCardSpots } from '../../utils/gameLogic';
 
 interface FanserviceSpotCardProps {
   card: FanserviceSpotCard;
@@ -12,11 +13,16 @@ const FanserviceSpotCard: React.FC<FanserviceSpotCardProps> = ({
   className = '', 
   showDetails = true 
 }) => {
+  // 公開している面に印刷されたスポット（スポット1〜3の順）
+  const face = card.orientation === 'front' ? card.front : card.back;
+
   // 8マスのグリッドを表現（2行×4列）
+  // 印刷面をそのまま描き、カードごと回転させることで物理カードと同じ見た目にする
   const renderGrid = () => {
     const spots = [];
     for (let i = 0; i < 8; i++) {
-      const isActiveSpot = card.spots.includes(i);
+      const spotNumber = face.indexOf(i) + 1;
+      const isActiveSpot = spotNumber > 0;
       const row = Math.floor(i / 4);
       const col = i % 4;
       
@@ -32,14 +38,14 @@ const FanserviceSpotCard: React.FC<FanserviceSpotCardProps> = ({
             gridColumn: col + 1
           }}
         >
-          {isActiveSpot ? '★' : i}
+          {isActiveSpot ? spotNumber : ''}
         </div>
       );
     }
     return spots;
   };
 
-  // 回転スタイルを適用
+  // 上下の向きに応じてカードを回転
   const getRotationStyle = () => {
     return {
       transform: `rotate(${card.rotation}deg)`,
@@ -58,9 +64,9 @@ const FanserviceSpotCard: React.FC<FanserviceSpotCardProps> = ({
         {showDetails && (
           <div className="mb-2 text-sm text-gray-600">
             <div>カード: {card.id}</div>
-            <div>向き: {getOrientationDisplay()}</div>
-            <div>回転: {card.rotation}°</div>
-            <div>スポット: [{card.spots.join(', ')}]</div>
+            <div>面: {getOrientationDisplay()}</div>
+            <div>上下: {card.rotation === 180 ? '逆さ' : '正位置'}</div>
+            <div>ボード上のスポット: [{getFanserviceCardSpots(card).join(', ')}]</div>
           </div>
         )}
         
@@ -72,12 +78,7 @@ const FanserviceSpotCard: React.FC<FanserviceSpotCardProps> = ({
             {renderGrid()}
           </div>
         </div>
-        
-        {card.orientation === 'back' && (
-          <div className="mt-2 text-center text-sm text-red-600">
-            ※ 裏向きのため実際のスポットは見えません
-          </div>
-        )}
+
       </div>
     </div>
   );
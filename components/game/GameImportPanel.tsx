@@ -0,0 +1,173 @@
+/**
+ * ゲームデータ取り込みコンポーネント（スタート画面）
+ * 書き出したJSONファイルを選択またはドロップし、内容を確認してからゲームとして読み込むか、
+ * ログと履歴を分析用データに追加する
+ */
+
+import React, { useRef, useState } from 'react';
+import { Box, Button, Card, CardContent, Typography, Alert } from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { ActionLog, GameSession } from '../../types/game';
+import { readGameImport, GameImportData } from '../../utils/gameImport';
+import { listSavedGames, mergeImportedGameData } from '../../utils/dataPersistence';
+import { PHASE_LABELS } from './SavedGamesBrowser';
+
+interface GameImportPanelProps {
+  onLoad: (session: GameSession, actionLog: ActionLog | null) => void;
+}
+
+const GameImportPanel: React.FC<GameImportPanelProps> = ({ onLoad }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importData, setImportData] = useState<GameImportData | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setImportData(null);
+
+    try {
+      const { data, error } = readGameImport(await file.text());
+      if (error) {
+        const problems: string[] = error.context?.problems ?? [];
+        setMessage({ severity: 'error', text: [error.message, ...problems.slice(0, 3)].join('：') });
+        return;
+      }
+      setImportData(data);
+      setMessage(null);
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました' });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!importData) return;
+    try {
+      const { historyAdded, logsAdded, actionLogAdded } = mergeImportedGameData(importData);
+      setMessage({
+        severity: 'success',
+        text: `履歴 ${historyAdded} 件・ログ ${logsAdded} 件${actionLogAdded ? '・アクションログ' : ''}を追加しました`
+      });
+      setImportData(null);
+    } catch (error) {
+      setMessage({ severity: 'error', text: error instanceof Error ? error.message : 'データの取り込みに失敗しました' });
+    }
+  };
+
+  const preview = importData?.preview;
+  const alreadySaved = preview?.gameId ? listSavedGames().some(entry => entry.gameId === preview.gameId) : false;
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Typography variant="h6" component="h2" gutterBottom>
+          ゲームデータの取り込み
+        </Typography>
+        <Box
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          sx={{
+            p: 3,
+            border: 2,
+            borderStyle: 'dashed',
+            borderColor: isDragging ? 'primary.main' : 'divider',
+            borderRadius: 2,
+            bgcolor: isDragging ? 'action.hover' : 'transparent',
+            textAlign: 'center'
+          }}
+        >
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            書き出したJSONファイルをここにドロップ
+          </Typography>
+          <Button variant="outlined" size="small" startIcon={<UploadFile />} onClick={() => fileInputRef.current?.click()}>
+            ファイルを選択
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                handleFile(file);
+              }
+              // 同じファイルを選び直しても読み込めるようにする
+              e.target.value = '';
+            }}
+          />
+        </Box>
+
+        {message && (
+          <Alert severity={message.severity} sx={{ mt: 2, textAlign: 'left' }}>
+            {message.text}
+          </Alert>
+        )}
+
+        {importData && preview && (
+          <Box sx={{ mt: 2, textAlign: 'left' }}>
+            <Typography variant="subtitle2">{fileName}</Typography>
+            {importData.session ? (
+              <Typography variant="body2">
+                ラウンド {preview.currentRound}/{preview.totalRounds}・{preview.currentPhase && PHASE_LABELS[preview.currentPhase]}・
+                {preview.players.map(p => p.name).join('、')}
+              </Typography>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                再開できるゲームは含まれていません
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary">
+              履歴 {preview.historyCount} 件・ログ {preview.logCount} 件
+            </Typography>
+            {importData.problems.length > 0 && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                形式が正しくない履歴・ログは取り込みません：{importData.problems.slice(0, 3).join('、')}
+                {importData.problems.length > 3 && ` ほか ${importData.problems.length - 3} 件`}
+              </Alert>
+            )}
+            {importData.session && alreadySaved && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                同じゲームが保存済みです。読み込んで進めると保存済みのデータは上書きされます
+              </Alert>
+            )}
+            <Box sx={{ mt: 1, display: 'flex', gap: 1 }}>
+              <Button
+                variant="contained"
+                size="small"
+                disabled={!importData.session}
+                onClick={() => importData.session && onLoad(importData.session, importData.actionLog)}
+              >
+                ゲームを読み込む
+              </Button>
+              <Button
+                variant="outlined"
+                size="small"
+                disabled={preview.historyCount === 0 && preview.logCount === 0 && !importData.actionLog}
+                onClick={handleMerge}
+              >
+                ログと履歴を追加
+              </Button>
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GameImportPanel;
@@ -2,6 +2,7 @@ import React from 'react';
 import { Box, Typography, Card, CardContent, Button, Divider, Chip } from '@mui/material';
 import { EmojiEvents, Star, MonetizationOn } from '@mui/icons-material';
 import { useGame } from '../../contexts/GameContext';
+import { TIE_BREAKER_LABELS, describeTieBreak } from '../../utils/ranking';
 
 interface GameResultsProps {
   onNewGame?: () => void;
@@ -20,7 +21,8 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
     );
   }
 
-  const { finalScores, winners, gameStats } = results;
+  const { finalScores, winners, ranking, gameStats } = results;
+  const tieBreakers = gameSession.rules.tieBreakers ?? [];
 
   return (
     <Box sx={{ maxWidth: 800, mx: 'auto', p: 3 }}>
@@ -30,7 +32,7 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
           🎉 ゲーム終了！ 🎉
         </Typography>
         <Typography variant="h6" sx={{ mb: 1 }}>
-          8ラウンド完了
+          {gameSession.rules.totalRounds}ラウンド完了
         </Typography>
         <Typography variant="body1" color="text.secondary">
           お疲れ様でした！
@@ -68,9 +70,18 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
             <Star sx={{ mr: 1, color: 'primary.main' }} />
             最終順位
           </Typography>
+
+          {/* 同点時の順位の決め方（ルールのタイブレークを順に適用） */}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            同点の場合: {tieBreakers.length > 0
+              ? tieBreakers.map(breaker => TIE_BREAKER_LABELS[breaker]).join(' → ')
+              : TIE_BREAKER_LABELS.shared}
+          </Typography>
           
-          {finalScores.map((score, index) => {
+          {finalScores.map((score) => {
             const isWinner = winners.some(w => w.playerId === score.playerId);
+            const rankedPlayer = ranking.find(player => player.playerId === score.playerId);
+            const tieBreakDescription = rankedPlayer ? describeTieBreak(rankedPlayer, ranking) : null;
             return (
               <Box key={score.playerId} sx={{ mb: 2 }}>
                 <Card 
@@ -85,14 +96,21 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                       <Box sx={{ display: 'flex', alignItems: 'center' }}>
                         <Typography variant="h6" sx={{ mr: 2, minWidth: 40 }}>
-                          {index + 1}位
-                        </Typography>
-                        <Typography variant="h6" sx={{ fontWeight: 'bold' }}>
-                          {score.playerName}
+                          {score.rank}位
                         </Typography>
-                        {isWinner && (
-                          <EmojiEvents sx={{ ml: 1, color: 'primary.main' }} />
-                        )}
+                        <Box>
+                          <Typography variant="h6" sx={{ fontWeight: 'bold', display: 'flex', alignItems: 'center' }}>
+                            {score.playerName}
+                            {isWinner && (
+                              <EmojiEvents sx={{ ml: 1, color: 'primary.main' }} />
+                            )}
+                          </Typography>
+                          {tieBreakDescription && (
+                            <Typography variant="caption" color="text.secondary">
+                              {tieBreakDescription}
+                            </Typography>
+                          )}
+                        </Box>
                       </Box>
                       
                       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
@@ -175,6 +193,11 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
                 <Box key={round.roundNumber} sx={{ mb: 2 }}>
                   <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
                     ラウンド {round.roundNumber}
+                    {round.startPlayerId && (
+                      <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                        （スタート: {gameSession.players.find(p => p.id === round.startPlayerId)?.name}）
+                      </Typography>
+                    )}
                   </Typography>
                   
                   {/* 労働結果 */}
@@ -186,7 +209,7 @@ const GameResults: React.FC<GameResultsProps> = ({ onNewGame }) => {
                       {round.laborResults.map(result => (
                         <Typography key={result.playerId} variant="body2" sx={{ ml: 1 }}>
                           • {gameSession.players.find(p => p.id === result.playerId)?.name}: 
-                          カード{result.selectedCard} → {result.reward}金
+                          カード{result.selectedCard}{result.draftPick ? `（${result.draftPick}番目に選択）` : ''} → {result.reward}金
                         </Typography>
                       ))}
                     </Box>
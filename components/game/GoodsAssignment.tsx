@@ -0,0 +1,141 @@
+import React from 'react';
+import { Box, Button, Card, CardContent, Typography, Grid } from '@mui/material';
+import { useGame } from '../../contexts/GameContext';
+import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import OtakuPieceComponent from './OtakuPiece';
+import GoodsChip from './GoodsChip';
+import { GoodsType } from '../../types/game';
+import { getGoodsInventory, canAssignGoodsTo } from '../../utils/gameLogic';
+
+interface GoodsAssignmentProps {
+  playerId: string;
+  className?: string;
+}
+
+const GoodsAssignment: React.FC<GoodsAssignmentProps> = ({ playerId, className = '' }) => {
+  const { gameSession, assignGoods, setPlayerActionCompleted } = useGame();
+  const { dragState, handleDragStart, handleDragEnd, handleDragOver, handleDrop } = useDragAndDrop();
+
+  if (!gameSession) {
+    return null;
+  }
+
+  const player = gameSession.players.find(p => p.id === playerId);
+  if (!player) {
+    return null;
+  }
+
+  const inventory = getGoodsInventory(player);
+  const placedPieces = player.otakuPieces.filter(piece => piece.boardSpotId !== undefined && piece.boardSpotId !== null);
+  const isDone = gameSession.turnManager.phaseActions[playerId] === true;
+
+  // 手持ちのグッズをオタクコマにドロップすると割り当てる（1コマにつき1つまで）
+  const handleGoodsDrop = (e: React.DragEvent, pieceId: string) => {
+    handleDrop(e, (itemId, itemType) => {
+      if (itemType === 'goods') {
+        assignGoods(playerId, pieceId, itemId as GoodsType);
+      }
+    });
+  };
+
+  return (
+    <Box className={className}>
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            グッズ割り当て - {player.name}
+          </Typography>
+
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            手持ちのグッズを花道ボード上のオタクコマにドラッグ&ドロップで乗せてください
+          </Typography>
+
+          <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" fontWeight="bold" sx={{ mr: 1 }}>
+              {isDone ? '割り当て終了' : '割り当て中'}
+            </Typography>
+            <Button variant="contained" size="small" disabled={isDone} onClick={() => setPlayerActionCompleted(playerId, true)}>
+              割り当て終了
+            </Button>
+          </Box>
+
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            手持ちのグッズ:
+          </Typography>
+          <Box sx={{ mb: 3, display: 'flex', gap: 1, flexWrap: 'wrap', minHeight: 32 }}>
+            {inventory.length > 0 ? (
+              inventory.map((goods, i) => (
+                <Box
+                  key={i}
+                  draggable={!isDone}
+                  onDragStart={(e) => handleDragStart(e, goods, 'goods')}
+                  onDragEnd={handleDragEnd}
+                  sx={{ cursor: isDone ? 'not-allowed' : 'grab', opacity: isDone ? 0.6 : 1 }}
+                >
+                  <GoodsChip goods={goods} size="large" />
+                </Box>
+              ))
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                手持ちのグッズはありません
+              </Typography>
+            )}
+          </Box>
+
+          <Typography variant="subtitle2" sx={{ mb: 2 }}>
+            配置済みのオタクコマ:
+          </Typography>
+          {placedPieces.length > 0 ? (
+            <Grid container spacing={2}>
+              {placedPieces.map((piece) => {
+                const canDrop = !isDone && canAssignGoodsTo(piece);
+                return (
+                  <Grid key={piece.id}>
+                    <Box
+                      onDragOver={canDrop ? handleDragOver : undefined}
+                      onDrop={canDrop ? (e) => handleGoodsDrop(e, piece.id) : undefined}
+                      sx={{
+                        p: 1,
+                        border: canDrop ? '2px dashed #2196f3' : '1px solid #ccc',
+                        borderRadius: 1,
+                        backgroundColor: canDrop && dragState.draggedItemType === 'goods' ? '#e3f2fd' : '#f5f5f5',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        minWidth: 80,
+                        opacity: canDrop ? 1 : 0.6
+                      }}
+                    >
+                      <OtakuPieceComponent piece={piece} size="medium" draggable={false} />
+                      <Typography variant="caption" sx={{ mt: 1, textAlign: 'center' }}>
+                        スポット{piece.boardSpotId}
+                        {piece.isKagebunshin ? '（影分身）' : ''}
+                      </Typography>
+                    </Box>
+                  </Grid>
+                );
+              })}
+            </Grid>
+          ) : (
+            <Box sx={{ textAlign: 'center', py: 4 }}>
+              <Typography variant="body1" color="text.secondary">
+                配置済みのオタクコマがありません
+              </Typography>
+            </Box>
+          )}
+
+          <Box sx={{ mt: 3, p: 2, backgroundColor: '#f0f0f0', borderRadius: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              <strong>割り当てルール:</strong>
+              <br />• 1つのオタクコマに乗せられるグッズは1つまで
+              <br />• 影分身にもグッズを乗せられる
+              <br />• 全員が割り当て終了するとファンサタイムに進む
+            </Typography>
+          </Box>
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default GoodsAssignment;
@@ -3,6 +3,7 @@ import { Box, Button, Card, CardContent, Typography, Grid, Alert } from '@mui/ma
 import { GoodsType } from '../../types/game';
 import { useGame } from '../../contexts/GameContext';
 import GoodsChip from './GoodsChip';
+import { isStepTurn, getGoodsInventory, canHoldMoreGoods } from '../../utils/gameLogic';
 
 interface GoodsPurchaseProps {
   playerId: string;
@@ -12,26 +13,23 @@ interface GoodsPurchaseProps {
 const goodsConfig = {
   uchiwa: {
     name: 'うちわ',
-    price: 1,
     description: '隣接する推しから1ポイント獲得',
     color: '#ff5722'
   },
   penlight: {
     name: 'ペンライト',
-    price: 1,
     description: '向かい側の推しから1ポイント獲得',
     color: '#ffeb3b'
   },
   sashiire: {
     name: '差し入れ',
-    price: 2,
-    description: '目の前の推しからのポイントを2倍にする（影分身作成可能）',
+    description: '目の前の推しからのポイントを2倍にする',
     color: '#8bc34a'
   }
 };
 
 const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = '' }) => {
-  const { gameSession, purchaseGoods, createKagebunshin, getAvailableOtakuPieces } = useGame();
+  const { gameSession, purchaseGoods, createKagebunshin, passTurn, setPlayerActionCompleted } = useGame();
   const [message, setMessage] = useState<string>('');
   const [messageType, setMessageType] = useState<'success' | 'error' | 'info'>('info');
 
@@ -44,9 +42,14 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
     return null;
   }
 
-  const availablePieces = getAvailableOtakuPieces(playerId);
-  const availablePiecesWithoutGoods = availablePieces.filter(piece => !piece.goods);
-  const sashiirePieces = availablePieces.filter(piece => piece.goods === 'sashiire' && !piece.isKagebunshin);
+  const goodsPrices = gameSession.rules.goodsPrices;
+  const inventory = getGoodsInventory(player);
+  const kagebunshinCount = player.otakuPieces.filter(piece => piece.isKagebunshin).length;
+  // グッズは1オタクコマに1つまでのため、影分身を含むオタクコマの数まで持てる
+  const hasRoom = canHoldMoreGoods(player);
+  // スタートプレイヤーから順に1人1つずつ購入する
+  const isTurn = isStepTurn(gameSession, playerId);
+  const isDone = gameSession.turnManager.phaseActions[playerId] === true;
 
   const handlePurchase = (goodsType: GoodsType) => {
     const success = purchaseGoods(playerId, goodsType);
@@ -55,9 +58,9 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
       setMessage(`${goodsConfig[goodsType].name}を購入しました！`);
       setMessageType('success');
     } else {
-      if (player.money < goodsConfig[goodsType].price) {
+      if (player.money < goodsPrices[goodsType]) {
         setMessage('資金が不足しています');
-      } else if (availablePiecesWithoutGoods.length === 0) {
+      } else if (!hasRoom) {
         setMessage('利用可能なオタクコマがありません');
       } else {
         setMessage('購入に失敗しました');
@@ -69,14 +72,14 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
     setTimeout(() => setMessage(''), 3000);
   };
 
-  const handleCreateKagebunshin = (originalPieceId: string) => {
-    const kagebunshinId = createKagebunshin(playerId, originalPieceId);
+  const handleCreateKagebunshin = () => {
+    const kagebunshinId = createKagebunshin(playerId);
     
     if (kagebunshinId) {
-      setMessage('影分身を作成しました！');
+      setMessage('影分身を購入しました！通常のオタクコマの配置後に配置できます');
       setMessageType('success');
     } else {
-      setMessage('影分身の作成に失敗しました');
+      setMessage(player.money < goodsPrices.kagebunshin ? '資金が不足しています' : '影分身の購入に失敗しました');
       setMessageType('error');
     }
 
@@ -85,7 +88,7 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
   };
 
   const canPurchase = (goodsType: GoodsType) => {
-    return player.money >= goodsConfig[goodsType].price && availablePiecesWithoutGoods.length > 0;
+    return isTurn && player.money >= goodsPrices[goodsType] && hasRoom;
   };
 
   return (
@@ -97,9 +100,31 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
           </Typography>
           
           <Typography variant="body2" color="text.secondary" gutterBottom>
-            所持金: {player.money}金 | 利用可能なオタクコマ: {availablePiecesWithoutGoods.length}個
+            所持金: {player.money}金 | オタクコマ: {player.otakuPieces.length}個（影分身{kagebunshinCount}体）
           </Typography>
 
+          {/* 購入したグッズはオタクコマの配置後に乗せる */}
+          <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 0.5, flexWrap: 'wrap' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+              手持ちのグッズ:
+            </Typography>
+            {inventory.length > 0
+              ? inventory.map((goods, i) => <GoodsChip key={i} goods={goods} size="medium" />)
+              : <Typography variant="body2" color="text.secondary">なし</Typography>}
+          </Box>
+
+          <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" fontWeight="bold" sx={{ mr: 1 }}>
+              {isDone ? '購入終了' : isTurn ? 'あなたの手番です' : '手番待ち'}
+            </Typography>
+            <Button variant="outlined" size="small" disabled={!isTurn} onClick={() => passTurn(playerId)}>
+              パス
+            </Button>
+            <Button variant="contained" size="small" disabled={!isTurn} onClick={() => setPlayerActionCompleted(playerId, true)}>
+              購入終了
+            </Button>
+          </Box>
+
           {message && (
             <Alert severity={messageType} sx={{ mb: 2 }}>
               {message}
@@ -131,7 +156,7 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
                       </Typography>
                       
                       <Typography variant="h6" color="primary" sx={{ mb: 1 }}>
-                        {config.price}金
+                        {goodsPrices[goodsType]}金
                       </Typography>
                       
                       <Typography variant="body2" color="text.secondary" sx={{ mb: 2, minHeight: 40 }}>
@@ -160,32 +185,24 @@ const GoodsPurchase: React.FC<GoodsPurchaseProps> = ({ playerId, className = ''
             })}
           </Grid>
 
-          {/* 影分身作成セクション */}
-          {sashiirePieces.length > 0 && (
-            <Box sx={{ mt: 3 }}>
-              <Typography variant="h6" gutterBottom>
-                影分身作成
-              </Typography>
-              <Typography variant="body2" color="text.secondary" gutterBottom>
-                差し入れを持つオタクコマから影分身を作成できます
-              </Typography>
-              
-              <Grid container spacing={1}>
-                {sashiirePieces.map((piece) => (
-                  <Grid key={piece.id}>
-                    <Button
-                      variant="outlined"
-                      size="small"
-                      onClick={() => handleCreateKagebunshin(piece.id)}
-                      sx={{ minWidth: 120 }}
-                    >
-                      影分身作成
-                    </Button>
-                  </Grid>
-                ))}
-              </Grid>
-            </Box>
-          )}
+          {/* 影分身購入セクション */}
+          <Box sx={{ mt: 3 }}>
+            <Typography variant="h6" gutterBottom>
+              影分身
+            </Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {goodsPrices.kagebunshin}金で影分身を購入できます。影分身は通常のオタクコマを配置し終えた後に配置します
+            </Typography>
+            <Button
+              variant="outlined"
+              size="small"
+              disabled={!isTurn || player.money < goodsPrices.kagebunshin}
+              onClick={handleCreateKagebunshin}
+              sx={{ minWidth: 120 }}
+            >
+              影分身を購入
+            </Button>
+          </Box>
         </CardContent>
       </Card>
     </Box>
@@ -7,13 +7,22 @@ interface HanamichiBoardProps {
   board: HanamichiBoardType;
   onSpotClick?: (spotId: number) => void;
   onPieceDrop?: (pieceId: string, spotId: number) => void;
+  spotCapacity?: number;
+  heatmap?: (number | null)[] | null; // スポットIDごとの期待値（ヒートマップ表示用）
 }
 
 const HanamichiBoard: React.FC<HanamichiBoardProps> = ({
   board,
   onSpotClick,
-  onPieceDrop
+  onPieceDrop,
+  spotCapacity,
+  heatmap
 }) => {
+  // ヒートマップの濃さは最大値を基準にする
+  const maxHeat = heatmap
+    ? Math.max(0, ...heatmap.filter((v): v is number => v !== null))
+    : 0;
+
   // 2×4グリッドの配置を作成
   const renderBoard = () => {
     const rows = [];
@@ -40,6 +49,9 @@ const HanamichiBoard: React.FC<HanamichiBoardProps> = ({
               spot={spot}
               onSpotClick={onSpotClick}
               onPieceDrop={onPieceDrop}
+              capacity={spotCapacity}
+              heatValue={heatmap ? heatmap[spotId] : undefined}
+              heatIntensity={heatmap && maxHeat > 0 ? Math.max(0, heatmap[spotId] ?? 0) / maxHeat : 0}
             />
           </Box>
         );
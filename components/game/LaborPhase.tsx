@@ -1,6 +1,7 @@
 import React from 'react';
 import { useGame } from '../../contexts/GameContext';
 import { RewardDistributionCard } from '../../types/game';
+import { getAvailableRewardCards, getDraftPicker, getTurnOrder } from '../../utils/gameLogic';
 
 interface LaborPhaseProps {
   currentPlayerId: string;
@@ -16,8 +17,18 @@ const LaborPhase: React.FC<LaborPhaseProps> = ({ currentPlayerId }) => {
   const allPlayersReady = areAllPlayersReady();
   const diceResult = gameSession.gameState.currentDiceResult;
 
+  // ドラフトでは手番のプレイヤーだけが、残っているカードから選べる
+  const isDraft = gameSession.rules.rewardCardDraft;
+  const draftPicker = isDraft ? getDraftPicker(gameSession) : null;
+  const availableCardIds = getAvailableRewardCards(gameSession, currentPlayerId).map(card => card.id);
+  const isPickerTurn = !isDraft || draftPicker?.id === currentPlayerId;
+  const turnOrder = getTurnOrder(gameSession.players, gameSession.startPlayerIndex);
+  const getCardOwner = (card: RewardDistributionCard) => gameSession.players.find(
+    player => player.id !== currentPlayerId && player.selectedRewardCard?.id === card.id
+  );
+
   const handleCardSelect = (card: RewardDistributionCard) => {
-    if (!hasSelectedCard) {
+    if (!hasSelectedCard && isPickerTurn && availableCardIds.includes(card.id)) {
       selectRewardCard(currentPlayerId, card.id);
     }
   };
@@ -39,54 +50,66 @@ const LaborPhase: React.FC<LaborPhaseProps> = ({ currentPlayerId }) => {
         <h3 className="text-lg font-semibold mb-4 text-center">
           報酬配分カードを選択してください
         </h3>
+        {isDraft && draftPicker && (
+          <p className="text-center mb-4 text-gray-700" role="status">
+            🎯 <span className="font-bold">{draftPicker.name}</span> の番です（残り{getAvailableRewardCards(gameSession, draftPicker.id).length}枚）
+          </p>
+        )}
         <div className="flex overflow-x-auto gap-4 pb-4 px-4">
           <div className="flex gap-4 mx-auto">
-          {gameSession.gameState.rewardDistributionCards.map((card, index) => (
-            <div
-              key={card.id}
-              className={`
-                border-3 p-4 rounded-xl cursor-pointer transition-all duration-300 transform
-                w-48 flex-shrink-0
-                ${currentPlayer?.selectedRewardCard?.id === card.id
-                  ? 'border-blue-500 bg-blue-100 scale-105 shadow-lg'
-                  : hasSelectedCard
-                  ? 'border-gray-300 bg-gray-100 cursor-not-allowed opacity-60'
-                  : 'border-gray-300 hover:border-blue-400 hover:bg-blue-50 hover:scale-102 hover:shadow-md'
-                }
-              `}
-              onClick={() => handleCardSelect(card)}
-              role="button"
-              tabIndex={hasSelectedCard && currentPlayer?.selectedRewardCard?.id !== card.id ? -1 : 0}
-              aria-label={`報酬配分カード${card.name}を選択`}
-              aria-pressed={currentPlayer?.selectedRewardCard?.id === card.id}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter' || e.key === ' ') {
-                  e.preventDefault();
-                  handleCardSelect(card);
-                }
-              }}
-              style={{
-                animationDelay: `${index * 0.1}s`
-              }}
-            >
-              <div className="text-center">
-                <h4 className="text-xl font-bold mb-3 text-gray-800">
-                  カード {card.name}
-                </h4>
-                <div className="grid grid-cols-2 gap-2 text-sm">
-                  {Object.entries(card.rewards).map(([dice, reward]) => (
-                    <div 
-                      key={dice} 
-                      className="flex justify-between items-center bg-white rounded p-2 shadow-sm"
-                    >
-                      <span className="font-medium">🎲 {dice}:</span>
-                      <span className="font-bold text-green-600">{reward}金</span>
-                    </div>
-                  ))}
+          {gameSession.gameState.rewardDistributionCards.map((card, index) => {
+            const owner = isDraft ? getCardOwner(card) : undefined;
+            const isSelectable = !hasSelectedCard && isPickerTurn && !owner;
+            return (
+              <div
+                key={card.id}
+                className={`
+                  border-3 p-4 rounded-xl cursor-pointer transition-all duration-300 transform
+                  w-48 flex-shrink-0
+                  ${currentPlayer?.selectedRewardCard?.id === card.id
+                    ? 'border-blue-500 bg-blue-100 scale-105 shadow-lg'
+                    : !isSelectable
+                    ? 'border-gray-300 bg-gray-100 cursor-not-allowed opacity-60'
+                    : 'border-gray-300 hover:border-blue-400 hover:bg-blue-50 hover:scale-102 hover:shadow-md'
+                  }
+                `}
+                onClick={() => handleCardSelect(card)}
+                role="button"
+                tabIndex={!isSelectable && currentPlayer?.selectedRewardCard?.id !== card.id ? -1 : 0}
+                aria-label={`報酬配分カード${card.name}を選択`}
+                aria-pressed={currentPlayer?.selectedRewardCard?.id === card.id}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    handleCardSelect(card);
+                  }
+                }}
+                style={{
+                  animationDelay: `${index * 0.1}s`
+                }}
+              >
+                <div className="text-center">
+                  <h4 className="text-xl font-bold mb-3 text-gray-800">
+                    カード {card.name}
+                  </h4>
+                  {owner && (
+                    <p className="text-sm text-gray-600 mb-2">{owner.name} が選択済み</p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    {Object.entries(card.rewards).map(([dice, reward]) => (
+                      <div 
+                        key={dice} 
+                        className="flex justify-between items-center bg-white rounded p-2 shadow-sm"
+                      >
+                        <span className="font-medium">🎲 {dice}:</span>
+                        <span className="font-bold text-green-600">{reward}金</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
           </div>
         </div>
       </div>
@@ -97,7 +120,7 @@ const LaborPhase: React.FC<LaborPhaseProps> = ({ currentPlayerId }) => {
           📊 選択状況
         </h3>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-4xl mx-auto">
-          {gameSession.players.map((player, index) => (
+          {turnOrder.map((player, index) => (
             <div
               key={player.id}
               className={`
@@ -114,7 +137,10 @@ const LaborPhase: React.FC<LaborPhaseProps> = ({ currentPlayerId }) => {
               aria-label={`${player.name}の選択状況`}
             >
               <div className="flex items-center justify-between">
-                <span className="font-bold text-lg">{player.name}</span>
+                <span className="font-bold text-lg">
+                  {isDraft && <span className="text-sm mr-2">{index + 1}番目</span>}
+                  {player.name}
+                </span>
                 <span className="text-2xl">
                   {player.selectedRewardCard ? '✅' : '⏳'}
                 </span>
@@ -68,4 +68,34 @@ const OshiPieceComponent: React.FC<OshiPieceProps> = ({
   );
 };
 
+interface OshiPieceStackProps {
+  oshiPieces: OshiPiece[];
+  size?: 'small' | 'medium' | 'large';
+}
+
+// 同じスポットにいる推しコマを少しずつずらして重ねて表示する
+export const OshiPieceStack: React.FC<OshiPieceStackProps> = ({
+  oshiPieces,
+  size = 'medium'
+}) => (
+  <Box
+    sx={{ display: 'inline-flex', alignItems: 'center' }}
+    role="group"
+    aria-label={`推し${oshiPieces.map(oshi => oshi.id).join('・')}`}
+  >
+    {oshiPieces.map((oshi, index) => (
+      <Box
+        key={oshi.id}
+        sx={{
+          ml: index === 0 ? 0 : -1,
+          mt: `${index * 4}px`,
+          zIndex: oshiPieces.length - index
+        }}
+      >
+        <OshiPieceComponent oshi={oshi} size={size} />
+      </Box>
+    ))}
+  </Box>
+);
+
 export default OshiPieceComponent;
\ No newline at end of file
@@ -1,8 +1,11 @@
 import React, { useEffect } from 'react';
 import { useGame } from '../../contexts/GameContext';
 import FanserviceSpotCardsDisplay from './FanserviceSpotCardsDisplay';
+import FanserviceDeckPanel from './FanserviceDeckPanel';
 import GoodsPurchase from './GoodsPurchase';
 import OtakuPiecePlacement from './OtakuPiecePlacement';
+import GoodsAssignment from './GoodsAssignment';
+import { getTurnOrder, isSequentialStepPhase } from '../../utils/gameLogic';
 
 interface OshikatsuPhaseProps {
   className?: string;
@@ -29,11 +32,16 @@ const OshikatsuPhase: React.FC<OshikatsuPhaseProps> = ({ className = '' }) => {
     );
   }
 
-  const { currentPhase, gameState } = gameSession;
+  const { currentPhase, gameState, turnManager } = gameSession;
   const { revealedCards } = gameState;
+  const activePlayer = gameSession.players[gameSession.activePlayerIndex];
+  // プレイヤーはスタートプレイヤーからの手番順に表示する
+  const turnOrder = getTurnOrder(gameSession.players, gameSession.startPlayerIndex);
+  const participants = turnOrder.filter(player => player.oshikatsuDecision === 'participate');
+  const allStepsCompleted = turnOrder.every(player => turnManager.phaseActions[player.id] === true);
 
   // 推し活関連のフェーズでのみ表示
-  const isOshikatsuPhase = ['oshikatsu-goods', 'oshikatsu-placement', 'fansa-time'].includes(currentPhase);
+  const isOshikatsuPhase = ['oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin', 'oshikatsu-goods-assign', 'fansa-time'].includes(currentPhase);
 
   if (!isOshikatsuPhase) {
     return null;
@@ -50,6 +58,28 @@ const OshikatsuPhase: React.FC<OshikatsuPhaseProps> = ({ className = '' }) => {
           <div className="text-center text-gray-600 mb-4">
             現在のフェーズ: <span className="font-semibold">{getPhaseDisplayName(currentPhase)}</span>
           </div>
+
+          {/* グッズ購入・オタクコマ配置・影分身配置はスタートプレイヤーから1人ずつ行う */}
+          {isSequentialStepPhase(currentPhase) && (
+            <div className="text-center mb-4">
+              {allStepsCompleted ? (
+                <div className="font-semibold">全員が完了しました</div>
+              ) : (
+                <div>
+                  手番: <span className="font-semibold">{activePlayer.name}</span>
+                  （{currentPhase === 'oshikatsu-goods' ? 'グッズを1つ購入' : currentPhase === 'oshikatsu-kagebunshin' ? '影分身を1個配置' : 'オタクコマを1個配置'}するか、パス・完了を選んでください）
+                </div>
+              )}
+              <div className="text-sm text-gray-500">
+                {turnOrder
+                  .map(player => {
+                    if (player.oshikatsuDecision === 'rest') return `${player.name}（休み）`;
+                    return turnManager.phaseActions[player.id] ? `${player.name}（完了）` : player.name;
+                  })
+                  .join(' → ')}
+              </div>
+            </div>
+          )}
           
           {revealedCards.length > 0 ? (
             <FanserviceSpotCardsDisplay 
@@ -62,6 +92,14 @@ const OshikatsuPhase: React.FC<OshikatsuPhaseProps> = ({ className = '' }) => {
               ファンサスポットカードを準備中...
             </div>
           )}
+
+          {/* カウンティング用に、これまでに出たカードと山札の残り枚数を表示 */}
+          <FanserviceDeckPanel
+            drawPile={gameState.fanserviceSpotCards}
+            discardPile={gameState.fanserviceDiscardPile ?? []}
+            revealedCards={revealedCards}
+            className="mt-4"
+          />
         </div>
 
         {currentPhase === 'oshikatsu-goods' && (
@@ -76,14 +114,12 @@ const OshikatsuPhase: React.FC<OshikatsuPhaseProps> = ({ className = '' }) => {
             
             {/* 各プレイヤーのグッズ購入UI */}
             <div className="grid gap-4">
-              {gameSession.players
-                .filter(player => player.oshikatsuDecision === 'participate')
-                .map(player => (
-                  <GoodsPurchase 
-                    key={player.id} 
-                    playerId={player.id}
-                  />
-                ))}
+              {participants.map(player => (
+                <GoodsPurchase 
+                  key={player.id} 
+                  playerId={player.id}
+                />
+              ))}
             </div>
           </div>
         )}
@@ -93,21 +129,63 @@ const OshikatsuPhase: React.FC<OshikatsuPhaseProps> = ({ className = '' }) => {
             <div className="bg-green-50 p-4 rounded-lg">
               <h3 className="font-semibold mb-2">オタクコマ配置フェーズ</h3>
               <p className="text-sm text-gray-600">
-                購入したグッズを持ったオタクコマを花道ボードに配置しましょう。
-                各マスには最大3個まで配置できます。
+                オタクコマを花道ボードに配置しましょう。
+                各マスには最大{gameSession.rules.spotCapacity}個まで配置できます。
+                影分身は全員の配置が終わった後に配置します。
               </p>
             </div>
             
             {/* 各プレイヤーのオタクコマ配置UI */}
             <div className="grid gap-4">
-              {gameSession.players
-                .filter(player => player.oshikatsuDecision === 'participate')
-                .map(player => (
-                  <OtakuPiecePlacement 
-                    key={player.id} 
-                    playerId={player.id}
-                  />
-                ))}
+              {participants.map(player => (
+                <OtakuPiecePlacement 
+                  key={player.id} 
+                  playerId={player.id}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {currentPhase === 'oshikatsu-kagebunshin' && (
+          <div className="space-y-4">
+            <div className="bg-green-50 p-4 rounded-lg">
+              <h3 className="font-semibold mb-2">影分身配置フェーズ</h3>
+              <p className="text-sm text-gray-600">
+                購入した影分身を花道ボードに配置しましょう。
+              </p>
+            </div>
+            
+            {/* 各プレイヤーの影分身配置UI */}
+            <div className="grid gap-4">
+              {participants.map(player => (
+                <OtakuPiecePlacement 
+                  key={player.id} 
+                  playerId={player.id}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {currentPhase === 'oshikatsu-goods-assign' && (
+          <div className="space-y-4">
+            <div className="bg-purple-50 p-4 rounded-lg">
+              <h3 className="font-semibold mb-2">グッズ割り当てフェーズ</h3>
+              <p className="text-sm text-gray-600">
+                購入したグッズを配置済みのオタクコマに1つずつ乗せましょう。
+                全員同時に割り当てられます。
+              </p>
+            </div>
+            
+            {/* 各プレイヤーのグッズ割り当てUI */}
+            <div className="grid gap-4">
+              {participants.map(player => (
+                <GoodsAssignment 
+                  key={player.id} 
+                  playerId={player.id}
+                />
+              ))}
             </div>
           </div>
         )}
@@ -130,6 +208,8 @@ const getPhaseDisplayName = (phase: string): string => {
   const phaseNames: { [key: string]: string } = {
     'oshikatsu-goods': 'グッズ購入',
     'oshikatsu-placement': 'オタクコマ配置',
+    'oshikatsu-kagebunshin': '影分身配置',
+    'oshikatsu-goods-assign': 'グッズ割り当て',
     'fansa-time': 'ファンサタイム'
   };
   
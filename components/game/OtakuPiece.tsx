@@ -3,6 +3,7 @@ import { Box, Chip } from '@mui/material';
 import { OtakuPiece, PlayerColor } from '../../types/game';
 import GoodsChip from './GoodsChip';
 import { useDragAndDrop } from '../../hooks/useDragAndDrop';
+import { useGame } from '../../contexts/GameContext';
 
 interface OtakuPieceProps {
   piece: OtakuPiece;
@@ -12,6 +13,7 @@ interface OtakuPieceProps {
   onDragStart?: (pieceId: string) => void;
 }
 
+// セッションにプレイヤーが見つからない場合の既定の色
 const playerColorMap: Record<string, PlayerColor> = {
   'player1': 'red',
   'player2': 'blue', 
@@ -33,7 +35,10 @@ const OtakuPieceComponent: React.FC<OtakuPieceProps> = ({
   style,
   onDragStart
 }) => {
-  const playerColor = playerColorMap[piece.playerId] || 'red';
+  const { gameSession } = useGame();
+  const playerColor = gameSession?.players.find(p => p.id === piece.playerId)?.color
+    || playerColorMap[piece.playerId]
+    || 'red';
   const { handleDragStart: handleDragStartHook, handleDragEnd, dragState } = useDragAndDrop();
   
   const sizeMap = {
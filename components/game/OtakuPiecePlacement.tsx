@@ -1,7 +1,8 @@
 import React from 'react';
-import { Box, Card, CardContent, Typography, Grid } from '@mui/material';
+import { Box, Button, Card, CardContent, Typography, Grid } from '@mui/material';
 import { useGame } from '../../contexts/GameContext';
 import OtakuPieceComponent from './OtakuPiece';
+import { isStepTurn, isPlaceablePiece } from '../../utils/gameLogic';
 
 interface OtakuPiecePlacementProps {
   playerId: string;
@@ -9,7 +10,7 @@ interface OtakuPiecePlacementProps {
 }
 
 const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, className = '' }) => {
-  const { gameSession, getAvailableOtakuPieces } = useGame();
+  const { gameSession, getAvailableOtakuPieces, passTurn, setPlayerActionCompleted } = useGame();
 
   if (!gameSession) {
     return null;
@@ -20,30 +21,47 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
     return null;
   }
 
+  // 通常の配置では影分身以外、影分身の配置では影分身のみを置ける
+  const isKagebunshinStep = gameSession.currentPhase === 'oshikatsu-kagebunshin';
   const availablePieces = getAvailableOtakuPieces(playerId);
-  const piecesWithGoods = availablePieces.filter(piece => piece.goods);
-  const piecesWithoutGoods = availablePieces.filter(piece => !piece.goods);
+  const placeablePieces = availablePieces.filter(piece => isPlaceablePiece(gameSession.currentPhase, piece));
+  const waitingPieces = availablePieces.filter(piece => !isPlaceablePiece(gameSession.currentPhase, piece));
+  // スタートプレイヤーから順に1人1個ずつ配置する
+  const isTurn = isStepTurn(gameSession, playerId);
+  const isDone = gameSession.turnManager.phaseActions[playerId] === true;
 
   return (
     <Box className={className}>
       <Card>
         <CardContent>
           <Typography variant="h6" gutterBottom>
-            オタクコマ配置 - {player.name}
+            {isKagebunshinStep ? '影分身配置' : 'オタクコマ配置'} - {player.name}
           </Typography>
           
           <Typography variant="body2" color="text.secondary" gutterBottom>
-            グッズを持つオタクコマを花道ボードにドラッグ&ドロップで配置してください
+            {isKagebunshinStep ? '影分身' : 'オタクコマ'}を花道ボードにドラッグ&ドロップで配置してください（グッズは配置が終わった後に乗せます）
           </Typography>
 
-          {piecesWithGoods.length > 0 ? (
+          <Box sx={{ mb: 2, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" fontWeight="bold" sx={{ mr: 1 }}>
+              {isDone ? '配置終了' : isTurn ? 'あなたの手番です' : '手番待ち'}
+            </Typography>
+            <Button variant="outlined" size="small" disabled={!isTurn} onClick={() => passTurn(playerId)}>
+              パス
+            </Button>
+            <Button variant="contained" size="small" disabled={!isTurn} onClick={() => setPlayerActionCompleted(playerId, true)}>
+              配置終了
+            </Button>
+          </Box>
+
+          {placeablePieces.length > 0 ? (
             <Box>
               <Typography variant="subtitle2" sx={{ mb: 2 }}>
-                配置可能なオタクコマ（グッズ付き）:
+                配置可能な{isKagebunshinStep ? '影分身' : 'オタクコマ'}:
               </Typography>
               
               <Grid container spacing={2}>
-                {piecesWithGoods.map((piece) => (
+                {placeablePieces.map((piece) => (
                   <Grid key={piece.id}>
                     <Box
                       sx={{
@@ -55,7 +73,8 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
                         flexDirection: 'column',
                         alignItems: 'center',
                         minWidth: 80,
-                        cursor: 'grab',
+                        cursor: isTurn ? 'grab' : 'not-allowed',
+                        opacity: isTurn ? 1 : 0.6,
                         '&:hover': {
                           backgroundColor: '#e3f2fd'
                         }
@@ -64,7 +83,7 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
                       <OtakuPieceComponent
                         piece={piece}
                         size="medium"
-                        draggable={true}
+                        draggable={isTurn}
                       />
                       <Typography variant="caption" sx={{ mt: 1, textAlign: 'center' }}>
                         {piece.isKagebunshin ? '影分身' : 'オタクコマ'}
@@ -77,22 +96,19 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
           ) : (
             <Box sx={{ textAlign: 'center', py: 4 }}>
               <Typography variant="body1" color="text.secondary">
-                配置可能なグッズ付きオタクコマがありません
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                グッズ購入フェーズでグッズを購入してください
+                配置可能な{isKagebunshinStep ? '影分身' : 'オタクコマ'}がありません
               </Typography>
             </Box>
           )}
 
-          {piecesWithoutGoods.length > 0 && (
+          {waitingPieces.length > 0 && (
             <Box sx={{ mt: 3 }}>
               <Typography variant="subtitle2" sx={{ mb: 2 }}>
-                待機中のオタクコマ（グッズなし）:
+                待機中のオタクコマ:
               </Typography>
               
               <Grid container spacing={2}>
-                {piecesWithoutGoods.map((piece) => (
+                {waitingPieces.map((piece) => (
                   <Grid key={piece.id}>
                     <Box
                       sx={{
@@ -113,7 +129,7 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
                         draggable={false}
                       />
                       <Typography variant="caption" sx={{ mt: 1, textAlign: 'center' }}>
-                        グッズなし
+                        {piece.isKagebunshin ? '影分身' : 'オタクコマ'}
                       </Typography>
                     </Box>
                   </Grid>
@@ -125,9 +141,10 @@ const OtakuPiecePlacement: React.FC<OtakuPiecePlacementProps> = ({ playerId, cla
           <Box sx={{ mt: 3, p: 2, backgroundColor: '#f0f0f0', borderRadius: 1 }}>
             <Typography variant="body2" color="text.secondary">
               <strong>配置ルール:</strong>
-              <br />• 各マスには最大3個まで配置可能
-              <br />• グッズを持つオタクコマのみ配置可能
-              <br />• 影分身も通常のオタクコマと同様に配置可能
+              <br />• 各マスには最大{gameSession.rules.spotCapacity}個まで配置可能
+              <br />• スタートプレイヤーから順に1個ずつ配置
+              <br />• 影分身は通常のオタクコマの配置が全員終わった後に配置
+              <br />• グッズは配置が終わった後に好きなオタクコマに1つずつ乗せる
             </Typography>
           </Box>
         </CardContent>
@@ -0,0 +1,214 @@
+/**
+ * プレイヤー設定コンポーネント
+ * 人数・名前・色・操作主体（人間/ボット）とスタートプレイヤーを設定し、入力エラーを各欄に表示する
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  MenuItem,
+  Alert
+} from '@mui/material';
+import { Player, PlayerColor, PlayerController } from '../../types/game';
+import { validatePlayerSetup } from '../../utils/errorHandling';
+import { BOT_STRATEGIES } from '../../utils/botPlayer';
+import { mathRandomSource, randomInt } from '../../utils/random';
+import {
+  PLAYER_COLORS,
+  PLAYER_COLOR_LABELS,
+  MAX_PLAYERS,
+  PlayerSetupEntry,
+  createDefaultSetupEntries,
+  resizeSetupEntries,
+  createPlayersFromSetup
+} from '../../utils/playerSetup';
+
+// スタートプレイヤーをランダムに決める場合の選択値
+const RANDOM_START = -1;
+
+const COLOR_SWATCHES: { [K in PlayerColor]: string } = {
+  red: '#f44336',
+  blue: '#2196f3',
+  green: '#4caf50',
+  yellow: '#ff9800'
+};
+
+interface PlayerSetupProps {
+  startingMoney: number;
+  onStart: (players: Player[], startPlayerIndex: number) => void;
+}
+
+const PlayerSetup: React.FC<PlayerSetupProps> = ({ startingMoney, onStart }) => {
+  const [entries, setEntries] = useState<PlayerSetupEntry[]>(() => createDefaultSetupEntries(2));
+  const [startPlayer, setStartPlayer] = useState<number>(0);
+
+  const players = useMemo(() => createPlayersFromSetup(entries, startingMoney), [entries, startingMoney]);
+  // ランダムの場合は先頭のプレイヤーで検証する（開始時に決め直す）
+  const errors = useMemo(
+    () => validatePlayerSetup(players, startPlayer === RANDOM_START ? 0 : startPlayer),
+    [players, startPlayer]
+  );
+
+  const fieldError = (playerIndex: number, field: 'name' | 'color') => {
+    return errors.find(error => error.context?.playerIndex === playerIndex && error.context?.field === field)?.message;
+  };
+  const generalErrors = errors.filter(error => error.context?.playerIndex === undefined);
+
+  const handleCountChange = (count: number) => {
+    setEntries(resizeSetupEntries(entries, count));
+    if (startPlayer >= count) {
+      setStartPlayer(0);
+    }
+  };
+
+  const updateEntry = (index: number, updates: Partial<PlayerSetupEntry>) => {
+    setEntries(entries.map((entry, i) => i === index ? { ...entry, ...updates } : entry));
+  };
+
+  const handleStart = () => {
+    if (errors.length > 0) return;
+    const startPlayerIndex = startPlayer === RANDOM_START ? randomInt(mathRandomSource, players.length) : startPlayer;
+    onStart(players, startPlayerIndex);
+  };
+
+  return (
+    <Card sx={{ mb: 3, textAlign: 'left' }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          プレイヤー設定
+        </Typography>
+
+        <Box sx={{ mb: 2, display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+          <TextField
+            select
+            label="人数"
+            size="small"
+            value={entries.length}
+            onChange={(e) => handleCountChange(Number(e.target.value))}
+            sx={{ minWidth: 120 }}
+          >
+            {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map(count => (
+              <MenuItem key={count} value={count}>
+                {count}人
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="スタートプレイヤー"
+            size="small"
+            value={startPlayer}
+            onChange={(e) => setStartPlayer(Number(e.target.value))}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value={RANDOM_START}>ランダム</MenuItem>
+            {entries.map((entry, i) => (
+              <MenuItem key={i} value={i}>
+                {entry.name.trim() || `プレイヤー${i + 1}`}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        {entries.map((entry, i) => (
+          <Box key={i} sx={{ mb: 2, display: 'flex', flexWrap: 'wrap', alignItems: 'flex-start', gap: 2 }}>
+            <TextField
+              label={`プレイヤー${i + 1}の名前`}
+              size="small"
+              value={entry.name}
+              onChange={(e) => updateEntry(i, { name: e.target.value })}
+              error={!!fieldError(i, 'name')}
+              helperText={fieldError(i, 'name')}
+              sx={{ minWidth: 200 }}
+            />
+            <TextField
+              select
+              label="色"
+              size="small"
+              value={entry.color}
+              onChange={(e) => updateEntry(i, { color: e.target.value as PlayerColor })}
+              error={!!fieldError(i, 'color')}
+              helperText={fieldError(i, 'color')}
+              sx={{ minWidth: 120 }}
+            >
+              {PLAYER_COLORS.map(color => (
+                <MenuItem key={color} value={color}>
+                  <Box
+                    component="span"
+                    sx={{ display: 'inline-block', width: 12, height: 12, borderRadius: '50%', mr: 1, backgroundColor: COLOR_SWATCHES[color] }}
+                  />
+                  {PLAYER_COLOR_LABELS[color]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="操作"
+              size="small"
+              value={entry.controller}
+              onChange={(e) => updateEntry(i, { controller: e.target.value as PlayerController })}
+              sx={{ minWidth: 120 }}
+            >
+              <MenuItem value="human">人間</MenuItem>
+              <MenuItem value="bot">ボット</MenuItem>
+            </TextField>
+            {entry.controller === 'bot' && (
+              <TextField
+                select
+                label="ボットの戦略"
+                size="small"
+                value={entry.botStrategy ?? BOT_STRATEGIES[0].name}
+                onChange={(e) => updateEntry(i, { botStrategy: e.target.value })}
+                sx={{ minWidth: 160 }}
+              >
+                {BOT_STRATEGIES.map(strategy => (
+                  <MenuItem key={strategy.name} value={strategy.name}>
+                    {strategy.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Box>
+        ))}
+
+        {generalErrors.map((error, i) => (
+          <Alert key={i} severity="error" sx={{ mb: 2 }}>
+            {error.message}
+          </Alert>
+        ))}
+
+        <Box sx={{ textAlign: 'center' }}>
+          <Button
+            variant="contained"
+            color="primary"
+            size="large"
+            onClick={handleStart}
+            disabled={errors.length > 0}
+            sx={{
+              py: 2,
+              px: 4,
+              fontSize: '1.2rem',
+              borderRadius: 3,
+              boxShadow: '0 4px 15px rgba(33, 150, 243, 0.3)',
+              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+              '&:hover': {
+                transform: 'translateY(-2px)',
+                boxShadow: '0 6px 20px rgba(33, 150, 243, 0.4)'
+              }
+            }}
+            aria-label="ゲームを開始する"
+          >
+            ゲーム開始
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlayerSetup;
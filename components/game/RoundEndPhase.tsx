@@ -2,7 +2,7 @@ import React from 'react';
 import { Box, Typography, Card, CardContent, Button, Divider, Chip } from '@mui/material';
 import { CheckCircle, ArrowForward, EmojiEvents } from '@mui/icons-material';
 import { useGame } from '../../contexts/GameContext';
-import { isGameComplete } from '../../utils/gameLogic';
+import { getNextPlayerIndex } from '../../utils/gameLogic';
 
 const RoundEndPhase: React.FC = () => {
   const { gameSession, nextPhase } = useGame();
@@ -12,11 +12,17 @@ const RoundEndPhase: React.FC = () => {
   }
 
   const currentRound = gameSession.currentRound;
+  const totalRounds = gameSession.rules.totalRounds;
   const currentRoundHistory = gameSession.gameState.roundHistory.find(
     round => round.roundNumber === currentRound
   );
 
-  const isLastRound = currentRound >= 8;
+  const restingPlayerIds = (currentRoundHistory?.oshikatsuDecisions ?? [])
+    .filter(decision => decision.decision === 'rest')
+    .map(decision => decision.playerId);
+
+  const isLastRound = currentRound >= totalRounds;
+  const nextStartPlayer = gameSession.players[getNextPlayerIndex(gameSession.startPlayerIndex, gameSession.players.length)];
 
   const handleNextRound = () => {
     if (isLastRound) {
@@ -38,12 +44,17 @@ const RoundEndPhase: React.FC = () => {
         </Typography>
         {isLastRound ? (
           <Typography variant="h6" color="primary.main">
-            全8ラウンド完了！
+            全{totalRounds}ラウンド完了！
           </Typography>
         ) : (
-          <Typography variant="h6" color="text.secondary">
-            次のラウンドの準備をしています...
-          </Typography>
+          <>
+            <Typography variant="h6" color="text.secondary">
+              次のラウンドの準備をしています...
+            </Typography>
+            <Typography variant="body1" sx={{ mt: 1 }}>
+              🚩 次のスタートプレイヤー: <strong>{nextStartPlayer?.name}</strong>
+            </Typography>
+          </>
         )}
       </Box>
 
@@ -112,7 +123,7 @@ const RoundEndPhase: React.FC = () => {
                     const player = gameSession.players.find(p => p.id === result.playerId);
                     return (
                       <Typography key={result.playerId} variant="body2" sx={{ mb: 0.5 }}>
-                        • {player?.name}: カード{result.selectedCard} (サイコロ: {result.diceResult}) → {result.reward}金獲得
+                        • {player?.name}: カード{result.selectedCard}{result.draftPick ? `（${result.draftPick}番目に選択）` : ''} (サイコロ: {result.diceResult}) → {result.reward}金獲得
                       </Typography>
                     );
                   })}
@@ -139,8 +150,8 @@ const RoundEndPhase: React.FC = () => {
               </Box>
             )}
 
-            {/* ファンサタイム結果 */}
-            {currentRoundHistory.fansaResults.length > 0 && (
+            {/* ファンサタイム結果（休んだプレイヤーは参加していないため得点なし） */}
+            {(currentRoundHistory.fansaResults.length > 0 || restingPlayerIds.length > 0) && (
               <Box sx={{ mb: 3 }}>
                 <Typography variant="subtitle1" sx={{ mb: 1, fontWeight: 'bold' }}>
                   ⭐ ファンサタイム
@@ -165,6 +176,14 @@ const RoundEndPhase: React.FC = () => {
                       </Box>
                     );
                   })}
+                  {restingPlayerIds.map(playerId => {
+                    const player = gameSession.players.find(p => p.id === playerId);
+                    return (
+                      <Typography key={playerId} variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                        • {player?.name}: 休み（ファンサタイムに参加していません）
+                      </Typography>
+                    );
+                  })}
                 </Box>
               </Box>
             )}
@@ -191,14 +210,14 @@ const RoundEndPhase: React.FC = () => {
               overflow: 'hidden'
             }}>
               <Box sx={{ 
-                width: `${(currentRound / 8) * 100}%`, 
+                width: `${(currentRound / totalRounds) * 100}%`, 
                 height: '100%', 
                 backgroundColor: 'primary.main',
                 transition: 'width 0.3s ease'
               }} />
             </Box>
             <Typography variant="body2" sx={{ ml: 2 }}>
-              {currentRound}/8 ラウンド
+              {currentRound}/{totalRounds} ラウンド
             </Typography>
           </Box>
           
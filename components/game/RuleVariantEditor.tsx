@@ -0,0 +1,475 @@
+/**
+ * ルールバリアント編集コンポーネント（デザイナー向け）
+ * 数値ルールと報酬配分カード表を編集し、名前付きバリアントとして保存・プレイできる
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+  Grid,
+  TextField,
+  MenuItem,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  IconButton,
+  FormControlLabel,
+  Switch,
+  Chip
+} from '@mui/material';
+import { Delete, Add } from '@mui/icons-material';
+import Link from 'next/link';
+import { RuleSet, RewardDistributionCard, GoodsType, TieBreaker } from '../../types/game';
+import { RULE_SET_PRESETS, DEFAULT_RULE_SET } from '../../utils/ruleSet';
+import { validateRuleSet } from '../../utils/errorHandling';
+import {
+  getAvailableRuleSets,
+  saveRuleVariant,
+  deleteRuleVariant,
+  summarizeGameHistoryByRuleSet,
+  RuleVariantSummary
+} from '../../utils/dataPersistence';
+import { getCardExpectedIncome } from '../../utils/botPlayer';
+import { TIE_BREAKERS, TIE_BREAKER_LABELS } from '../../utils/ranking';
+
+const DICE_FACES = [1, 2, 3, 4, 5, 6] as const;
+const CARD_NAMES: RewardDistributionCard['name'][] = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const GOODS_LABELS: { [K in GoodsType | 'kagebunshin']: string } = {
+  uchiwa: 'うちわ',
+  penlight: 'ペンライト',
+  sashiire: '差し入れ',
+  kagebunshin: '影分身'
+};
+
+const isPreset = (id: string) => RULE_SET_PRESETS.some(preset => preset.id === id);
+
+// 入れ子のオブジェクトも含めて複製する（プリセットを直接書き換えないため）
+const cloneRuleSet = (rules: RuleSet): RuleSet => JSON.parse(JSON.stringify(rules));
+
+// 未使用の名前で報酬配分カードを作成（全て使用済みなら null）
+const createBlankRewardCard = (cards: RewardDistributionCard[]): RewardDistributionCard | null => {
+  const name = CARD_NAMES.find(n => !cards.some(card => card.name === n));
+  if (!name) return null;
+  let id = `card-${name}`;
+  for (let n = 2; cards.some(card => card.id === id); n++) {
+    id = `card-${name}-${n}`;
+  }
+  return {
+    id,
+    name,
+    rewards: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0 }
+  };
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  error: boolean;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, error, onChange }) => (
+  <TextField
+    label={label}
+    type="number"
+    size="small"
+    fullWidth
+    value={Number.isNaN(value) ? '' : value}
+    error={error}
+    onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+  />
+);
+
+const RuleVariantEditor: React.FC = () => {
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>(RULE_SET_PRESETS);
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_RULE_SET.id);
+  const [draft, setDraft] = useState<RuleSet>(cloneRuleSet(DEFAULT_RULE_SET));
+  const [isDirty, setIsDirty] = useState(false);
+  const [summaries, setSummaries] = useState<RuleVariantSummary[]>([]);
+  const [message, setMessage] = useState<string>('');
+
+  // ストレージはブラウザでのみ読み込む
+  useEffect(() => {
+    setRuleSets(getAvailableRuleSets());
+    setSummaries(summarizeGameHistoryByRuleSet());
+  }, []);
+
+  const errors = useMemo(() => validateRuleSet(draft), [draft]);
+  const errorFields = new Set(errors.map(error => error.context?.field as string));
+  const hasError = (field: string) => errorFields.has(field);
+
+  const update = (changes: Partial<RuleSet>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updateCard = (index: number, card: RewardDistributionCard) => {
+    update({ rewardCards: draft.rewardCards.map((c, i) => (i === index ? card : c)) });
+  };
+
+  const handleAddCard = () => {
+    const card = createBlankRewardCard(draft.rewardCards);
+    if (card) {
+      update({ rewardCards: [...draft.rewardCards, card] });
+    }
+  };
+
+  // タイブレークは追加した順に適用する（同順位を選ぶとそれ以降は比べない）
+  const tieBreakers = draft.tieBreakers ?? [];
+  const addableTieBreakers = TIE_BREAKERS.filter(breaker => !tieBreakers.includes(breaker));
+  const canAddTieBreaker = !tieBreakers.includes('shared') && addableTieBreakers.length > 0;
+
+  const handleAddTieBreaker = (breaker: TieBreaker) => {
+    update({ tieBreakers: [...tieBreakers, breaker] });
+  };
+
+  const handleRemoveTieBreaker = (breaker: TieBreaker) => {
+    update({ tieBreakers: tieBreakers.filter(b => b !== breaker) });
+  };
+
+  const handleSelect = (id: string) => {
+    const rules = ruleSets.find(r => r.id === id);
+    if (!rules) return;
+    setSelectedId(id);
+    setDraft(cloneRuleSet(rules));
+    setIsDirty(false);
+    setMessage('');
+  };
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+
+    // プリセットは上書きせず、新しいバリアントとして保存する
+    const rules = isPreset(draft.id) ? { ...draft, id: `variant-${Date.now()}` } : draft;
+    try {
+      saveRuleVariant(rules);
+      setRuleSets(getAvailableRuleSets());
+      setSelectedId(rules.id);
+      setDraft(rules);
+      setIsDirty(false);
+      setMessage(`「${rules.name}」を保存しました`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'ルールバリアントの保存に失敗しました');
+    }
+  };
+
+  const handleDelete = () => {
+    if (isPreset(selectedId)) return;
+    deleteRuleVariant(selectedId);
+    setRuleSets(getAvailableRuleSets());
+    handleSelect(DEFAULT_RULE_SET.id);
+  };
+
+  return (
+    <Box sx={{ maxWidth: 1000, mx: 'auto', p: 3 }}>
+      <Typography variant="h4" component="h1" gutterBottom>
+        ルールバリアント編集
+      </Typography>
+
+      {/* バリアント選択 */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={2} alignItems="center">
+            <Grid size={{ xs: 12, md: 5 }}>
+              <TextField
+                select
+                label="ルール"
+                size="small"
+                fullWidth
+                value={selectedId}
+                onChange={(e) => handleSelect(e.target.value)}
+              >
+                {ruleSets.map(rules => (
+                  <MenuItem key={rules.id} value={rules.id}>
+                    {rules.name}{isPreset(rules.id) ? '（プリセット）' : ''}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                label="バリアント名"
+                size="small"
+                fullWidth
+                value={draft.name}
+                error={hasError('name')}
+                onChange={(e) => update({ name: e.target.value })}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 3 }} sx={{ display: 'flex', gap: 1 }}>
+              <Button variant="contained" onClick={handleSave} disabled={errors.length > 0 || !isDirty}>
+                保存
+              </Button>
+              <Button variant="outlined" color="error" onClick={handleDelete} disabled={isPreset(selectedId)}>
+                削除
+              </Button>
+              <Button
+                variant="outlined"
+                component={Link}
+                href={`/oshi-game?variant=${encodeURIComponent(selectedId)}`}
+                disabled={isDirty}
+              >
+                プレイ
+              </Button>
+            </Grid>
+          </Grid>
+          {isPreset(selectedId) && isDirty && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              プリセットの変更は新しいバリアントとして保存されます
+            </Typography>
+          )}
+          {message && (
+            <Alert severity="info" sx={{ mt: 2 }}>
+              {message}
+            </Alert>
+          )}
+          {errors.length > 0 && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {errors[0].message}（{errors.map(error => error.context?.field).join(', ')}）
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 基本ルール */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            基本ルール
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 6, md: 3 }}>
+              <NumberField label="ラウンド数" value={draft.totalRounds} error={hasError('totalRounds')} onChange={(v) => update({ totalRounds: v })} />
+            </Grid>
+            <Grid size={{ xs: 6, md: 3 }}>
+              <NumberField label="基本ポイント" value={draft.basePoints} error={hasError('basePoints')} onChange={(v) => update({ basePoints: v })} />
+            </Grid>
+            <Grid size={{ xs: 6, md: 3 }}>
+              <NumberField label="スポット定員" value={draft.spotCapacity} error={hasError('spotCapacity')} onChange={(v) => update({ spotCapacity: v })} />
+            </Grid>
+            <Grid size={{ xs: 6, md: 3 }}>
+              <NumberField label="初期資金" value={draft.startingMoney} error={hasError('startingMoney')} onChange={(v) => update({ startingMoney: v })} />
+            </Grid>
+          </Grid>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.shareColocatedOshiPool}
+                onChange={(e) => update({ shareColocatedOshiPool: e.target.checked })}
+              />
+            }
+            label="同じスポットに複数の推しが来た場合、目の前のポイントを1回分だけ山分けする（オフなら推しごとに山分け）"
+            sx={{ mt: 2 }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* タイブレーク */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            同点時の順位
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            最終得点が同点のプレイヤーに上から順に適用し、最後まで同点なら同順位で勝利を分け合います
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+            {tieBreakers.map((breaker, i) => (
+              <Chip
+                key={breaker}
+                label={`${i + 1}. ${TIE_BREAKER_LABELS[breaker]}`}
+                onDelete={() => handleRemoveTieBreaker(breaker)}
+              />
+            ))}
+            {tieBreakers.length === 0 && (
+              <Typography variant="body2">{TIE_BREAKER_LABELS.shared}</Typography>
+            )}
+            {canAddTieBreaker && (
+              <TextField
+                select
+                label="追加"
+                size="small"
+                value=""
+                onChange={(e) => handleAddTieBreaker(e.target.value as TieBreaker)}
+                sx={{ minWidth: 200 }}
+              >
+                {addableTieBreakers.map(breaker => (
+                  <MenuItem key={breaker} value={breaker}>
+                    {TIE_BREAKER_LABELS[breaker]}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          </Box>
+          {hasError('tieBreakers') && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              同順位は最後にのみ設定できます
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* グッズ */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            グッズ価格とボーナス
+          </Typography>
+          <Grid container spacing={2}>
+            {(Object.keys(GOODS_LABELS) as (keyof RuleSet['goodsPrices'])[]).map(goods => (
+              <Grid size={{ xs: 6, md: 3 }} key={goods}>
+                <NumberField
+                  label={`${GOODS_LABELS[goods]}の価格`}
+                  value={draft.goodsPrices[goods]}
+                  error={hasError(`goodsPrices.${goods}`)}
+                  onChange={(v) => update({ goodsPrices: { ...draft.goodsPrices, [goods]: v } })}
+                />
+              </Grid>
+            ))}
+            <Grid size={{ xs: 6, md: 4 }}>
+              <NumberField label="うちわボーナス" value={draft.uchiwaBonus} error={hasError('uchiwaBonus')} onChange={(v) => update({ uchiwaBonus: v })} />
+            </Grid>
+            <Grid size={{ xs: 6, md: 4 }}>
+              <NumberField label="ペンライトボーナス" value={draft.penlightBonus} error={hasError('penlightBonus')} onChange={(v) => update({ penlightBonus: v })} />
+            </Grid>
+            <Grid size={{ xs: 6, md: 4 }}>
+              <NumberField label="差し入れ倍率" value={draft.sashiireMultiplier} error={hasError('sashiireMultiplier')} onChange={(v) => update({ sashiireMultiplier: v })} />
+            </Grid>
+          </Grid>
+        </CardContent>
+      </Card>
+
+      {/* 報酬配分カード表 */}
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6">報酬配分カード</Typography>
+            <Button
+              startIcon={<Add />}
+              onClick={handleAddCard}
+              disabled={draft.rewardCards.length >= CARD_NAMES.length}
+            >
+              カードを追加
+            </Button>
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={draft.rewardCardDraft}
+                onChange={(e) => update({ rewardCardDraft: e.target.checked })}
+              />
+            }
+            label="ドラフト（スタートプレイヤーから1枚ずつ選び、選ばれたカードは他のプレイヤーが選べない）"
+            sx={{ mb: 1 }}
+          />
+          {hasError('rewardCardDraft') && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              ドラフトには4枚以上のカードが必要です
+            </Alert>
+          )}
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>名前</TableCell>
+                  {DICE_FACES.map(face => (
+                    <TableCell key={face} align="center">🎲{face}</TableCell>
+                  ))}
+                  <TableCell align="center">期待値</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {draft.rewardCards.map((card, index) => (
+                  <TableRow key={card.id}>
+                    <TableCell sx={{ minWidth: 80 }}>
+                      <TextField
+                        select
+                        size="small"
+                        value={card.name}
+                        error={hasError('rewardCards.name')}
+                        onChange={(e) => updateCard(index, { ...card, name: e.target.value as RewardDistributionCard['name'] })}
+                      >
+                        {CARD_NAMES.map(name => (
+                          <MenuItem key={name} value={name}>{name}</MenuItem>
+                        ))}
+                      </TextField>
+                    </TableCell>
+                    {DICE_FACES.map(face => (
+                      <TableCell key={face} sx={{ minWidth: 70 }}>
+                        <NumberField
+                          label=""
+                          value={card.rewards[face]}
+                          error={hasError(`rewardCards.${card.id}`)}
+                          onChange={(v) => updateCard(index, { ...card, rewards: { ...card.rewards, [face]: v } })}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell align="center">
+                      {getCardExpectedIncome(card).toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      <IconButton
+                        aria-label={`報酬配分カード${card.name}を削除`}
+                        onClick={() => update({ rewardCards: draft.rewardCards.filter((_, i) => i !== index) })}
+                      >
+                        <Delete />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        </CardContent>
+      </Card>
+
+      {/* バリアントごとの結果比較 */}
+      <Card>
+        <CardContent>
+          <Typography variant="h6" sx={{ mb: 2 }}>
+            バリアント別の結果
+          </Typography>
+          {summaries.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              まだプレイ記録がありません
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>ルール</TableCell>
+                  <TableCell align="right">プレイ数</TableCell>
+                  <TableCell align="right">完了数</TableCell>
+                  <TableCell align="right">平均勝者ポイント</TableCell>
+                  <TableCell align="right">平均ポイント</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {summaries.map(summary => (
+                  <TableRow key={summary.ruleSetId}>
+                    <TableCell>{summary.ruleSetName}</TableCell>
+                    <TableCell align="right">{summary.gamesPlayed}</TableCell>
+                    <TableCell align="right">{summary.gamesCompleted}</TableCell>
+                    <TableCell align="right">{summary.averageWinningScore.toFixed(1)}</TableCell>
+                    <TableCell align="right">{summary.averageScore.toFixed(1)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default RuleVariantEditor;
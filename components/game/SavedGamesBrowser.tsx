@@ -0,0 +1,224 @@
+/**
+ * 保存済みゲーム一覧コンポーネント（スタート画面）
+ * 進行中・終了したゲームを最後に保存した順に表示し、再開・複製・名前の変更・アーカイブ・削除ができる
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Typography,
+  TextField,
+  IconButton,
+  Chip,
+  Stack,
+  FormControlLabel,
+  Switch
+} from '@mui/material';
+import { PlayArrow, ContentCopy, Edit, Archive, Unarchive, Delete, Check, Close } from '@mui/icons-material';
+import { GamePhase } from '../../types/game';
+import {
+  listSavedGames,
+  duplicateSavedGame,
+  renameSavedGame,
+  archiveSavedGame,
+  deleteSavedGame,
+  SavedGameEntry
+} from '../../utils/dataPersistence';
+
+export const PHASE_LABELS: { [K in GamePhase]: string } = {
+  'setup': '準備',
+  'labor': '労働',
+  'oshikatsu-decision': '推し活の決断',
+  'oshikatsu-card-reveal': '決断の公開',
+  'oshikatsu-goods': 'グッズ購入',
+  'oshikatsu-placement': 'オタクコマ配置',
+  'oshikatsu-kagebunshin': '影分身配置',
+  'oshikatsu-goods-assign': 'グッズ割り当て',
+  'fansa-time': 'ファンサタイム',
+  'round-end': 'ラウンド終了',
+  'game-end': 'ゲーム終了'
+};
+
+const STATUS_LABELS: { [K in SavedGameEntry['gameStatus']]: string } = {
+  'in-progress': '進行中',
+  'completed': '終了',
+  'abandoned': '中断'
+};
+
+interface SavedGamesBrowserProps {
+  onResume: (gameId: string) => void;
+}
+
+interface SavedGameRowProps {
+  entry: SavedGameEntry;
+  onResume: () => void;
+  onDuplicate: () => void;
+  onRename: (name: string) => void;
+  onArchive: () => void;
+  onDelete: () => void;
+}
+
+const SavedGameRow: React.FC<SavedGameRowProps> = ({ entry, onResume, onDuplicate, onRename, onArchive, onDelete }) => {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const handleRename = () => {
+    if (editingName === null || !editingName.trim()) return;
+    onRename(editingName);
+    setEditingName(null);
+  };
+
+  return (
+    <Box sx={{ py: 1.5, borderBottom: 1, borderColor: 'divider', display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+      <Box sx={{ flex: 1, minWidth: 240, textAlign: 'left' }}>
+        {editingName !== null ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <TextField
+              size="small"
+              value={editingName}
+              error={!editingName.trim()}
+              onChange={(e) => setEditingName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              inputProps={{ 'aria-label': 'ゲーム名' }}
+              autoFocus
+            />
+            <IconButton size="small" onClick={handleRename} disabled={!editingName.trim()} aria-label="名前を保存">
+              <Check fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => setEditingName(null)} aria-label="名前の変更をやめる">
+              <Close fontSize="small" />
+            </IconButton>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography sx={{ fontWeight: 'bold' }}>{entry.name}</Typography>
+            <Chip
+              label={STATUS_LABELS[entry.gameStatus]}
+              size="small"
+              color={entry.gameStatus === 'in-progress' ? 'primary' : 'default'}
+            />
+          </Box>
+        )}
+        <Typography variant="body2" color="text.secondary">
+          ラウンド {entry.totalRounds}/{entry.rules.totalRounds}
+          {entry.currentPhase && `・${PHASE_LABELS[entry.currentPhase]}`}
+          ・{entry.players.map(p => p.name).join('、')}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          最終更新: {entry.lastModified.toLocaleString('ja-JP')}
+          {!entry.hasSaveData && '（セーブデータなし）'}
+        </Typography>
+      </Box>
+
+      {confirmingDelete ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="body2">このゲームを削除しますか？</Typography>
+          <Button size="small" color="error" variant="contained" onClick={onDelete}>
+            削除
+          </Button>
+          <Button size="small" onClick={() => setConfirmingDelete(false)}>
+            キャンセル
+          </Button>
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={<PlayArrow />}
+            onClick={onResume}
+            disabled={!entry.hasSaveData}
+          >
+            再開
+          </Button>
+          <IconButton size="small" onClick={onDuplicate} disabled={!entry.hasSaveData} aria-label="複製">
+            <ContentCopy fontSize="small" />
+          </IconButton>
+          <IconButton size="small" onClick={() => setEditingName(entry.name)} aria-label="名前を変更">
+            <Edit fontSize="small" />
+          </IconButton>
+          <IconButton size="small" onClick={onArchive} aria-label={entry.archived ? 'アーカイブから戻す' : 'アーカイブ'}>
+            {entry.archived ? <Unarchive fontSize="small" /> : <Archive fontSize="small" />}
+          </IconButton>
+          <IconButton size="small" color="error" onClick={() => setConfirmingDelete(true)} aria-label="削除">
+            <Delete fontSize="small" />
+          </IconButton>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+const SavedGamesBrowser: React.FC<SavedGamesBrowserProps> = ({ onResume }) => {
+  const [savedGames, setSavedGames] = useState<SavedGameEntry[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [message, setMessage] = useState<string>('');
+
+  // ストレージはブラウザでのみ読み込む
+  useEffect(() => {
+    setSavedGames(listSavedGames());
+  }, []);
+
+  // 操作後は一覧を読み込み直し、失敗した場合はメッセージを表示する
+  const runAndRefresh = (operation: () => void) => {
+    try {
+      operation();
+      setMessage('');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : '操作に失敗しました');
+    }
+    setSavedGames(listSavedGames());
+  };
+
+  const visibleGames = savedGames.filter(entry => entry.archived === showArchived);
+  const archivedCount = savedGames.filter(entry => entry.archived).length;
+
+  if (savedGames.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card sx={{ mb: 4 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="h6" component="h2">
+            保存済みのゲーム
+          </Typography>
+          <FormControlLabel
+            control={<Switch checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />}
+            label={`アーカイブ（${archivedCount}）`}
+          />
+        </Box>
+        {message && (
+          <Typography color="error" variant="body2" sx={{ mb: 1 }}>
+            {message}
+          </Typography>
+        )}
+        {visibleGames.length === 0 ? (
+          <Typography color="text.secondary" variant="body2">
+            {showArchived ? 'アーカイブしたゲームはありません' : '保存済みのゲームはありません'}
+          </Typography>
+        ) : (
+          <Stack>
+            {visibleGames.map(entry => (
+              <SavedGameRow
+                key={entry.gameId}
+                entry={entry}
+                onResume={() => onResume(entry.gameId)}
+                onDuplicate={() => runAndRefresh(() => duplicateSavedGame(entry.gameId, `game-${Date.now()}`))}
+                onRename={(name) => runAndRefresh(() => renameSavedGame(entry.gameId, name))}
+                onArchive={() => runAndRefresh(() => archiveSavedGame(entry.gameId, !entry.archived))}
+                onDelete={() => runAndRefresh(() => deleteSavedGame(entry.gameId))}
+              />
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedGamesBrowser;
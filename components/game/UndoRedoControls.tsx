@@ -0,0 +1,69 @@
+/**
+ * 取り消し・やり直し操作コンポーネント
+ * ボタンとキーボードショートカット（Ctrl/⌘+Z、Ctrl/⌘+Shift+Z、Ctrl+Y）を提供
+ */
+
+import React, { useEffect } from 'react';
+import { Box, Button } from '@mui/material';
+import { useGame } from '../../contexts/GameContext';
+
+const UndoRedoControls: React.FC = () => {
+  const { undo, redo, canUndo, canRedo } = useGame();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      // 入力欄での編集操作は横取りしない
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
+  return (
+    <Box
+      sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mb: 2 }}
+      role="group"
+      aria-label="取り消し・やり直し"
+    >
+      <Button
+        variant="outlined"
+        size="small"
+        onClick={undo}
+        disabled={!canUndo}
+        aria-label="直前の操作を取り消す（Ctrl+Z）"
+        title="Ctrl+Z"
+      >
+        ↶ 取り消し
+      </Button>
+      <Button
+        variant="outlined"
+        size="small"
+        onClick={redo}
+        disabled={!canRedo}
+        aria-label="取り消した操作をやり直す（Ctrl+Shift+Z）"
+        title="Ctrl+Shift+Z / Ctrl+Y"
+      >
+        ↷ やり直し
+      </Button>
+    </Box>
+  );
+};
+
+export default UndoRedoControls;
@@ -1,23 +1,36 @@
-import React, { createContext, useContext, useReducer, ReactNode, useEffect } from 'react';
-import { GameSession, GameState, Player, HanamichiBoard, BoardSpot, OshiPiece, GamePhase, OshikatsuSubPhase, TurnManager, RewardDistributionCard, OshikatsuDecision, GoodsType, OtakuPiece, GameError, GOODS_PRICES, GameOperation, ValidationResult, GameLogEntry } from '../types/game';
-import { createRewardDistributionCards, rollDice, processLaborPhase, createAllFanserviceSpotCards, prepareOshikatsuPhaseCards, processFansaTime, isGameComplete, calculateFinalResults, cleanupRoundEnd, getNextGameState } from '../utils/gameLogic';
+import React, { createContext, useContext, useReducer, useState, ReactNode, useEffect } from 'react';
+import { GameSession, GameState, Player, GamePhase, OshikatsuDecision, GoodsType, OtakuPiece, GameError, GameOperation, ValidationResult, GameLogEntry, GameCommand, ActionLog, RuleSet } from '../types/game';
+import { calculateFinalResults } from '../utils/gameLogic';
+import { applyAndRecordCommand, replayActionLog } from '../utils/actionLog';
+import { getActionLog, saveActionLog, loadGameFromSlot } from '../utils/dataPersistence';
+import { StorageBackend, StorageBackendType, createDefaultBackend, resolveStorageBackend, setStorageBackend, subscribeStorageErrors } from '../utils/storageBackend';
+import { UndoHistory, createUndoHistory, recordCommandInHistory, undoHistory, redoHistory, isBotCommand } from '../utils/undoHistory';
 import { useGamePersistence } from '../hooks/useGamePersistence';
 import { useErrorHandler } from '../hooks/useErrorHandler';
 import { 
-  validatePlayerName, 
-  validatePlayerCount, 
   validateGoodsPurchase, 
   validatePiecePlacement,
+  validatePlayerSetup,
+  validateStepTurn,
+  validateKagebunshinPurchase,
   validatePhaseAction,
-  repairGameState
+  validateRestingPlayer,
+  validateRuleSet,
+  repairGameState,
+  createGameError,
+  ERROR_MESSAGES
 } from '../utils/errorHandling';
+import { generateSeed } from '../utils/random';
+import { allPlayersCompleted } from '../utils/turnManager';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 
 interface GameContextType {
   gameSession: GameSession | null;
-  initializeGame: (players: Player[]) => void;
+  initializeGame: (players: Player[], seed?: number, rules?: RuleSet, startPlayerIndex?: number) => void;
   updateGameState: (updates: Partial<GameState>) => void;
   movePiece: (pieceId: string, spotId: number) => void;
   nextTurn: () => void;
+  passTurn: (playerId: string) => void;
   nextPhase: () => void;
   nextSubPhase: () => void;
   setPlayerActionCompleted: (playerId: string, completed: boolean) => void;
@@ -31,7 +44,8 @@ interface GameContextType {
   revealOshikatsuDecisions: () => void;
   generateFanserviceSpotCards: () => void;
   purchaseGoods: (playerId: string, goodsType: GoodsType) => boolean;
-  createKagebunshin: (playerId: string, originalPieceId: string) => string | null;
+  createKagebunshin: (playerId: string) => string | null;
+  assignGoods: (playerId: string, pieceId: string, goodsType: GoodsType) => boolean;
   getAvailableOtakuPieces: (playerId: string) => OtakuPiece[];
   processFansaTimePhase: () => void;
   endRound: () => void;
@@ -39,9 +53,20 @@ interface GameContextType {
   getFinalResults: () => ReturnType<typeof calculateFinalResults> | null;
   isGameEnded: () => boolean;
   // データ永続化とログ記録機能
+  storageReady: boolean; // 保存先の準備ができるまでは保存・読み込みを行わない
   saveGameManually: () => boolean;
   exportGameData: (gameId?: string) => string | null;
   loadSavedGame: () => GameSession | null;
+  resumeGame: (gameId: string) => boolean;
+  importGame: (session: GameSession, actionLog?: ActionLog | null) => boolean;
+  // アクションログ（イベントソーシング）
+  actionLog: ActionLog | null;
+  replayToEvent: (eventIndex: number) => GameSession | null;
+  // 取り消し・やり直し（フェーズ内のプレイヤー操作のみ）
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   // エラーハンドリング機能
   currentError: GameError | null;
   clearError: () => void;
@@ -51,684 +76,75 @@ interface GameContextType {
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
 
-type GameAction = 
-  | { type: 'INITIALIZE_GAME'; payload: Player[] }
-  | { type: 'LOAD_SAVED_GAME'; payload: GameSession }
-  | { type: 'UPDATE_GAME_STATE'; payload: Partial<GameState> }
-  | { type: 'MOVE_PIECE'; payload: { pieceId: string; spotId: number } }
-  | { type: 'NEXT_TURN' }
-  | { type: 'NEXT_PHASE' }
-  | { type: 'NEXT_SUB_PHASE' }
-  | { type: 'SET_PLAYER_ACTION_COMPLETED'; payload: { playerId: string; completed: boolean } }
-  | { type: 'RESET_PHASE_ACTIONS' }
-  | { type: 'SELECT_REWARD_CARD'; payload: { playerId: string; cardId: string } }
-  | { type: 'ROLL_DICE_AND_PROCESS_LABOR' }
-  | { type: 'SELECT_OSHIKATSU_DECISION'; payload: { playerId: string; decision: OshikatsuDecision } }
-  | { type: 'REVEAL_OSHIKATSU_DECISIONS' }
-  | { type: 'GENERATE_FANSERVICE_SPOT_CARDS' }
-  | { type: 'PURCHASE_GOODS'; payload: { playerId: string; goodsType: GoodsType } }
-  | { type: 'CREATE_KAGEBUNSHIN'; payload: { playerId: string; originalPieceId: string; kagebunshinId: string } }
-  | { type: 'PROCESS_FANSA_TIME' }
-  | { type: 'END_ROUND' }
-  | { type: 'END_GAME' };
-
-const createInitialBoard = (): HanamichiBoard => {
-  const spots: BoardSpot[] = [];
-  for (let i = 0; i < 8; i++) {
-    spots.push({
-      id: i,
-      position: { row: Math.floor(i / 4), col: i % 4 },
-      otakuPieces: [],
-      oshiPiece: undefined
-    });
-  }
-  return { spots };
-};
-
-const createInitialOshiPieces = (): OshiPiece[] => [
-  { id: 'A', currentSpotId: undefined },
-  { id: 'B', currentSpotId: undefined },
-  { id: 'C', currentSpotId: undefined }
-];
-
-const createInitialTurnManager = (players: Player[]): TurnManager => {
-  const phaseActions: { [playerId: string]: boolean } = {};
-  players.forEach(player => {
-    phaseActions[player.id] = false;
-  });
-
-  return {
-    currentPlayer: 0,
-    waitingForPlayers: players.map(p => p.id),
-    phaseActions,
-    nextPlayer: function() {
-      this.currentPlayer = (this.currentPlayer + 1) % players.length;
-    },
-    isPlayerTurn: function(playerId: string): boolean {
-      return players[this.currentPlayer]?.id === playerId;
-    },
-    allPlayersCompleted: function(): boolean {
-      return players.every(player => this.phaseActions[player.id] === true);
-    }
-  };
-};
-
-// 推し活フェーズのサブステップ管理
-const getNextOshikatsuSubPhase = (currentSubPhase?: OshikatsuSubPhase): OshikatsuSubPhase | null => {
-  switch (currentSubPhase) {
-    case undefined:
-    case 'card-reveal':
-      return 'goods-purchase';
-    case 'goods-purchase':
-      return 'piece-placement';
-    case 'piece-placement':
-      return null; // 推し活フェーズ完了
-    default:
-      return null;
-  }
-};
-
-const gameReducer = (state: GameSession | null, action: GameAction): GameSession | null => {
-  switch (action.type) {
-    case 'LOAD_SAVED_GAME':
-      return action.payload;
-
-    case 'INITIALIZE_GAME':
-      const players = action.payload;
-      return {
-        id: `game-${Date.now()}`,
-        players,
-        currentRound: 1,
-        currentPhase: 'labor',
-        activePlayerIndex: 0,
-        gameState: {
-          hanamichiBoardState: createInitialBoard(),
-          oshiPieces: createInitialOshiPieces(),
-          fanserviceSpotCards: createAllFanserviceSpotCards(),
-          revealedCards: [],
-          rewardDistributionCards: createRewardDistributionCards(),
-          roundHistory: []
-        },
-        turnManager: createInitialTurnManager(players),
-        createdAt: new Date()
-      };
-
-    case 'UPDATE_GAME_STATE':
-      if (!state) return null;
-      return {
-        ...state,
-        gameState: {
-          ...state.gameState,
-          ...action.payload
-        }
-      };
-
-    case 'MOVE_PIECE':
-      if (!state) return null;
-      const { pieceId, spotId } = action.payload;
-      
-      // 現在のボード状態をコピー
-      const newBoard = { ...state.gameState.hanamichiBoardState };
-      const newSpots = newBoard.spots.map(spot => ({ ...spot, otakuPieces: [...spot.otakuPieces] }));
-      
-      // 移動先のスポットをチェック（3個制限）
-      const targetSpot = newSpots.find(spot => spot.id === spotId);
-      if (!targetSpot || targetSpot.otakuPieces.length >= 3) {
-        return state; // 移動不可の場合は状態を変更しない
-      }
-      
-      // プレイヤーのピースを見つける
-      const piece = state.players
-        .flatMap(player => player.otakuPieces)
-        .find(p => p.id === pieceId);
-      
-      if (!piece) {
-        return state; // ピースが見つからない場合は状態を変更しない
-      }
-      
-      // グッズを持っていないピースは配置不可
-      if (!piece.goods) {
-        return state; // グッズを持っていない場合は配置不可
-      }
-      
-      // 移動元からピースを削除
-      newSpots.forEach(spot => {
-        spot.otakuPieces = spot.otakuPieces.filter(p => p.id !== pieceId);
-      });
-      
-      // 移動先にピースを追加
-      const updatedPiece = { ...piece, boardSpotId: spotId };
-      targetSpot.otakuPieces.push(updatedPiece);
-      
-      // プレイヤーのピース情報も更新
-      const updatedPlayersWithPiece = state.players.map(player => ({
-        ...player,
-        otakuPieces: player.otakuPieces.map(p => 
-          p.id === pieceId ? updatedPiece : p
-        )
-      }));
-      
-      return {
-        ...state,
-        players: updatedPlayersWithPiece,
-        gameState: {
-          ...state.gameState,
-          hanamichiBoardState: { spots: newSpots }
-        }
-      };
-
-    case 'NEXT_TURN':
-      if (!state) return null;
-      const nextPlayerIndex = (state.activePlayerIndex + 1) % state.players.length;
-      return {
-        ...state,
-        activePlayerIndex: nextPlayerIndex,
-        turnManager: {
-          ...state.turnManager,
-          currentPlayer: nextPlayerIndex
-        }
-      };
-
-    case 'NEXT_PHASE':
-      if (!state) return null;
-      
-      // 次のゲーム状態を決定
-      const { nextRound, nextPhase } = getNextGameState(state.currentRound, state.currentPhase);
-
-      // フェーズアクションをリセット
-      const resetPhaseActions: { [playerId: string]: boolean } = {};
-      state.players.forEach(player => {
-        resetPhaseActions[player.id] = false;
-      });
-
-      // フェーズ遷移時にプレイヤーの一時的な選択をクリア
-      let clearedPlayers = state.players.map(player => {
-        const clearedPlayer = { ...player };
-        
-        // 労働フェーズから推しかつ決断フェーズに移る時は報酬カード選択をクリア
-        if (state.currentPhase === 'labor' && nextPhase === 'oshikatsu-decision') {
-          clearedPlayer.selectedRewardCard = undefined;
-        }
-        
-        // ラウンド終了時にはすべての一時的な選択をクリア
-        if (nextPhase === 'labor' || nextPhase === 'game-end') {
-          clearedPlayer.selectedRewardCard = undefined;
-          clearedPlayer.oshikatsuDecision = undefined;
-        }
-        
-        return clearedPlayer;
-      });
-
-      // ラウンド終了時のクリーンアップ
-      if (state.currentPhase === 'round-end' && nextPhase === 'labor') {
-        clearedPlayers = cleanupRoundEnd(clearedPlayers);
-      }
-
-      // 推し活フェーズに入る場合はサブフェーズを初期化
-      let initialSubPhase: OshikatsuSubPhase | undefined = undefined;
-      if (nextPhase === 'oshikatsu-card-reveal') {
-        initialSubPhase = 'card-reveal';
-      }
-
-      return {
-        ...state,
-        players: clearedPlayers,
-        currentPhase: nextPhase,
-        currentSubPhase: initialSubPhase,
-        currentRound: nextRound,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: resetPhaseActions,
-          waitingForPlayers: state.players.map(p => p.id)
-        }
-      };
-
-    case 'NEXT_SUB_PHASE':
-      if (!state) return null;
-      
-      // 推し活フェーズでのみサブフェーズ遷移を処理
-      if (state.currentPhase !== 'oshikatsu-card-reveal' && 
-          state.currentPhase !== 'oshikatsu-goods' && 
-          state.currentPhase !== 'oshikatsu-placement') {
-        return state;
-      }
-
-      const nextSubPhase = getNextOshikatsuSubPhase(state.currentSubPhase);
-      
-      // サブフェーズが完了した場合は次のメインフェーズに移行
-      if (nextSubPhase === null) {
-        const { nextRound: nextRoundForSubPhase, nextPhase: nextPhaseForSubPhase } = 
-          getNextGameState(state.currentRound, state.currentPhase);
-        
-        return {
-          ...state,
-          currentPhase: nextPhaseForSubPhase,
-          currentSubPhase: undefined,
-          currentRound: nextRoundForSubPhase
-        };
-      }
-
-      // フェーズアクションをリセット
-      const resetSubPhaseActions: { [playerId: string]: boolean } = {};
-      state.players.forEach(player => {
-        resetSubPhaseActions[player.id] = false;
-      });
-
-      return {
-        ...state,
-        currentSubPhase: nextSubPhase,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: resetSubPhaseActions,
-          waitingForPlayers: state.players.map(p => p.id)
-        }
-      };
-
-    case 'SET_PLAYER_ACTION_COMPLETED':
-      if (!state) return null;
-      const { playerId, completed } = action.payload;
-      const updatedPhaseActions = {
-        ...state.turnManager.phaseActions,
-        [playerId]: completed
-      };
-
-      const waitingPlayers = completed 
-        ? state.turnManager.waitingForPlayers.filter(id => id !== playerId)
-        : [...state.turnManager.waitingForPlayers, playerId].filter((id, index, arr) => arr.indexOf(id) === index);
-
-      return {
-        ...state,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: updatedPhaseActions,
-          waitingForPlayers: waitingPlayers
-        }
-      };
-
-    case 'RESET_PHASE_ACTIONS':
-      if (!state) return null;
-      const resetActions: { [playerId: string]: boolean } = {};
-      state.players.forEach(player => {
-        resetActions[player.id] = false;
-      });
-
-      return {
-        ...state,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: resetActions,
-          waitingForPlayers: state.players.map(p => p.id)
-        }
-      };
-
-    case 'SELECT_REWARD_CARD':
-      if (!state) return null;
-      const { playerId: selectingPlayerId, cardId } = action.payload;
-      
-      // 選択されたカードを見つける
-      const selectedCard = state.gameState.rewardDistributionCards.find(card => card.id === cardId);
-      if (!selectedCard) {
-        return state; // カードが見つからない場合は状態を変更しない
-      }
-
-      // プレイヤーの選択を更新
-      const updatedPlayersWithCard = state.players.map(player => 
-        player.id === selectingPlayerId 
-          ? { ...player, selectedRewardCard: selectedCard }
-          : player
-      );
-
-      // プレイヤーのアクション完了状態を更新
-      const updatedPhaseActionsForCard = {
-        ...state.turnManager.phaseActions,
-        [selectingPlayerId]: true
-      };
-
-      const updatedWaitingPlayersForCard = state.turnManager.waitingForPlayers.filter(
-        id => id !== selectingPlayerId
-      );
-
-      return {
-        ...state,
-        players: updatedPlayersWithCard,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: updatedPhaseActionsForCard,
-          waitingForPlayers: updatedWaitingPlayersForCard
-        }
-      };
-
-    case 'ROLL_DICE_AND_PROCESS_LABOR':
-      if (!state) return null;
-      
-      // 全プレイヤーがカードを選択済みかチェック
-      const allPlayersSelected = state.players.every(player => player.selectedRewardCard);
-      if (!allPlayersSelected) {
-        return state; // まだ選択していないプレイヤーがいる場合は処理しない
-      }
-
-      const diceResult = rollDice();
-      const { updatedPlayers, laborResults } = processLaborPhase(state.players, diceResult);
-
-      // ラウンド履歴を更新
-      const currentRoundHistory = state.gameState.roundHistory.find(
-        round => round.roundNumber === state.currentRound
-      );
-
-      const updatedRoundHistory = currentRoundHistory
-        ? state.gameState.roundHistory.map(round =>
-            round.roundNumber === state.currentRound
-              ? { ...round, laborResults }
-              : round
-          )
-        : [
-            ...state.gameState.roundHistory,
-            {
-              roundNumber: state.currentRound,
-              laborResults,
-              oshikatsuDecisions: [],
-              fansaResults: []
-            }
-          ];
-
-      return {
-        ...state,
-        players: updatedPlayers,
-        gameState: {
-          ...state.gameState,
-          currentDiceResult: diceResult,
-          roundHistory: updatedRoundHistory
-        }
-      };
-
-    case 'SELECT_OSHIKATSU_DECISION':
-      if (!state) return null;
-      const { playerId: decidingPlayerId, decision } = action.payload;
-      
-      // プレイヤーの推しかつ決断を更新
-      const updatedPlayersWithDecision = state.players.map(player => 
-        player.id === decidingPlayerId 
-          ? { ...player, oshikatsuDecision: decision }
-          : player
-      );
-
-      // プレイヤーのアクション完了状態を更新
-      const updatedPhaseActionsForDecision = {
-        ...state.turnManager.phaseActions,
-        [decidingPlayerId]: true
-      };
-
-      const updatedWaitingPlayersForDecision = state.turnManager.waitingForPlayers.filter(
-        id => id !== decidingPlayerId
-      );
-
-      return {
-        ...state,
-        players: updatedPlayersWithDecision,
-        turnManager: {
-          ...state.turnManager,
-          phaseActions: updatedPhaseActionsForDecision,
-          waitingForPlayers: updatedWaitingPlayersForDecision
-        }
-      };
-
-    case 'REVEAL_OSHIKATSU_DECISIONS':
-      if (!state) return null;
-      
-      // 全プレイヤーが推しかつ決断を選択済みかチェック
-      const allPlayersDecided = state.players.every(player => player.oshikatsuDecision);
-      if (!allPlayersDecided) {
-        return state; // まだ決断していないプレイヤーがいる場合は処理しない
-      }
+// ゲーム状態とそこに至るアクションログの組
+interface GameSnapshot {
+  gameSession: GameSession | null;
+  actionLog: ActionLog | null;
+}
 
-      // 「休む」を選択したプレイヤーに追加報酬を付与
-      const currentRoundHistoryForDecision = state.gameState.roundHistory.find(
-        round => round.roundNumber === state.currentRound
-      );
-
-      const updatedPlayersWithRestReward = state.players.map(player => {
-        if (player.oshikatsuDecision === 'rest') {
-          // 労働フェーズで得た報酬と同額を追加
-          const laborReward = currentRoundHistoryForDecision?.laborResults
-            .find(result => result.playerId === player.id)?.reward || 0;
-          
-          return {
-            ...player,
-            money: player.money + laborReward
-          };
-        }
-        return player;
-      });
+// プロバイダー内部の状態（取り消し・やり直し履歴を含む）
+interface GameProviderState extends GameSnapshot {
+  history: UndoHistory<GameSnapshot>;
+}
 
-      // ラウンド履歴に推しかつ決断を記録
-      const oshikatsuDecisions = state.players.map(player => ({
-        playerId: player.id,
-        decision: player.oshikatsuDecision!
-      }));
+type GameProviderAction =
+  | GameCommand
+  | { type: 'RESUME_SESSION'; payload: GameSnapshot }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
 
-      const updatedRoundHistoryWithDecisions = state.gameState.roundHistory.map(round =>
-        round.roundNumber === state.currentRound
-          ? { ...round, oshikatsuDecisions }
-          : round
-      );
+const gameProviderReducer = (state: GameProviderState, action: GameProviderAction): GameProviderState => {
+  const current: GameSnapshot = { gameSession: state.gameSession, actionLog: state.actionLog };
 
-      return {
-        ...state,
-        players: updatedPlayersWithRestReward,
-        gameState: {
-          ...state.gameState,
-          roundHistory: updatedRoundHistoryWithDecisions
-        }
-      };
+  switch (action.type) {
+    // 保存済みゲームの再開はログを引き継ぐだけで記録しない
+    case 'RESUME_SESSION':
+      return { ...action.payload, history: createUndoHistory() };
 
-    case 'GENERATE_FANSERVICE_SPOT_CARDS':
-      if (!state) return null;
-      
-      // 推し活フェーズ用のファンサスポットカード3枚を生成
-      const newRevealedCards = prepareOshikatsuPhaseCards(state.gameState.fanserviceSpotCards);
-      
-      return {
-        ...state,
-        gameState: {
-          ...state.gameState,
-          revealedCards: newRevealedCards
-        }
-      };
+    case 'UNDO': {
+      const result = undoHistory(state.history, current);
+      return result ? { ...result.state, history: result.history } : state;
+    }
 
-    case 'PURCHASE_GOODS':
-      if (!state) return null;
-      const { playerId: buyerPlayerId, goodsType } = action.payload;
-      
-      // グッズの価格設定（定数から取得）
-      const price = GOODS_PRICES[goodsType];
-      const buyer = state.players.find(p => p.id === buyerPlayerId);
-      
-      if (!buyer || buyer.money < price) {
-        return state; // 資金不足の場合は購入不可
-      }
-      
-      // 利用可能なオタクコマを探す（グッズを持っていない、ボードに配置されていない）
-      const availablePiece = buyer.otakuPieces.find(piece => 
-        !piece.goods && piece.boardSpotId === undefined
-      );
-      
-      if (!availablePiece) {
-        return state; // 利用可能なオタクコマがない場合は購入不可
-      }
-      
-      // プレイヤーの資金を減らし、オタクコマにグッズを付与
-      const updatedPlayersWithGoods = state.players.map(player => {
-        if (player.id === buyerPlayerId) {
-          return {
-            ...player,
-            money: player.money - price,
-            otakuPieces: player.otakuPieces.map(piece => 
-              piece.id === availablePiece.id 
-                ? { ...piece, goods: goodsType }
-                : piece
-            )
-          };
-        }
-        return player;
-      });
-      
-      return {
-        ...state,
-        players: updatedPlayersWithGoods
-      };
+    case 'REDO': {
+      const result = redoHistory(state.history, current);
+      return result ? { ...result.state, history: result.history } : state;
+    }
 
-    case 'CREATE_KAGEBUNSHIN':
-      if (!state) return null;
-      const { playerId: kagePlayerId, originalPieceId, kagebunshinId } = action.payload;
-      
-      const kagePlayer = state.players.find(p => p.id === kagePlayerId);
-      const originalPiece = kagePlayer?.otakuPieces.find(p => p.id === originalPieceId);
-      
-      if (!kagePlayer || !originalPiece || !originalPiece.goods) {
-        return state; // プレイヤーまたはピースが見つからない、またはグッズを持っていない場合は作成不可
-      }
-      
-      // 差し入れを持っている場合のみ影分身を作成可能
-      if (originalPiece.goods !== 'sashiire') {
+    default: {
+      const { state: gameSession, log } = applyAndRecordCommand(state.gameSession, state.actionLog, action);
+      if (gameSession === state.gameSession && log === state.actionLog) {
         return state;
       }
-      
-      // 新しい影分身ピースを作成
-      const kagebunshinPiece: OtakuPiece = {
-        id: kagebunshinId,
-        playerId: kagePlayerId,
-        boardSpotId: undefined,
-        goods: originalPiece.goods,
-        isKagebunshin: true
-      };
-      
-      // プレイヤーのオタクコマリストに影分身を追加
-      const updatedPlayersWithKage = state.players.map(player => {
-        if (player.id === kagePlayerId) {
-          return {
-            ...player,
-            otakuPieces: [...player.otakuPieces, kagebunshinPiece]
-          };
-        }
-        return player;
-      });
-      
-      return {
-        ...state,
-        players: updatedPlayersWithKage
-      };
-
-    case 'PROCESS_FANSA_TIME':
-      if (!state) return null;
-      
-      // ファンサタイムの処理を実行
-      const allOtakuPieces = state.players.flatMap(player => player.otakuPieces);
-      const { oshiPlacements, pointResults, diceResults } = processFansaTime(
-        state.gameState.revealedCards,
-        state.gameState.hanamichiBoardState,
-        allOtakuPieces
-      );
-      
-      // 推しコマの位置を更新
-      const updatedOshiPieces = state.gameState.oshiPieces.map(oshi => {
-        const placement = oshiPlacements.find(p => p.oshiId === oshi.id);
-        return placement ? { ...oshi, currentSpotId: placement.spotId } : oshi;
-      });
-      
-      // ボード状態を更新（推しコマを配置）
-      const updatedBoardSpots = state.gameState.hanamichiBoardState.spots.map(spot => {
-        const oshiAtSpot = oshiPlacements.find(p => p.spotId === spot.id);
-        return oshiAtSpot 
-          ? { ...spot, oshiPiece: updatedOshiPieces.find(o => o.id === oshiAtSpot.oshiId) }
-          : { ...spot, oshiPiece: undefined };
-      });
-      
-      // プレイヤーのポイントを更新
-      const updatedPlayersWithPoints = state.players.map(player => {
-        const playerResult = pointResults.find(r => r.playerId === player.id);
-        return playerResult 
-          ? { ...player, points: player.points + playerResult.totalPoints }
-          : player;
-      });
-      
-      // ラウンド履歴にファンサ結果を記録
-      const fansaResults = pointResults.map(result => ({
-        playerId: result.playerId,
-        pointsEarned: result.totalPoints,
-        breakdown: result.breakdown
-      }));
-      
-      const updatedRoundHistoryWithFansa = state.gameState.roundHistory.map(round =>
-        round.roundNumber === state.currentRound
-          ? { ...round, fansaResults }
-          : round
-      );
-      
-      // ファンサタイム完了後、自動的にラウンド終了フェーズに移行
-      const shouldEndRound = state.currentPhase === 'fansa-time';
-      
-      return {
-        ...state,
-        players: updatedPlayersWithPoints,
-        currentPhase: shouldEndRound ? 'round-end' : state.currentPhase,
-        gameState: {
-          ...state.gameState,
-          oshiPieces: updatedOshiPieces,
-          hanamichiBoardState: { spots: updatedBoardSpots },
-          roundHistory: updatedRoundHistoryWithFansa,
-          currentDiceResult: diceResults[0] // 最初のサイコロ結果を保存（表示用）
-        }
-      };
-
-    case 'END_ROUND':
-      if (!state) return null;
-      
-      // ラウンド終了処理
-      const cleanedPlayers = cleanupRoundEnd(state.players);
-      
-      // ボード状態をクリア（推しコマを削除）
-      const clearedBoardSpots = state.gameState.hanamichiBoardState.spots.map(spot => ({
-        ...spot,
-        oshiPiece: undefined,
-        otakuPieces: [] // オタクコマも回収
-      }));
-      
-      // 推しコマの位置をリセット
-      const resetOshiPieces = state.gameState.oshiPieces.map(oshi => ({
-        ...oshi,
-        currentSpotId: undefined
-      }));
-      
       return {
-        ...state,
-        players: cleanedPlayers,
-        currentPhase: 'round-end',
-        gameState: {
-          ...state.gameState,
-          hanamichiBoardState: { spots: clearedBoardSpots },
-          oshiPieces: resetOshiPieces,
-          revealedCards: [] // 公開されたカードもクリア
-        }
-      };
-
-    case 'END_GAME':
-      if (!state) return null;
-      
-      return {
-        ...state,
-        currentPhase: 'game-end'
+        gameSession,
+        actionLog: log,
+        history: recordCommandInHistory(state.history, action, current, isBotCommand(action, state.gameSession?.players ?? []))
       };
-
-    default:
-      return state;
+    }
   }
 };
 
-export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [gameSession, dispatch] = useReducer(gameReducer, null);
+const initialProviderState: GameProviderState = {
+  gameSession: null,
+  actionLog: null,
+  history: createUndoHistory()
+};
+
+interface GameProviderProps {
+  children: ReactNode;
+  // セーブデータ・ログの保存先（生成時に選んだものを使い続ける）
+  // 保存先はアプリ全体で共有するため、GameProvider は1つだけ置く
+  storage?: StorageBackendType | StorageBackend;
+}
+
+export const GameProvider: React.FC<GameProviderProps> = ({ children, storage = 'localStorage' }) => {
+  const [{ gameSession, actionLog, history }, dispatch] = useReducer(gameProviderReducer, initialProviderState);
+  // IndexedDB は非同期に開くため、準備ができるまでは既定の保存先に書き込まないよう保存を止める
+  const [storageReady, setStorageReady] = useState(false);
   
   // データ永続化とログ記録の統合
-  const { loadSavedGame, saveGame, logAction, exportGameData, isGameStateValid } = useGamePersistence(gameSession);
+  const { loadSavedGame, saveGame, logAction, exportGameData, isGameStateValid } = useGamePersistence(gameSession, { storageReady });
   
   // エラーハンドリングの統合
   const { 
@@ -741,34 +157,67 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     recoverFromError
   } = useErrorHandler();
 
-  // 初期化時に保存されたゲームを読み込み
+  // 初期化時に保存先を準備し、保存されたゲームを読み込み
   useEffect(() => {
-    const savedGame = loadSavedGame();
-    if (savedGame && isGameStateValid(savedGame)) {
-      dispatch({ type: 'LOAD_SAVED_GAME', payload: savedGame });
-    }
+    let cancelled = false;
+    // 容量超過などの保存の失敗はエラーとして表示する
+    const unsubscribe = subscribeStorageErrors(showError);
+
+    resolveStorageBackend(storage)
+      .catch(error => {
+        // 保存先を準備できなくても、既定の保存先で保存と保存済みゲームの表示を続ける
+        console.error('Failed to prepare storage, falling back to the default storage:', error);
+        return createDefaultBackend();
+      })
+      .then(backend => {
+        if (cancelled) return;
+        setStorageBackend(backend);
+        setStorageReady(true);
+
+        const savedGame = loadSavedGame();
+        if (savedGame && isGameStateValid(savedGame)) {
+          dispatch({ type: 'RESUME_SESSION', payload: { gameSession: savedGame, actionLog: getActionLog(savedGame.id) } });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
-  const initializeGame = (players: Player[]) => {
-    // プレイヤー数のバリデーション
-    const playerCountError = validatePlayerCount(players.length);
-    if (playerCountError) {
-      showError(playerCountError);
+  // アクションログの自動保存
+  useEffect(() => {
+    if (storageReady && actionLog) {
+      saveActionLog(actionLog);
+    }
+  }, [actionLog, storageReady]);
+
+  const initializeGame = (players: Player[], seed?: number, rules: RuleSet = DEFAULT_RULE_SET, startPlayerIndex: number = 0) => {
+    // プレイヤー数・名前・色・スタートプレイヤーのバリデーション
+    const setupErrors = validatePlayerSetup(players, startPlayerIndex);
+    if (setupErrors.length > 0) {
+      showError(setupErrors[0]);
       return;
     }
     
-    // プレイヤー名の重複チェック
-    for (let i = 0; i < players.length; i++) {
-      const nameError = validatePlayerName(players[i].name, players.slice(0, i));
-      if (nameError) {
-        showError(nameError);
-        return;
-      }
+    // ルール設定のバリデーション
+    const ruleErrors = validateRuleSet(rules);
+    if (ruleErrors.length > 0) {
+      showError(ruleErrors[0]);
+      return;
     }
     
+    // シード未指定の場合は新規生成（指定すれば同じセッションを再現できる）
+    const gameSeed = seed ?? generateSeed();
+    
     safeExecute(() => {
-      dispatch({ type: 'INITIALIZE_GAME', payload: players });
-      logAction('GAME_INITIALIZED', { playerCount: players.length, playerNames: players.map(p => p.name) });
+      // ID と作成日時はエンジンの外で確定させ、コマンドを純粋に保つ
+      dispatch({
+        type: 'INITIALIZE_GAME',
+        payload: { players, seed: gameSeed, gameId: `game-${Date.now()}`, createdAt: new Date(), rules, startPlayerIndex }
+      });
+      logAction('GAME_INITIALIZED', { playerCount: players.length, playerNames: players.map(p => p.name), seed: gameSeed });
     });
   };
 
@@ -800,6 +249,17 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     dispatch({ type: 'NEXT_TURN' });
   };
 
+  const passTurn = (playerId: string) => {
+    if (!gameSession) return;
+    
+    // フェーズ・手番のチェック
+    if (!validateOperation('passTurn', gameSession, { playerId })) {
+      return;
+    }
+    
+    dispatch({ type: 'PASS_TURN', payload: { playerId } });
+  };
+
   const nextPhase = () => {
     dispatch({ type: 'NEXT_PHASE' });
   };
@@ -809,6 +269,15 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const setPlayerActionCompleted = (playerId: string, completed: boolean) => {
+    if (!gameSession) return;
+    
+    // グッズ購入・オタクコマ配置の完了宣言は手番のプレイヤーのみ
+    const turnError = completed ? validateStepTurn(playerId, gameSession) : null;
+    if (turnError) {
+      showError(turnError);
+      return;
+    }
+    
     dispatch({ type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId, completed } });
   };
 
@@ -820,9 +289,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const areAllPlayersReady = (): boolean => {
     if (!gameSession) return false;
-    return gameSession.players.every(player => 
-      gameSession.turnManager.phaseActions[player.id] === true
-    );
+    return allPlayersCompleted(gameSession.turnManager, gameSession.players);
   };
 
   const getCurrentPlayer = (): Player | null => {
@@ -838,6 +305,13 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const selectRewardCard = (playerId: string, cardId: string) => {
+    if (!gameSession) return;
+    
+    // フェーズ・ドラフトの手番・選択済みカードのチェック
+    if (!validateOperation('selectRewardCard', gameSession, { playerId, cardId })) {
+      return;
+    }
+    
     dispatch({ type: 'SELECT_REWARD_CARD', payload: { playerId, cardId } });
     logAction('REWARD_CARD_SELECTED', { cardId }, playerId);
   };
@@ -881,19 +355,42 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }, false);
   };
 
-  const createKagebunshin = (playerId: string, originalPieceId: string): string | null => {
+  const createKagebunshin = (playerId: string): string | null => {
     if (!gameSession) return null;
     
-    const player = gameSession.players.find(p => p.id === playerId);
-    const originalPiece = player?.otakuPieces.find(p => p.id === originalPieceId);
+    // 休んでいないか、影分身の購入資金と、グッズ購入ステップでの手番のチェック
+    const purchaseError = validateRestingPlayer(playerId, gameSession)
+      ?? validateKagebunshinPurchase(playerId, gameSession)
+      ?? validateStepTurn(playerId, gameSession);
+    if (purchaseError) {
+      showError(purchaseError);
+      return null;
+    }
     
-    if (!player || !originalPiece || originalPiece.goods !== 'sashiire') {
+    // フェーズチェック
+    if (!validateOperation('createKagebunshin', gameSession, { playerId })) {
       return null;
     }
     
-    const kagebunshinId = `${originalPieceId}-kage-${Date.now()}`;
-    dispatch({ type: 'CREATE_KAGEBUNSHIN', payload: { playerId, originalPieceId, kagebunshinId } });
-    return kagebunshinId;
+    const kagebunshinId = `${playerId}-kage-${Date.now()}`;
+    return safeExecute(() => {
+      dispatch({ type: 'CREATE_KAGEBUNSHIN', payload: { playerId, kagebunshinId } });
+      return kagebunshinId;
+    }, null);
+  };
+
+  const assignGoods = (playerId: string, pieceId: string, goodsType: GoodsType): boolean => {
+    if (!gameSession) return false;
+    
+    // フェーズ・所持グッズ・乗せ先のオタクコマのチェック
+    if (!validateOperation('assignGoods', gameSession, { playerId, pieceId, goodsType })) {
+      return false;
+    }
+    
+    return safeExecute(() => {
+      dispatch({ type: 'ASSIGN_GOODS', payload: { playerId, pieceId, goodsType } });
+      return true;
+    }, false);
   };
 
   const getAvailableOtakuPieces = (playerId: string): OtakuPiece[] => {
@@ -921,7 +418,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const getFinalResults = () => {
     if (!gameSession) return null;
-    return calculateFinalResults(gameSession.players);
+    return calculateFinalResults(gameSession.players, gameSession.rules, gameSession.gameState.roundHistory);
   };
 
   const isGameEnded = (): boolean => {
@@ -935,6 +432,54 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return saveGame(gameSession);
   };
 
+  // セーブスロットから保存済みのゲームを再開
+  const resumeGame = (gameId: string): boolean => {
+    const { session, error } = loadGameFromSlot(gameId);
+    if (error) {
+      showError(error);
+      return false;
+    }
+    if (!isGameStateValid(session)) {
+      showError(createGameError('system', ERROR_MESSAGES.GAME_STATE_CORRUPTION, undefined, { gameId }));
+      return false;
+    }
+    
+    dispatch({ type: 'RESUME_SESSION', payload: { gameSession: session, actionLog: getActionLog(gameId) } });
+    return true;
+  };
+
+  // ファイルから取り込んだゲームを読み込む（移行と検証は取り込み時に済ませておく）
+  // 同じゲームのアクションログも取り込んだ場合は引き継ぎ、ログのないセーブデータは読み込みから記録を始める
+  const importGame = (session: GameSession, actionLog: ActionLog | null = null): boolean => {
+    if (!isGameStateValid(session)) {
+      showError(createGameError('system', ERROR_MESSAGES.GAME_STATE_CORRUPTION, undefined, { gameId: session.id }));
+      return false;
+    }
+    
+    return safeExecute(() => {
+      if (actionLog && actionLog.gameId === session.id) {
+        dispatch({ type: 'RESUME_SESSION', payload: { gameSession: session, actionLog } });
+      } else {
+        dispatch({ type: 'LOAD_SAVED_GAME', payload: session });
+      }
+      return true;
+    }, false);
+  };
+
+  const undo = () => {
+    dispatch({ type: 'UNDO' });
+  };
+
+  const redo = () => {
+    dispatch({ type: 'REDO' });
+  };
+
+  // 指定したイベント番号時点のゲーム状態をアクションログから再構築
+  const replayToEvent = (eventIndex: number): GameSession | null => {
+    if (!actionLog) return null;
+    return safeExecute(() => replayActionLog(actionLog, eventIndex), null);
+  };
+
   // ゲーム状態の検証
   const validateGameState = (): GameError[] => {
     if (!gameSession) return [];
@@ -962,6 +507,7 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       updateGameState,
       movePiece,
       nextTurn,
+      passTurn,
       nextPhase,
       nextSubPhase,
       setPlayerActionCompleted,
@@ -976,15 +522,25 @@ export const GameProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       generateFanserviceSpotCards,
       purchaseGoods,
       createKagebunshin,
+      assignGoods,
       getAvailableOtakuPieces,
       processFansaTimePhase,
       endRound,
       endGame,
       getFinalResults,
       isGameEnded,
+      storageReady,
       saveGameManually,
       exportGameData,
       loadSavedGame,
+      resumeGame,
+      importGame,
+      actionLog,
+      replayToEvent,
+      undo,
+      redo,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
       currentError,
       clearError,
       validateGameState,
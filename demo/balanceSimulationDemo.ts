@@ -0,0 +1,40 @@
+/**
+ * 報酬配分カードのバランスシミュレーションのデモンストレーション
+ * ボット戦略の組み合わせごとに多数のゲームを実行し、表とJSONでレポートを出力する
+ */
+
+import {
+  runBalanceSimulation,
+  formatBalanceReportTable,
+  formatBalanceReportJson
+} from '../utils/balanceSimulator';
+import { randomStrategy, expectedValueStrategy, lowVarianceStrategy } from '../utils/botPlayer';
+
+export const runBalanceSimulationDemo = (games: number = 1000, seed: number = 20240101) => {
+  console.log('=== 報酬配分カード バランスシミュレーション ===\n');
+
+  const matchups = [
+    [randomStrategy, randomStrategy, randomStrategy, randomStrategy],
+    [expectedValueStrategy, lowVarianceStrategy, randomStrategy]
+  ];
+
+  const reports = matchups.map((strategies, index) => {
+    console.log(`${index + 1}. ${strategies.map(s => s.name).join(' vs ')}:`);
+    const report = runBalanceSimulation({ games, seed, strategies });
+    console.log(formatBalanceReportTable(report));
+    console.log();
+    return report;
+  });
+
+  console.log('JSON出力:');
+  reports.forEach(report => {
+    console.log(formatBalanceReportJson(report));
+  });
+
+  console.log('\n=== シミュレーション完了 ===');
+};
+
+// デモを実行（Node.js環境でのみ）
+if (typeof window === 'undefined') {
+  runBalanceSimulationDemo();
+}
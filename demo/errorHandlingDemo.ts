@@ -15,6 +15,7 @@ import {
   ERROR_MESSAGES
 } from '../utils/errorHandling';
 import { GameSession, Player } from '../types/game';
+import { DEFAULT_RULE_SET } from '../utils/ruleSet';
 
 // デモ用のプレイヤーデータ
 const createDemoPlayers = (): Player[] => [
@@ -40,6 +41,7 @@ const createDemoGameSession = (): GameSession => ({
   currentRound: 1,
   currentPhase: 'oshikatsu-goods',
   activePlayerIndex: 0,
+  startPlayerIndex: 0,
   gameState: {
     hanamichiBoardState: {
       spots: Array.from({ length: 8 }, (_, i) => ({
@@ -50,7 +52,7 @@ const createDemoGameSession = (): GameSession => ({
           { id: 'p1-otaku3', playerId: 'player1', isKagebunshin: false, goods: 'penlight', boardSpotId: 0 },
           { id: 'p1-otaku4', playerId: 'player1', isKagebunshin: false, goods: 'sashiire', boardSpotId: 0 }
         ] : [],
-        oshiPiece: undefined
+        oshiPieces: []
       }))
     },
     oshiPieces: [
@@ -68,7 +70,10 @@ const createDemoGameSession = (): GameSession => ({
     waitingForPlayers: ['player1'],
     phaseActions: { 'player1': false }
   },
-  createdAt: new Date()
+  createdAt: new Date(),
+  seed: 1,
+  rngState: 1,
+  rules: DEFAULT_RULE_SET
 });
 
 /**
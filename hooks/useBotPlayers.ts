@@ -0,0 +1,101 @@
+/**
+ * ボットプレイヤーフック
+ * ゲーム状態の変化を監視し、ボットの操作を一定間隔で1つずつ実行する
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { GameCommand, GameSession } from '../types/game';
+import { useGame } from '../contexts/GameContext';
+import { BOT_ACTION_DELAY_MS, chooseBotCommand, createBotRandom, getBotStrategy, isBotPlayer } from '../utils/botPlayer';
+
+export interface UseBotPlayersOptions {
+  enabled?: boolean;
+  delayMs?: number;
+}
+
+export const useBotPlayers = (options: UseBotPlayersOptions = {}) => {
+  const { enabled = true, delayMs = BOT_ACTION_DELAY_MS } = options;
+  const {
+    gameSession,
+    actionLog,
+    selectRewardCard,
+    selectOshikatsuDecision,
+    purchaseGoods,
+    createKagebunshin,
+    assignGoods,
+    movePiece,
+    setPlayerActionCompleted
+  } = useGame();
+  // 最後に操作したときの状態（操作後も同じ状態のままなら、その操作は拒否された）
+  const lastAttemptRef = useRef<{ session: GameSession; fallback: boolean } | null>(null);
+  const [attemptCount, setAttemptCount] = useState(0);
+
+  useEffect(() => {
+    if (!enabled || !gameSession) return;
+
+    // ボットのコマンドは通常の操作と同じ経路で実行し、検証とログ記録を通す
+    const execute = (command: GameCommand) => {
+      switch (command.type) {
+        case 'SELECT_REWARD_CARD':
+          selectRewardCard(command.payload.playerId, command.payload.cardId);
+          break;
+        case 'SELECT_OSHIKATSU_DECISION':
+          selectOshikatsuDecision(command.payload.playerId, command.payload.decision);
+          break;
+        case 'PURCHASE_GOODS':
+          purchaseGoods(command.payload.playerId, command.payload.goodsType);
+          break;
+        case 'CREATE_KAGEBUNSHIN':
+          createKagebunshin(command.payload.playerId);
+          break;
+        case 'ASSIGN_GOODS':
+          assignGoods(command.payload.playerId, command.payload.pieceId, command.payload.goodsType);
+          break;
+        case 'MOVE_PIECE':
+          movePiece(command.payload.pieceId, command.payload.spotId);
+          break;
+        case 'SET_PLAYER_ACTION_COMPLETED':
+          setPlayerActionCompleted(command.payload.playerId, command.payload.completed);
+          break;
+      }
+    };
+
+    // 1回に1つだけ実行し、状態が更新されたら次の操作を決める
+    // 乱数はシードと記録済みの操作の件数から作り、同じシードのゲームではボットも同じ操作を選ぶ
+    const rng = createBotRandom(gameSession.seed, actionLog?.entries.length ?? 0);
+    for (const player of gameSession.players.filter(isBotPlayer)) {
+      let command = chooseBotCommand(gameSession, player.id, getBotStrategy(player.botStrategy), rng);
+      if (!command) continue;
+
+      // 前回の操作が拒否された場合は完了を宣言して進行を止めない（それも拒否されたら人の操作を待つ）
+      const lastAttempt = lastAttemptRef.current;
+      const rejected = lastAttempt?.session === gameSession;
+      if (rejected && lastAttempt.fallback) return;
+      if (rejected) {
+        command = { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId: player.id, completed: true } };
+      }
+
+      const attempted = command;
+      const timer = setTimeout(() => {
+        lastAttemptRef.current = { session: gameSession, fallback: rejected };
+        execute(attempted);
+        // 状態が変わらなかった場合も、次の操作を決め直す
+        setAttemptCount(count => count + 1);
+      }, delayMs);
+      return () => clearTimeout(timer);
+    }
+  }, [
+    gameSession,
+    actionLog,
+    enabled,
+    delayMs,
+    attemptCount,
+    selectRewardCard,
+    selectOshikatsuDecision,
+    purchaseGoods,
+    createKagebunshin,
+    assignGoods,
+    movePiece,
+    setPlayerActionCompleted
+  ]);
+};
@@ -18,6 +18,7 @@ export interface UseGamePersistenceOptions {
   autoSave?: boolean;
   logActions?: boolean;
   updateStats?: boolean;
+  storageReady?: boolean; // 保存先の準備ができるまでは自動保存・統計・ログを書き込まない
 }
 
 export const useGamePersistence = (
@@ -27,30 +28,31 @@ export const useGamePersistence = (
   const {
     autoSave = true,
     logActions = true,
-    updateStats = true
+    updateStats = true,
+    storageReady = true
   } = options;
 
   // ゲーム状態の自動保存
   useEffect(() => {
-    if (autoSave && gameSession && validateGameState(gameSession)) {
+    if (storageReady && autoSave && gameSession && validateGameState(gameSession)) {
       try {
         saveGameToLocalStorage(gameSession);
       } catch (error) {
         console.error('Auto-save failed:', error);
       }
     }
-  }, [gameSession, autoSave]);
+  }, [gameSession, autoSave, storageReady]);
 
   // 統計の自動更新
   useEffect(() => {
-    if (updateStats && gameSession) {
+    if (storageReady && updateStats && gameSession) {
       try {
         updateGameStatistics(gameSession);
       } catch (error) {
         console.error('Statistics update failed:', error);
       }
     }
-  }, [gameSession?.currentPhase, gameSession?.currentRound, updateStats]);
+  }, [gameSession?.currentPhase, gameSession?.currentRound, updateStats, storageReady]);
 
   // 保存されたゲームを読み込み
   const loadSavedGame = useCallback((): GameSession | null => {
@@ -85,7 +87,7 @@ export const useGamePersistence = (
     playerId?: string,
     result?: any
   ) => {
-    if (logActions && gameSession) {
+    if (storageReady && logActions && gameSession) {
       try {
         logGameAction(
           gameSession.id,
@@ -100,7 +102,7 @@ export const useGamePersistence = (
         console.error('Action logging failed:', error);
       }
     }
-  }, [gameSession, logActions]);
+  }, [gameSession, logActions, storageReady]);
 
   // データエクスポート
   const exportGameData = useCallback((gameId?: string): string | null => {
@@ -1,6 +1,7 @@
 // Core game type definitions for Oshi Game Testplay System
 
 export type PlayerColor = 'red' | 'blue' | 'green' | 'yellow';
+export type PlayerController = 'human' | 'bot';
 export type GamePhase = 
   | 'setup'
   | 'labor'
@@ -8,6 +9,8 @@ export type GamePhase =
   | 'oshikatsu-card-reveal'
   | 'oshikatsu-goods'
   | 'oshikatsu-placement'
+  | 'oshikatsu-kagebunshin'
+  | 'oshikatsu-goods-assign'
   | 'fansa-time'
   | 'round-end'
   | 'game-end';
@@ -27,8 +30,11 @@ export interface Player {
   money: number;
   points: number;
   otakuPieces: OtakuPiece[];
+  goodsInventory?: GoodsType[];  // 購入してまだオタクコマに乗せていないグッズ（未指定の場合は空）
   selectedRewardCard?: RewardDistributionCard | null;
   oshikatsuDecision?: OshikatsuDecision | null;
+  controller?: PlayerController; // 未指定の場合は 'human'
+  botStrategy?: string;          // ボットの場合の戦略名
 }
 
 export interface OtakuPiece {
@@ -48,18 +54,20 @@ export interface BoardSpot {
   id: number; // 0-7
   position: { row: number; col: number };
   otakuPieces: OtakuPiece[];
-  oshiPiece?: OshiPiece | null;
+  oshiPieces: OshiPiece[]; // このスポットにいる推しコマ（複数の推しが同じスポットに来ることがある）
 }
 
 export interface HanamichiBoard {
   spots: BoardSpot[]; // 8 spots (2x4 grid)
 }
 
+// 表裏それぞれに8マス中3マスのスポット（スポット1〜3の順）が印刷された物理カード
 export interface FanserviceSpotCard {
   id: string;
-  spots: [number, number, number]; // 3 spots out of 8 (0-7)
-  orientation: 'front' | 'back';
-  rotation: 0 | 90 | 180 | 270;
+  front: [number, number, number]; // 表面のスポット（回転0度のとき）
+  back: [number, number, number]; // 裏面のスポット（回転0度のとき）
+  orientation: 'front' | 'back'; // 公開する面
+  rotation: 0 | 180; // 180度回転するとスポットはボードの反対側に移る
 }
 
 export interface RewardDistributionCard {
@@ -73,11 +81,13 @@ export interface RewardDistributionCard {
 
 export interface RoundResult {
   roundNumber: number;
+  startPlayerId: string; // このラウンドのスタートプレイヤー
   laborResults: {
     playerId: string;
     selectedCard: string;
     diceResult: number;
     reward: number;
+    draftPick?: number; // ドラフトでカードを選んだ順番（1始まり、ドラフトなしのルールでは記録しない）
   }[];
   oshikatsuDecisions: {
     playerId: string;
@@ -87,14 +97,26 @@ export interface RoundResult {
     playerId: string;
     pointsEarned: number;
     breakdown: string[];
+    hits?: number; // 得点した推しの数（ボーナスを含めて推しごとに1回、記録前のセーブデータにはない）
   }[];
+  finalized?: boolean;         // ラウンド終了の精算が済んでいるか
+  standings?: RoundStanding[]; // 精算時点の順位（スタートプレイヤーからの手番順）
+}
+
+// ラウンド終了時点の各プレイヤーの成績
+export interface RoundStanding {
+  playerId: string;
+  points: number;
+  money: number;
+  rank: number; // 1始まり（同点は同順位）
 }
 
 export interface GameState {
   hanamichiBoardState: HanamichiBoard;
   oshiPieces: OshiPiece[];
-  fanserviceSpotCards: FanserviceSpotCard[];
+  fanserviceSpotCards: FanserviceSpotCard[]; // ファンサスポットカードの山札
   revealedCards: FanserviceSpotCard[];
+  fanserviceDiscardPile?: FanserviceSpotCard[]; // 公開済みのカード（山札が尽きたら切り直して山札に戻す）
   rewardDistributionCards: RewardDistributionCard[];
   currentDiceResult?: number | null;
   roundHistory: RoundResult[];
@@ -107,20 +129,20 @@ export interface GameSession {
   currentPhase: GamePhase;
   currentSubPhase?: OshikatsuSubPhase; // 推し活フェーズのサブステップ管理
   activePlayerIndex: number;
+  startPlayerIndex: number; // このラウンドのスタートプレイヤー（ラウンド終了ごとに次のプレイヤーへ移る）
   gameState: GameState;
   turnManager: TurnManager;
   createdAt: Date;
+  seed: number;      // ゲーム開始時の乱数シード（同じシードでセッションを再現できる）
+  rngState: number;  // 乱数生成器の現在の内部状態
+  rules: RuleSet;    // このゲームで使用するルール設定
 }
 
+// 保存・読み込みで失われないようプレーンなデータのみを持つ（操作は utils/turnManager.ts の純粋関数で行う）
 export interface TurnManager {
   currentPlayer: number;
   waitingForPlayers: string[];
   phaseActions: { [playerId: string]: boolean }; // playerId -> completed
-  
-  // Helper methods for turn management (optional - implemented in context)
-  nextPlayer?(): void;
-  isPlayerTurn?(playerId: string): boolean;
-  allPlayersCompleted?(): boolean;
 }
 
 export interface OshiPlacement {
@@ -157,6 +179,29 @@ export const GOODS_PRICES: GoodsPrice = {
   kagebunshin: 3
 };
 
+// 最終得点が同点の場合の順位の決め方
+// money: 残り資金が多い / fansa-hits: ファンサ獲得回数が多い / fewest-rests: 休んだ回数が少ない / shared: 同順位で勝利を分け合う
+export type TieBreaker = 'money' | 'fansa-hits' | 'fewest-rests' | 'shared';
+
+// ルール設定（バリアントルールのテストプレイ用）
+export interface RuleSet {
+  id: string;
+  name: string;
+  totalRounds: number;       // ラウンド数
+  basePoints: number;        // 推しの目の前で山分けするポイント
+  spotCapacity: number;      // 1スポットに置けるオタクコマの上限
+  startingMoney: number;     // 開始時の資金
+  goodsPrices: { [K in keyof GoodsPrice]: number };
+  diceToSpotIndex: [number, number, number, number, number, number]; // 出目1〜6 → 予測カード上のスポット番号(0-2)
+  uchiwaBonus: number;       // うちわ：推しの隣接スポットで得るポイント
+  penlightBonus: number;     // ペンライト：推しの向かい側で得るポイント
+  sashiireMultiplier: number; // 差し入れ：目の前のポイントの倍率
+  rewardCards: RewardDistributionCard[];
+  rewardCardDraft: boolean;  // 報酬配分カードをスタートプレイヤーから1枚ずつ選ぶ（選ばれたカードは他のプレイヤーが選べない）
+  shareColocatedOshiPool: boolean; // 同じスポットに複数の推しが来た場合、目の前のポイントを1回分だけ山分けする（false なら推しごとに山分け）
+  tieBreakers: TieBreaker[]; // 同点時に順に適用するタイブレーク（最後まで同点なら同順位）
+}
+
 export interface GameError {
   type: 'user-input' | 'system' | 'validation';
   message: string;
@@ -175,6 +220,9 @@ export interface ErrorRecovery {
 export type GameOperation = 
   | 'placePiece'
   | 'purchaseGoods'
+  | 'createKagebunshin'
+  | 'assignGoods'
+  | 'passTurn'
   | 'selectRewardCard'
   | 'selectOshikatsuDecision'
   | 'rollDice'
@@ -206,4 +254,84 @@ export interface GameStatistics {
   averagePointsPerRound: number;
   mostUsedGoods: GoodsType;
   averageRoundsPerGame: number;
-}
\ No newline at end of file
+}
+
+// ゲームコマンド（ゲームエンジンに渡す操作）
+export type GameCommand = 
+  | { type: 'INITIALIZE_GAME'; payload: { players: Player[]; seed: number; gameId: string; createdAt: Date; rules?: RuleSet; startPlayerIndex?: number } }
+  | { type: 'LOAD_SAVED_GAME'; payload: GameSession }
+  | { type: 'UPDATE_GAME_STATE'; payload: Partial<GameState> }
+  | { type: 'MOVE_PIECE'; payload: { pieceId: string; spotId: number } }
+  | { type: 'NEXT_TURN' }
+  | { type: 'PASS_TURN'; payload: { playerId: string } }
+  | { type: 'NEXT_PHASE' }
+  | { type: 'NEXT_SUB_PHASE' }
+  | { type: 'SET_PLAYER_ACTION_COMPLETED'; payload: { playerId: string; completed: boolean } }
+  | { type: 'RESET_PHASE_ACTIONS' }
+  | { type: 'SELECT_REWARD_CARD'; payload: { playerId: string; cardId: string } }
+  | { type: 'ROLL_DICE_AND_PROCESS_LABOR' }
+  | { type: 'SELECT_OSHIKATSU_DECISION'; payload: { playerId: string; decision: OshikatsuDecision } }
+  | { type: 'REVEAL_OSHIKATSU_DECISIONS' }
+  | { type: 'GENERATE_FANSERVICE_SPOT_CARDS' }
+  | { type: 'PURCHASE_GOODS'; payload: { playerId: string; goodsType: GoodsType } }
+  | { type: 'CREATE_KAGEBUNSHIN'; payload: { playerId: string; kagebunshinId: string } }
+  | { type: 'ASSIGN_GOODS'; payload: { playerId: string; pieceId: string; goodsType: GoodsType } }
+  | { type: 'PROCESS_FANSA_TIME' }
+  | { type: 'END_ROUND' }
+  | { type: 'END_GAME' };
+
+// ゲームイベント（コマンド適用の結果として発生した出来事）
+export type GameEvent = 
+  | { type: 'GAME_INITIALIZED'; gameId: string; playerIds: string[]; seed: number }
+  | { type: 'GAME_LOADED'; gameId: string }
+  | { type: 'GAME_STATE_UPDATED'; keys: string[] }
+  | { type: 'PIECE_MOVED'; pieceId: string; playerId: string; fromSpotId: number | null; toSpotId: number }
+  | { type: 'TURN_CHANGED'; activePlayerIndex: number }
+  | { type: 'TURN_PASSED'; playerId: string }
+  | { type: 'START_PLAYER_CHANGED'; startPlayerIndex: number; playerId: string }
+  | { type: 'PHASE_CHANGED'; fromPhase: GamePhase; toPhase: GamePhase; roundNumber: number }
+  | { type: 'SUB_PHASE_CHANGED'; subPhase: OshikatsuSubPhase }
+  | { type: 'PLAYER_ACTION_COMPLETED'; playerId: string; completed: boolean }
+  | { type: 'PHASE_ACTIONS_RESET' }
+  | { type: 'REWARD_CARD_SELECTED'; playerId: string; cardId: string }
+  | { type: 'LABOR_PROCESSED'; diceResult: number; laborResults: RoundResult['laborResults'] }
+  | { type: 'OSHIKATSU_DECISION_SELECTED'; playerId: string }
+  | { type: 'OSHIKATSU_DECISIONS_REVEALED'; decisions: RoundResult['oshikatsuDecisions'] }
+  | { type: 'FANSERVICE_CARDS_REVEALED'; cards: FanserviceSpotCard[] }
+  | { type: 'FANSERVICE_DECK_RESHUFFLED'; cardCount: number }
+  | { type: 'GOODS_PURCHASED'; playerId: string; goodsType: GoodsType; price: number }
+  | { type: 'KAGEBUNSHIN_CREATED'; playerId: string; kagebunshinId: string; price: number }
+  | { type: 'GOODS_ASSIGNED'; playerId: string; pieceId: string; goodsType: GoodsType }
+  | { type: 'FANSA_TIME_PROCESSED'; diceResults: number[]; oshiPlacements: { oshiId: 'A' | 'B' | 'C'; spotId: number }[]; fansaResults: RoundResult['fansaResults'] }
+  | { type: 'ROUND_ENDED'; roundNumber: number }
+  | { type: 'ROUND_GOODS_DISCARDED'; roundNumber: number; discardedGoods: { playerId: string; goods: GoodsType[] }[] }
+  | { type: 'KAGEBUNSHIN_REMOVED'; roundNumber: number; pieceIds: string[] }
+  | { type: 'BOARD_CLEARED'; roundNumber: number; discardedCardCount: number }
+  | { type: 'ROUND_RESULT_FINALIZED'; roundNumber: number }
+  | { type: 'STANDINGS_SNAPSHOT_TAKEN'; roundNumber: number; standings: RoundStanding[] }
+  | { type: 'GAME_ENDED' }
+  | { type: 'COMMAND_REJECTED'; commandType: GameCommand['type']; reason: string };
+
+// コマンド適用結果
+export interface GameCommandResult {
+  state: GameSession | null;
+  events: GameEvent[];
+}
+
+// アクションログのエントリ（適用したコマンドとその結果）
+export interface ActionLogEntry {
+  index: number;                 // ゲーム内での通し番号（0始まり）
+  command: GameCommand;
+  events: GameEvent[];           // サイコロの目などの乱数結果もイベントとして含む
+  rngStateBefore: number | null; // コマンド適用前の乱数状態
+  rngStateAfter: number | null;  // コマンド適用後の乱数状態
+  timestamp: Date;
+}
+
+// ゲームごとのアクションログ（イベントストリーム）
+export interface ActionLog {
+  version: number;
+  gameId: string;
+  seed: number;
+  entries: ActionLogEntry[];
+}
@@ -0,0 +1,123 @@
+/**
+ * アクションログ（イベントソーシング）
+ * 適用したコマンドと乱数結果を順番に記録し、任意の時点のゲーム状態を再構築する
+ */
+
+import { ActionLog, ActionLogEntry, GameCommand, GameEvent, GameSession } from '../types/game';
+import { applyGameCommand } from './gameEngine';
+
+// アクションログの形式バージョン（互換性のない変更を行ったら上げる）
+export const ACTION_LOG_VERSION = 1;
+
+/**
+ * 空のアクションログを作成
+ */
+export const createActionLog = (gameId: string, seed: number): ActionLog => ({
+  version: ACTION_LOG_VERSION,
+  gameId,
+  seed,
+  entries: []
+});
+
+/**
+ * コマンドを適用し、状態が変化した場合はアクションログに追記する
+ * 新しいゲームの開始や別ゲームの読み込みではログを作り直す
+ */
+export const applyAndRecordCommand = (
+  state: GameSession | null,
+  log: ActionLog | null,
+  command: GameCommand,
+  timestamp: Date = new Date()
+): { state: GameSession | null; log: ActionLog | null; events: GameEvent[] } => {
+  const result = applyGameCommand(state, command);
+
+  // 拒否されたコマンドは状態を変えないので記録しない
+  if (!result.state || result.state === state) {
+    return { state: result.state, log, events: result.events };
+  }
+
+  const baseLog = !log || command.type === 'INITIALIZE_GAME' || log.gameId !== result.state.id
+    ? createActionLog(result.state.id, result.state.seed)
+    : log;
+
+  const entry: ActionLogEntry = {
+    index: baseLog.entries.length,
+    command,
+    events: result.events,
+    rngStateBefore: state ? state.rngState : null,
+    rngStateAfter: result.state.rngState,
+    timestamp
+  };
+
+  return {
+    state: result.state,
+    log: { ...baseLog, entries: [...baseLog.entries, entry] },
+    events: result.events
+  };
+};
+
+/**
+ * アクションログを再生して、指定したイベント番号を適用した直後のゲーム状態を再構築する
+ * 省略時は最後まで再生する
+ */
+export const replayActionLog = (log: ActionLog, toIndex: number = log.entries.length - 1): GameSession | null => {
+  if (log.version > ACTION_LOG_VERSION) {
+    throw new Error(`Unsupported action log version: ${log.version}`);
+  }
+  if (toIndex < -1 || toIndex >= log.entries.length) {
+    throw new Error(`Invalid event index: ${toIndex}`);
+  }
+
+  let state: GameSession | null = null;
+  for (let i = 0; i <= toIndex; i++) {
+    const entry = log.entries[i];
+    state = applyGameCommand(state, entry.command).state;
+
+    // 記録時と乱数の消費がずれていないか検証
+    if ((state ? state.rngState : null) !== entry.rngStateAfter) {
+      throw new Error(`Replay diverged at event ${i}`);
+    }
+  }
+
+  return state;
+};
+
+/**
+ * アクションログをJSON形式でシリアライズ
+ */
+export const serializeActionLog = (log: ActionLog): string => {
+  return JSON.stringify(log);
+};
+
+// JSON化で文字列になった Date をコマンド内で復元
+const reviveCommandDates = (command: GameCommand): GameCommand => {
+  switch (command.type) {
+    case 'INITIALIZE_GAME':
+      return { ...command, payload: { ...command.payload, createdAt: new Date(command.payload.createdAt) } };
+    case 'LOAD_SAVED_GAME':
+      return { ...command, payload: { ...command.payload, createdAt: new Date(command.payload.createdAt) } };
+    default:
+      return command;
+  }
+};
+
+/**
+ * JSON文字列からアクションログをデシリアライズ
+ */
+export const deserializeActionLog = (jsonString: string): ActionLog => {
+  const parsed = JSON.parse(jsonString);
+
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.version !== 'number' ||
+      typeof parsed.gameId !== 'string' || !Array.isArray(parsed.entries)) {
+    throw new Error('Invalid action log: missing required fields');
+  }
+
+  return {
+    ...parsed,
+    entries: parsed.entries.map((entry: any) => ({
+      ...entry,
+      command: reviveCommandDates(entry.command),
+      timestamp: new Date(entry.timestamp)
+    }))
+  };
+};
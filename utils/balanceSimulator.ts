@@ -0,0 +1,293 @@
+/**
+ * 報酬配分カードのバランスシミュレーター（モンテカルロ法）
+ * ヘッドレスのゲームエンジン上でボット同士に多数のゲームをプレイさせ、カードごとの収入と勝敗への影響を集計する
+ */
+
+import { GameCommand, GameSession, Player, RewardDistributionCard, RuleSet } from '../types/game';
+import { applyGameCommand } from './gameEngine';
+import { createSeededRandom } from './random';
+import { DEFAULT_RULE_SET } from './ruleSet';
+import { BotStrategy, chooseBotCommand } from './botPlayer';
+import { calculateFinalResults } from './gameLogic';
+
+export interface SimulationOptions {
+  games: number;
+  seed: number;
+  strategies: BotStrategy[]; // プレイヤー数分（先頭から順に割り当て）
+  startingMoney?: number;
+  piecesPerPlayer?: number;
+  rules?: RuleSet; // 未指定の場合は標準ルール
+}
+
+// カードごとの集計結果
+export interface CardBalanceStats {
+  cardName: RewardDistributionCard['name'];
+  timesSelected: number;
+  pickRate: number;           // 全選択に占める割合
+  expectedIncome: number;     // 1回選択あたりの平均収入
+  incomeVariance: number;     // 1回選択あたりの収入の分散
+  pointsCorrelation: number;  // ゲーム内の選択回数と最終ポイントの相関係数
+}
+
+export interface BalanceReport {
+  games: number;
+  seed: number;
+  strategies: string[];
+  averageFinalPoints: number;
+  winRateByStrategy: { [strategyName: string]: number };
+  cards: CardBalanceStats[];
+}
+
+// 1ゲームあたりの安全上限（想定外のループを防ぐ）
+const MAX_COMMANDS_PER_GAME = 2000;
+
+const PLAYER_COLORS: Player['color'][] = ['red', 'blue', 'green', 'yellow'];
+
+// シミュレーション用のプレイヤーを作成
+const createSimulationPlayers = (count: number, startingMoney: number, piecesPerPlayer: number): Player[] => {
+  return Array.from({ length: count }, (_, i) => {
+    const id = `sim-player${i + 1}`;
+    return {
+      id,
+      name: `ボット${i + 1}`,
+      color: PLAYER_COLORS[i],
+      money: startingMoney,
+      points: 0,
+      controller: 'bot',
+      otakuPieces: Array.from({ length: piecesPerPlayer }, (_, j) => ({
+        id: `${id}-otaku${j + 1}`,
+        playerId: id,
+        isKagebunshin: false
+      }))
+    };
+  });
+};
+
+/**
+ * ボット同士で1ゲームを最後までプレイする
+ */
+export const simulateGame = (
+  seed: number,
+  strategies: BotStrategy[],
+  startingMoney: number = DEFAULT_RULE_SET.startingMoney,
+  piecesPerPlayer: number = 4,
+  rules: RuleSet = DEFAULT_RULE_SET
+): GameSession => {
+  // ボットの意思決定用の乱数はゲーム本体の乱数と分けて管理する
+  const botRng = createSeededRandom(seed ^ 0x5bd1e995);
+  let commandCount = 0;
+
+  let session = applyGameCommand(null, {
+    type: 'INITIALIZE_GAME',
+    payload: {
+      players: createSimulationPlayers(strategies.length, startingMoney, piecesPerPlayer),
+      seed,
+      gameId: `simulation-${seed}`,
+      createdAt: new Date(0),
+      rules
+    }
+  }).state!;
+
+  const apply = (command: GameCommand): boolean => {
+    commandCount++;
+    const result = applyGameCommand(session, command);
+    const applied = result.state !== session;
+    session = result.state!;
+    return applied;
+  };
+
+  // 各ボットに行うことがなくなるまで操作させる（手番順のフェーズもあるため、誰も操作しなくなるまで繰り返す）
+  const playBots = () => {
+    for (let acted = true; acted;) {
+      acted = false;
+      strategies.forEach((strategy, i) => {
+        const playerId = session.players[i].id;
+        for (;;) {
+          const command = chooseBotCommand(session, playerId, strategy, botRng);
+          if (!command || !apply(command)) break;
+          acted = true;
+        }
+      });
+    }
+  };
+
+  while (session.currentPhase !== 'game-end') {
+    if (commandCount > MAX_COMMANDS_PER_GAME) {
+      throw new Error(`Simulation did not finish: seed ${seed}`);
+    }
+
+    switch (session.currentPhase) {
+      case 'labor':
+        playBots();
+        apply({ type: 'ROLL_DICE_AND_PROCESS_LABOR' });
+        break;
+
+      case 'oshikatsu-decision':
+        playBots();
+        apply({ type: 'REVEAL_OSHIKATSU_DECISIONS' });
+        break;
+
+      case 'oshikatsu-goods':
+        apply({ type: 'GENERATE_FANSERVICE_SPOT_CARDS' });
+        playBots();
+        break;
+
+      case 'oshikatsu-placement':
+      case 'oshikatsu-kagebunshin':
+      case 'oshikatsu-goods-assign':
+        playBots();
+        break;
+
+      case 'fansa-time':
+        apply({ type: 'PROCESS_FANSA_TIME' });
+        continue; // ラウンド終了フェーズへ自動で移行する
+    }
+
+    apply({ type: 'NEXT_PHASE' });
+  }
+
+  return session;
+};
+
+// 平均
+const mean = (values: number[]): number => (
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+);
+
+// 分散（母分散）
+const variance = (values: number[]): number => {
+  const m = mean(values);
+  return mean(values.map(v => (v - m) ** 2));
+};
+
+/**
+ * ピアソンの相関係数（どちらかの分散が0の場合は0）
+ */
+export const pearsonCorrelation = (xs: number[], ys: number[]): number => {
+  if (xs.length !== ys.length || xs.length === 0) return 0;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let covariance = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - mx) * (ys[i] - my);
+    sx += (xs[i] - mx) ** 2;
+    sy += (ys[i] - my) ** 2;
+  }
+  return sx === 0 || sy === 0 ? 0 : covariance / Math.sqrt(sx * sy);
+};
+
+/**
+ * 多数のゲームをシミュレートしてカードバランスのレポートを作成
+ */
+export const runBalanceSimulation = (options: SimulationOptions): BalanceReport => {
+  const { games, seed, strategies, rules = DEFAULT_RULE_SET, startingMoney = rules.startingMoney, piecesPerPlayer = 4 } = options;
+  if (games < 1) {
+    throw new Error(`Invalid game count: ${games}`);
+  }
+  if (strategies.length < 1 || strategies.length > 4) {
+    throw new Error(`Invalid player count: ${strategies.length}`);
+  }
+
+  const seedRng = createSeededRandom(seed);
+  const cardNames = rules.rewardCards.map(card => card.name);
+  const incomes: { [cardName: string]: number[] } = {};
+  // プレイヤー×ゲームごとのカード選択回数と最終ポイント
+  const pickCounts: { [cardName: string]: number[] } = {};
+  const finalPoints: number[] = [];
+  const wins: { [strategyName: string]: number } = {};
+  cardNames.forEach(name => {
+    incomes[name] = [];
+    pickCounts[name] = [];
+  });
+  strategies.forEach(strategy => {
+    wins[strategy.name] = 0;
+  });
+
+  for (let game = 0; game < games; game++) {
+    const gameSeed = Math.floor(seedRng.next() * 0x100000000);
+    const session = simulateGame(gameSeed, strategies, startingMoney, piecesPerPlayer, rules);
+
+    session.players.forEach(player => {
+      const counts: { [cardName: string]: number } = {};
+      session.gameState.roundHistory.forEach(round => {
+        round.laborResults
+          .filter(result => result.playerId === player.id)
+          .forEach(result => {
+            incomes[result.selectedCard].push(result.reward);
+            counts[result.selectedCard] = (counts[result.selectedCard] || 0) + 1;
+          });
+      });
+      cardNames.forEach(name => pickCounts[name].push(counts[name] || 0));
+      finalPoints.push(player.points);
+    });
+
+    // 勝者はルールのタイブレークで決める（最後まで同点の場合は全員を勝者とする）
+    const { winners } = calculateFinalResults(session.players, session.rules, session.gameState.roundHistory);
+    session.players.forEach((player, i) => {
+      if (winners.some(winner => winner.playerId === player.id)) {
+        wins[strategies[i].name] += 1;
+      }
+    });
+  }
+
+  const totalPicks = cardNames.reduce((sum, name) => sum + incomes[name].length, 0);
+  const strategyCounts = strategies.reduce<{ [name: string]: number }>((acc, s) => {
+    acc[s.name] = (acc[s.name] || 0) + 1;
+    return acc;
+  }, {});
+
+  return {
+    games,
+    seed,
+    strategies: strategies.map(s => s.name),
+    averageFinalPoints: mean(finalPoints),
+    winRateByStrategy: Object.fromEntries(
+      Object.entries(wins).map(([name, count]) => [name, count / (games * strategyCounts[name])])
+    ),
+    cards: cardNames.map(name => ({
+      cardName: name,
+      timesSelected: incomes[name].length,
+      pickRate: totalPicks > 0 ? incomes[name].length / totalPicks : 0,
+      expectedIncome: mean(incomes[name]),
+      incomeVariance: variance(incomes[name]),
+      pointsCorrelation: pearsonCorrelation(pickCounts[name], finalPoints)
+    }))
+  };
+};
+
+/**
+ * バランスレポートをJSON形式で出力
+ */
+export const formatBalanceReportJson = (report: BalanceReport): string => {
+  return JSON.stringify(report, null, 2);
+};
+
+/**
+ * バランスレポートを表形式のテキストで出力
+ */
+export const formatBalanceReportTable = (report: BalanceReport): string => {
+  const header = ['カード', '選択回数', '選択率', '平均収入', '分散', 'ポイント相関'];
+  const rows = report.cards.map(card => [
+    card.cardName,
+    String(card.timesSelected),
+    `${(card.pickRate * 100).toFixed(1)}%`,
+    card.expectedIncome.toFixed(2),
+    card.incomeVariance.toFixed(2),
+    card.pointsCorrelation.toFixed(3)
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join(' | ');
+
+  return [
+    `ゲーム数: ${report.games} / シード: ${report.seed} / 戦略: ${report.strategies.join(', ')}`,
+    `平均最終ポイント: ${report.averageFinalPoints.toFixed(2)}`,
+    formatRow(header),
+    widths.map(w => '-'.repeat(w)).join('-+-'),
+    ...rows.map(formatRow),
+    '',
+    '戦略別勝率:',
+    ...Object.entries(report.winRateByStrategy).map(([name, rate]) => `  ${name}: ${(rate * 100).toFixed(1)}%`)
+  ].join('\n');
+};
@@ -0,0 +1,268 @@
+/**
+ * ボットプレイヤー
+ * 空席を埋めるボットの戦略と、現在の局面でボットが次に行うコマンドの決定を提供する
+ * 画面上のボットとバランスシミュレーターで同じ判断ロジックを使う
+ */
+
+import { GameCommand, GameSession, GoodsType, OshikatsuDecision, Player, RewardDistributionCard, FanserviceSpotCard, RuleSet } from '../types/game';
+import { RandomSource, SeededRandomSource, createSeededRandom, pickRandom } from './random';
+import { DEFAULT_RULE_SET } from './ruleSet';
+import {
+  getAvailableRewardCards,
+  getDraftPicker,
+  isStepTurn,
+  getGoodsInventory,
+  canHoldMoreGoods,
+  canAssignGoodsTo,
+  isPlaceablePiece,
+  getFanserviceCardSpots
+} from './gameLogic';
+
+/**
+ * ボット戦略
+ * いずれも乱数を受け取り、同じシードなら同じ選択をする
+ */
+export interface BotStrategy {
+  name: string;
+  label: string; // 画面表示用の名前
+  chooseRewardCard(session: GameSession, player: Player, rng: RandomSource): RewardDistributionCard;
+  chooseOshikatsuDecision(session: GameSession, player: Player, rng: RandomSource): OshikatsuDecision;
+  chooseGoods(session: GameSession, player: Player, rng: RandomSource): GoodsType | null;
+  chooseKagebunshin(session: GameSession, player: Player, rng: RandomSource): boolean;
+  choosePlacementSpot(session: GameSession, player: Player, rng: RandomSource): number | null;
+  chooseGoodsTarget(session: GameSession, player: Player, goods: GoodsType, rng: RandomSource): string | null;
+}
+
+// ボットの操作間隔の既定値（人間が目で追えるように少し待つ）
+export const BOT_ACTION_DELAY_MS = 800;
+
+const GOODS_TYPES: GoodsType[] = ['uchiwa', 'penlight', 'sashiire'];
+
+/**
+ * 報酬配分カードの期待収入（サイコロ1〜6が等確率）
+ */
+export const getCardExpectedIncome = (card: RewardDistributionCard): number => {
+  const rewards = Object.values(card.rewards);
+  return rewards.reduce((sum, reward) => sum + reward, 0) / rewards.length;
+};
+
+/**
+ * 報酬配分カードの収入の分散
+ */
+export const getCardIncomeVariance = (card: RewardDistributionCard): number => {
+  const rewards = Object.values(card.rewards);
+  const mean = getCardExpectedIncome(card);
+  return rewards.reduce((sum, reward) => sum + (reward - mean) ** 2, 0) / rewards.length;
+};
+
+/**
+ * 公開されたファンサスポット予測カードから、各スポットに推しが来る期待数を求める
+ * 各カードの3スポットはルールのサイコロ対応表に従って選ばれる
+ */
+export const estimateSpotProbabilities = (
+  revealedCards: FanserviceSpotCard[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): number[] => {
+  const expected = Array.from({ length: 8 }, () => 0);
+  const faces = rules.diceToSpotIndex.length;
+  revealedCards.forEach(card => {
+    getFanserviceCardSpots(card).forEach((spotId, index) => {
+      expected[spotId] += rules.diceToSpotIndex.filter(i => i === index).length / faces;
+    });
+  });
+  return expected;
+};
+
+// 空きのあるスポット
+const getOpenSpots = (session: GameSession) => {
+  return session.gameState.hanamichiBoardState.spots.filter(spot => spot.otakuPieces.length < session.rules.spotCapacity);
+};
+
+// 空きのあるスポットのうち、推しが来る期待数が最も高いスポット
+const findBestOpenSpot = (session: GameSession): number | null => {
+  const expected = estimateSpotProbabilities(session.gameState.revealedCards, session.rules);
+  const openSpots = getOpenSpots(session);
+  if (openSpots.length === 0) return null;
+
+  return openSpots.reduce((best, spot) => (expected[spot.id] > expected[best.id] ? spot : best)).id;
+};
+
+// グッズを乗せられる配置済みのオタクコマ
+const getAssignablePieces = (player: Player) => player.otakuPieces.filter(canAssignGoodsTo);
+
+// グッズを乗せられるオタクコマのうち、推しが来る期待数が最も高いスポットにいるもの
+const findBestAssignablePiece = (session: GameSession, player: Player): string | null => {
+  const expected = estimateSpotProbabilities(session.gameState.revealedCards, session.rules);
+  const pieces = getAssignablePieces(player);
+  if (pieces.length === 0) return null;
+
+  return pieces.reduce((best, piece) => (expected[piece.boardSpotId!] > expected[best.boardSpotId!] ? piece : best)).id;
+};
+
+/**
+ * ランダム戦略：全ての選択を無作為に行う
+ */
+export const randomStrategy: BotStrategy = {
+  name: 'random',
+  label: 'ランダム',
+  chooseRewardCard: (session, player, rng) => pickRandom(getAvailableRewardCards(session, player.id), rng),
+  chooseOshikatsuDecision: (_session, _player, rng) => pickRandom<OshikatsuDecision>(['participate', 'rest'], rng),
+  chooseGoods: (session, player, rng) => {
+    const affordable = GOODS_TYPES.filter(goods => session.rules.goodsPrices[goods] <= player.money);
+    if (affordable.length === 0 || !canHoldMoreGoods(player)) return null;
+    // 購入をやめる選択肢も含める
+    return pickRandom<GoodsType | null>([...affordable, null], rng);
+  },
+  chooseKagebunshin: (_session, _player, rng) => pickRandom([true, false], rng),
+  choosePlacementSpot: (session, _player, rng) => {
+    const openSpots = getOpenSpots(session);
+    return openSpots.length > 0 ? pickRandom(openSpots, rng).id : null;
+  },
+  chooseGoodsTarget: (_session, player, _goods, rng) => {
+    const pieces = getAssignablePieces(player);
+    return pieces.length > 0 ? pickRandom(pieces, rng).id : null;
+  }
+};
+
+/**
+ * 期待値戦略：期待収入が最大のカードを選び、推しが来やすいスポットにうちわを置く
+ */
+export const expectedValueStrategy: BotStrategy = {
+  name: 'expected-value',
+  label: '期待値重視',
+  chooseRewardCard: (session, player) => getAvailableRewardCards(session, player.id).reduce((best, card) =>
+    getCardExpectedIncome(card) > getCardExpectedIncome(best) ? card : best
+  ),
+  chooseOshikatsuDecision: (session, player) => (player.money >= session.rules.goodsPrices.uchiwa ? 'participate' : 'rest'),
+  chooseGoods: (session, player) => (
+    player.money >= session.rules.goodsPrices.uchiwa && canHoldMoreGoods(player) ? 'uchiwa' : null
+  ),
+  // 資金が残っていれば影分身を買って配置数を増やす
+  chooseKagebunshin: () => true,
+  choosePlacementSpot: (session) => findBestOpenSpot(session),
+  chooseGoodsTarget: (session, player) => findBestAssignablePiece(session, player)
+};
+
+/**
+ * 安定志向戦略：収入の分散が最小のカードを選び、資金に余裕があるときだけ参加する
+ */
+export const lowVarianceStrategy: BotStrategy = {
+  name: 'low-variance',
+  label: '安定志向',
+  chooseRewardCard: (session, player) => getAvailableRewardCards(session, player.id).reduce((best, card) =>
+    getCardIncomeVariance(card) < getCardIncomeVariance(best) ? card : best
+  ),
+  chooseOshikatsuDecision: (session, player) => (player.money >= session.rules.goodsPrices.penlight * 2 ? 'participate' : 'rest'),
+  chooseGoods: (session, player) => (
+    player.money >= session.rules.goodsPrices.penlight && canHoldMoreGoods(player) ? 'penlight' : null
+  ),
+  chooseKagebunshin: () => false,
+  choosePlacementSpot: (session) => findBestOpenSpot(session),
+  chooseGoodsTarget: (session, player) => findBestAssignablePiece(session, player)
+};
+
+export const BOT_STRATEGIES: BotStrategy[] = [
+  randomStrategy,
+  expectedValueStrategy,
+  lowVarianceStrategy
+];
+
+/**
+ * 名前からボット戦略を取得（見つからない場合はランダム戦略）
+ */
+export const getBotStrategy = (name?: string | null): BotStrategy => {
+  return BOT_STRATEGIES.find(strategy => strategy.name === name) ?? randomStrategy;
+};
+
+/**
+ * 画面上のボットが1回の操作に使う乱数ソース
+ * セッションのシードと、それまでに記録された操作の件数から作るため、同じシードのゲームでは同じ操作を選ぶ
+ */
+export const createBotRandom = (seed: number, actionCount: number): SeededRandomSource => {
+  return createSeededRandom((seed ^ 0x5bd1e995) + Math.imul(actionCount, 0x9e3779b9));
+};
+
+/**
+ * ボットかどうか
+ */
+export const isBotPlayer = (player: Player): boolean => player.controller === 'bot';
+
+/**
+ * 現在の局面でボットが次に行うコマンドを決定する
+ * 行うことがない場合（手番の操作を終えた、または自分が操作するフェーズでない）は null
+ * フェーズを進めるコマンドは返さない
+ */
+export const chooseBotCommand = (
+  session: GameSession,
+  playerId: string,
+  strategy: BotStrategy,
+  rng: RandomSource
+): GameCommand | null => {
+  const player = session.players.find(p => p.id === playerId);
+  if (!player) return null;
+
+  const complete: GameCommand = { type: 'SET_PLAYER_ACTION_COMPLETED', payload: { playerId, completed: true } };
+
+  switch (session.currentPhase) {
+    case 'labor': {
+      if (player.selectedRewardCard) return null;
+      // ドラフトでは自分の手番が来るまで待つ
+      if (session.rules.rewardCardDraft && getDraftPicker(session)?.id !== playerId) return null;
+      const card = strategy.chooseRewardCard(session, player, rng);
+      return { type: 'SELECT_REWARD_CARD', payload: { playerId, cardId: card.id } };
+    }
+
+    case 'oshikatsu-decision': {
+      if (player.oshikatsuDecision) return null;
+      const decision = strategy.chooseOshikatsuDecision(session, player, rng);
+      return { type: 'SELECT_OSHIKATSU_DECISION', payload: { playerId, decision } };
+    }
+
+    case 'oshikatsu-goods': {
+      // スタートプレイヤーから順に1つずつ購入するため、自分の手番が来るまで待つ
+      if (!isStepTurn(session, playerId)) return null;
+      if (player.oshikatsuDecision !== 'participate') return complete;
+
+      const goodsType = strategy.chooseGoods(session, player, rng);
+      if (goodsType && session.rules.goodsPrices[goodsType] <= player.money && canHoldMoreGoods(player)) {
+        return { type: 'PURCHASE_GOODS', payload: { playerId, goodsType } };
+      }
+
+      // 影分身は1ラウンドに1体まで買う
+      const kagebunshinCount = player.otakuPieces.filter(p => p.isKagebunshin).length;
+      if (kagebunshinCount === 0 &&
+          session.rules.goodsPrices.kagebunshin <= player.money &&
+          strategy.chooseKagebunshin(session, player, rng)) {
+        return { type: 'CREATE_KAGEBUNSHIN', payload: { playerId, kagebunshinId: `${playerId}-kage${kagebunshinCount + 1}` } };
+      }
+      return complete;
+    }
+
+    case 'oshikatsu-placement':
+    case 'oshikatsu-kagebunshin': {
+      if (!isStepTurn(session, playerId)) return null;
+      if (player.oshikatsuDecision !== 'participate') return complete;
+
+      const piece = player.otakuPieces.find(p => isPlaceablePiece(session.currentPhase, p));
+      const spotId = piece ? strategy.choosePlacementSpot(session, player, rng) : null;
+      if (piece && spotId !== null) {
+        return { type: 'MOVE_PIECE', payload: { pieceId: piece.id, spotId } };
+      }
+      return complete;
+    }
+
+    case 'oshikatsu-goods-assign': {
+      if (session.turnManager.phaseActions[playerId] === true) return null;
+
+      const [goodsType] = getGoodsInventory(player);
+      const pieceId = goodsType ? strategy.chooseGoodsTarget(session, player, goodsType, rng) : null;
+      if (goodsType && pieceId) {
+        return { type: 'ASSIGN_GOODS', payload: { playerId, pieceId, goodsType } };
+      }
+      return complete;
+    }
+
+    default:
+      return null;
+  }
+};
@@ -1,15 +1,25 @@
 /**
  * データ永続化とログ記録システム
- * ゲーム状態のシリアライゼーション、ローカルストレージ管理、ログ記録機能を提供
+ * ゲーム状態のシリアライゼーション、ストレージ管理、ログ記録機能を提供
+ * 保存先は storageBackend で選んだバックエンド（localStorage / IndexedDB / メモリ）
  */
 
-import { GameSession, Player, RoundResult, GameState, GameLogEntry } from '../types/game';
+import { GameSession, Player, RoundResult, GameState, GameLogEntry, ActionLog, RuleSet, GameError, GamePhase } from '../types/game';
+import { serializeActionLog, deserializeActionLog } from './actionLog';
+import { DEFAULT_RULE_SET, RULE_SET_PRESETS } from './ruleSet';
+import { getStorageBackend, isQuotaExceededError, createStorageQuotaError, notifyStorageError } from './storageBackend';
+import { SAVE_SCHEMA_VERSION, UnverifiedSave, getSaveVersion, isRecord, migrateSaveData, validateSaveData, withSavedRuleDefaults } from './saveFormat';
+import { createGameError, ERROR_MESSAGES } from './errorHandling';
+import { rehydrateTurnManager } from './turnManager';
 
-// ローカルストレージのキー定義
+// ストレージのキー定義
 export const STORAGE_KEYS = {
   CURRENT_GAME: 'oshi-game-current-session',
+  SAVE_SLOTS: 'oshi-game-save-slot',
   GAME_HISTORY: 'oshi-game-history',
   GAME_LOGS: 'oshi-game-logs',
+  ACTION_LOGS: 'oshi-game-action-logs',
+  RULE_VARIANTS: 'oshi-game-rule-variants',
   GAME_STATISTICS: 'oshi-game-statistics'
 } as const;
 
@@ -24,6 +34,11 @@ export interface GameHistoryEntry {
   finalScores?: { playerId: string; playerName: string; totalPoints: number; totalMoney: number }[];
   totalRounds: number;
   gameStatus: 'in-progress' | 'completed' | 'abandoned';
+  rules: RuleSet; // プレイしたルールバリアント（後から編集されても比較できるよう内容ごと記録）
+  name: string; // セーブスロットの名前（一覧から変更できる）
+  currentPhase?: GamePhase; // 最後に保存した時点のフェーズ（セーブスロット導入前の履歴にはない）
+  lastModified: Date;
+  archived: boolean; // アーカイブしたゲームは一覧で分けて表示する
 }
 
 // 統計データの型定義
@@ -51,6 +66,26 @@ export interface GameStatistics {
   };
 }
 
+// 最大で保持するゲーム履歴の数（履歴から外れたゲームのセーブスロットも削除する）
+const MAX_GAME_HISTORY = 50;
+
+// ゲームごとのセーブスロットのキー
+const getSaveSlotKey = (gameId: string): string => `${STORAGE_KEYS.SAVE_SLOTS}-${gameId}`;
+
+// セーブスロットの初期名（参加プレイヤーの名前から作る）
+const createDefaultSaveName = (players: { name: string }[]): string => {
+  return players.length > 0 ? `${players.map(p => p.name).join('・')}のゲーム` : '名前のないゲーム';
+};
+
+// 保存に失敗した原因が容量超過なら GameError として通知し、それ以外はコンソールに出力する
+const reportStorageFailure = (message: string, error: unknown): void => {
+  if (isQuotaExceededError(error)) {
+    notifyStorageError(createStorageQuotaError(getStorageBackend().type));
+  } else {
+    console.error(message, error);
+  }
+};
+
 /**
  * ゲーム状態をJSON形式でシリアライズ
  */
@@ -63,6 +98,7 @@ export const serializeGameState = (gameSession: GameSession): string => {
 
     // Date オブジェクトを ISO 文字列に変換
     const serializable = {
+      schemaVersion: SAVE_SCHEMA_VERSION,
       ...gameSession,
       createdAt: gameSession.createdAt.toISOString(),
       // ネストされた Date オブジェクトがあれば変換
@@ -82,67 +118,132 @@ export const serializeGameState = (gameSession: GameSession): string => {
 };
 
 /**
- * JSON文字列からゲーム状態をデシリアライズ
+ * セーブデータの読み込み結果（読み込めない場合は理由を GameError で返す）
  */
-export const deserializeGameState = (jsonString: string): GameSession => {
+export type SaveDataReadResult =
+  | { session: GameSession; error: null }
+  | { session: null; error: GameError };
+
+/**
+ * JSON文字列のセーブデータを読み込む
+ * 古いセーブデータは現在の形式に移行し、全体の構造を検証してからゲーム状態に変換する
+ */
+export const readSaveData = (jsonString: string): SaveDataReadResult => {
+  const fail = (message: string, context: any): SaveDataReadResult => ({
+    session: null,
+    error: createGameError('system', message, undefined, context)
+  });
+
+  let parsed: unknown;
   try {
     if (!jsonString || typeof jsonString !== 'string') {
       throw new Error('Invalid input: expected non-empty string');
     }
-    
-    const parsed = JSON.parse(jsonString);
-    
-    // 必須フィールドの存在チェック
-    if (!parsed || typeof parsed !== 'object') {
-      throw new Error('Invalid JSON: expected object');
-    }
-    
-    if (!parsed.id || !parsed.players || !parsed.gameState || !parsed.createdAt) {
-      throw new Error('Invalid game session: missing required fields');
-    }
-    
-    // ISO 文字列を Date オブジェクトに変換
-    return {
-      ...parsed,
-      createdAt: new Date(parsed.createdAt),
-      // 必要に応じて他の Date フィールドも変換
-    };
+    parsed = JSON.parse(jsonString);
+  } catch (error) {
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, {
+      reason: 'invalid-json',
+      problems: [error instanceof Error ? error.message : 'Unknown error']
+    });
+  }
+
+  if (!isRecord(parsed)) {
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, { reason: 'invalid-structure', problems: ['save: expected object'] });
+  }
+
+  // 新しいバージョンで保存されたセーブデータは、移行できないため読み込まない
+  const saveVersion = getSaveVersion(parsed);
+  if (saveVersion > SAVE_SCHEMA_VERSION) {
+    return fail(ERROR_MESSAGES.SAVE_FROM_NEWER_VERSION, {
+      reason: 'newer-version',
+      saveVersion,
+      supportedVersion: SAVE_SCHEMA_VERSION
+    });
+  }
+
+  let migratedSave: UnverifiedSave;
+  try {
+    migratedSave = migrateSaveData(parsed);
   } catch (error) {
-    throw new Error(`Failed to deserialize game state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, {
+      reason: 'migration-failed',
+      saveVersion,
+      problems: [error instanceof Error ? error.message : 'Unknown error']
+    });
+  }
+
+  const { schemaVersion, ...migrated } = migratedSave;
+  const problems = validateSaveData(migrated);
+  if (problems.length > 0) {
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, { reason: 'invalid-structure', saveVersion, problems });
+  }
+
+  // 構造の検証を通ったため、日時が文字列のままのゲーム状態として扱う
+  const saved = migrated as unknown as Omit<GameSession, 'createdAt'> & { createdAt: string };
+  return {
+    session: {
+      ...saved,
+      createdAt: new Date(saved.createdAt),
+      turnManager: rehydrateTurnManager(saved.turnManager)
+    },
+    error: null
+  };
+};
+
+/**
+ * JSON文字列からゲーム状態をデシリアライズ
+ */
+export const deserializeGameState = (jsonString: string): GameSession => {
+  const { session, error } = readSaveData(jsonString);
+  if (error) {
+    const details = error.context?.problems ? `: ${error.context.problems.slice(0, 5).join('; ')}` : '';
+    throw new Error(`Failed to deserialize game state: ${error.message}${details}`);
   }
+  return session;
 };
 
 /**
- * ローカルストレージにゲーム状態を保存
+ * ストレージにゲーム状態を保存
  */
 export const saveGameToLocalStorage = (gameSession: GameSession): void => {
   try {
     const serializedGame = serializeGameState(gameSession);
-    localStorage.setItem(STORAGE_KEYS.CURRENT_GAME, serializedGame);
+    getStorageBackend().setItem(STORAGE_KEYS.CURRENT_GAME, serializedGame);
+    // 新しいゲームを始めても上書きされないよう、ゲームごとのスロットにも保存
+    getStorageBackend().setItem(getSaveSlotKey(gameSession.id), serializedGame);
     
     // ゲーム履歴も更新
     updateGameHistory(gameSession);
   } catch (error) {
-    console.error('Failed to save game to localStorage:', error);
+    reportStorageFailure('Failed to save game to storage:', error);
     throw new Error('ゲームの保存に失敗しました');
   }
 };
 
 /**
- * ローカルストレージからゲーム状態を読み込み
+ * ストレージからゲーム状態を読み込み
  */
 export const loadGameFromLocalStorage = (): GameSession | null => {
   try {
-    const savedGame = localStorage.getItem(STORAGE_KEYS.CURRENT_GAME);
+    const savedGame = getStorageBackend().getItem(STORAGE_KEYS.CURRENT_GAME);
     if (!savedGame) {
       return null;
     }
     
-    return deserializeGameState(savedGame);
+    const { session, error } = readSaveData(savedGame);
+    if (error?.context?.reason === 'newer-version') {
+      // 新しいバージョンのセーブデータは消さずに残し、読み込めないことを知らせる
+      notifyStorageError(error);
+      return null;
+    }
+    if (error) {
+      throw new Error(`${error.message}: ${(error.context?.problems ?? []).slice(0, 5).join('; ')}`);
+    }
+    return session;
   } catch (error) {
-    console.error('Failed to load game from localStorage:', error);
+    console.error('Failed to load game from storage:', error);
     // 破損したデータをクリア
-    localStorage.removeItem(STORAGE_KEYS.CURRENT_GAME);
+    getStorageBackend().removeItem(STORAGE_KEYS.CURRENT_GAME);
     return null;
   }
 };
@@ -154,14 +255,26 @@ export const updateGameHistory = (gameSession: GameSession): void => {
   try {
     const existingHistory = getGameHistory();
     const existingEntryIndex = existingHistory.findIndex(entry => entry.gameId === gameSession.id);
+    const existingEntry = existingEntryIndex >= 0 ? existingHistory[existingEntryIndex] : undefined;
+    
+    const isCompleted = gameSession.currentPhase === 'game-end';
     
     const historyEntry: GameHistoryEntry = {
       gameId: gameSession.id,
       startTime: gameSession.createdAt,
-      endTime: gameSession.currentPhase === 'game-end' ? new Date() : undefined,
+      endTime: isCompleted ? new Date() : undefined,
       players: gameSession.players.map(p => ({ id: p.id, name: p.name })),
+      finalScores: isCompleted
+        ? gameSession.players.map(p => ({ playerId: p.id, playerName: p.name, totalPoints: p.points, totalMoney: p.money }))
+        : undefined,
       totalRounds: gameSession.currentRound,
-      gameStatus: gameSession.currentPhase === 'game-end' ? 'completed' : 'in-progress'
+      gameStatus: isCompleted ? 'completed' : 'in-progress',
+      rules: gameSession.rules,
+      // 名前とアーカイブの状態は一覧での操作を引き継ぐ
+      name: existingEntry?.name ?? createDefaultSaveName(gameSession.players),
+      currentPhase: gameSession.currentPhase,
+      lastModified: new Date(),
+      archived: existingEntry?.archived ?? false
     };
     
     if (existingEntryIndex >= 0) {
@@ -170,38 +283,297 @@ export const updateGameHistory = (gameSession: GameSession): void => {
       existingHistory.push(historyEntry);
     }
     
-    // 最新の50ゲームのみ保持
-    const trimmedHistory = existingHistory.slice(-50);
-    
-    localStorage.setItem(STORAGE_KEYS.GAME_HISTORY, JSON.stringify(trimmedHistory));
+    saveGameHistory(existingHistory);
   } catch (error) {
-    console.error('Failed to update game history:', error);
+    reportStorageFailure('Failed to update game history:', error);
   }
 };
 
+// ゲーム履歴を保存（50ゲームを超えた分は、終了・中断したゲームを更新日時の古い順に削除する）
+// 進行中のゲームは再開できるよう残し、削除したゲームのセーブスロットとアクションログも削除する
+const saveGameHistory = (history: GameHistoryEntry[]): void => {
+  const evictedIds = new Set(
+    history
+      .filter(entry => entry.gameStatus !== 'in-progress')
+      .sort((a, b) => a.lastModified.getTime() - b.lastModified.getTime())
+      .slice(0, Math.max(history.length - MAX_GAME_HISTORY, 0))
+      .map(entry => entry.gameId)
+  );
+  evictedIds.forEach(gameId => {
+    getStorageBackend().removeItem(getSaveSlotKey(gameId));
+    getStorageBackend().removeItem(`${STORAGE_KEYS.ACTION_LOGS}-${gameId}`);
+  });
+  getStorageBackend().setItem(
+    STORAGE_KEYS.GAME_HISTORY,
+    JSON.stringify(history.filter(entry => !evictedIds.has(entry.gameId)))
+  );
+};
+
+/**
+ * JSONから読み込んだゲーム履歴の項目を復元（Date の復元と、古い形式の項目の補完）
+ */
+export const restoreGameHistoryEntry = (entry: any): GameHistoryEntry => ({
+  ...entry,
+  startTime: new Date(entry.startTime),
+  endTime: entry.endTime ? new Date(entry.endTime) : undefined,
+  // ルール設定導入前の履歴は標準ルールとして扱う
+  rules: entry.rules ?? DEFAULT_RULE_SET,
+  // セーブスロット導入前の履歴は最後に記録された日時を更新日時とする
+  name: entry.name ?? createDefaultSaveName(entry.players ?? []),
+  lastModified: new Date(entry.lastModified ?? entry.endTime ?? entry.startTime),
+  archived: entry.archived ?? false
+});
+
 /**
  * ゲーム履歴を取得
  */
 export const getGameHistory = (): GameHistoryEntry[] => {
   try {
-    const historyJson = localStorage.getItem(STORAGE_KEYS.GAME_HISTORY);
+    const historyJson = getStorageBackend().getItem(STORAGE_KEYS.GAME_HISTORY);
     if (!historyJson) {
       return [];
     }
     
-    const history = JSON.parse(historyJson);
-    // Date オブジェクトを復元
-    return history.map((entry: any) => ({
+    return JSON.parse(historyJson).map(restoreGameHistoryEntry);
+  } catch (error) {
+    console.error('Failed to get game history:', error);
+    return [];
+  }
+};
+
+/**
+ * セーブスロット一覧の項目（履歴にセーブデータが残っているかを加えたもの）
+ */
+export interface SavedGameEntry extends GameHistoryEntry {
+  hasSaveData: boolean;
+}
+
+/**
+ * 保存済みゲームの一覧を取得（最後に保存した順）
+ */
+export const listSavedGames = (): SavedGameEntry[] => {
+  return getGameHistory()
+    .map(entry => ({ ...entry, hasSaveData: getStorageBackend().getItem(getSaveSlotKey(entry.gameId)) !== null }))
+    .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+};
+
+/**
+ * セーブスロットからゲームを読み込む
+ */
+export const loadGameFromSlot = (gameId: string): SaveDataReadResult => {
+  const savedGame = getStorageBackend().getItem(getSaveSlotKey(gameId));
+  if (!savedGame) {
+    return { session: null, error: createGameError('system', ERROR_MESSAGES.SAVE_SLOT_NOT_FOUND, undefined, { gameId }) };
+  }
+  return readSaveData(savedGame);
+};
+
+// 複製したゲームのアクションログ（再生しても複製後のIDになるよう開始コマンドも書き換える）
+const copyActionLog = (log: ActionLog, gameId: string): ActionLog => ({
+  ...log,
+  gameId,
+  entries: log.entries.map(entry => entry.command.type === 'INITIALIZE_GAME'
+    ? { ...entry, command: { ...entry.command, payload: { ...entry.command.payload, gameId } } }
+    : entry)
+});
+
+// 履歴の1件を書き換えて保存（見つからない場合はエラー）
+const updateHistoryEntry = (gameId: string, update: (entry: GameHistoryEntry) => GameHistoryEntry): void => {
+  const history = getGameHistory();
+  const index = history.findIndex(entry => entry.gameId === gameId);
+  if (index < 0) {
+    throw new Error(`Saved game not found: ${gameId}`);
+  }
+  history[index] = update(history[index]);
+  getStorageBackend().setItem(STORAGE_KEYS.GAME_HISTORY, JSON.stringify(history));
+};
+
+/**
+ * 保存済みゲームを別のIDで複製（アクションログも引き継ぐ）
+ */
+export const duplicateSavedGame = (gameId: string, newGameId: string): GameSession => {
+  const { session, error } = loadGameFromSlot(gameId);
+  if (error) {
+    throw new Error(`Failed to duplicate game: ${error.message}`);
+  }
+
+  const source = getGameHistory().find(entry => entry.gameId === gameId);
+  const copy: GameSession = { ...session, id: newGameId };
+  try {
+    getStorageBackend().setItem(getSaveSlotKey(newGameId), serializeGameState(copy));
+    const actionLog = getActionLog(gameId);
+    if (actionLog) {
+      saveActionLog(copyActionLog(actionLog, newGameId));
+    }
+    updateGameHistory(copy);
+    updateHistoryEntry(newGameId, entry => ({
       ...entry,
-      startTime: new Date(entry.startTime),
-      endTime: entry.endTime ? new Date(entry.endTime) : undefined
+      name: `${source?.name ?? createDefaultSaveName(copy.players)}のコピー`
     }));
+  } catch (storageError) {
+    reportStorageFailure('Failed to duplicate saved game:', storageError);
+    throw new Error('ゲームの複製に失敗しました');
+  }
+  return copy;
+};
+
+/**
+ * 保存済みゲームの名前を変更
+ */
+export const renameSavedGame = (gameId: string, name: string): void => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error('Save name must not be empty');
+  }
+
+  try {
+    updateHistoryEntry(gameId, entry => ({ ...entry, name: trimmedName }));
   } catch (error) {
-    console.error('Failed to get game history:', error);
+    reportStorageFailure('Failed to rename saved game:', error);
+    throw new Error('ゲーム名の変更に失敗しました');
+  }
+};
+
+/**
+ * 保存済みゲームをアーカイブ（archived: false で戻す）
+ */
+export const archiveSavedGame = (gameId: string, archived: boolean = true): void => {
+  try {
+    updateHistoryEntry(gameId, entry => ({ ...entry, archived }));
+  } catch (error) {
+    reportStorageFailure('Failed to archive saved game:', error);
+    throw new Error('ゲームのアーカイブに失敗しました');
+  }
+};
+
+/**
+ * 保存済みゲームを削除（セーブデータ・履歴・ログをすべて削除）
+ */
+export const deleteSavedGame = (gameId: string): void => {
+  try {
+    const backend = getStorageBackend();
+    backend.removeItem(getSaveSlotKey(gameId));
+    backend.removeItem(`${STORAGE_KEYS.GAME_LOGS}-${gameId}`);
+    backend.removeItem(`${STORAGE_KEYS.ACTION_LOGS}-${gameId}`);
+
+    // 起動時に読み込むゲームが削除したゲームなら、それも削除
+    const currentGame = backend.getItem(STORAGE_KEYS.CURRENT_GAME);
+    if (currentGame && readSaveData(currentGame).session?.id === gameId) {
+      backend.removeItem(STORAGE_KEYS.CURRENT_GAME);
+    }
+
+    saveGameHistory(getGameHistory().filter(entry => entry.gameId !== gameId));
+
+    const indexKey = `${STORAGE_KEYS.GAME_LOGS}-index`;
+    const logIndex: string[] = JSON.parse(backend.getItem(indexKey) || '[]');
+    backend.setItem(indexKey, JSON.stringify(logIndex.filter(id => id !== gameId)));
+  } catch (error) {
+    reportStorageFailure('Failed to delete saved game:', error);
+  }
+};
+
+/**
+ * ルールバリアントごとのゲーム結果の集計
+ */
+export interface RuleVariantSummary {
+  ruleSetId: string;
+  ruleSetName: string;
+  gamesPlayed: number;
+  gamesCompleted: number;
+  averageWinningScore: number;
+  averageScore: number;
+}
+
+/**
+ * ゲーム履歴をルールバリアントごとに集計
+ */
+export const summarizeGameHistoryByRuleSet = (history: GameHistoryEntry[] = getGameHistory()): RuleVariantSummary[] => {
+  const groups = new Map<string, GameHistoryEntry[]>();
+  history.forEach(entry => {
+    const entries = groups.get(entry.rules.id) || [];
+    entries.push(entry);
+    groups.set(entry.rules.id, entries);
+  });
+  
+  return Array.from(groups.entries()).map(([ruleSetId, entries]) => {
+    const completed = entries.filter(entry => entry.gameStatus === 'completed' && entry.finalScores);
+    const winningScores = completed.map(entry => Math.max(...entry.finalScores!.map(score => score.totalPoints)));
+    const allScores = completed.flatMap(entry => entry.finalScores!.map(score => score.totalPoints));
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+    
+    return {
+      ruleSetId,
+      // 同じIDで名前が変わった場合は最新の名前を表示する
+      ruleSetName: entries[entries.length - 1].rules.name,
+      gamesPlayed: entries.length,
+      gamesCompleted: completed.length,
+      averageWinningScore: average(winningScores),
+      averageScore: average(allScores)
+    };
+  });
+};
+
+/**
+ * 保存済みのルールバリアントを取得
+ */
+export const getRuleVariants = (): RuleSet[] => {
+  try {
+    const variantsJson = getStorageBackend().getItem(STORAGE_KEYS.RULE_VARIANTS);
+    if (!variantsJson) {
+      return [];
+    }
+    
+    return JSON.parse(variantsJson).map(withSavedRuleDefaults);
+  } catch (error) {
+    console.error('Failed to get rule variants:', error);
     return [];
   }
 };
 
+/**
+ * ルールバリアントを保存（同じIDがあれば上書き）
+ */
+export const saveRuleVariant = (rules: RuleSet): void => {
+  if (RULE_SET_PRESETS.some(preset => preset.id === rules.id)) {
+    throw new Error(`Cannot overwrite preset rule set: ${rules.id}`);
+  }
+  
+  try {
+    const variants = getRuleVariants();
+    const existingIndex = variants.findIndex(variant => variant.id === rules.id);
+    
+    if (existingIndex >= 0) {
+      variants[existingIndex] = rules;
+    } else {
+      variants.push(rules);
+    }
+    
+    getStorageBackend().setItem(STORAGE_KEYS.RULE_VARIANTS, JSON.stringify(variants));
+  } catch (error) {
+    reportStorageFailure('Failed to save rule variant:', error);
+    throw new Error('ルールバリアントの保存に失敗しました');
+  }
+};
+
+/**
+ * ルールバリアントを削除
+ */
+export const deleteRuleVariant = (id: string): void => {
+  try {
+    const variants = getRuleVariants().filter(variant => variant.id !== id);
+    getStorageBackend().setItem(STORAGE_KEYS.RULE_VARIANTS, JSON.stringify(variants));
+  } catch (error) {
+    reportStorageFailure('Failed to delete rule variant:', error);
+  }
+};
+
+/**
+ * プリセットと保存済みバリアントを合わせた選択可能なルール一覧
+ */
+export const getAvailableRuleSets = (): RuleSet[] => {
+  return [...RULE_SET_PRESETS, ...getRuleVariants()];
+};
+
 /**
  * ゲームログエントリを記録
  */
@@ -229,12 +601,12 @@ export const logGameAction = (
     
     // ゲームごとにログを保存
     const gameLogsKey = `${STORAGE_KEYS.GAME_LOGS}-${gameId}`;
-    localStorage.setItem(gameLogsKey, JSON.stringify(existingLogs));
+    getStorageBackend().setItem(gameLogsKey, JSON.stringify(existingLogs));
     
     // 全体のログインデックスも更新
     updateLogIndex(gameId);
   } catch (error) {
-    console.error('Failed to log game action:', error);
+    reportStorageFailure('Failed to log game action:', error);
   }
 };
 
@@ -244,7 +616,7 @@ export const logGameAction = (
 export const getGameLogs = (gameId: string): GameLogEntry[] => {
   try {
     const gameLogsKey = `${STORAGE_KEYS.GAME_LOGS}-${gameId}`;
-    const logsJson = localStorage.getItem(gameLogsKey);
+    const logsJson = getStorageBackend().getItem(gameLogsKey);
     if (!logsJson) {
       return [];
     }
@@ -261,20 +633,93 @@ export const getGameLogs = (gameId: string): GameLogEntry[] => {
   }
 };
 
+/**
+ * アクションログ（再生可能なイベントストリーム）を保存
+ */
+export const saveActionLog = (log: ActionLog): void => {
+  try {
+    getStorageBackend().setItem(`${STORAGE_KEYS.ACTION_LOGS}-${log.gameId}`, serializeActionLog(log));
+    updateLogIndex(log.gameId);
+  } catch (error) {
+    reportStorageFailure('Failed to save action log:', error);
+  }
+};
+
+/**
+ * 特定ゲームのアクションログを取得
+ */
+export const getActionLog = (gameId: string): ActionLog | null => {
+  try {
+    const logJson = getStorageBackend().getItem(`${STORAGE_KEYS.ACTION_LOGS}-${gameId}`);
+    if (!logJson) {
+      return null;
+    }
+
+    return deserializeActionLog(logJson);
+  } catch (error) {
+    console.error('Failed to get action log:', error);
+    return null;
+  }
+};
+
 /**
  * ログインデックスを更新（どのゲームにログがあるかを管理）
  */
 const updateLogIndex = (gameId: string): void => {
   try {
     const indexKey = `${STORAGE_KEYS.GAME_LOGS}-index`;
-    const existingIndex = JSON.parse(localStorage.getItem(indexKey) || '[]');
+    const existingIndex = JSON.parse(getStorageBackend().getItem(indexKey) || '[]');
     
     if (!existingIndex.includes(gameId)) {
       existingIndex.push(gameId);
-      localStorage.setItem(indexKey, JSON.stringify(existingIndex));
+      getStorageBackend().setItem(indexKey, JSON.stringify(existingIndex));
     }
   } catch (error) {
-    console.error('Failed to update log index:', error);
+    reportStorageFailure('Failed to update log index:', error);
+  }
+};
+
+/**
+ * 取り込んだ分析用データ（ゲーム履歴・ログ・アクションログ）を追加
+ * 同じゲームのデータが既にある場合は上書きせず、手元のデータを残す
+ */
+export const mergeImportedGameData = (data: {
+  history: GameHistoryEntry[];
+  logs: GameLogEntry[];
+  actionLog: ActionLog | null;
+}): { historyAdded: number; logsAdded: number; actionLogAdded: boolean } => {
+  try {
+    const history = getGameHistory();
+    const newEntries = data.history.filter(entry => !history.some(existing => existing.gameId === entry.gameId));
+    if (newEntries.length > 0) {
+      saveGameHistory([...history, ...newEntries]);
+    }
+
+    // ログはゲームごとに保存されているため、ゲームIDごとに追加する
+    const logsByGame = new Map<string, GameLogEntry[]>();
+    data.logs.forEach(log => {
+      const gameId = log.data?.gameId;
+      if (typeof gameId === 'string') {
+        logsByGame.set(gameId, [...(logsByGame.get(gameId) ?? []), log]);
+      }
+    });
+    let logsAdded = 0;
+    logsByGame.forEach((logs, gameId) => {
+      if (getGameLogs(gameId).length > 0) return;
+      getStorageBackend().setItem(`${STORAGE_KEYS.GAME_LOGS}-${gameId}`, JSON.stringify(logs));
+      updateLogIndex(gameId);
+      logsAdded += logs.length;
+    });
+
+    const actionLogAdded = data.actionLog !== null && getActionLog(data.actionLog.gameId) === null;
+    if (actionLogAdded) {
+      saveActionLog(data.actionLog!);
+    }
+
+    return { historyAdded: newEntries.length, logsAdded, actionLogAdded };
+  } catch (error) {
+    reportStorageFailure('Failed to merge imported game data:', error);
+    throw new Error('データの取り込みに失敗しました');
   }
 };
 
@@ -336,9 +781,9 @@ export const updateGameStatistics = (gameSession: GameSession): void => {
       });
     }
     
-    localStorage.setItem(STORAGE_KEYS.GAME_STATISTICS, JSON.stringify(existingStats));
+    getStorageBackend().setItem(STORAGE_KEYS.GAME_STATISTICS, JSON.stringify(existingStats));
   } catch (error) {
-    console.error('Failed to update game statistics:', error);
+    reportStorageFailure('Failed to update game statistics:', error);
   }
 };
 
@@ -347,7 +792,7 @@ export const updateGameStatistics = (gameSession: GameSession): void => {
  */
 export const getGameStatistics = (): GameStatistics => {
   try {
-    const statsJson = localStorage.getItem(STORAGE_KEYS.GAME_STATISTICS);
+    const statsJson = getStorageBackend().getItem(STORAGE_KEYS.GAME_STATISTICS);
     if (!statsJson) {
       return {
         totalGamesPlayed: 0,
@@ -384,12 +829,15 @@ export const getGameStatistics = (): GameStatistics => {
  */
 export const exportGameDataForAnalysis = (gameId?: string): string => {
   try {
+    const currentGame = gameId ? null : loadGameFromLocalStorage();
     const exportData = {
       timestamp: new Date().toISOString(),
       gameHistory: getGameHistory(),
       statistics: getGameStatistics(),
       logs: gameId ? getGameLogs(gameId) : undefined,
-      currentGame: gameId ? null : loadGameFromLocalStorage()
+      actionLog: gameId ? getActionLog(gameId) : undefined,
+      // 取り込み時に移行できるよう、セーブデータと同じ形式（バージョン付き）で出力
+      currentGame: currentGame ? JSON.parse(serializeGameState(currentGame)) : null
     };
     
     return JSON.stringify(exportData, null, 2);
@@ -399,23 +847,29 @@ export const exportGameDataForAnalysis = (gameId?: string): string => {
 };
 
 /**
- * ローカルストレージをクリア（開発・テスト用）
+ * ストレージをクリア（開発・テスト用）
  */
 export const clearAllGameData = (): void => {
   try {
+    // セーブスロットは履歴のゲームごとにあるため、履歴より先に削除
+    getGameHistory().forEach(entry => {
+      getStorageBackend().removeItem(getSaveSlotKey(entry.gameId));
+    });
+    
     Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
+      getStorageBackend().removeItem(key);
     });
     
     // ゲーム固有のログも削除
     const indexKey = `${STORAGE_KEYS.GAME_LOGS}-index`;
-    const gameIds = JSON.parse(localStorage.getItem(indexKey) || '[]');
+    const gameIds = JSON.parse(getStorageBackend().getItem(indexKey) || '[]');
     gameIds.forEach((gameId: string) => {
-      localStorage.removeItem(`${STORAGE_KEYS.GAME_LOGS}-${gameId}`);
+      getStorageBackend().removeItem(`${STORAGE_KEYS.GAME_LOGS}-${gameId}`);
+      getStorageBackend().removeItem(`${STORAGE_KEYS.ACTION_LOGS}-${gameId}`);
     });
-    localStorage.removeItem(indexKey);
+    getStorageBackend().removeItem(indexKey);
     
-    console.log('All game data cleared from localStorage');
+    console.log('All game data cleared from storage');
   } catch (error) {
     console.error('Failed to clear game data:', error);
   }
@@ -437,12 +891,12 @@ export const validateGameState = (gameSession: GameSession): boolean => {
     }
     
     // ラウンド数チェック
-    if (gameSession.currentRound < 1 || gameSession.currentRound > 8) {
+    if (gameSession.currentRound < 1 || gameSession.currentRound > (gameSession.rules?.totalRounds ?? DEFAULT_RULE_SET.totalRounds)) {
       return false;
     }
     
     // フェーズチェック
-    const validPhases = ['setup', 'labor', 'oshikatsu-decision', 'oshikatsu-goods', 'oshikatsu-placement', 'fansa-time', 'round-end', 'game-end'];
+    const validPhases = ['setup', 'labor', 'oshikatsu-decision', 'oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin', 'oshikatsu-goods-assign', 'fansa-time', 'round-end', 'game-end'];
     if (!validPhases.includes(gameSession.currentPhase)) {
       return false;
     }
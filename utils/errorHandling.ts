@@ -3,7 +3,19 @@
  * 無効操作の検出、エラーメッセージ表示、ゲーム状態の整合性チェック、回復機能を提供
  */
 
-import { GameSession, Player, GameState, GamePhase, GameError, OtakuPiece, GoodsType } from '../types/game';
+import { GameSession, Player, PlayerColor, GameState, GamePhase, GameError, OtakuPiece, GoodsType, RuleSet } from '../types/game';
+import {
+  getDraftPicker,
+  getAvailableRewardCards,
+  isSequentialStepPhase,
+  isStepTurn,
+  getGoodsInventory,
+  canHoldMoreGoods,
+  canAssignGoodsTo,
+  isPlaceablePiece,
+  isRestingPlayer
+} from './gameLogic';
+import { TIE_BREAKERS } from './ranking';
 
 /**
  * エラータイプの定義
@@ -18,13 +30,19 @@ export const ERROR_MESSAGES = {
   INVALID_PLAYER_COUNT: 'プレイヤー数は1人から4人までです',
   DUPLICATE_PLAYER_NAME: '同じ名前のプレイヤーが既に存在します',
   EMPTY_PLAYER_NAME: 'プレイヤー名を入力してください',
+  DUPLICATE_PLAYER_COLOR: '同じ色のプレイヤーが既に存在します',
+  INVALID_START_PLAYER: 'スタートプレイヤーが無効です',
   INSUFFICIENT_FUNDS: '資金が不足しています',
   NO_AVAILABLE_PIECES: '利用可能なオタクコマがありません',
-  SPOT_FULL: 'このスポットは満員です（最大3個まで）',
-  INVALID_PIECE_PLACEMENT: 'グッズを持っていないオタクコマは配置できません',
+  SPOT_FULL: 'このスポットは満員です',
+  INVALID_PIECE_PLACEMENT: '今は配置できないオタクコマです（影分身は通常のオタクコマの後に配置します）',
+  GOODS_NOT_OWNED: 'このグッズを持っていません',
+  PIECE_ALREADY_HAS_GOODS: 'グッズは1つのオタクコマに1つまでです',
+  INVALID_GOODS_TARGET: 'ボードに配置した自分のオタクコマにのみグッズを乗せられます',
   NOT_PLAYER_TURN: 'あなたのターンではありません',
   ACTION_ALREADY_COMPLETED: 'このアクションは既に完了しています',
   PHASE_MISMATCH: '現在のフェーズでは実行できない操作です',
+  PLAYER_RESTING: '休む選択をしたプレイヤーはこのラウンドの推し活に参加できません',
   
   // システムエラー
   GAME_STATE_CORRUPTION: 'ゲーム状態が破損しています',
@@ -32,13 +50,20 @@ export const ERROR_MESSAGES = {
   MISSING_REQUIRED_DATA: '必要なデータが不足しています',
   SERIALIZATION_ERROR: 'データの保存に失敗しました',
   DESERIALIZATION_ERROR: 'データの読み込みに失敗しました',
+  SAVE_FROM_NEWER_VERSION: '新しいバージョンのゲームで保存されたデータのため読み込めません。ゲームを更新してください',
+  STORAGE_QUOTA_EXCEEDED: '保存容量の上限に達したため、データを保存できませんでした',
+  SAVE_SLOT_NOT_FOUND: '保存されたゲームが見つかりません',
+  IMPORT_NO_GAME_DATA: 'ファイルに取り込めるゲームデータが含まれていません',
   
   // バリデーションエラー
   INVALID_DICE_RESULT: 'サイコロの結果が無効です（1-6の範囲外）',
   INVALID_SPOT_ID: '無効なスポットIDです（0-7の範囲外）',
   INVALID_PLAYER_ID: '無効なプレイヤーIDです',
   INVALID_CARD_SELECTION: '無効なカード選択です',
-  GAME_STATE_INCONSISTENCY: 'ゲーム状態に不整合があります'
+  NOT_DRAFT_TURN: '報酬配分カードを選ぶ手番ではありません',
+  REWARD_CARD_TAKEN: 'この報酬配分カードは既に他のプレイヤーが選んでいます',
+  GAME_STATE_INCONSISTENCY: 'ゲーム状態に不整合があります',
+  INVALID_RULE_SET: 'ルール設定が無効です'
 } as const;
 
 /**
@@ -88,6 +113,48 @@ export const validatePlayerCount = (playerCount: number): GameError | null => {
   return null;
 };
 
+/**
+ * プレイヤー色のバリデーション
+ */
+export const validatePlayerColor = (color: PlayerColor, existingPlayers: Player[]): GameError | null => {
+  if (existingPlayers.some(player => player.color === color)) {
+    return createGameError('user-input', ERROR_MESSAGES.DUPLICATE_PLAYER_COLOR, undefined, { color });
+  }
+  
+  return null;
+};
+
+/**
+ * ゲーム開始前のプレイヤー設定のバリデーション
+ * 入力欄ごとに表示できるよう、context にプレイヤーの位置と項目を含める
+ */
+export const validatePlayerSetup = (players: Player[], startPlayerIndex: number = 0): GameError[] => {
+  const errors: GameError[] = [];
+  
+  const countError = validatePlayerCount(players.length);
+  if (countError) {
+    errors.push(countError);
+  }
+  
+  players.forEach((player, i) => {
+    const previous = players.slice(0, i);
+    const nameError = validatePlayerName(player.name, previous);
+    if (nameError) {
+      errors.push({ ...nameError, context: { playerIndex: i, field: 'name' } });
+    }
+    const colorError = validatePlayerColor(player.color, previous);
+    if (colorError) {
+      errors.push({ ...colorError, context: { playerIndex: i, field: 'color' } });
+    }
+  });
+  
+  if (!Number.isInteger(startPlayerIndex) || startPlayerIndex < 0 || startPlayerIndex >= players.length) {
+    errors.push(createGameError('user-input', ERROR_MESSAGES.INVALID_START_PLAYER, undefined, { field: 'startPlayer', startPlayerIndex }));
+  }
+  
+  return errors;
+};
+
 /**
  * スポットIDのバリデーション
  */
@@ -139,18 +206,94 @@ export const validatePlayerTurn = (
   return null;
 };
 
+/**
+ * グッズ購入・オタクコマ配置の手番のバリデーション
+ * スタートプレイヤーから順に1人ずつ行動し、完了を宣言したプレイヤーは以降行動できない
+ */
+export const validateStepTurn = (
+  playerId: string,
+  gameSession: GameSession
+): GameError | null => {
+  if (!isSequentialStepPhase(gameSession.currentPhase) || isStepTurn(gameSession, playerId)) {
+    return null;
+  }
+  
+  if (gameSession.turnManager.phaseActions[playerId] === true) {
+    return createGameError('user-input', ERROR_MESSAGES.ACTION_ALREADY_COMPLETED, playerId);
+  }
+  
+  return createGameError('user-input', ERROR_MESSAGES.NOT_PLAYER_TURN, playerId);
+};
+
+/**
+ * 報酬配分カード選択のバリデーション
+ * ドラフトでは手番のプレイヤーのみが、他のプレイヤーに選ばれていないカードを選べる
+ */
+export const validateRewardCardSelection = (
+  playerId: string,
+  cardId: string,
+  gameSession: GameSession
+): GameError | null => {
+  const player = gameSession.players.find(p => p.id === playerId);
+  if (!player) {
+    return createGameError('validation', ERROR_MESSAGES.INVALID_PLAYER_ID, playerId);
+  }
+  
+  if (!gameSession.gameState.rewardDistributionCards.some(card => card.id === cardId)) {
+    return createGameError('user-input', ERROR_MESSAGES.INVALID_CARD_SELECTION, playerId, { cardId });
+  }
+  
+  if (!gameSession.rules.rewardCardDraft) {
+    return null;
+  }
+  
+  if (getDraftPicker(gameSession)?.id !== playerId) {
+    return createGameError('user-input', ERROR_MESSAGES.NOT_DRAFT_TURN, playerId);
+  }
+  
+  if (!getAvailableRewardCards(gameSession, playerId).some(card => card.id === cardId)) {
+    return createGameError('user-input', ERROR_MESSAGES.REWARD_CARD_TAKEN, playerId, { cardId });
+  }
+  
+  return null;
+};
+
+// 推し活に参加するプレイヤーだけが行える操作
+const PARTICIPANT_ACTIONS = ['purchaseGoods', 'createKagebunshin', 'placePiece', 'assignGoods', 'passTurn'];
+
+/**
+ * 休む選択をしたプレイヤーの操作のバリデーション
+ */
+export const validateRestingPlayer = (
+  playerId: string,
+  gameSession: GameSession
+): GameError | null => {
+  const player = gameSession.players.find(p => p.id === playerId);
+  
+  if (player && isRestingPlayer(player)) {
+    return createGameError('user-input', ERROR_MESSAGES.PLAYER_RESTING, playerId);
+  }
+  
+  return null;
+};
+
 /**
  * フェーズ適合性のバリデーション
+ * 操作するプレイヤーを指定した場合、休むプレイヤーによる推し活の操作もエラーにする
  */
 export const validatePhaseAction = (
   action: string,
-  currentPhase: GamePhase
+  currentPhase: GamePhase,
+  player?: Player
 ): GameError | null => {
   const phaseActionMap: Record<string, GamePhase[]> = {
     'selectRewardCard': ['labor'],
     'selectOshikatsuDecision': ['oshikatsu-decision'],
     'purchaseGoods': ['oshikatsu-goods'],
-    'placePiece': ['oshikatsu-placement'],
+    'createKagebunshin': ['oshikatsu-goods'],
+    'placePiece': ['oshikatsu-placement', 'oshikatsu-kagebunshin'],
+    'assignGoods': ['oshikatsu-goods-assign'],
+    'passTurn': ['oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin'],
     'processFansaTime': ['fansa-time']
   };
   
@@ -165,6 +308,10 @@ export const validatePhaseAction = (
     );
   }
   
+  if (player && isRestingPlayer(player) && PARTICIPANT_ACTIONS.includes(action)) {
+    return createGameError('user-input', ERROR_MESSAGES.PLAYER_RESTING, player.id, { action, currentPhase });
+  }
+  
   return null;
 };
 
@@ -182,14 +329,8 @@ export const validateGoodsPurchase = (
     return createGameError('validation', ERROR_MESSAGES.INVALID_PLAYER_ID, playerId);
   }
   
-  // 価格設定
-  const goodsPrices = {
-    uchiwa: 1,
-    penlight: 1,
-    sashiire: 2
-  };
-  
-  const price = goodsPrices[goodsType];
+  // 価格設定（ルールから取得）
+  const price = gameSession.rules.goodsPrices[goodsType];
   
   // 資金チェック
   if (player.money < price) {
@@ -201,18 +342,71 @@ export const validateGoodsPurchase = (
     );
   }
   
-  // 利用可能なオタクコマチェック
-  const availablePiece = player.otakuPieces.find(piece => 
-    !piece.goods && piece.boardSpotId === undefined
-  );
-  
-  if (!availablePiece) {
+  // グッズを乗せられるオタクコマが残っているかチェック（1オタクコマに1つまで）
+  if (!canHoldMoreGoods(player)) {
     return createGameError('user-input', ERROR_MESSAGES.NO_AVAILABLE_PIECES, playerId);
   }
   
   return null;
 };
 
+/**
+ * 影分身購入のバリデーション
+ */
+export const validateKagebunshinPurchase = (
+  playerId: string,
+  gameSession: GameSession
+): GameError | null => {
+  const player = gameSession.players.find(p => p.id === playerId);
+  
+  if (!player) {
+    return createGameError('validation', ERROR_MESSAGES.INVALID_PLAYER_ID, playerId);
+  }
+  
+  const price = gameSession.rules.goodsPrices.kagebunshin;
+  if (player.money < price) {
+    return createGameError(
+      'user-input', 
+      ERROR_MESSAGES.INSUFFICIENT_FUNDS, 
+      playerId, 
+      { required: price, available: player.money }
+    );
+  }
+  
+  return null;
+};
+
+/**
+ * グッズをオタクコマに乗せる操作のバリデーション
+ */
+export const validateGoodsAssignment = (
+  playerId: string,
+  pieceId: string,
+  goodsType: GoodsType,
+  gameSession: GameSession
+): GameError | null => {
+  const player = gameSession.players.find(p => p.id === playerId);
+  
+  if (!player) {
+    return createGameError('validation', ERROR_MESSAGES.INVALID_PLAYER_ID, playerId);
+  }
+  
+  if (!getGoodsInventory(player).includes(goodsType)) {
+    return createGameError('user-input', ERROR_MESSAGES.GOODS_NOT_OWNED, playerId, { goodsType });
+  }
+  
+  const piece = player.otakuPieces.find(p => p.id === pieceId);
+  if (piece?.goods) {
+    return createGameError('user-input', ERROR_MESSAGES.PIECE_ALREADY_HAS_GOODS, playerId, { pieceId });
+  }
+  
+  if (!piece || !canAssignGoodsTo(piece)) {
+    return createGameError('user-input', ERROR_MESSAGES.INVALID_GOODS_TARGET, playerId, { pieceId });
+  }
+  
+  return null;
+};
+
 /**
  * オタクコマ配置のバリデーション
  */
@@ -234,8 +428,10 @@ export const validatePiecePlacement = (
     return createGameError('validation', ERROR_MESSAGES.INVALID_PLAYER_ID, undefined, { pieceId });
   }
   
-  // グッズを持っているかチェック
-  if (!piece.goods) {
+  // 配置ステップでは、影分身は通常のオタクコマの後に、まだ置いていないものだけを置ける
+  const { currentPhase } = gameSession;
+  if ((currentPhase === 'oshikatsu-placement' || currentPhase === 'oshikatsu-kagebunshin') &&
+      !isPlaceablePiece(currentPhase, piece)) {
     return createGameError('user-input', ERROR_MESSAGES.INVALID_PIECE_PLACEMENT, piece.playerId);
   }
   
@@ -246,8 +442,11 @@ export const validatePiecePlacement = (
     return createGameError('system', ERROR_MESSAGES.MISSING_REQUIRED_DATA, undefined, { spotId });
   }
   
-  if (targetSpot.otakuPieces.length >= 3) {
-    return createGameError('user-input', ERROR_MESSAGES.SPOT_FULL, piece.playerId, { spotId });
+  if (targetSpot.otakuPieces.length >= gameSession.rules.spotCapacity) {
+    return createGameError('user-input', ERROR_MESSAGES.SPOT_FULL, piece.playerId, {
+      spotId,
+      capacity: gameSession.rules.spotCapacity
+    });
   }
   
   return null;
@@ -272,8 +471,16 @@ export const validateGameStateConsistency = (gameSession: GameSession): GameErro
     }));
   }
   
+  // スタートプレイヤーインデックスチェック
+  if (gameSession.startPlayerIndex < 0 || gameSession.startPlayerIndex >= gameSession.players.length) {
+    errors.push(createGameError('validation', ERROR_MESSAGES.GAME_STATE_INCONSISTENCY, undefined, {
+      startPlayerIndex: gameSession.startPlayerIndex,
+      playerCount: gameSession.players.length
+    }));
+  }
+  
   // ラウンド数チェック
-  if (gameSession.currentRound < 1 || gameSession.currentRound > 8) {
+  if (gameSession.currentRound < 1 || gameSession.currentRound > gameSession.rules.totalRounds) {
     errors.push(createGameError('validation', ERROR_MESSAGES.GAME_STATE_INCONSISTENCY, undefined, {
       currentRound: gameSession.currentRound
     }));
@@ -311,6 +518,83 @@ export const validateGameStateConsistency = (gameSession: GameSession): GameErro
   return errors;
 };
 
+/**
+ * ルール設定のバリデーション
+ */
+export const validateRuleSet = (rules: RuleSet): GameError[] => {
+  const errors: GameError[] = [];
+  const invalid = (field: string, value: unknown) => {
+    errors.push(createGameError('validation', ERROR_MESSAGES.INVALID_RULE_SET, undefined, { field, value }));
+  };
+  const isCount = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+
+  if (!rules.id || !rules.name) {
+    invalid('name', rules.name);
+  }
+  if (!isCount(rules.totalRounds, 1, 20)) {
+    invalid('totalRounds', rules.totalRounds);
+  }
+  if (!isCount(rules.basePoints, 1, 100)) {
+    invalid('basePoints', rules.basePoints);
+  }
+  if (!isCount(rules.spotCapacity, 1, 16)) {
+    invalid('spotCapacity', rules.spotCapacity);
+  }
+  if (!isCount(rules.startingMoney, 0, 100)) {
+    invalid('startingMoney', rules.startingMoney);
+  }
+  (Object.keys(rules.goodsPrices) as (keyof RuleSet['goodsPrices'])[]).forEach(goods => {
+    if (!isCount(rules.goodsPrices[goods], 0, 100)) {
+      invalid(`goodsPrices.${goods}`, rules.goodsPrices[goods]);
+    }
+  });
+  if (rules.diceToSpotIndex.length !== 6 || !rules.diceToSpotIndex.every(index => isCount(index, 0, 2))) {
+    invalid('diceToSpotIndex', rules.diceToSpotIndex);
+  }
+  if (!isCount(rules.uchiwaBonus, 0, 100)) {
+    invalid('uchiwaBonus', rules.uchiwaBonus);
+  }
+  if (!isCount(rules.penlightBonus, 0, 100)) {
+    invalid('penlightBonus', rules.penlightBonus);
+  }
+  if (!isCount(rules.sashiireMultiplier, 1, 10)) {
+    invalid('sashiireMultiplier', rules.sashiireMultiplier);
+  }
+
+  // 報酬配分カードのチェック
+  if (rules.rewardCards.length === 0) {
+    invalid('rewardCards', rules.rewardCards.length);
+  }
+  // ドラフトでは最大人数（4人）全員が別々のカードを選べる枚数が必要
+  if (rules.rewardCardDraft && rules.rewardCards.length < 4) {
+    invalid('rewardCardDraft', rules.rewardCards.length);
+  }
+  const cardIds = rules.rewardCards.map(card => card.id);
+  if (new Set(cardIds).size !== cardIds.length) {
+    invalid('rewardCards.id', cardIds);
+  }
+  const cardNames = rules.rewardCards.map(card => card.name);
+  if (new Set(cardNames).size !== cardNames.length) {
+    invalid('rewardCards.name', cardNames);
+  }
+  rules.rewardCards.forEach(card => {
+    const rewards = [1, 2, 3, 4, 5, 6].map(dice => card.rewards[dice as keyof typeof card.rewards]);
+    if (!rewards.every(reward => isCount(reward, 0, 100))) {
+      invalid(`rewardCards.${card.id}`, card.rewards);
+    }
+  });
+
+  // タイブレークは重複なく並べ、同順位（shared）は最後にのみ置ける
+  const tieBreakers = rules.tieBreakers ?? [];
+  if (new Set(tieBreakers).size !== tieBreakers.length ||
+      !tieBreakers.every(breaker => TIE_BREAKERS.includes(breaker)) ||
+      tieBreakers.slice(0, -1).includes('shared')) {
+    invalid('tieBreakers', tieBreakers);
+  }
+
+  return errors;
+};
+
 /**
  * ゲーム状態の自動修復
  */
@@ -326,6 +610,13 @@ export const repairGameState = (gameSession: GameSession): GameSession => {
     repairedSession.activePlayerIndex = 0;
   }
   
+  // スタートプレイヤーインデックスの修復
+  if (!Number.isInteger(repairedSession.startPlayerIndex) ||
+      repairedSession.startPlayerIndex < 0 ||
+      repairedSession.startPlayerIndex >= repairedSession.players.length) {
+    repairedSession.startPlayerIndex = 0;
+  }
+  
   // ターンマネージャーのphaseActionsを修復
   const validPhaseActions: { [playerId: string]: boolean } = {};
   repairedSession.players.forEach(player => {
@@ -349,7 +640,7 @@ export const repairGameState = (gameSession: GameSession): GameSession => {
         id: i,
         position: { row: Math.floor(i / 4), col: i % 4 },
         otakuPieces: [],
-        oshiPiece: undefined
+        oshiPieces: []
       });
     }
     
@@ -406,8 +697,13 @@ export const isOperationSafe = (
     return { safe: false, error: consistencyErrors[0] };
   }
   
-  // フェーズ適合性チェック
-  const phaseError = validatePhaseAction(operation, gameSession.currentPhase);
+  // フェーズ適合性チェック（オタクコマの配置は持ち主の操作として扱う）
+  const actingPlayer = params?.playerId
+    ? gameSession.players.find(player => player.id === params.playerId)
+    : params?.pieceId
+      ? gameSession.players.find(player => player.otakuPieces.some(piece => piece.id === params.pieceId))
+      : undefined;
+  const phaseError = validatePhaseAction(operation, gameSession.currentPhase, actingPlayer);
   if (phaseError) {
     return { safe: false, error: phaseError };
   }
@@ -420,13 +716,53 @@ export const isOperationSafe = (
         return { safe: false, error: createGameError('user-input', ERROR_MESSAGES.MISSING_REQUIRED_DATA, params.playerId) };
       }
       if (params?.playerId && params?.goodsType) {
-        const purchaseError = validateGoodsPurchase(params.playerId, params.goodsType, gameSession);
+        const purchaseError = validateGoodsPurchase(params.playerId, params.goodsType, gameSession)
+          ?? validateStepTurn(params.playerId, gameSession);
         if (purchaseError) {
           return { safe: false, error: purchaseError };
         }
       }
       break;
       
+    case 'createKagebunshin':
+      if (params?.playerId) {
+        const kagebunshinError = validateKagebunshinPurchase(params.playerId, gameSession)
+          ?? validateStepTurn(params.playerId, gameSession);
+        if (kagebunshinError) {
+          return { safe: false, error: kagebunshinError };
+        }
+      }
+      break;
+      
+    case 'assignGoods':
+      if (params?.playerId && params?.pieceId && params?.goodsType) {
+        const assignmentError = gameSession.turnManager.phaseActions[params.playerId] === true
+          ? createGameError('user-input', ERROR_MESSAGES.ACTION_ALREADY_COMPLETED, params.playerId)
+          : validateGoodsAssignment(params.playerId, params.pieceId, params.goodsType, gameSession);
+        if (assignmentError) {
+          return { safe: false, error: assignmentError };
+        }
+      }
+      break;
+      
+    case 'passTurn':
+      if (params?.playerId) {
+        const turnError = validateStepTurn(params.playerId, gameSession);
+        if (turnError) {
+          return { safe: false, error: turnError };
+        }
+      }
+      break;
+      
+    case 'selectRewardCard':
+      if (params?.playerId && params?.cardId) {
+        const selectionError = validateRewardCardSelection(params.playerId, params.cardId, gameSession);
+        if (selectionError) {
+          return { safe: false, error: selectionError };
+        }
+      }
+      break;
+      
     case 'placePiece':
       // パラメータが不完全な場合もエラーとして扱う
       if (params?.pieceId && params?.spotId === undefined) {
@@ -437,6 +773,13 @@ export const isOperationSafe = (
         if (placementError) {
           return { safe: false, error: placementError };
         }
+        
+        // 配置するオタクコマの持ち主の手番かどうか
+        const owner = gameSession.players.find(player => player.otakuPieces.some(piece => piece.id === params.pieceId));
+        const turnError = owner ? validateStepTurn(owner.id, gameSession) : null;
+        if (turnError) {
+          return { safe: false, error: turnError };
+        }
       }
       break;
   }
@@ -0,0 +1,148 @@
+/**
+ * ファンサタイムの期待値分析
+ * 公開済みのファンサスポット予測カードと花道ボードの状態から、推しの出現確率と各プレイヤーの期待ポイントを厳密に計算する
+ * ポイント計算はファンサタイム本体と同じ関数（placeFansaOshiPieces・calculateFansaPoints）を使う
+ */
+
+import { FanserviceSpotCard, GameSession, GoodsType, HanamichiBoard, OtakuPiece, RuleSet } from '../types/game';
+import { placeFansaOshiPieces, calculateFansaPoints, getFanserviceCardSpots } from './gameLogic';
+import { DEFAULT_RULE_SET } from './ruleSet';
+
+const DICE_FACES = [1, 2, 3, 4, 5, 6];
+const OSHI_IDS: ('A' | 'B' | 'C')[] = ['A', 'B', 'C'];
+
+// 配置を検討するオタクコマ（既存のコマを動かす場合は pieceId を指定）
+export interface CandidatePlacement {
+  playerId: string;
+  goods: GoodsType;
+  spotId: number;
+  pieceId?: string;
+}
+
+export interface ExpectedPlayerPoints {
+  playerId: string;
+  expectedPoints: number;
+}
+
+/**
+ * 各推しが各スポットに来る確率（推しA〜Cの順、各8要素）
+ */
+export const getOshiSpotProbabilities = (
+  revealedCards: FanserviceSpotCard[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): { oshiId: 'A' | 'B' | 'C'; probabilities: number[] }[] => {
+  return revealedCards.slice(0, 3).map((card, i) => {
+    const probabilities = Array.from({ length: 8 }, () => 0);
+    const spots = getFanserviceCardSpots(card);
+    rules.diceToSpotIndex.forEach(spotIndex => {
+      probabilities[spots[spotIndex]] += 1 / rules.diceToSpotIndex.length;
+    });
+    return { oshiId: OSHI_IDS[i], probabilities };
+  });
+};
+
+/**
+ * 現在の配置でのファンサタイムの期待ポイント
+ * 3つのサイコロの全ての出目（6^3通り）についてポイントを計算し平均する
+ */
+export const calculateExpectedFansaPoints = (
+  revealedCards: FanserviceSpotCard[],
+  boardState: HanamichiBoard,
+  allOtakuPieces: OtakuPiece[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): ExpectedPlayerPoints[] => {
+  if (revealedCards.length !== 3) {
+    return [];
+  }
+
+  const totals = new Map<string, number>();
+  allOtakuPieces.forEach(piece => totals.set(piece.playerId, 0));
+  const outcomes = DICE_FACES.length ** 3;
+
+  DICE_FACES.forEach(a => {
+    DICE_FACES.forEach(b => {
+      DICE_FACES.forEach(c => {
+        const placements = placeFansaOshiPieces(revealedCards, [a, b, c], rules);
+        calculateFansaPoints(placements, boardState, allOtakuPieces, rules).forEach(({ playerId, totalPoints }) => {
+          totals.set(playerId, (totals.get(playerId) || 0) + totalPoints / outcomes);
+        });
+      });
+    });
+  });
+
+  return Array.from(totals.entries()).map(([playerId, expectedPoints]) => ({ playerId, expectedPoints }));
+};
+
+/**
+ * 候補の配置とグッズを仮に適用したボードとオタクコマ一覧を作る
+ */
+const applyCandidates = (
+  session: GameSession,
+  candidates: CandidatePlacement[]
+): { boardState: HanamichiBoard; allOtakuPieces: OtakuPiece[] } => {
+  const movedIds = new Set(candidates.map(c => c.pieceId).filter((id): id is string => !!id));
+  const candidatePieces: OtakuPiece[] = candidates.map((candidate, i) => ({
+    id: candidate.pieceId ?? `candidate-${i}`,
+    playerId: candidate.playerId,
+    boardSpotId: candidate.spotId,
+    goods: candidate.goods,
+    isKagebunshin: false
+  }));
+
+  const allOtakuPieces = [
+    ...session.players.flatMap(player => player.otakuPieces).filter(piece => !movedIds.has(piece.id)),
+    ...candidatePieces
+  ];
+
+  const boardState: HanamichiBoard = {
+    ...session.gameState.hanamichiBoardState,
+    spots: session.gameState.hanamichiBoardState.spots.map(spot => ({
+      ...spot,
+      otakuPieces: [
+        ...spot.otakuPieces.filter(piece => !movedIds.has(piece.id)),
+        ...candidatePieces.filter(piece => piece.boardSpotId === spot.id)
+      ]
+    }))
+  };
+
+  return { boardState, allOtakuPieces };
+};
+
+/**
+ * 候補の配置とグッズの組み合わせを適用した場合の、プレイヤーごとの期待ポイント
+ */
+export const evaluateCandidatePlacement = (
+  session: GameSession,
+  candidates: CandidatePlacement[]
+): ExpectedPlayerPoints[] => {
+  const { boardState, allOtakuPieces } = applyCandidates(session, candidates);
+  const expected = calculateExpectedFansaPoints(session.gameState.revealedCards, boardState, allOtakuPieces, session.rules);
+
+  // 期待ポイントが0のプレイヤーも結果に含める
+  return session.players.map(player => ({
+    playerId: player.id,
+    expectedPoints: expected.find(e => e.playerId === player.id)?.expectedPoints ?? 0
+  }));
+};
+
+/**
+ * スポットごとの期待値ヒート（指定プレイヤーが指定グッズのコマを置いた場合の期待ポイントの増分）
+ * 満員のスポットは null
+ */
+export const calculateSpotHeatmap = (
+  session: GameSession,
+  playerId: string,
+  goods: GoodsType,
+  pieceId?: string
+): (number | null)[] => {
+  const pointsOf = (results: ExpectedPlayerPoints[]) => results.find(r => r.playerId === playerId)?.expectedPoints ?? 0;
+  const baseline = pointsOf(evaluateCandidatePlacement(session, []));
+
+  return session.gameState.hanamichiBoardState.spots.map(spot => {
+    const occupied = spot.otakuPieces.filter(piece => piece.id !== pieceId).length;
+    if (occupied >= session.rules.spotCapacity) {
+      return null;
+    }
+    return pointsOf(evaluateCandidatePlacement(session, [{ playerId, goods, spotId: spot.id, pieceId }])) - baseline;
+  });
+};
@@ -0,0 +1,974 @@
+/**
+ * ヘッドレスゲームエンジン
+ * React に依存せず、ゲーム状態にコマンドを適用して新しい状態とイベントを返す
+ * GameProvider・テスト・シミュレーションから共通で利用する
+ */
+
+import {
+  GameSession,
+  Player,
+  HanamichiBoard,
+  BoardSpot,
+  OshiPiece,
+  OshikatsuSubPhase,
+  OtakuPiece,
+  GameCommand,
+  GameEvent,
+  GameCommandResult,
+  GamePhase
+} from '../types/game';
+import {
+  createRewardDistributionCards,
+  rollDice,
+  processLaborPhase,
+  createAllFanserviceSpotCards,
+  drawFanserviceSpotCards,
+  processFansaTime,
+  getNextGameState,
+  getTurnOrder,
+  getDraftPicker,
+  getAvailableRewardCards,
+  isSequentialStepPhase,
+  findStepPlayerIndex,
+  isStepTurn,
+  getGoodsInventory,
+  canHoldMoreGoods,
+  canAssignGoodsTo,
+  isPlaceablePiece,
+  isRestingPlayer
+} from './gameLogic';
+import {
+  createInitialTurnManager,
+  createResetPhaseActions,
+  setCurrentPlayer,
+  setPlayerActionCompleted,
+  resetPhaseActions,
+  rehydrateTurnManager
+} from './turnManager';
+import { createSeededRandom } from './random';
+import { DEFAULT_RULE_SET } from './ruleSet';
+import { discardRevealedCards, settleRound } from './roundSettlement';
+
+/**
+ * 初期状態の花道ボードを作成
+ */
+export const createInitialBoard = (): HanamichiBoard => {
+  const spots: BoardSpot[] = [];
+  for (let i = 0; i < 8; i++) {
+    spots.push({
+      id: i,
+      position: { row: Math.floor(i / 4), col: i % 4 },
+      otakuPieces: [],
+      oshiPieces: []
+    });
+  }
+  return { spots };
+};
+
+/**
+ * 初期状態の推しコマを作成
+ */
+export const createInitialOshiPieces = (): OshiPiece[] => [
+  { id: 'A', currentSpotId: undefined },
+  { id: 'B', currentSpotId: undefined },
+  { id: 'C', currentSpotId: undefined }
+];
+
+// 推し活フェーズのサブステップ管理
+const getNextOshikatsuSubPhase = (currentSubPhase?: OshikatsuSubPhase): OshikatsuSubPhase | null => {
+  switch (currentSubPhase) {
+    case undefined:
+    case 'card-reveal':
+      return 'goods-purchase';
+    case 'goods-purchase':
+      return 'piece-placement';
+    case 'piece-placement':
+      return null; // 推し活フェーズ完了
+    default:
+      return null;
+  }
+};
+
+// 結果をスタートプレイヤーからの手番順に並べる
+const sortByTurnOrder = <T extends { playerId: string }>(results: T[], state: GameSession): T[] => {
+  const order = getTurnOrder(state.players, state.startPlayerIndex).map(p => p.id);
+  return [...results].sort((a, b) => order.indexOf(a.playerId) - order.indexOf(b.playerId));
+};
+
+// フェーズ開始時に行うことがなく、最初から完了扱いにするプレイヤーかどうか
+// 休むプレイヤーはラウンドの残りの推し活ステップに参加しない
+const hasNothingToDo = (phase: GamePhase, player: Player): boolean => {
+  switch (phase) {
+    case 'oshikatsu-goods':
+    case 'oshikatsu-placement':
+      return isRestingPlayer(player);
+    case 'oshikatsu-kagebunshin':
+      return isRestingPlayer(player) || !player.otakuPieces.some(piece => isPlaceablePiece(phase, piece));
+    case 'oshikatsu-goods-assign':
+      return isRestingPlayer(player) || getGoodsInventory(player).length === 0 || !player.otakuPieces.some(canAssignGoodsTo);
+    default:
+      return false;
+  }
+};
+
+// 休む選択をしたプレイヤーであれば拒否理由を返す（推し活の操作はラウンド終了まで行えない）
+const getRestingError = (state: GameSession, playerId: string): string | null => {
+  const player = state.players.find(p => p.id === playerId);
+  return player && isRestingPlayer(player)
+    ? '休んでいるプレイヤーはこのラウンドの推し活に参加できません'
+    : null;
+};
+
+// 順番制の推し活ステップで、指定プレイヤーの手番でなければ拒否理由を返す
+const getStepTurnError = (state: GameSession, playerId: string): string | null => {
+  if (!isSequentialStepPhase(state.currentPhase) || isStepTurn(state, playerId)) {
+    return null;
+  }
+  return state.turnManager.phaseActions[playerId] === true
+    ? '既に完了を宣言しています'
+    : 'あなたの手番ではありません';
+};
+
+// 順番制の推し活ステップで、完了していない次のプレイヤーに手番を回す（全員完了ならスタートプレイヤーに戻す）
+const advanceStepTurn = (state: GameSession): { state: GameSession; events: GameEvent[] } => {
+  if (!isSequentialStepPhase(state.currentPhase)) {
+    return { state, events: [] };
+  }
+
+  const nextIndex = findStepPlayerIndex(state.players, state.turnManager.phaseActions, state.activePlayerIndex + 1)
+    ?? state.startPlayerIndex;
+  return {
+    state: {
+      ...state,
+      activePlayerIndex: nextIndex,
+      turnManager: setCurrentPlayer(state.turnManager, nextIndex)
+    },
+    events: [{ type: 'TURN_CHANGED', activePlayerIndex: nextIndex }]
+  };
+};
+
+// コマンドを適用せずに拒否する
+const reject = (
+  state: GameSession | null,
+  command: GameCommand,
+  reason: string
+): GameCommandResult => ({
+  state,
+  events: [{ type: 'COMMAND_REJECTED', commandType: command.type, reason }]
+});
+
+/**
+ * ゲーム状態にコマンドを適用する（純粋関数）
+ * 乱数は GameSession.rngState から復元するため、同じ状態と同じコマンドからは常に同じ結果が得られる
+ */
+export const applyGameCommand = (state: GameSession | null, command: GameCommand): GameCommandResult => {
+  if (command.type === 'INITIALIZE_GAME') {
+    const { players, seed, gameId, createdAt, rules = DEFAULT_RULE_SET, startPlayerIndex = 0 } = command.payload;
+    return {
+      state: {
+        id: gameId,
+        players,
+        currentRound: 1,
+        currentPhase: 'labor',
+        activePlayerIndex: startPlayerIndex,
+        startPlayerIndex,
+        gameState: {
+          hanamichiBoardState: createInitialBoard(),
+          oshiPieces: createInitialOshiPieces(),
+          fanserviceSpotCards: createAllFanserviceSpotCards(),
+          revealedCards: [],
+          fanserviceDiscardPile: [],
+          rewardDistributionCards: createRewardDistributionCards(rules),
+          roundHistory: []
+        },
+        turnManager: createInitialTurnManager(players, startPlayerIndex),
+        createdAt,
+        seed,
+        rngState: seed,
+        rules
+      },
+      events: [{ type: 'GAME_INITIALIZED', gameId, playerIds: players.map(p => p.id), seed }]
+    };
+  }
+
+  if (command.type === 'LOAD_SAVED_GAME') {
+    return {
+      state: { ...command.payload, turnManager: rehydrateTurnManager(command.payload.turnManager) },
+      events: [{ type: 'GAME_LOADED', gameId: command.payload.id }]
+    };
+  }
+
+  if (!state) {
+    return reject(state, command, 'ゲームが開始されていません');
+  }
+
+  switch (command.type) {
+    case 'UPDATE_GAME_STATE':
+      return {
+        state: {
+          ...state,
+          gameState: {
+            ...state.gameState,
+            ...command.payload
+          }
+        },
+        events: [{ type: 'GAME_STATE_UPDATED', keys: Object.keys(command.payload) }]
+      };
+
+    case 'MOVE_PIECE': {
+      const { pieceId, spotId } = command.payload;
+
+      // 現在のボード状態をコピー
+      const newSpots = state.gameState.hanamichiBoardState.spots.map(spot => ({ ...spot, otakuPieces: [...spot.otakuPieces] }));
+
+      // 移動先のスポットをチェック（ルールの上限個数）
+      const targetSpot = newSpots.find(spot => spot.id === spotId);
+      if (!targetSpot || targetSpot.otakuPieces.length >= state.rules.spotCapacity) {
+        return reject(state, command, '移動先のスポットに配置できません');
+      }
+
+      // プレイヤーのピースを見つける
+      const piece = state.players
+        .flatMap(player => player.otakuPieces)
+        .find(p => p.id === pieceId);
+
+      if (!piece) {
+        return reject(state, command, 'オタクコマが見つかりません');
+      }
+
+      const moveRestingError = getRestingError(state, piece.playerId);
+      if (moveRestingError) {
+        return reject(state, command, moveRestingError);
+      }
+
+      // 配置ステップでは手番のプレイヤーが1個ずつ置く
+      const moveTurnError = getStepTurnError(state, piece.playerId);
+      if (moveTurnError) {
+        return reject(state, command, moveTurnError);
+      }
+
+      // 通常の配置では影分身以外を、影分身の配置では影分身のみを、まだボードにないものから置く
+      if ((state.currentPhase === 'oshikatsu-placement' || state.currentPhase === 'oshikatsu-kagebunshin') &&
+          !isPlaceablePiece(state.currentPhase, piece)) {
+        return reject(state, command, state.currentPhase === 'oshikatsu-kagebunshin'
+          ? 'まだ置いていない影分身のみ配置できます'
+          : 'まだ置いていない影分身以外のオタクコマのみ配置できます');
+      }
+
+      // 移動元からピースを削除
+      newSpots.forEach(spot => {
+        spot.otakuPieces = spot.otakuPieces.filter(p => p.id !== pieceId);
+      });
+
+      // 移動先にピースを追加
+      const updatedPiece = { ...piece, boardSpotId: spotId };
+      targetSpot.otakuPieces.push(updatedPiece);
+
+      // プレイヤーのピース情報も更新
+      const updatedPlayers = state.players.map(player => ({
+        ...player,
+        otakuPieces: player.otakuPieces.map(p =>
+          p.id === pieceId ? updatedPiece : p
+        )
+      }));
+
+      const moved = advanceStepTurn({
+        ...state,
+        players: updatedPlayers,
+        gameState: {
+          ...state.gameState,
+          hanamichiBoardState: { spots: newSpots }
+        }
+      });
+
+      return {
+        state: moved.state,
+        events: [{
+          type: 'PIECE_MOVED',
+          pieceId,
+          playerId: piece.playerId,
+          fromSpotId: piece.boardSpotId ?? null,
+          toSpotId: spotId
+        }, ...moved.events]
+      };
+    }
+
+    case 'NEXT_TURN': {
+      // 推し活ステップでは完了を宣言したプレイヤーを飛ばす
+      if (isSequentialStepPhase(state.currentPhase)) {
+        return advanceStepTurn(state);
+      }
+
+      const nextPlayerIndex = (state.activePlayerIndex + 1) % state.players.length;
+      return {
+        state: {
+          ...state,
+          activePlayerIndex: nextPlayerIndex,
+          turnManager: setCurrentPlayer(state.turnManager, nextPlayerIndex)
+        },
+        events: [{ type: 'TURN_CHANGED', activePlayerIndex: nextPlayerIndex }]
+      };
+    }
+
+    case 'PASS_TURN': {
+      const { playerId } = command.payload;
+
+      if (!isSequentialStepPhase(state.currentPhase)) {
+        return reject(state, command, 'グッズ購入・オタクコマ配置以外では手番をパスできません');
+      }
+      const passRestingError = getRestingError(state, playerId);
+      if (passRestingError) {
+        return reject(state, command, passRestingError);
+      }
+      const passTurnError = getStepTurnError(state, playerId);
+      if (passTurnError) {
+        return reject(state, command, passTurnError);
+      }
+
+      const passed = advanceStepTurn(state);
+      return {
+        state: passed.state,
+        events: [{ type: 'TURN_PASSED', playerId }, ...passed.events]
+      };
+    }
+
+    case 'NEXT_PHASE': {
+      // 次のゲーム状態を決定
+      const { nextRound, nextPhase } = getNextGameState(state.currentRound, state.currentPhase, state.rules);
+
+      // ラウンド終了フェーズを抜ける時に精算する（END_ROUND で精算済みなら何もしない）
+      const settlement = state.currentPhase === 'round-end'
+        ? settleRound(state)
+        : { state, events: [] };
+      const settled = settlement.state;
+
+      // フェーズ遷移時にプレイヤーの一時的な選択をクリア
+      const clearedPlayers = settled.players.map(player => {
+        const clearedPlayer = { ...player };
+
+        // 労働フェーズから推しかつ決断フェーズに移る時は報酬カード選択をクリア
+        if (state.currentPhase === 'labor' && nextPhase === 'oshikatsu-decision') {
+          clearedPlayer.selectedRewardCard = undefined;
+        }
+
+        // ラウンド終了時にはすべての一時的な選択をクリア
+        if (nextPhase === 'labor' || nextPhase === 'game-end') {
+          clearedPlayer.selectedRewardCard = undefined;
+          clearedPlayer.oshikatsuDecision = undefined;
+        }
+
+        return clearedPlayer;
+      });
+
+      // 推し活フェーズに入る場合はサブフェーズを初期化
+      let initialSubPhase: OshikatsuSubPhase | undefined = undefined;
+      if (nextPhase === 'oshikatsu-card-reveal') {
+        initialSubPhase = 'card-reveal';
+      }
+
+      // スタートプレイヤーの交代は精算で行われる
+      const { startPlayerIndex, gameState } = settled;
+
+      const events: GameEvent[] = [...settlement.events, {
+        type: 'PHASE_CHANGED',
+        fromPhase: state.currentPhase,
+        toPhase: nextPhase,
+        roundNumber: nextRound
+      }];
+      if (nextPhase === 'game-end') {
+        events.push({ type: 'GAME_ENDED' });
+      }
+
+      // 休む選択をしたプレイヤーなど、行うことがないプレイヤーは最初から完了扱いにする
+      const phaseActions = createResetPhaseActions(state.players);
+      clearedPlayers.forEach(player => {
+        if (hasNothingToDo(nextPhase, player)) {
+          phaseActions[player.id] = true;
+        }
+      });
+
+      // 各フェーズの手番はスタートプレイヤーから始まる（完了扱いのプレイヤーは飛ばす）
+      const activePlayerIndex = findStepPlayerIndex(state.players, phaseActions, startPlayerIndex) ?? startPlayerIndex;
+
+      return {
+        state: {
+          ...settled,
+          players: clearedPlayers,
+          gameState,
+          currentPhase: nextPhase,
+          currentSubPhase: initialSubPhase,
+          currentRound: nextRound,
+          activePlayerIndex,
+          startPlayerIndex,
+          turnManager: {
+            ...state.turnManager,
+            currentPlayer: activePlayerIndex,
+            phaseActions,
+            waitingForPlayers: state.players.filter(p => !phaseActions[p.id]).map(p => p.id)
+          }
+        },
+        events
+      };
+    }
+
+    case 'NEXT_SUB_PHASE': {
+      // 推し活フェーズでのみサブフェーズ遷移を処理
+      if (state.currentPhase !== 'oshikatsu-card-reveal' &&
+          state.currentPhase !== 'oshikatsu-goods' &&
+          state.currentPhase !== 'oshikatsu-placement') {
+        return reject(state, command, '推し活フェーズ以外ではサブフェーズを進められません');
+      }
+
+      const nextSubPhase = getNextOshikatsuSubPhase(state.currentSubPhase);
+
+      // サブフェーズが完了した場合は次のメインフェーズに移行
+      if (nextSubPhase === null) {
+        const { nextRound, nextPhase } = getNextGameState(state.currentRound, state.currentPhase, state.rules);
+
+        return {
+          state: {
+            ...state,
+            currentPhase: nextPhase,
+            currentSubPhase: undefined,
+            currentRound: nextRound
+          },
+          events: [{ type: 'PHASE_CHANGED', fromPhase: state.currentPhase, toPhase: nextPhase, roundNumber: nextRound }]
+        };
+      }
+
+      return {
+        state: {
+          ...state,
+          currentSubPhase: nextSubPhase,
+          turnManager: resetPhaseActions(state.turnManager, state.players)
+        },
+        events: [{ type: 'SUB_PHASE_CHANGED', subPhase: nextSubPhase }]
+      };
+    }
+
+    case 'SET_PLAYER_ACTION_COMPLETED': {
+      const { playerId, completed } = command.payload;
+
+      // 推し活ステップでの完了宣言は手番のプレイヤーだけが行える
+      const isStepDeclaration = completed && isSequentialStepPhase(state.currentPhase);
+      if (isStepDeclaration) {
+        const declareTurnError = getStepTurnError(state, playerId);
+        if (declareTurnError) {
+          return reject(state, command, declareTurnError);
+        }
+      }
+
+      const updatedState: GameSession = {
+        ...state,
+        turnManager: setPlayerActionCompleted(state.turnManager, playerId, completed)
+      };
+      const events: GameEvent[] = [{ type: 'PLAYER_ACTION_COMPLETED', playerId, completed }];
+
+      // 完了を宣言したら次のプレイヤーに手番を回す
+      if (isStepDeclaration) {
+        const declared = advanceStepTurn(updatedState);
+        return { state: declared.state, events: [...events, ...declared.events] };
+      }
+
+      return { state: updatedState, events };
+    }
+
+    case 'RESET_PHASE_ACTIONS':
+      return {
+        state: {
+          ...state,
+          turnManager: resetPhaseActions(state.turnManager, state.players)
+        },
+        events: [{ type: 'PHASE_ACTIONS_RESET' }]
+      };
+
+    case 'SELECT_REWARD_CARD': {
+      const { playerId, cardId } = command.payload;
+
+      // 選択されたカードを見つける
+      const selectedCard = state.gameState.rewardDistributionCards.find(card => card.id === cardId);
+      if (!selectedCard) {
+        return reject(state, command, '報酬配分カードが見つかりません');
+      }
+
+      // ドラフトでは手番のプレイヤーだけが、まだ選ばれていないカードを選べる
+      const isDraft = state.rules.rewardCardDraft;
+      if (isDraft) {
+        if (getDraftPicker(state)?.id !== playerId) {
+          return reject(state, command, '報酬配分カードを選ぶ手番ではありません');
+        }
+        if (!getAvailableRewardCards(state, playerId).some(card => card.id === cardId)) {
+          return reject(state, command, 'この報酬配分カードは既に選ばれています');
+        }
+      }
+
+      // プレイヤーの選択を更新
+      const updatedPlayers = state.players.map(player =>
+        player.id === playerId
+          ? { ...player, selectedRewardCard: selectedCard }
+          : player
+      );
+
+      const events: GameEvent[] = [{ type: 'REWARD_CARD_SELECTED', playerId, cardId }];
+
+      // ドラフトでは次にカードを選ぶプレイヤーに手番を移す（全員選び終えたらスタートプレイヤーに戻す）
+      let activePlayerIndex = state.activePlayerIndex;
+      if (isDraft) {
+        const nextPicker = getDraftPicker({ ...state, players: updatedPlayers });
+        activePlayerIndex = nextPicker ? state.players.findIndex(p => p.id === nextPicker.id) : state.startPlayerIndex;
+        events.push({ type: 'TURN_CHANGED', activePlayerIndex });
+      }
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          activePlayerIndex,
+          turnManager: setCurrentPlayer(setPlayerActionCompleted(state.turnManager, playerId, true), activePlayerIndex)
+        },
+        events
+      };
+    }
+
+    case 'ROLL_DICE_AND_PROCESS_LABOR': {
+      // 全プレイヤーがカードを選択済みかチェック
+      const allPlayersSelected = state.players.every(player => player.selectedRewardCard);
+      if (!allPlayersSelected) {
+        return reject(state, command, 'まだ報酬配分カードを選択していないプレイヤーがいます');
+      }
+
+      const rng = createSeededRandom(state.rngState);
+      const diceResult = rollDice(rng);
+      const { updatedPlayers, laborResults: unorderedLaborResults } = processLaborPhase(state.players, diceResult);
+      // ドラフトではスタートプレイヤーからの手番順がカードを選んだ順番になる
+      const laborResults = sortByTurnOrder(unorderedLaborResults, state).map((result, i) =>
+        state.rules.rewardCardDraft ? { ...result, draftPick: i + 1 } : result
+      );
+
+      // ラウンド履歴を更新
+      const currentRoundHistory = state.gameState.roundHistory.find(
+        round => round.roundNumber === state.currentRound
+      );
+
+      const updatedRoundHistory = currentRoundHistory
+        ? state.gameState.roundHistory.map(round =>
+            round.roundNumber === state.currentRound
+              ? { ...round, laborResults }
+              : round
+          )
+        : [
+            ...state.gameState.roundHistory,
+            {
+              roundNumber: state.currentRound,
+              startPlayerId: state.players[state.startPlayerIndex].id,
+              laborResults,
+              oshikatsuDecisions: [],
+              fansaResults: []
+            }
+          ];
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          rngState: rng.getState(),
+          gameState: {
+            ...state.gameState,
+            currentDiceResult: diceResult,
+            roundHistory: updatedRoundHistory
+          }
+        },
+        events: [{ type: 'LABOR_PROCESSED', diceResult, laborResults }]
+      };
+    }
+
+    case 'SELECT_OSHIKATSU_DECISION': {
+      const { playerId, decision } = command.payload;
+
+      if (state.currentPhase !== 'oshikatsu-decision') {
+        return reject(state, command, '推しかつ決断を選べるのは推しかつ決断フェーズのみです');
+      }
+
+      // プレイヤーの推しかつ決断を更新
+      const updatedPlayers = state.players.map(player =>
+        player.id === playerId
+          ? { ...player, oshikatsuDecision: decision }
+          : player
+      );
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          turnManager: setPlayerActionCompleted(state.turnManager, playerId, true)
+        },
+        // 決断内容は公開まで秘匿するためイベントには含めない
+        events: [{ type: 'OSHIKATSU_DECISION_SELECTED', playerId }]
+      };
+    }
+
+    case 'REVEAL_OSHIKATSU_DECISIONS': {
+      // 全プレイヤーが推しかつ決断を選択済みかチェック
+      const allPlayersDecided = state.players.every(player => player.oshikatsuDecision);
+      if (!allPlayersDecided) {
+        return reject(state, command, 'まだ推しかつ決断を選択していないプレイヤーがいます');
+      }
+
+      // 「休む」を選択したプレイヤーに追加報酬を付与
+      const currentRoundHistory = state.gameState.roundHistory.find(
+        round => round.roundNumber === state.currentRound
+      );
+
+      const updatedPlayers = state.players.map(player => {
+        if (player.oshikatsuDecision === 'rest') {
+          // 労働フェーズで得た報酬と同額を追加
+          const laborReward = currentRoundHistory?.laborResults
+            .find(result => result.playerId === player.id)?.reward || 0;
+
+          return {
+            ...player,
+            money: player.money + laborReward
+          };
+        }
+        return player;
+      });
+
+      // ラウンド履歴に推しかつ決断を記録
+      const oshikatsuDecisions = getTurnOrder(state.players, state.startPlayerIndex).map(player => ({
+        playerId: player.id,
+        decision: player.oshikatsuDecision!
+      }));
+
+      const updatedRoundHistory = state.gameState.roundHistory.map(round =>
+        round.roundNumber === state.currentRound
+          ? { ...round, oshikatsuDecisions }
+          : round
+      );
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          gameState: {
+            ...state.gameState,
+            roundHistory: updatedRoundHistory
+          }
+        },
+        events: [{ type: 'OSHIKATSU_DECISIONS_REVEALED', decisions: oshikatsuDecisions }]
+      };
+    }
+
+    case 'GENERATE_FANSERVICE_SPOT_CARDS': {
+      // 推し活フェーズ用のファンサスポットカード3枚を山札から引く（公開中のカードは捨て札にする）
+      const rng = createSeededRandom(state.rngState);
+      const discarded = discardRevealedCards(state.gameState);
+      const draw = drawFanserviceSpotCards(discarded.fanserviceSpotCards, discarded.fanserviceDiscardPile ?? [], 3, rng);
+
+      const events: GameEvent[] = [];
+      if (draw.reshuffled) {
+        events.push({ type: 'FANSERVICE_DECK_RESHUFFLED', cardCount: draw.drawPile.length + draw.drawn.length });
+      }
+      events.push({ type: 'FANSERVICE_CARDS_REVEALED', cards: draw.drawn });
+
+      return {
+        state: {
+          ...state,
+          rngState: rng.getState(),
+          gameState: {
+            ...discarded,
+            fanserviceSpotCards: draw.drawPile,
+            fanserviceDiscardPile: draw.discardPile,
+            revealedCards: draw.drawn
+          }
+        },
+        events
+      };
+    }
+
+    case 'PURCHASE_GOODS': {
+      const { playerId, goodsType } = command.payload;
+
+      if (state.currentPhase !== 'oshikatsu-goods') {
+        return reject(state, command, 'グッズを購入できるのはグッズ購入フェーズのみです');
+      }
+
+      // グッズの価格設定（ルールから取得）
+      const price = state.rules.goodsPrices[goodsType];
+      const buyer = state.players.find(p => p.id === playerId);
+
+      const purchaseRestingError = getRestingError(state, playerId);
+      if (purchaseRestingError) {
+        return reject(state, command, purchaseRestingError);
+      }
+      if (!buyer || buyer.money < price) {
+        return reject(state, command, '資金が不足しています');
+      }
+
+      // 購入ステップでは手番のプレイヤーが1つずつ買う
+      const purchaseTurnError = getStepTurnError(state, playerId);
+      if (purchaseTurnError) {
+        return reject(state, command, purchaseTurnError);
+      }
+
+      // 1オタクコマに1つまでのため、オタクコマの数より多くは持てない
+      if (!canHoldMoreGoods(buyer)) {
+        return reject(state, command, '利用可能なオタクコマがありません');
+      }
+
+      // プレイヤーの資金を減らし、グッズを手元に加える（オタクコマには配置後に乗せる）
+      const updatedPlayers = state.players.map(player => {
+        if (player.id === playerId) {
+          return {
+            ...player,
+            money: player.money - price,
+            goodsInventory: [...getGoodsInventory(player), goodsType]
+          };
+        }
+        return player;
+      });
+
+      const purchased = advanceStepTurn({ ...state, players: updatedPlayers });
+      return {
+        state: purchased.state,
+        events: [{ type: 'GOODS_PURCHASED', playerId, goodsType, price }, ...purchased.events]
+      };
+    }
+
+    case 'CREATE_KAGEBUNSHIN': {
+      const { playerId, kagebunshinId } = command.payload;
+
+      if (state.currentPhase !== 'oshikatsu-goods') {
+        return reject(state, command, '影分身を購入できるのはグッズ購入フェーズのみです');
+      }
+
+      // 影分身はグッズと同じく購入する（通常のオタクコマの配置後に配置する）
+      const price = state.rules.goodsPrices.kagebunshin;
+      const kagePlayer = state.players.find(p => p.id === playerId);
+      const kagebunshinRestingError = getRestingError(state, playerId);
+      if (kagebunshinRestingError) {
+        return reject(state, command, kagebunshinRestingError);
+      }
+      if (!kagePlayer || kagePlayer.money < price) {
+        return reject(state, command, '資金が不足しています');
+      }
+      if (kagePlayer.otakuPieces.some(p => p.id === kagebunshinId)) {
+        return reject(state, command, '同じIDのオタクコマが既に存在します');
+      }
+
+      const kagebunshinTurnError = getStepTurnError(state, playerId);
+      if (kagebunshinTurnError) {
+        return reject(state, command, kagebunshinTurnError);
+      }
+
+      // 新しい影分身ピースを作成
+      const kagebunshinPiece: OtakuPiece = {
+        id: kagebunshinId,
+        playerId,
+        boardSpotId: undefined,
+        goods: undefined,
+        isKagebunshin: true
+      };
+
+      // 資金を減らし、プレイヤーのオタクコマリストに影分身を追加
+      const updatedPlayers = state.players.map(player => {
+        if (player.id === playerId) {
+          return {
+            ...player,
+            money: player.money - price,
+            otakuPieces: [...player.otakuPieces, kagebunshinPiece]
+          };
+        }
+        return player;
+      });
+
+      const created = advanceStepTurn({ ...state, players: updatedPlayers });
+      return {
+        state: created.state,
+        events: [{ type: 'KAGEBUNSHIN_CREATED', playerId, kagebunshinId, price }, ...created.events]
+      };
+    }
+
+    case 'ASSIGN_GOODS': {
+      const { playerId, pieceId, goodsType } = command.payload;
+
+      if (state.currentPhase !== 'oshikatsu-goods-assign') {
+        return reject(state, command, 'グッズを乗せられるのはオタクコマの配置が終わった後です');
+      }
+      const assignRestingError = getRestingError(state, playerId);
+      if (assignRestingError) {
+        return reject(state, command, assignRestingError);
+      }
+      if (state.turnManager.phaseActions[playerId] === true) {
+        return reject(state, command, '既に完了を宣言しています');
+      }
+
+      const owner = state.players.find(p => p.id === playerId);
+      const targetPiece = owner?.otakuPieces.find(p => p.id === pieceId);
+      if (!owner || !targetPiece) {
+        return reject(state, command, 'オタクコマが見つかりません');
+      }
+
+      // 1オタクコマに1つまで、ボードに配置済みの自分のオタクコマにのみ乗せられる
+      if (!canAssignGoodsTo(targetPiece)) {
+        return reject(state, command, 'グッズを乗せられないオタクコマです');
+      }
+
+      const inventory = getGoodsInventory(owner);
+      const chipIndex = inventory.indexOf(goodsType);
+      if (chipIndex === -1) {
+        return reject(state, command, 'このグッズを持っていません');
+      }
+
+      const assignedPiece = { ...targetPiece, goods: goodsType };
+      const updatedPlayers = state.players.map(player =>
+        player.id === playerId
+          ? {
+              ...player,
+              goodsInventory: inventory.filter((_, i) => i !== chipIndex),
+              otakuPieces: player.otakuPieces.map(p => p.id === pieceId ? assignedPiece : p)
+            }
+          : player
+      );
+
+      // ボード上のオタクコマにも反映する
+      const updatedSpots = state.gameState.hanamichiBoardState.spots.map(spot => ({
+        ...spot,
+        otakuPieces: spot.otakuPieces.map(p => p.id === pieceId ? assignedPiece : p)
+      }));
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          gameState: {
+            ...state.gameState,
+            hanamichiBoardState: { ...state.gameState.hanamichiBoardState, spots: updatedSpots }
+          }
+        },
+        events: [{ type: 'GOODS_ASSIGNED', playerId, pieceId, goodsType }]
+      };
+    }
+
+    case 'PROCESS_FANSA_TIME': {
+      // ファンサタイムの処理を実行（休むプレイヤーのオタクコマはボードに残っていても得点しない）
+      const participatingPieces = state.players
+        .filter(player => !isRestingPlayer(player))
+        .flatMap(player => player.otakuPieces);
+      const participatingBoard = {
+        ...state.gameState.hanamichiBoardState,
+        spots: state.gameState.hanamichiBoardState.spots.map(spot => ({
+          ...spot,
+          otakuPieces: spot.otakuPieces.filter(piece => participatingPieces.some(p => p.id === piece.id))
+        }))
+      };
+      const rng = createSeededRandom(state.rngState);
+      const { oshiPlacements, pointResults, diceResults } = processFansaTime(
+        state.gameState.revealedCards,
+        participatingBoard,
+        participatingPieces,
+        rng,
+        state.rules
+      );
+
+      // 推しコマの位置を更新
+      const updatedOshiPieces = state.gameState.oshiPieces.map(oshi => {
+        const placement = oshiPlacements.find(p => p.oshiId === oshi.id);
+        return placement ? { ...oshi, currentSpotId: placement.spotId } : oshi;
+      });
+
+      // ボード状態を更新（推しコマを配置、同じスポットに来た推しはすべて置く）
+      const updatedBoardSpots = state.gameState.hanamichiBoardState.spots.map(spot => ({
+        ...spot,
+        oshiPieces: updatedOshiPieces.filter(oshi => oshi.currentSpotId === spot.id)
+      }));
+
+      // プレイヤーのポイントを更新
+      const updatedPlayers = state.players.map(player => {
+        const playerResult = pointResults.find(r => r.playerId === player.id);
+        return playerResult
+          ? { ...player, points: player.points + playerResult.totalPoints }
+          : player;
+      });
+
+      // ラウンド履歴にファンサ結果を記録
+      const fansaResults = sortByTurnOrder(pointResults, state).map(result => ({
+        playerId: result.playerId,
+        pointsEarned: result.totalPoints,
+        breakdown: result.breakdown,
+        hits: result.hits
+      }));
+
+      const updatedRoundHistory = state.gameState.roundHistory.map(round =>
+        round.roundNumber === state.currentRound
+          ? { ...round, fansaResults }
+          : round
+      );
+
+      // ファンサタイム完了後、自動的にラウンド終了フェーズに移行
+      const shouldEndRound = state.currentPhase === 'fansa-time';
+
+      const events: GameEvent[] = [{ type: 'FANSA_TIME_PROCESSED', diceResults, oshiPlacements, fansaResults }];
+      if (shouldEndRound) {
+        events.push({ type: 'PHASE_CHANGED', fromPhase: state.currentPhase, toPhase: 'round-end', roundNumber: state.currentRound });
+      }
+
+      return {
+        state: {
+          ...state,
+          players: updatedPlayers,
+          rngState: rng.getState(),
+          currentPhase: shouldEndRound ? 'round-end' : state.currentPhase,
+          gameState: {
+            ...state.gameState,
+            oshiPieces: updatedOshiPieces,
+            hanamichiBoardState: { spots: updatedBoardSpots },
+            roundHistory: updatedRoundHistory,
+            currentDiceResult: diceResults[0] // 最初のサイコロ結果を保存（表示用）
+          }
+        },
+        events
+      };
+    }
+
+    case 'END_ROUND': {
+      // ラウンド終了処理（精算パイプラインを適用してラウンド終了フェーズへ）
+      const settlement = settleRound(state);
+
+      return {
+        state: {
+          ...settlement.state,
+          currentPhase: 'round-end'
+        },
+        events: [...settlement.events, { type: 'ROUND_ENDED', roundNumber: state.currentRound }]
+      };
+    }
+
+    case 'END_GAME':
+      return {
+        state: {
+          ...state,
+          currentPhase: 'game-end'
+        },
+        events: [{ type: 'GAME_ENDED' }]
+      };
+
+    default:
+      return { state, events: [] };
+  }
+};
+
+/**
+ * 複数のコマンドを順番に適用し、最終状態と全イベントを返す
+ */
+export const applyGameCommands = (
+  state: GameSession | null,
+  commands: GameCommand[]
+): GameCommandResult => {
+  return commands.reduce<GameCommandResult>(
+    (result, command) => {
+      const next = applyGameCommand(result.state, command);
+      return { state: next.state, events: [...result.events, ...next.events] };
+    },
+    { state, events: [] }
+  );
+};
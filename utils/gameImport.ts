@@ -0,0 +1,166 @@
+/**
+ * ゲームデータの取り込み
+ * exportGameDataForAnalysis で書き出したJSON（またはセーブデータそのもの）を読み込み、
+ * 移行・構造の検証・整合性チェックを通してから、再開できるゲームと分析用データに分ける
+ */
+
+import { ActionLog, GameError, GameLogEntry, GamePhase, GameSession } from '../types/game';
+import { deserializeActionLog, replayActionLog } from './actionLog';
+import { GameHistoryEntry, readSaveData, restoreGameHistoryEntry } from './dataPersistence';
+import { createGameError, ERROR_MESSAGES, validateGameStateConsistency } from './errorHandling';
+import { isRecord, validateGameHistoryEntry, validateGameLogEntry } from './saveFormat';
+
+/**
+ * 取り込むデータの概要（読み込む前の確認用）
+ */
+export interface GameImportPreview {
+  gameId: string | null;
+  players: { id: string; name: string }[];
+  currentRound: number | null;
+  totalRounds: number | null;
+  currentPhase: GamePhase | null;
+  logCount: number;
+  historyCount: number;
+}
+
+/**
+ * 取り込んだデータ
+ */
+export interface GameImportData {
+  session: GameSession | null; // 再開できるゲーム（分析用データのみのファイルでは null）
+  actionLog: ActionLog | null;
+  logs: GameLogEntry[];
+  history: GameHistoryEntry[];
+  problems: string[]; // 構造が正しくないため取り込まなかった履歴・ログの問題
+  preview: GameImportPreview;
+}
+
+// 書き出したゲームログの1件（日時は文字列のまま）
+type SavedGameLogEntry = Omit<GameLogEntry, 'timestamp'> & { timestamp: string };
+
+export type GameImportReadResult =
+  | { data: GameImportData; error: null }
+  | { data: null; error: GameError };
+
+const fail = (message: string, context: any): GameImportReadResult => ({
+  data: null,
+  error: createGameError('system', message, undefined, context)
+});
+
+// 配列の項目のうち構造が正しいものだけを（検証した形式の T として）残し、正しくない項目の問題を problems に追加する
+const keepValidEntries = <T>(
+  value: unknown,
+  path: string,
+  validate: (entry: unknown, path: string) => string[],
+  problems: string[]
+): T[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry, i) => {
+    const entryProblems = validate(entry, `${path}[${i}]`);
+    problems.push(...entryProblems);
+    return entryProblems.length === 0;
+  }) as T[];
+};
+
+// 整合性エラーを、どの値が問題かわかる文字列にする
+const describeConsistencyError = (error: GameError): string => {
+  const details = Object.entries(error.context ?? {}).map(([key, value]) => `${key}=${value}`).join(', ');
+  return details ? `${error.message}（${details}）` : error.message;
+};
+
+/**
+ * 書き出したJSON文字列を取り込み用に読み込む
+ */
+export const readGameImport = (jsonString: string): GameImportReadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch (error) {
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, {
+      reason: 'invalid-json',
+      problems: [error instanceof Error ? error.message : 'Unknown error']
+    });
+  }
+  if (!isRecord(parsed)) {
+    return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, { reason: 'invalid-structure', problems: ['import: expected object'] });
+  }
+
+  // セーブデータそのものも、分析用の書き出しの currentGame と同じように扱う
+  const isSaveData = 'gameState' in parsed;
+  const savedGame = isSaveData ? parsed : parsed.currentGame;
+
+  let actionLog: ActionLog | null = null;
+  if (!isSaveData && parsed.actionLog) {
+    try {
+      actionLog = deserializeActionLog(JSON.stringify(parsed.actionLog));
+    } catch (error) {
+      return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, {
+        reason: 'invalid-action-log',
+        problems: [error instanceof Error ? error.message : 'Unknown error']
+      });
+    }
+  }
+
+  let session: GameSession | null = null;
+  if (savedGame) {
+    // 古い形式は現在の形式に移行し、構造を検証する
+    const result = readSaveData(JSON.stringify(savedGame));
+    if (result.error) {
+      return { data: null, error: result.error };
+    }
+    session = result.session;
+  } else if (actionLog && actionLog.entries.length > 0) {
+    // 特定のゲームを書き出したファイルにはゲーム状態が含まれないため、アクションログを再生して復元する
+    try {
+      session = replayActionLog(actionLog);
+    } catch (error) {
+      return fail(ERROR_MESSAGES.DESERIALIZATION_ERROR, {
+        reason: 'invalid-action-log',
+        problems: [error instanceof Error ? error.message : 'Unknown error']
+      });
+    }
+  }
+
+  if (session) {
+    const consistencyErrors = validateGameStateConsistency(session);
+    if (consistencyErrors.length > 0) {
+      return {
+        data: null,
+        error: createGameError('validation', ERROR_MESSAGES.GAME_STATE_INCONSISTENCY, undefined, {
+          reason: 'inconsistent',
+          problems: consistencyErrors.map(describeConsistencyError)
+        })
+      };
+    }
+  }
+
+  const problems: string[] = [];
+  const logs: GameLogEntry[] = isSaveData ? [] : keepValidEntries<SavedGameLogEntry>(parsed.logs, 'logs', validateGameLogEntry, problems)
+    .map(log => ({ ...log, timestamp: new Date(log.timestamp) }));
+  const history: GameHistoryEntry[] = isSaveData ? [] : keepValidEntries(parsed.gameHistory, 'gameHistory', validateGameHistoryEntry, problems)
+    .map(restoreGameHistoryEntry);
+
+  if (!session && logs.length === 0 && history.length === 0) {
+    return fail(ERROR_MESSAGES.IMPORT_NO_GAME_DATA, { reason: 'empty', problems });
+  }
+
+  return {
+    data: {
+      session,
+      actionLog,
+      logs,
+      history,
+      problems,
+      preview: {
+        gameId: session?.id ?? actionLog?.gameId ?? null,
+        players: session ? session.players.map(p => ({ id: p.id, name: p.name })) : [],
+        currentRound: session?.currentRound ?? null,
+        totalRounds: session?.rules.totalRounds ?? null,
+        currentPhase: session?.currentPhase ?? null,
+        logCount: logs.length,
+        historyCount: history.length
+      }
+    },
+    error: null
+  };
+};
@@ -1,4 +1,7 @@
-import { GamePhase, GameSession, Player, RewardDistributionCard, FanserviceSpotCard } from '../types/game';
+import { GamePhase, GameSession, GoodsType, Player, RewardDistributionCard, FanserviceSpotCard, RuleSet, RoundResult } from '../types/game';
+import { RandomSource, mathRandomSource, randomInt, pickRandom, shuffleArray } from './random';
+import { DEFAULT_RULE_SET } from './ruleSet';
+import { RankedPlayer, collectRankingStats, rankPlayers } from './ranking';
 
 /**
  * フェーズ遷移のルールを定義
@@ -10,6 +13,8 @@ export const getNextPhase = (currentPhase: GamePhase): GamePhase => {
     'oshikatsu-decision',
     'oshikatsu-goods',
     'oshikatsu-placement',
+    'oshikatsu-kagebunshin',
+    'oshikatsu-goods-assign',
     'fansa-time',
     'round-end'
   ];
@@ -32,14 +37,85 @@ export const getNextPhase = (currentPhase: GamePhase): GamePhase => {
  * フェーズが同時アクション型かどうかを判定
  */
 export const isSimultaneousPhase = (phase: GamePhase): boolean => {
-  return ['labor', 'oshikatsu-decision', 'oshikatsu-goods', 'oshikatsu-placement'].includes(phase);
+  return ['labor', 'oshikatsu-decision', 'oshikatsu-goods-assign'].includes(phase);
 };
 
 /**
  * フェーズが順番制アクション型かどうかを判定
  */
 export const isTurnBasedPhase = (phase: GamePhase): boolean => {
-  return ['fansa-time'].includes(phase);
+  return ['oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin', 'fansa-time'].includes(phase);
+};
+
+/**
+ * スタートプレイヤーから1人ずつ行動し、全員が完了を宣言するまで手番が回るフェーズかどうかを判定
+ * （グッズ購入は1回に1つ、オタクコマ・影分身の配置は1回に1個）
+ */
+export const isSequentialStepPhase = (phase: GamePhase): boolean => {
+  return ['oshikatsu-goods', 'oshikatsu-placement', 'oshikatsu-kagebunshin'].includes(phase);
+};
+
+/**
+ * まだオタクコマに乗せていないグッズ
+ */
+export const getGoodsInventory = (player: Player): GoodsType[] => player.goodsInventory ?? [];
+
+/**
+ * グッズを追加で持てるかどうか（1オタクコマに1つまでのため、影分身を含むオタクコマの数が上限）
+ */
+export const canHoldMoreGoods = (player: Player): boolean => {
+  const assigned = player.otakuPieces.filter(piece => piece.goods).length;
+  return assigned + getGoodsInventory(player).length < player.otakuPieces.length;
+};
+
+/**
+ * グッズを乗せられるオタクコマかどうか（ボードに配置済みで、まだグッズを乗せていない）
+ */
+export const canAssignGoodsTo = (piece: { boardSpotId?: number | null; goods?: GoodsType | null }): boolean => {
+  return piece.boardSpotId !== undefined && piece.boardSpotId !== null && !piece.goods;
+};
+
+/**
+ * オタクコマの配置ステップで、指定のオタクコマを置けるかどうか
+ * 通常の配置では影分身以外、影分身の配置では影分身のみを、まだボードにないものに限り置ける
+ */
+export const isPlaceablePiece = (phase: GamePhase, piece: { isKagebunshin: boolean; boardSpotId?: number | null }): boolean => {
+  if (piece.boardSpotId !== undefined && piece.boardSpotId !== null) {
+    return false;
+  }
+  return phase === 'oshikatsu-kagebunshin' ? piece.isKagebunshin : !piece.isKagebunshin;
+};
+
+/**
+ * 推しかつ決断で休む選択をしたプレイヤーかどうか
+ * 休むプレイヤーはそのラウンドの推し活（グッズ購入からファンサタイムまで）に参加しない
+ */
+export const isRestingPlayer = (player: Player): boolean => player.oshikatsuDecision === 'rest';
+
+/**
+ * 指定の位置から順に、まだ完了を宣言していないプレイヤーのインデックスを探す（指定の位置を含む）
+ * 全員が完了している場合は null
+ */
+export const findStepPlayerIndex = (
+  players: Player[],
+  phaseActions: { [playerId: string]: boolean },
+  fromIndex: number
+): number | null => {
+  for (let offset = 0; offset < players.length; offset++) {
+    const index = (fromIndex + offset) % players.length;
+    if (phaseActions[players[index].id] !== true) {
+      return index;
+    }
+  }
+  return null;
+};
+
+/**
+ * 順番制の推し活ステップで、指定プレイヤーが行動できるかどうか
+ */
+export const isStepTurn = (gameSession: GameSession, playerId: string): boolean => {
+  const activePlayer = gameSession.players[gameSession.activePlayerIndex];
+  return activePlayer?.id === playerId && gameSession.turnManager.phaseActions[playerId] !== true;
 };
 
 /**
@@ -49,6 +125,17 @@ export const getNextPlayerIndex = (currentIndex: number, totalPlayers: number):
   return (currentIndex + 1) % totalPlayers;
 };
 
+/**
+ * スタートプレイヤーから始まる手番順のプレイヤー一覧を取得
+ */
+export const getTurnOrder = <T>(players: readonly T[], startPlayerIndex: number): T[] => {
+  if (players.length === 0) {
+    return [];
+  }
+  const start = ((startPlayerIndex % players.length) + players.length) % players.length;
+  return [...players.slice(start), ...players.slice(0, start)];
+};
+
 /**
  * フェーズ遷移が可能かどうかを判定
  */
@@ -60,6 +147,11 @@ export const canTransitionToNextPhase = (gameSession: GameSession): boolean => {
     return players.every(player => turnManager.phaseActions[player.id] === true);
   }
 
+  // グッズ購入・オタクコマ配置は全員が完了を宣言するまで続く
+  if (isSequentialStepPhase(currentPhase)) {
+    return players.every(player => turnManager.phaseActions[player.id] === true);
+  }
+
   // 順番制フェーズの場合、現在のプレイヤーがアクション完了している必要がある
   if (isTurnBasedPhase(currentPhase)) {
     const currentPlayer = players[gameSession.activePlayerIndex];
@@ -81,52 +173,50 @@ export const canAdvanceTurn = (gameSession: GameSession): boolean => {
     return false;
   }
 
+  // グッズ購入・オタクコマ配置では手番をいつでもパスできる（全員が完了していれば回す相手がいない）
+  if (isSequentialStepPhase(currentPhase)) {
+    return findStepPlayerIndex(players, turnManager.phaseActions, activePlayerIndex) !== null;
+  }
+
   const currentPlayer = players[activePlayerIndex];
   return turnManager.phaseActions[currentPlayer.id] === true;
 };
 /**
  * 報酬配分カードの定義
  */
-export const createRewardDistributionCards = (): RewardDistributionCard[] => {
-  return [
-    {
-      id: 'card-A',
-      name: 'A',
-      rewards: { 1: 3, 2: 2, 3: 1, 4: 0, 5: 0, 6: 0 }
-    },
-    {
-      id: 'card-B',
-      name: 'B',
-      rewards: { 1: 2, 2: 3, 3: 2, 4: 1, 5: 0, 6: 0 }
-    },
-    {
-      id: 'card-C',
-      name: 'C',
-      rewards: { 1: 1, 2: 2, 3: 3, 4: 2, 5: 1, 6: 0 }
-    },
-    {
-      id: 'card-D',
-      name: 'D',
-      rewards: { 1: 0, 2: 1, 3: 2, 4: 3, 5: 2, 6: 1 }
-    },
-    {
-      id: 'card-E',
-      name: 'E',
-      rewards: { 1: 0, 2: 0, 3: 1, 4: 2, 5: 3, 6: 2 }
-    },
-    {
-      id: 'card-F',
-      name: 'F',
-      rewards: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 2, 6: 3 }
-    }
-  ];
+export const createRewardDistributionCards = (rules: RuleSet = DEFAULT_RULE_SET): RewardDistributionCard[] => {
+  return rules.rewardCards.map(card => ({ ...card, rewards: { ...card.rewards } }));
+};
+
+/**
+ * ドラフトで次に報酬配分カードを選ぶプレイヤーを取得
+ * スタートプレイヤーから順に、まだカードを選んでいない最初のプレイヤー（全員選び終えたら null）
+ */
+export const getDraftPicker = (gameSession: GameSession): Player | null => {
+  return getTurnOrder(gameSession.players, gameSession.startPlayerIndex)
+    .find(player => !player.selectedRewardCard) ?? null;
+};
+
+/**
+ * 指定プレイヤーが選べる報酬配分カード
+ * ドラフトでは他のプレイヤーが選んだカードを除く
+ */
+export const getAvailableRewardCards = (gameSession: GameSession, playerId: string): RewardDistributionCard[] => {
+  const cards = gameSession.gameState.rewardDistributionCards;
+  if (!gameSession.rules.rewardCardDraft) {
+    return cards;
+  }
+  const takenCardIds = gameSession.players
+    .filter(player => player.id !== playerId && player.selectedRewardCard)
+    .map(player => player.selectedRewardCard!.id);
+  return cards.filter(card => !takenCardIds.includes(card.id));
 };
 
 /**
  * サイコロを振る（1-6の値を返す）
  */
-export const rollDice = (): number => {
-  return Math.floor(Math.random() * 6) + 1;
+export const rollDice = (rng: RandomSource = mathRandomSource): number => {
+  return randomInt(rng, 6) + 1;
 };
 
 /**
@@ -183,7 +273,7 @@ export const processLaborPhase = (
 };
 
 /**
- * 8マス中3マスの全28通りの組み合わせを生成
+ * 8マス中3マスの全56通りの組み合わせを生成
  */
 export const generateAllFanserviceSpotCombinations = (): [number, number, number][] => {
   const combinations: [number, number, number][] = [];
@@ -200,88 +290,163 @@ export const generateAllFanserviceSpotCombinations = (): [number, number, number
   return combinations;
 };
 
+// ファンサスポットカードの枚数（表裏で28面）
+export const FANSERVICE_SPOT_CARD_COUNT = 14;
+
 /**
- * ファンサスポットカードの全28通りを生成
+ * 花道ボード（2行×4列）を180度回転させたときのスポットID
+ */
+export const rotateSpot180 = (spotId: number): number => 7 - spotId;
+
+/**
+ * 180度回転で互いに移り合う組み合わせを1つにまとめた28通りの面
+ * 56通りの組み合わせは回転で2つずつ組になるため、カードの面としては28通りで全ての配置を表せる
+ */
+export const generateFanserviceSpotFaces = (): [number, number, number][] => {
+  return generateAllFanserviceSpotCombinations().filter(spots => {
+    const rotated = spots.map(rotateSpot180).sort((a, b) => a - b);
+    return spots.join(',') < rotated.join(',');
+  });
+};
+
+/**
+ * ファンサスポットカード14枚を生成（28通りの面を順に表裏へ割り当てる）
  */
 export const createAllFanserviceSpotCards = (): FanserviceSpotCard[] => {
-  const combinations = generateAllFanserviceSpotCombinations();
+  const faces = generateFanserviceSpotFaces();
   
-  return combinations.map((spots, index) => ({
+  return Array.from({ length: FANSERVICE_SPOT_CARD_COUNT }, (_, index) => ({
     id: `fanservice-card-${index + 1}`,
-    spots,
+    front: faces[index * 2],
+    back: faces[index * 2 + 1],
     orientation: 'front', // デフォルトは表
     rotation: 0 // デフォルトは0度
   }));
 };
 
+/**
+ * 公開されたカードがボード上で示すスポット（スポット1〜3の順）
+ * 表裏で面を選び、180度回転している場合は各スポットをボードの反対側に移す
+ */
+export const getFanserviceCardSpots = (card: FanserviceSpotCard): [number, number, number] => {
+  const face = card.orientation === 'front' ? card.front : card.back;
+  if (card.rotation === 180) {
+    return [rotateSpot180(face[0]), rotateSpot180(face[1]), rotateSpot180(face[2])];
+  }
+  return face;
+};
+
 /**
  * ランダムにファンサスポットカードを3枚選択
  */
 export const selectRandomFanserviceSpotCards = (
   allCards: FanserviceSpotCard[],
-  count: number = 3
+  count: number = 3,
+  rng: RandomSource = mathRandomSource
 ): FanserviceSpotCard[] => {
   if (allCards.length < count) {
     throw new Error(`Not enough cards available. Required: ${count}, Available: ${allCards.length}`);
   }
   
   // カードをシャッフルして最初のcount枚を選択
-  const shuffledCards = [...allCards].sort(() => Math.random() - 0.5);
+  const shuffledCards = shuffleArray(allCards, rng);
   return shuffledCards.slice(0, count);
 };
 
 /**
  * カードの表裏をランダムに決定
  */
-export const randomizeCardOrientation = (): 'front' | 'back' => {
-  return Math.random() < 0.5 ? 'front' : 'back';
+export const randomizeCardOrientation = (rng: RandomSource = mathRandomSource): 'front' | 'back' => {
+  return rng.next() < 0.5 ? 'front' : 'back';
 };
 
 /**
- * カードの向きをランダムに決定
+ * カードの上下をランダムに決定
  */
-export const randomizeCardRotation = (): 0 | 90 | 180 | 270 => {
-  const rotations: (0 | 90 | 180 | 270)[] = [0, 90, 180, 270];
-  return rotations[Math.floor(Math.random() * rotations.length)];
+export const randomizeCardRotation = (rng: RandomSource = mathRandomSource): 0 | 180 => {
+  const rotations: (0 | 180)[] = [0, 180];
+  return pickRandom(rotations, rng);
 };
 
 /**
  * ファンサスポットカードに表裏と向きをランダムに適用
  */
-export const applyRandomCardProperties = (card: FanserviceSpotCard): FanserviceSpotCard => {
+export const applyRandomCardProperties = (
+  card: FanserviceSpotCard,
+  rng: RandomSource = mathRandomSource
+): FanserviceSpotCard => {
   return {
     ...card,
-    orientation: randomizeCardOrientation(),
-    rotation: randomizeCardRotation()
+    orientation: randomizeCardOrientation(rng),
+    rotation: randomizeCardRotation(rng)
   };
 };
 
 /**
  * 推し活フェーズ用のファンサスポットカード3枚を準備
  */
-export const prepareOshikatsuPhaseCards = (allCards?: FanserviceSpotCard[]): FanserviceSpotCard[] => {
+export const prepareOshikatsuPhaseCards = (
+  allCards?: FanserviceSpotCard[],
+  rng: RandomSource = mathRandomSource
+): FanserviceSpotCard[] => {
   // 全カードが提供されていない場合は生成
   const cards = allCards || createAllFanserviceSpotCards();
   
   // ランダムに3枚選択
-  const selectedCards = selectRandomFanserviceSpotCards(cards, 3);
+  const selectedCards = selectRandomFanserviceSpotCards(cards, 3, rng);
   
   // 各カードに表裏と向きをランダムに適用
-  return selectedCards.map(applyRandomCardProperties);
+  return selectedCards.map(card => applyRandomCardProperties(card, rng));
+};
+
+/**
+ * 山札からファンサスポットカードを引く
+ * 山札が足りない場合は残りを全て引いてから、捨て札を切り直して新しい山札にし、不足分を引く
+ * 引いたカードの表裏と上下はランダムに決める
+ */
+export const drawFanserviceSpotCards = (
+  drawPile: FanserviceSpotCard[],
+  discardPile: FanserviceSpotCard[],
+  count: number = 3,
+  rng: RandomSource = mathRandomSource
+): { drawn: FanserviceSpotCard[]; drawPile: FanserviceSpotCard[]; discardPile: FanserviceSpotCard[]; reshuffled: boolean } => {
+  if (drawPile.length + discardPile.length < count) {
+    throw new Error(`Not enough cards available. Required: ${count}, Available: ${drawPile.length + discardPile.length}`);
+  }
+
+  let pile = shuffleArray(drawPile, rng);
+  let discards = discardPile;
+  const drawn = pile.slice(0, count);
+  pile = pile.slice(count);
+
+  const reshuffled = drawn.length < count;
+  if (reshuffled) {
+    // 捨て札は表裏・上下を戻してから山札にする
+    pile = shuffleArray(discards.map(card => ({ ...card, orientation: 'front' as const, rotation: 0 as const })), rng);
+    discards = [];
+    const rest = count - drawn.length;
+    drawn.push(...pile.slice(0, rest));
+    pile = pile.slice(rest);
+  }
+
+  return {
+    drawn: drawn.map(card => applyRandomCardProperties(card, rng)),
+    drawPile: pile,
+    discardPile: discards,
+    reshuffled
+  };
 };
 
 /**
  * サイコロの出目からファンサスポットを決定
- * 1-2 → スポット1、3-4 → スポット2、5-6 → スポット3
+ * 標準ルールでは 1-2 → スポット1、3-4 → スポット2、5-6 → スポット3
  */
-export const mapDiceToFanserviceSpot = (diceResult: number): number => {
+export const mapDiceToFanserviceSpot = (diceResult: number, rules: RuleSet = DEFAULT_RULE_SET): number => {
   if (diceResult < 1 || diceResult > 6) {
     throw new Error(`Invalid dice result: ${diceResult}`);
   }
   
-  if (diceResult <= 2) return 0; // スポット1 (インデックス0)
-  if (diceResult <= 4) return 1; // スポット2 (インデックス1)
-  return 2; // スポット3 (インデックス2)
+  return rules.diceToSpotIndex[diceResult - 1];
 };
 
 /**
@@ -289,7 +454,8 @@ export const mapDiceToFanserviceSpot = (diceResult: number): number => {
  */
 export const placeFansaOshiPieces = (
   revealedCards: FanserviceSpotCard[],
-  diceResults: [number, number, number] // A, B, C の順
+  diceResults: [number, number, number], // A, B, C の順
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { oshiId: 'A' | 'B' | 'C'; spotId: number }[] => {
   if (revealedCards.length !== 3) {
     throw new Error(`Expected 3 revealed cards, got ${revealedCards.length}`);
@@ -308,10 +474,10 @@ export const placeFansaOshiPieces = (
     const oshiId = oshiIds[i];
     
     // サイコロの出目からスポットインデックスを決定
-    const spotIndex = mapDiceToFanserviceSpot(diceResult);
+    const spotIndex = mapDiceToFanserviceSpot(diceResult, rules);
     
-    // カードの指定されたスポットを取得
-    const spotId = card.spots[spotIndex];
+    // カードの表裏・上下に応じたスポットを取得
+    const spotId = getFanserviceCardSpots(card)[spotIndex];
     
     placements.push({ oshiId, spotId });
   }
@@ -360,18 +526,19 @@ export const getOppositeSpot = (spotId: number): number | null => {
 };
 
 /**
- * 基本ポイント計算（目の前6ポイント山分け）
+ * 基本ポイント計算（目の前のポイントを山分け、標準ルールでは6ポイント）
  */
 export const calculateBasicPoints = (
   spotId: number,
-  otakuPieces: any[]
+  otakuPieces: any[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { playerId: string; points: number }[] => {
   if (otakuPieces.length === 0) {
     return [];
   }
   
-  // 6ポイントを山分け
-  const basePoints = 6;
+  // ルールで定められたポイントを山分け
+  const basePoints = rules.basePoints;
   const pointsPerPiece = Math.floor(basePoints / otakuPieces.length);
   const remainder = basePoints % otakuPieces.length;
   
@@ -399,7 +566,8 @@ export const calculateBasicPoints = (
  */
 export const calculateUchiwaBonus = (
   oshiSpotId: number,
-  allOtakuPieces: any[]
+  allOtakuPieces: any[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { playerId: string; points: number }[] => {
   const adjacentSpots = getAdjacentSpots(oshiSpotId);
   const results: { playerId: string; points: number }[] = [];
@@ -411,7 +579,7 @@ export const calculateUchiwaBonus = (
         adjacentSpots.includes(piece.boardSpotId)) {
       results.push({
         playerId: piece.playerId,
-        points: 1
+        points: rules.uchiwaBonus
       });
     }
   });
@@ -424,7 +592,8 @@ export const calculateUchiwaBonus = (
  */
 export const calculatePenlightBonus = (
   oshiSpotId: number,
-  allOtakuPieces: any[]
+  allOtakuPieces: any[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { playerId: string; points: number }[] => {
   const oppositeSpot = getOppositeSpot(oshiSpotId);
   const results: { playerId: string; points: number }[] = [];
@@ -439,7 +608,7 @@ export const calculatePenlightBonus = (
         piece.boardSpotId === oppositeSpot) {
       results.push({
         playerId: piece.playerId,
-        points: 1
+        points: rules.penlightBonus
       });
     }
   });
@@ -453,7 +622,8 @@ export const calculatePenlightBonus = (
 export const applySashiireBonus = (
   spotId: number,
   otakuPieces: any[],
-  basicPointResults: { playerId: string; points: number }[]
+  basicPointResults: { playerId: string; points: number }[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { playerId: string; points: number }[] => {
   const results: { playerId: string; points: number }[] = [];
   
@@ -465,7 +635,7 @@ export const applySashiireBonus = (
     
     results.push({
       playerId: result.playerId,
-      points: hasSashiire ? result.points * 2 : result.points
+      points: hasSashiire ? result.points * rules.sashiireMultiplier : result.points
     });
   });
   
@@ -478,9 +648,11 @@ export const applySashiireBonus = (
 export const calculateFansaPoints = (
   oshiPlacements: { oshiId: 'A' | 'B' | 'C'; spotId: number }[],
   boardState: any,
-  allOtakuPieces: any[]
-): { playerId: string; totalPoints: number; breakdown: string[] }[] => {
-  const playerPointsMap = new Map<string, { points: number; breakdown: string[] }>();
+  allOtakuPieces: any[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): { playerId: string; totalPoints: number; breakdown: string[]; hits: number }[] => {
+  // 得点した推しを記録し、基本ポイントとグッズのボーナスを合わせて推しごとに1回と数える
+  const playerPointsMap = new Map<string, { points: number; breakdown: string[]; scoredOshi: Set<string> }>();
   
   // 各推しの配置について計算
   oshiPlacements.forEach(({ oshiId, spotId }) => {
@@ -490,61 +662,71 @@ export const calculateFansaPoints = (
     
     const otakuPiecesAtSpot = spot.otakuPieces || [];
     
-    // 基本ポイント計算（6ポイント山分け）
-    const basicPoints = calculateBasicPoints(spotId, otakuPiecesAtSpot);
+    // 同じスポットの推しで目の前のポイントを共有するルールでは、そのスポットの最初の推しでまとめて山分けする
+    const colocatedOshiIds = oshiPlacements.filter(p => p.spotId === spotId).map(p => p.oshiId);
+    const sharesPool = rules.shareColocatedOshiPool && colocatedOshiIds.length > 1;
+    const awardsBasicPoints = !sharesPool || colocatedOshiIds[0] === oshiId;
+    const poolLabel = sharesPool ? colocatedOshiIds.join('・') : oshiId;
     
-    // 差し入れボーナス適用（基本ポイントを2倍）
-    const sashiireAdjustedPoints = applySashiireBonus(spotId, otakuPiecesAtSpot, basicPoints);
+    // 基本ポイント計算（ルールのポイントを山分け）
+    const basicPoints = awardsBasicPoints ? calculateBasicPoints(spotId, otakuPiecesAtSpot, rules) : [];
+    
+    // 差し入れボーナス適用（基本ポイントを倍率分に）
+    const sashiireAdjustedPoints = applySashiireBonus(spotId, otakuPiecesAtSpot, basicPoints, rules);
     
     // 基本ポイント（差し入れ調整済み）を加算
     sashiireAdjustedPoints.forEach(({ playerId, points }) => {
       if (!playerPointsMap.has(playerId)) {
-        playerPointsMap.set(playerId, { points: 0, breakdown: [] });
+        playerPointsMap.set(playerId, { points: 0, breakdown: [], scoredOshi: new Set() });
       }
       
       const playerData = playerPointsMap.get(playerId)!;
       playerData.points += points;
+      if (points > 0) playerData.scoredOshi.add(oshiId);
       
       const originalPoints = basicPoints.find(bp => bp.playerId === playerId)?.points || 0;
       if (points > originalPoints) {
-        playerData.breakdown.push(`推し${oshiId}目の前(差し入れ2倍): ${points}ポイント`);
+        playerData.breakdown.push(`推し${poolLabel}目の前(差し入れ${rules.sashiireMultiplier}倍): ${points}ポイント`);
       } else {
-        playerData.breakdown.push(`推し${oshiId}目の前: ${points}ポイント`);
+        playerData.breakdown.push(`推し${poolLabel}目の前: ${points}ポイント`);
       }
     });
     
     // うちわボーナス計算
-    const uchiwaBonus = calculateUchiwaBonus(spotId, allOtakuPieces);
+    const uchiwaBonus = calculateUchiwaBonus(spotId, allOtakuPieces, rules);
     uchiwaBonus.forEach(({ playerId, points }) => {
       if (!playerPointsMap.has(playerId)) {
-        playerPointsMap.set(playerId, { points: 0, breakdown: [] });
+        playerPointsMap.set(playerId, { points: 0, breakdown: [], scoredOshi: new Set() });
       }
       
       const playerData = playerPointsMap.get(playerId)!;
       playerData.points += points;
+      if (points > 0) playerData.scoredOshi.add(oshiId);
       playerData.breakdown.push(`推し${oshiId}隣接(うちわ): ${points}ポイント`);
     });
     
     // ペンライトボーナス計算
-    const penlightBonus = calculatePenlightBonus(spotId, allOtakuPieces);
+    const penlightBonus = calculatePenlightBonus(spotId, allOtakuPieces, rules);
     penlightBonus.forEach(({ playerId, points }) => {
       if (!playerPointsMap.has(playerId)) {
-        playerPointsMap.set(playerId, { points: 0, breakdown: [] });
+        playerPointsMap.set(playerId, { points: 0, breakdown: [], scoredOshi: new Set() });
       }
       
       const playerData = playerPointsMap.get(playerId)!;
       playerData.points += points;
+      if (points > 0) playerData.scoredOshi.add(oshiId);
       playerData.breakdown.push(`推し${oshiId}向かい側(ペンライト): ${points}ポイント`);
     });
   });
   
   // 結果を配列に変換
-  const results: { playerId: string; totalPoints: number; breakdown: string[] }[] = [];
+  const results: { playerId: string; totalPoints: number; breakdown: string[]; hits: number }[] = [];
   playerPointsMap.forEach((data, playerId) => {
     results.push({
       playerId,
       totalPoints: data.points,
-      breakdown: data.breakdown
+      breakdown: data.breakdown,
+      hits: data.scoredOshi.size
     });
   });
   
@@ -557,24 +739,26 @@ export const calculateFansaPoints = (
 export const processFansaTime = (
   revealedCards: FanserviceSpotCard[],
   boardState: any,
-  allOtakuPieces: any[]
+  allOtakuPieces: any[],
+  rng: RandomSource = mathRandomSource,
+  rules: RuleSet = DEFAULT_RULE_SET
 ): {
   oshiPlacements: { oshiId: 'A' | 'B' | 'C'; spotId: number }[];
-  pointResults: { playerId: string; totalPoints: number; breakdown: string[] }[];
+  pointResults: { playerId: string; totalPoints: number; breakdown: string[]; hits: number }[];
   diceResults: [number, number, number];
 } => {
   // 各推しのサイコロを振る
   const diceResults: [number, number, number] = [
-    rollDice(), // 推しA
-    rollDice(), // 推しB
-    rollDice()  // 推しC
+    rollDice(rng), // 推しA
+    rollDice(rng), // 推しB
+    rollDice(rng)  // 推しC
   ];
   
   // 推しコマの配置を決定
-  const oshiPlacements = placeFansaOshiPieces(revealedCards, diceResults);
+  const oshiPlacements = placeFansaOshiPieces(revealedCards, diceResults, rules);
   
   // ポイント計算
-  const pointResults = calculateFansaPoints(oshiPlacements, boardState, allOtakuPieces);
+  const pointResults = calculateFansaPoints(oshiPlacements, boardState, allOtakuPieces, rules);
   
   return {
     oshiPlacements,
@@ -584,39 +768,54 @@ export const processFansaTime = (
 };
 
 /**
- * ゲーム終了条件をチェック（8ラウンド完了）
+ * ゲーム終了条件をチェック（標準ルールでは8ラウンド完了）
  */
-export const isGameComplete = (currentRound: number, currentPhase: GamePhase): boolean => {
-  return currentRound > 8 || (currentRound === 8 && currentPhase === 'round-end');
+export const isGameComplete = (
+  currentRound: number,
+  currentPhase: GamePhase,
+  rules: RuleSet = DEFAULT_RULE_SET
+): boolean => {
+  return currentRound > rules.totalRounds || (currentRound === rules.totalRounds && currentPhase === 'round-end');
 };
 
 /**
  * 最終スコア計算と勝者決定
+ * 同点はルールのタイブレークで順位を決め（ファンサ獲得回数・休んだ回数はラウンド履歴から集計）、1位のプレイヤーを勝者とする
  */
-export const calculateFinalResults = (players: Player[]): {
-  finalScores: { playerId: string; playerName: string; totalPoints: number; totalMoney: number }[];
+export const calculateFinalResults = (
+  players: Player[],
+  rules: RuleSet = DEFAULT_RULE_SET,
+  roundHistory: RoundResult[] = []
+): {
+  finalScores: { playerId: string; playerName: string; totalPoints: number; totalMoney: number; rank: number; tieBreak?: RankedPlayer['tieBreak'] }[];
   winners: { playerId: string; playerName: string; totalPoints: number }[];
+  ranking: RankedPlayer[];
   gameStats: {
     totalRounds: number;
     highestScore: number;
     averageScore: number;
   };
 } => {
-  // 最終スコア計算（ポイント + 残り資金）
-  const finalScores = players.map(player => ({
-    playerId: player.id,
-    playerName: player.name,
+  // 得点とタイブレークで順位を決める
+  const ranking = rankPlayers(collectRankingStats(players, roundHistory), rules.tieBreakers ?? []);
+  const finalScores = ranking.map(player => ({
+    playerId: player.playerId,
+    playerName: player.playerName,
     totalPoints: player.points,
-    totalMoney: player.money
-  })).sort((a, b) => b.totalPoints - a.totalPoints); // ポイント降順でソート
+    totalMoney: player.money,
+    rank: player.rank,
+    ...(player.tieBreak ? { tieBreak: player.tieBreak } : {})
+  }));
 
-  // 勝者決定（最高ポイントのプレイヤー、同点の場合は複数勝者）
+  // 勝者決定（1位のプレイヤー、最後まで同点の場合は複数勝者）
   const highestScore = finalScores[0]?.totalPoints || 0;
-  const winners = finalScores.filter(score => score.totalPoints === highestScore);
+  const winners = finalScores
+    .filter(score => score.rank === 1)
+    .map(({ playerId, playerName, totalPoints }) => ({ playerId, playerName, totalPoints }));
 
   // ゲーム統計
   const gameStats = {
-    totalRounds: 8,
+    totalRounds: rules.totalRounds,
     highestScore,
     averageScore: finalScores.length > 0 
       ? Math.round(finalScores.reduce((sum, score) => sum + score.totalPoints, 0) / finalScores.length)
@@ -626,23 +825,53 @@ export const calculateFinalResults = (players: Player[]): {
   return {
     finalScores,
     winners,
+    ranking,
     gameStats
   };
 };
 
 /**
- * ラウンド終了時のクリーンアップ処理
+ * プレイヤーの持つすべてのグッズ（オタクコマに乗せたものと手持ち）を捨てる
+ * グッズは次のラウンドに持ち越さない（要件9.5）
+ */
+export const discardPlayerGoods = (player: Player): { player: Player; discarded: GoodsType[] } => {
+  const discarded = [
+    ...player.otakuPieces.flatMap(piece => piece.goods ? [piece.goods] : []),
+    ...getGoodsInventory(player)
+  ];
+  return {
+    player: {
+      ...player,
+      otakuPieces: player.otakuPieces.map(piece => ({ ...piece, goods: undefined })),
+      goodsInventory: []
+    },
+    discarded
+  };
+};
+
+/**
+ * プレイヤーの影分身を取り除く
+ */
+export const removePlayerKagebunshin = (player: Player): Player => ({
+  ...player,
+  otakuPieces: player.otakuPieces.filter(piece => !piece.isKagebunshin)
+});
+
+/**
+ * ボードからプレイヤーのオタクコマを回収する
+ */
+export const recallPlayerOtakuPieces = (player: Player): Player => ({
+  ...player,
+  otakuPieces: player.otakuPieces.map(piece => ({ ...piece, boardSpotId: undefined }))
+});
+
+/**
+ * ラウンド終了時のクリーンアップ処理（プレイヤー単位）
+ * ゲームの進行ではボードや山札も含めて utils/roundSettlement.ts の精算パイプラインで同じ手順を行う
  */
 export const cleanupRoundEnd = (players: Player[]): Player[] => {
   return players.map(player => ({
-    ...player,
-    // ボードからオタクコマを回収
-    otakuPieces: player.otakuPieces.map(piece => ({
-      ...piece,
-      boardSpotId: undefined,
-      // 影分身は削除
-      ...(piece.isKagebunshin ? { toRemove: true } : {})
-    })).filter((piece: any) => !piece.toRemove),
+    ...recallPlayerOtakuPieces(removePlayerKagebunshin(discardPlayerGoods(player).player)),
     // 一時的な選択状態をクリア
     selectedRewardCard: undefined,
     oshikatsuDecision: undefined
@@ -661,10 +890,11 @@ export const shouldAdvanceToNextRound = (currentPhase: GamePhase): boolean => {
  */
 export const getNextGameState = (
   currentRound: number, 
-  currentPhase: GamePhase
+  currentPhase: GamePhase,
+  rules: RuleSet = DEFAULT_RULE_SET
 ): { nextRound: number; nextPhase: GamePhase } => {
   // ゲーム終了チェック
-  if (isGameComplete(currentRound, currentPhase)) {
+  if (isGameComplete(currentRound, currentPhase, rules)) {
     return { nextRound: currentRound, nextPhase: 'game-end' };
   }
 
@@ -675,8 +905,8 @@ export const getNextGameState = (
   if (currentPhase === 'round-end' && nextPhase === 'labor') {
     const nextRound = currentRound + 1;
     
-    // 8ラウンド完了後はゲーム終了
-    if (nextRound > 8) {
+    // 最終ラウンド完了後はゲーム終了
+    if (nextRound > rules.totalRounds) {
       return { nextRound: currentRound, nextPhase: 'game-end' };
     }
     
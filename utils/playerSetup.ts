@@ -0,0 +1,72 @@
+/**
+ * プレイヤー設定
+ * セットアップ画面の入力（名前・色・操作主体）からゲーム開始用のプレイヤーを作成する
+ */
+
+import { Player, PlayerColor, PlayerController } from '../types/game';
+import { BOT_STRATEGIES } from './botPlayer';
+
+export const PLAYER_COLORS: PlayerColor[] = ['red', 'blue', 'green', 'yellow'];
+export const MAX_PLAYERS = 4;
+export const PIECES_PER_PLAYER = 4;
+
+export const PLAYER_COLOR_LABELS: { [K in PlayerColor]: string } = {
+  red: '赤',
+  blue: '青',
+  green: '緑',
+  yellow: '黄'
+};
+
+// セットアップ画面の1人分の入力
+export interface PlayerSetupEntry {
+  name: string;
+  color: PlayerColor;
+  controller: PlayerController;
+  botStrategy?: string;
+}
+
+/**
+ * 既定のセットアップ入力を作成（色は重ならないよう順に割り当てる）
+ */
+export const createDefaultSetupEntries = (count: number): PlayerSetupEntry[] => {
+  return Array.from({ length: count }, (_, i) => ({
+    name: `プレイヤー${i + 1}`,
+    color: PLAYER_COLORS[i % PLAYER_COLORS.length],
+    controller: 'human'
+  }));
+};
+
+/**
+ * 人数を変更する（既存の入力は保持し、追加分には未使用の色を割り当てる）
+ */
+export const resizeSetupEntries = (entries: PlayerSetupEntry[], count: number): PlayerSetupEntry[] => {
+  const resized = entries.slice(0, count);
+  for (let i = resized.length; i < count; i++) {
+    const color = PLAYER_COLORS.find(c => !resized.some(entry => entry.color === c)) ?? PLAYER_COLORS[0];
+    resized.push({ name: `プレイヤー${i + 1}`, color, controller: 'human' });
+  }
+  return resized;
+};
+
+/**
+ * セットアップ入力からプレイヤーを作成
+ */
+export const createPlayersFromSetup = (entries: PlayerSetupEntry[], startingMoney: number): Player[] => {
+  return entries.map((entry, i) => {
+    const id = `player${i + 1}`;
+    return {
+      id,
+      name: entry.name.trim(),
+      color: entry.color,
+      money: startingMoney,
+      points: 0,
+      controller: entry.controller,
+      ...(entry.controller === 'bot' ? { botStrategy: entry.botStrategy ?? BOT_STRATEGIES[0].name } : {}),
+      otakuPieces: Array.from({ length: PIECES_PER_PLAYER }, (_, j) => ({
+        id: `p${i + 1}-otaku${j + 1}`,
+        playerId: id,
+        isKagebunshin: false
+      }))
+    };
+  });
+};
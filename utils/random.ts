@@ -0,0 +1,89 @@
+/**
+ * 乱数生成ユーティリティ
+ * シード付き疑似乱数生成器と偏りのないシャッフルを提供し、ゲームの再現性を確保する
+ */
+
+/**
+ * 乱数ソースのインターフェース
+ */
+export interface RandomSource {
+  /** 0以上1未満の乱数を返す */
+  next(): number;
+}
+
+/**
+ * 内部状態を取り出せるシード付き乱数ソース
+ */
+export interface SeededRandomSource extends RandomSource {
+  /** 現在の内部状態（次回 createSeededRandom に渡すと続きから再開できる） */
+  getState(): number;
+}
+
+/**
+ * Math.random を使う既定の乱数ソース（再現性は不要な場面向け）
+ */
+export const mathRandomSource: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * シード付き乱数ソースを作成（mulberry32）
+ * 内部状態は32bit整数1つなので GameSession にそのまま保存できる
+ */
+export const createSeededRandom = (seed: number): SeededRandomSource => {
+  let state = seed >>> 0;
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => state
+  };
+};
+
+/**
+ * 新しいシード値を生成（32bit符号なし整数）
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+};
+
+/**
+ * 0以上 maxExclusive 未満の整数を返す
+ */
+export const randomInt = (rng: RandomSource, maxExclusive: number): number => {
+  if (!Number.isInteger(maxExclusive) || maxExclusive <= 0) {
+    throw new Error(`Invalid range: ${maxExclusive}`);
+  }
+
+  return Math.floor(rng.next() * maxExclusive);
+};
+
+/**
+ * 配列から1要素をランダムに選択
+ */
+export const pickRandom = <T>(items: readonly T[], rng: RandomSource): T => {
+  if (items.length === 0) {
+    throw new Error('Cannot pick from an empty array');
+  }
+
+  return items[randomInt(rng, items.length)];
+};
+
+/**
+ * Fisher–Yates シャッフル（元の配列は変更しない）
+ */
+export const shuffleArray = <T>(items: readonly T[], rng: RandomSource): T[] => {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+};
@@ -0,0 +1,152 @@
+/**
+ * 最終順位の決定
+ * 得点順に並べ、同点のプレイヤーにはルールで設定したタイブレークを順に適用して1位〜4位（同順位あり）を決める
+ */
+
+import { Player, RoundResult, TieBreaker } from '../types/game';
+
+export const TIE_BREAKERS: TieBreaker[] = ['money', 'fansa-hits', 'fewest-rests', 'shared'];
+
+export const TIE_BREAKER_LABELS: { [K in TieBreaker]: string } = {
+  money: '残り資金',
+  'fansa-hits': 'ファンサ獲得回数',
+  'fewest-rests': '休んだ回数の少なさ',
+  shared: '同順位（勝利を分け合う）'
+};
+
+// 順位の決定に使う各プレイヤーの成績
+export interface PlayerRankingStats {
+  playerId: string;
+  playerName: string;
+  points: number;
+  money: number;
+  fansaHits: number; // ファンサタイムで得点した回数（ラウンドごとに得点した推しの数の合計）
+  rests: number;     // 推しかつ決断で休んだ回数
+}
+
+export interface RankedPlayer extends PlayerRankingStats {
+  rank: number; // 1始まり（同順位あり）
+  // 同点のプレイヤーがいた場合のみ、同点だった相手と順位を決めたタイブレーク（最後まで同点なら shared）
+  tieBreak?: {
+    tiedWith: string[];
+    decidedBy: TieBreaker;
+  };
+}
+
+// ファンサ結果の得点回数（回数の記録前のセーブデータは、そのラウンドで得点したかどうかで数える）
+const countFansaHits = (result: RoundResult['fansaResults'][number]): number => {
+  return result.hits ?? (result.pointsEarned > 0 ? 1 : 0);
+};
+
+/**
+ * ラウンド履歴から順位の決定に使う成績を集計する
+ */
+export const collectRankingStats = (players: Player[], roundHistory: RoundResult[] = []): PlayerRankingStats[] => {
+  return players.map(player => ({
+    playerId: player.id,
+    playerName: player.name,
+    points: player.points,
+    money: player.money,
+    fansaHits: roundHistory.reduce((sum, round) =>
+      sum + round.fansaResults
+        .filter(result => result.playerId === player.id)
+        .reduce((hits, result) => hits + countFansaHits(result), 0), 0),
+    rests: roundHistory.filter(round =>
+      round.oshikatsuDecisions.some(decision => decision.playerId === player.id && decision.decision === 'rest')
+    ).length
+  }));
+};
+
+// タイブレークの比較値（大きいほど上位）
+const getTieBreakerScore = (stats: PlayerRankingStats, breaker: Exclude<TieBreaker, 'shared'>): number => {
+  switch (breaker) {
+    case 'money':
+      return stats.money;
+    case 'fansa-hits':
+      return stats.fansaHits;
+    case 'fewest-rests':
+      return -stats.rests;
+  }
+};
+
+// 比較値の大きい順に、同じ値のプレイヤーをまとめる（同じ値の中では元の並びを保つ）
+const groupByScore = <T>(items: T[], score: (item: T) => number): T[][] => {
+  const scores = Array.from(new Set(items.map(score))).sort((a, b) => b - a);
+  return scores.map(value => items.filter(item => score(item) === value));
+};
+
+// 同点のグループにタイブレークを順に適用し、順位の確定したグループに分ける
+const resolveTie = (
+  group: PlayerRankingStats[],
+  tieBreakers: TieBreaker[],
+  decidedBy: TieBreaker
+): { players: PlayerRankingStats[]; decidedBy: TieBreaker }[] => {
+  const [breaker, ...rest] = tieBreakers;
+  if (group.length === 1) {
+    return [{ players: group, decidedBy }];
+  }
+  if (breaker === undefined || breaker === 'shared') {
+    return [{ players: group, decidedBy: 'shared' }];
+  }
+  return groupByScore(group, stats => getTieBreakerScore(stats, breaker))
+    .flatMap(subgroup => resolveTie(subgroup, rest, breaker));
+};
+
+/**
+ * 得点とタイブレークで順位を決める
+ */
+export const rankPlayers = (stats: PlayerRankingStats[], tieBreakers: TieBreaker[]): RankedPlayer[] => {
+  const ranked: RankedPlayer[] = [];
+
+  groupByScore(stats, player => player.points).forEach(pointsGroup => {
+    const tiedIds = pointsGroup.map(player => player.playerId);
+    resolveTie(pointsGroup, tieBreakers, 'shared').forEach(({ players, decidedBy }) => {
+      const rank = ranked.length + 1;
+      players.forEach(player => {
+        ranked.push({
+          ...player,
+          rank,
+          ...(pointsGroup.length > 1
+            ? { tieBreak: { tiedWith: tiedIds.filter(id => id !== player.playerId), decidedBy } }
+            : {})
+        });
+      });
+    });
+  });
+
+  return ranked;
+};
+
+/**
+ * タイブレークで比べた値の表示
+ */
+export const formatTieBreakerValue = (stats: PlayerRankingStats, breaker: TieBreaker): string => {
+  switch (breaker) {
+    case 'money':
+      return `${stats.money}金`;
+    case 'fansa-hits':
+      return `${stats.fansaHits}回`;
+    case 'fewest-rests':
+      return `休み${stats.rests}回`;
+    case 'shared':
+      return '';
+  }
+};
+
+/**
+ * 同点だったプレイヤーの順位がどう決まったかの説明（同点でなければ null）
+ */
+export const describeTieBreak = (player: RankedPlayer, ranking: RankedPlayer[]): string | null => {
+  if (!player.tieBreak) {
+    return null;
+  }
+
+  const names = player.tieBreak.tiedWith
+    .map(id => ranking.find(other => other.playerId === id)?.playerName ?? id)
+    .join('・');
+  const { decidedBy } = player.tieBreak;
+  if (decidedBy === 'shared') {
+    return `${names}と同点（${player.points}ポイント）のため同順位`;
+  }
+  return `${names}と同点（${player.points}ポイント）のため${TIE_BREAKER_LABELS[decidedBy]}で決定（${formatTieBreakerValue(player, decidedBy)}）`;
+};
@@ -0,0 +1,224 @@
+/**
+ * ラウンド終了時の精算
+ * グッズの破棄→影分身の除去→ボードと推しコマの片付け→スタートプレイヤーの交代→ラウンド結果の確定→順位の記録を
+ * 決まった順番で行い、各手順はアクションログに残るイベントを発行する
+ */
+
+import { GameEvent, GameSession, GameState, GoodsType, RoundResult, RoundStanding } from '../types/game';
+import {
+  discardPlayerGoods,
+  removePlayerKagebunshin,
+  recallPlayerOtakuPieces,
+  getNextPlayerIndex,
+  getTurnOrder
+} from './gameLogic';
+import { collectRankingStats, rankPlayers } from './ranking';
+
+// 精算の各手順で共有する、精算開始時点の情報
+export interface RoundSettlementContext {
+  roundNumber: number;
+  startPlayerId: string; // 精算するラウンドのスタートプレイヤー
+  isFinalRound: boolean; // 最終ラウンドでは次のラウンドがないためスタートプレイヤーを交代しない
+}
+
+export type RoundSettlementStepName =
+  | 'discard-goods'
+  | 'remove-kagebunshin'
+  | 'clear-board'
+  | 'rotate-start-player'
+  | 'finalize-round-result'
+  | 'snapshot-standings';
+
+export interface RoundSettlementStep {
+  name: RoundSettlementStepName;
+  apply: (state: GameSession, context: RoundSettlementContext) => { state: GameSession; events: GameEvent[] };
+}
+
+/**
+ * 公開中のファンサスポットカードを捨て札にする
+ * （片面カードから移行したセーブデータでは同じカードが2面公開されていることがあるため、1枚として捨てる）
+ */
+export const discardRevealedCards = (gameState: GameState): GameState => ({
+  ...gameState,
+  fanserviceDiscardPile: [
+    ...(gameState.fanserviceDiscardPile ?? []),
+    ...gameState.revealedCards.filter((card, i, cards) => cards.findIndex(other => other.id === card.id) === i)
+  ],
+  revealedCards: []
+});
+
+/**
+ * 得点とルールのタイブレークで順位を付ける（最終順位と同じ決め方、並びはスタートプレイヤーからの手番順）
+ */
+export const calculateStandings = (state: GameSession, startPlayerId: string): RoundStanding[] => {
+  const startIndex = Math.max(0, state.players.findIndex(player => player.id === startPlayerId));
+  const ranking = rankPlayers(
+    collectRankingStats(state.players, state.gameState.roundHistory),
+    state.rules.tieBreakers ?? []
+  );
+  return getTurnOrder(state.players, startIndex).map(player => ({
+    playerId: player.id,
+    points: player.points,
+    money: player.money,
+    rank: ranking.find(ranked => ranked.playerId === player.id)!.rank
+  }));
+};
+
+// 精算するラウンドの結果を更新する（労働フェーズを経ずに精算する場合は空の結果を作る）
+const updateRoundResult = (
+  state: GameSession,
+  context: RoundSettlementContext,
+  update: (round: RoundResult) => RoundResult
+): GameSession => {
+  const exists = state.gameState.roundHistory.some(round => round.roundNumber === context.roundNumber);
+  const roundHistory = exists
+    ? state.gameState.roundHistory.map(round => round.roundNumber === context.roundNumber ? update(round) : round)
+    : [
+        ...state.gameState.roundHistory,
+        update({
+          roundNumber: context.roundNumber,
+          startPlayerId: context.startPlayerId,
+          laborResults: [],
+          oshikatsuDecisions: [],
+          fansaResults: []
+        })
+      ];
+  return { ...state, gameState: { ...state.gameState, roundHistory } };
+};
+
+/**
+ * 精算の手順（この順番で適用する）
+ */
+export const ROUND_SETTLEMENT_STEPS: RoundSettlementStep[] = [
+  {
+    // オタクコマに乗せたグッズと手持ちのグッズをすべて捨てる
+    name: 'discard-goods',
+    apply: (state, context) => {
+      const discardedGoods: { playerId: string; goods: GoodsType[] }[] = [];
+      const players = state.players.map(player => {
+        const { player: updated, discarded } = discardPlayerGoods(player);
+        if (discarded.length > 0) {
+          discardedGoods.push({ playerId: player.id, goods: discarded });
+        }
+        return updated;
+      });
+      const spots = state.gameState.hanamichiBoardState.spots.map(spot => ({
+        ...spot,
+        otakuPieces: spot.otakuPieces.map(piece => ({ ...piece, goods: undefined }))
+      }));
+      return {
+        state: { ...state, players, gameState: { ...state.gameState, hanamichiBoardState: { spots } } },
+        events: [{ type: 'ROUND_GOODS_DISCARDED', roundNumber: context.roundNumber, discardedGoods }]
+      };
+    }
+  },
+  {
+    // 影分身はそのラウンド限りのため、プレイヤーとボードから取り除く
+    name: 'remove-kagebunshin',
+    apply: (state, context) => {
+      const pieceIds = state.players.flatMap(player =>
+        player.otakuPieces.filter(piece => piece.isKagebunshin).map(piece => piece.id)
+      );
+      const spots = state.gameState.hanamichiBoardState.spots.map(spot => ({
+        ...spot,
+        otakuPieces: spot.otakuPieces.filter(piece => !piece.isKagebunshin)
+      }));
+      return {
+        state: {
+          ...state,
+          players: state.players.map(removePlayerKagebunshin),
+          gameState: { ...state.gameState, hanamichiBoardState: { spots } }
+        },
+        events: [{ type: 'KAGEBUNSHIN_REMOVED', roundNumber: context.roundNumber, pieceIds }]
+      };
+    }
+  },
+  {
+    // オタクコマを回収し、推しコマと公開中のファンサスポットカードを片付ける
+    name: 'clear-board',
+    apply: (state, context) => {
+      const discardedCardCount = state.gameState.revealedCards.length;
+      const spots = state.gameState.hanamichiBoardState.spots.map(spot => ({
+        ...spot,
+        otakuPieces: [],
+        oshiPieces: []
+      }));
+      return {
+        state: {
+          ...state,
+          players: state.players.map(recallPlayerOtakuPieces),
+          gameState: {
+            ...discardRevealedCards(state.gameState),
+            hanamichiBoardState: { spots },
+            oshiPieces: state.gameState.oshiPieces.map(oshi => ({ ...oshi, currentSpotId: undefined }))
+          }
+        },
+        events: [{ type: 'BOARD_CLEARED', roundNumber: context.roundNumber, discardedCardCount }]
+      };
+    }
+  },
+  {
+    // 次のラウンドのスタートプレイヤーは時計回りに次のプレイヤー
+    name: 'rotate-start-player',
+    apply: (state, context) => {
+      if (context.isFinalRound) {
+        return { state, events: [] };
+      }
+      const startPlayerIndex = getNextPlayerIndex(state.startPlayerIndex, state.players.length);
+      return {
+        state: { ...state, startPlayerIndex },
+        events: [{ type: 'START_PLAYER_CHANGED', startPlayerIndex, playerId: state.players[startPlayerIndex].id }]
+      };
+    }
+  },
+  {
+    name: 'finalize-round-result',
+    apply: (state, context) => ({
+      state: updateRoundResult(state, context, round => ({ ...round, finalized: true })),
+      events: [{ type: 'ROUND_RESULT_FINALIZED', roundNumber: context.roundNumber }]
+    })
+  },
+  {
+    name: 'snapshot-standings',
+    apply: (state, context) => {
+      const standings = calculateStandings(state, context.startPlayerId);
+      return {
+        state: updateRoundResult(state, context, round => ({ ...round, standings })),
+        events: [{ type: 'STANDINGS_SNAPSHOT_TAKEN', roundNumber: context.roundNumber, standings }]
+      };
+    }
+  }
+];
+
+/**
+ * 現在のラウンドの精算が済んでいるか
+ */
+export const isRoundSettled = (state: GameSession): boolean => {
+  return state.gameState.roundHistory.some(round => round.roundNumber === state.currentRound && round.finalized === true);
+};
+
+/**
+ * 現在のラウンドを精算する（純粋関数）
+ * 精算済みのラウンドには何もしないため、ラウンド終了の操作が重なっても二重に精算されない
+ */
+export const settleRound = (
+  state: GameSession,
+  steps: RoundSettlementStep[] = ROUND_SETTLEMENT_STEPS
+): { state: GameSession; events: GameEvent[] } => {
+  if (isRoundSettled(state)) {
+    return { state, events: [] };
+  }
+
+  const context: RoundSettlementContext = {
+    roundNumber: state.currentRound,
+    startPlayerId: state.players[state.startPlayerIndex].id,
+    isFinalRound: state.currentRound >= state.rules.totalRounds
+  };
+  return steps.reduce<{ state: GameSession; events: GameEvent[] }>(
+    (result, step) => {
+      const next = step.apply(result.state, context);
+      return { state: next.state, events: [...result.events, ...next.events] };
+    },
+    { state, events: [] }
+  );
+};
@@ -0,0 +1,97 @@
+/**
+ * ルール設定とプリセット
+ * ゲームの数値ルールを1つのオブジェクトにまとめ、バリアントルールをコード変更なしで試せるようにする
+ */
+
+import { RuleSet, RewardDistributionCard, GOODS_PRICES } from '../types/game';
+
+/**
+ * 標準の報酬配分カード（A〜F）
+ */
+export const STANDARD_REWARD_CARDS: RewardDistributionCard[] = [
+  {
+    id: 'card-A',
+    name: 'A',
+    rewards: { 1: 3, 2: 2, 3: 1, 4: 0, 5: 0, 6: 0 }
+  },
+  {
+    id: 'card-B',
+    name: 'B',
+    rewards: { 1: 2, 2: 3, 3: 2, 4: 1, 5: 0, 6: 0 }
+  },
+  {
+    id: 'card-C',
+    name: 'C',
+    rewards: { 1: 1, 2: 2, 3: 3, 4: 2, 5: 1, 6: 0 }
+  },
+  {
+    id: 'card-D',
+    name: 'D',
+    rewards: { 1: 0, 2: 1, 3: 2, 4: 3, 5: 2, 6: 1 }
+  },
+  {
+    id: 'card-E',
+    name: 'E',
+    rewards: { 1: 0, 2: 0, 3: 1, 4: 2, 5: 3, 6: 2 }
+  },
+  {
+    id: 'card-F',
+    name: 'F',
+    rewards: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 2, 6: 3 }
+  }
+];
+
+/**
+ * 標準ルール
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  id: 'standard',
+  name: '標準ルール',
+  totalRounds: 8,
+  basePoints: 6,
+  spotCapacity: 3,
+  startingMoney: 3,
+  goodsPrices: { ...GOODS_PRICES },
+  diceToSpotIndex: [0, 0, 1, 1, 2, 2], // 1-2 → スポット1、3-4 → スポット2、5-6 → スポット3
+  uchiwaBonus: 1,
+  penlightBonus: 1,
+  sashiireMultiplier: 2,
+  rewardCards: STANDARD_REWARD_CARDS,
+  rewardCardDraft: true,
+  shareColocatedOshiPool: false,
+  tieBreakers: ['money', 'fansa-hits', 'fewest-rests']
+};
+
+/**
+ * 名前付きプリセット
+ */
+export const RULE_SET_PRESETS: RuleSet[] = [
+  DEFAULT_RULE_SET,
+  {
+    ...DEFAULT_RULE_SET,
+    id: 'short',
+    name: '短縮ルール（5ラウンド）',
+    totalRounds: 5,
+    startingMoney: 5
+  },
+  {
+    ...DEFAULT_RULE_SET,
+    id: 'crowded',
+    name: '混雑ルール（1スポット4個・9ポイント山分け）',
+    basePoints: 9,
+    spotCapacity: 4
+  },
+  {
+    ...DEFAULT_RULE_SET,
+    id: 'bargain',
+    name: '格安グッズルール',
+    goodsPrices: { uchiwa: 1, penlight: 1, sashiire: 2, kagebunshin: 2 }
+  }
+];
+
+/**
+ * IDからプリセットを取得
+ */
+export const getRuleSetPreset = (id: string): RuleSet | undefined => {
+  return RULE_SET_PRESETS.find(preset => preset.id === id);
+};
@@ -0,0 +1,421 @@
+/**
+ * セーブデータの形式
+ * セーブデータにスキーマのバージョンを記録し、古いセーブデータを1バージョンずつ現在の形式に移行して、
+ * 読み込む前に全体の構造を検証する
+ */
+
+import { FanserviceSpotCard, RuleSet } from '../types/game';
+import { validateRuleSet } from './errorHandling';
+import { createAllFanserviceSpotCards, getFanserviceCardSpots } from './gameLogic';
+import { DEFAULT_RULE_SET } from './ruleSet';
+
+/**
+ * 現在のセーブデータのバージョン（セーブデータの形式を変えたら上げて、移行処理を追加する）
+ */
+export const SAVE_SCHEMA_VERSION = 1;
+
+/**
+ * 構造を検証する前のセーブデータ（JSONから読み込んだままのオブジェクト）
+ */
+export type UnverifiedSave = Record<string, unknown>;
+
+/**
+ * セーブデータの移行処理（fromVersion のセーブデータを fromVersion + 1 の形式にする）
+ */
+export interface SaveMigration {
+  fromVersion: number;
+  description: string;
+  migrate: (save: UnverifiedSave) => UnverifiedSave;
+}
+
+/**
+ * JSONから読み込んだ値がオブジェクト（配列・null 以外）か
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * 後から追加されたルール項目を、保存時点の挙動になるよう補完する
+ * （ドラフト導入前は同時選択、タイブレーク導入前は同点勝利、同じスポットの推しは推しごとに山分け）
+ */
+export const withSavedRuleDefaults = (rules: RuleSet): RuleSet => ({
+  ...rules,
+  rewardCardDraft: rules.rewardCardDraft ?? false,
+  tieBreakers: rules.tieBreakers ?? ['shared'],
+  shareColocatedOshiPool: rules.shareColocatedOshiPool ?? false
+});
+
+// 配列の項目を1つずつ移行する（配列でない値は構造の検証で問題として示すため、そのまま残す）
+const migrateItems = (value: unknown, migrate: (item: unknown, index: number) => unknown): unknown => {
+  return Array.isArray(value) ? value.map(migrate) : value ?? [];
+};
+
+// 片面だけのカード（spots と90度単位の向き）を、同じスポットを同じ順番で示す現在の両面カードに置き換える
+// スポットの順番はダイスの出目との対応になるため、順番が異なるカードへの置き換えは行わず移行を失敗させる
+const toDoubleSidedCard = (card: unknown, path: string): unknown => {
+  if (!isRecord(card) || !Array.isArray(card.spots)) return card;
+  const spots = card.spots.join(',');
+  for (const candidate of createAllFanserviceSpotCards()) {
+    for (const orientation of ['front', 'back'] as const) {
+      for (const rotation of [0, 180] as const) {
+        const placed: FanserviceSpotCard = { ...candidate, orientation, rotation };
+        if (getFanserviceCardSpots(placed).join(',') === spots) {
+          return placed;
+        }
+      }
+    }
+  }
+  throw new Error(`${path}: no double-sided fanservice card shows spots ${card.spots.join(', ')} in this order`);
+};
+
+// 56枚の片面カードの山札を14枚の両面カードの山札にし、捨て札を補完する
+// 公開中のカードは同じスポットを示すカードに置き換え、残りのカードを山札にする
+const migrateFanserviceCards = (gameState: UnverifiedSave): UnverifiedSave => {
+  const revealedCards = migrateItems(gameState.revealedCards, (card, i) => toDoubleSidedCard(card, `gameState.revealedCards[${i}]`));
+  const revealedIds = Array.isArray(revealedCards) ? revealedCards.map(card => isRecord(card) ? card.id : undefined) : [];
+  const isSingleSidedDeck = Array.isArray(gameState.fanserviceSpotCards) &&
+    gameState.fanserviceSpotCards.some(card => isRecord(card) && Array.isArray(card.spots));
+  return {
+    ...gameState,
+    fanserviceSpotCards: isSingleSidedDeck
+      ? createAllFanserviceSpotCards().filter(card => !revealedIds.includes(card.id))
+      : gameState.fanserviceSpotCards,
+    revealedCards,
+    fanserviceDiscardPile: gameState.fanserviceDiscardPile ?? []
+  };
+};
+
+/**
+ * 移行処理の一覧（バージョンの記録がないセーブデータはバージョン0として扱う）
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    fromVersion: 0,
+    description: 'バージョン記録前のセーブデータを、標準ルール・先頭のプレイヤーから始まり、作成日時をシードとする両面カードのゲームとして扱う',
+    migrate: save => {
+      const seed = save.seed ?? (Date.parse(String(save.createdAt)) >>> 0);
+      const gameState = isRecord(save.gameState) ? save.gameState : {};
+      const board = isRecord(gameState.hanamichiBoardState) ? gameState.hanamichiBoardState : {};
+      const firstPlayer = Array.isArray(save.players) && isRecord(save.players[0]) ? save.players[0] : {};
+      return {
+        ...save,
+        rules: save.rules ?? DEFAULT_RULE_SET,
+        startPlayerIndex: save.startPlayerIndex ?? 0,
+        seed,
+        rngState: save.rngState ?? seed,
+        gameState: {
+          ...migrateFanserviceCards(gameState),
+          hanamichiBoardState: {
+            ...board,
+            // 推しコマは1スポットに1つ（oshiPiece）で保存されていた
+            spots: migrateItems(board.spots, spot => {
+              if (!isRecord(spot)) return spot;
+              const { oshiPiece, ...rest } = spot;
+              return { ...rest, oshiPieces: spot.oshiPieces ?? (oshiPiece ? [oshiPiece] : []) };
+            })
+          },
+          // スタートプレイヤーの交代導入前は、どのラウンドも先頭のプレイヤーから始まる
+          roundHistory: migrateItems(gameState.roundHistory, round => isRecord(round)
+            ? { ...round, startPlayerId: round.startPlayerId ?? firstPlayer.id }
+            : round)
+        }
+      };
+    }
+  }
+];
+
+/**
+ * セーブデータのバージョン
+ */
+export const getSaveVersion = (save: unknown): number => {
+  return isRecord(save) && typeof save.schemaVersion === 'number' ? save.schemaVersion : 0;
+};
+
+/**
+ * 古いセーブデータを1バージョンずつ現在の形式に移行する
+ * 現在より新しいバージョンのセーブデータは移行できないため呼び出し側で確認すること
+ */
+export const migrateSaveData = (save: UnverifiedSave, migrations: SaveMigration[] = SAVE_MIGRATIONS): UnverifiedSave => {
+  let current = save;
+  for (let version = getSaveVersion(save); version < SAVE_SCHEMA_VERSION; version++) {
+    const migration = migrations.find(m => m.fromVersion === version);
+    if (!migration) {
+      throw new Error(`Missing save migration from version ${version}`);
+    }
+    current = { ...migration.migrate(current), schemaVersion: version + 1 };
+  }
+  return current;
+};
+
+// 構造の検証で見つかった問題（"players[0].money: expected number" の形式）を集める
+type Problems = string[];
+
+const checkThat = (condition: boolean, path: string, expected: string, problems: Problems): boolean => {
+  if (!condition) {
+    problems.push(`${path}: expected ${expected}`);
+  }
+  return condition;
+};
+
+const checkString = (value: unknown, path: string, problems: Problems) =>
+  checkThat(typeof value === 'string', path, 'string', problems);
+
+const checkNumber = (value: unknown, path: string, problems: Problems) =>
+  checkThat(typeof value === 'number' && !isNaN(value), path, 'number', problems);
+
+const checkBoolean = (value: unknown, path: string, problems: Problems) =>
+  checkThat(typeof value === 'boolean', path, 'boolean', problems);
+
+const checkOneOf = (value: unknown, options: readonly unknown[], path: string, problems: Problems) =>
+  checkThat(options.includes(value), path, `one of ${options.join(', ')}`, problems);
+
+// 省略可能な項目（undefined と null は省略として扱う）
+const checkOptional = (
+  value: unknown,
+  path: string,
+  problems: Problems,
+  check: (value: unknown, path: string, problems: Problems) => unknown
+): void => {
+  if (value !== undefined && value !== null) {
+    check(value, path, problems);
+  }
+};
+
+const checkObject = (
+  value: unknown,
+  path: string,
+  problems: Problems,
+  checkFields: (value: Record<string, unknown>) => void
+): void => {
+  if (checkThat(isRecord(value), path, 'object', problems)) {
+    checkFields(value as Record<string, unknown>);
+  }
+};
+
+const checkArray = (
+  value: unknown,
+  path: string,
+  problems: Problems,
+  checkItem: (item: unknown, path: string, problems: Problems) => unknown
+): void => {
+  if (checkThat(Array.isArray(value), path, 'array', problems)) {
+    (value as unknown[]).forEach((item, i) => checkItem(item, `${path}[${i}]`, problems));
+  }
+};
+
+const GAME_PHASES = [
+  'setup', 'labor', 'oshikatsu-decision', 'oshikatsu-card-reveal', 'oshikatsu-goods', 'oshikatsu-placement',
+  'oshikatsu-kagebunshin', 'oshikatsu-goods-assign', 'fansa-time', 'round-end', 'game-end'
+] as const;
+const GOODS_TYPES = ['uchiwa', 'penlight', 'sashiire'] as const;
+const OSHI_IDS = ['A', 'B', 'C'] as const;
+
+const checkOtakuPiece = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, piece => {
+  checkString(piece.id, `${path}.id`, problems);
+  checkString(piece.playerId, `${path}.playerId`, problems);
+  checkOptional(piece.boardSpotId, `${path}.boardSpotId`, problems, checkNumber);
+  checkOptional(piece.goods, `${path}.goods`, problems, (goods, p, pr) => checkOneOf(goods, GOODS_TYPES, p, pr));
+  checkBoolean(piece.isKagebunshin, `${path}.isKagebunshin`, problems);
+});
+
+const checkOshiPiece = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, oshi => {
+  checkOneOf(oshi.id, OSHI_IDS, `${path}.id`, problems);
+  checkOptional(oshi.currentSpotId, `${path}.currentSpotId`, problems, checkNumber);
+});
+
+const checkRewardCard = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, card => {
+  checkString(card.id, `${path}.id`, problems);
+  checkString(card.name, `${path}.name`, problems);
+  checkObject(card.rewards, `${path}.rewards`, problems, rewards => {
+    [1, 2, 3, 4, 5, 6].forEach(dice => checkNumber(rewards[dice], `${path}.rewards.${dice}`, problems));
+  });
+});
+
+const checkSpotTriple = (value: unknown, path: string, problems: Problems) => {
+  if (checkThat(Array.isArray(value) && value.length === 3, path, 'array of 3 spots', problems)) {
+    (value as unknown[]).forEach((spot, i) => checkNumber(spot, `${path}[${i}]`, problems));
+  }
+};
+
+const checkFanserviceCard = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, card => {
+  checkString(card.id, `${path}.id`, problems);
+  checkSpotTriple(card.front, `${path}.front`, problems);
+  checkSpotTriple(card.back, `${path}.back`, problems);
+  checkOneOf(card.orientation, ['front', 'back'], `${path}.orientation`, problems);
+  checkOneOf(card.rotation, [0, 180], `${path}.rotation`, problems);
+});
+
+const checkBoardSpot = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, spot => {
+  checkNumber(spot.id, `${path}.id`, problems);
+  checkObject(spot.position, `${path}.position`, problems, position => {
+    checkNumber(position.row, `${path}.position.row`, problems);
+    checkNumber(position.col, `${path}.position.col`, problems);
+  });
+  checkArray(spot.otakuPieces, `${path}.otakuPieces`, problems, checkOtakuPiece);
+  checkArray(spot.oshiPieces, `${path}.oshiPieces`, problems, checkOshiPiece);
+});
+
+const checkRoundResult = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, round => {
+  checkNumber(round.roundNumber, `${path}.roundNumber`, problems);
+  checkString(round.startPlayerId, `${path}.startPlayerId`, problems);
+  checkArray(round.laborResults, `${path}.laborResults`, problems, (item, p, pr) => checkObject(item, p, pr, result => {
+    checkString(result.playerId, `${p}.playerId`, pr);
+    checkString(result.selectedCard, `${p}.selectedCard`, pr);
+    checkNumber(result.diceResult, `${p}.diceResult`, pr);
+    checkNumber(result.reward, `${p}.reward`, pr);
+    checkOptional(result.draftPick, `${p}.draftPick`, pr, checkNumber);
+  }));
+  checkArray(round.oshikatsuDecisions, `${path}.oshikatsuDecisions`, problems, (item, p, pr) => checkObject(item, p, pr, decision => {
+    checkString(decision.playerId, `${p}.playerId`, pr);
+    checkOneOf(decision.decision, ['participate', 'rest'], `${p}.decision`, pr);
+  }));
+  checkArray(round.fansaResults, `${path}.fansaResults`, problems, (item, p, pr) => checkObject(item, p, pr, result => {
+    checkString(result.playerId, `${p}.playerId`, pr);
+    checkNumber(result.pointsEarned, `${p}.pointsEarned`, pr);
+    checkArray(result.breakdown, `${p}.breakdown`, pr, checkString);
+    checkOptional(result.hits, `${p}.hits`, pr, checkNumber);
+  }));
+  checkOptional(round.finalized, `${path}.finalized`, problems, checkBoolean);
+  checkOptional(round.standings, `${path}.standings`, problems, (standings, p, pr) => checkArray(standings, p, pr, (item, ip, ipr) =>
+    checkObject(item, ip, ipr, standing => {
+      checkString(standing.playerId, `${ip}.playerId`, ipr);
+      ['points', 'money', 'rank'].forEach(field => checkNumber(standing[field], `${ip}.${field}`, ipr));
+    })
+  ));
+});
+
+const checkPlayer = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, player => {
+  checkString(player.id, `${path}.id`, problems);
+  checkString(player.name, `${path}.name`, problems);
+  checkOneOf(player.color, ['red', 'blue', 'green', 'yellow'], `${path}.color`, problems);
+  checkNumber(player.money, `${path}.money`, problems);
+  checkNumber(player.points, `${path}.points`, problems);
+  checkArray(player.otakuPieces, `${path}.otakuPieces`, problems, checkOtakuPiece);
+  checkOptional(player.goodsInventory, `${path}.goodsInventory`, problems, (inventory, p, pr) =>
+    checkArray(inventory, p, pr, (goods, ip, ipr) => checkOneOf(goods, GOODS_TYPES, ip, ipr)));
+  checkOptional(player.selectedRewardCard, `${path}.selectedRewardCard`, problems, checkRewardCard);
+  checkOptional(player.oshikatsuDecision, `${path}.oshikatsuDecision`, problems, (decision, p, pr) => checkOneOf(decision, ['participate', 'rest'], p, pr));
+  checkOptional(player.controller, `${path}.controller`, problems, (controller, p, pr) => checkOneOf(controller, ['human', 'bot'], p, pr));
+  checkOptional(player.botStrategy, `${path}.botStrategy`, problems, checkString);
+});
+
+const checkRules = (value: unknown, path: string, problems: Problems) => checkObject(value, path, problems, rules => {
+  const before = problems.length;
+  checkString(rules.id, `${path}.id`, problems);
+  checkString(rules.name, `${path}.name`, problems);
+  checkObject(rules.goodsPrices, `${path}.goodsPrices`, problems, () => undefined);
+  checkArray(rules.diceToSpotIndex, `${path}.diceToSpotIndex`, problems, checkNumber);
+  checkArray(rules.rewardCards, `${path}.rewardCards`, problems, checkRewardCard);
+  checkArray(rules.tieBreakers, `${path}.tieBreakers`, problems, checkString);
+  checkBoolean(rules.rewardCardDraft, `${path}.rewardCardDraft`, problems);
+  checkBoolean(rules.shareColocatedOshiPool, `${path}.shareColocatedOshiPool`, problems);
+
+  // 形が正しい場合のみ、値の範囲をルール設定のバリデーションで確認する
+  if (problems.length === before) {
+    validateRuleSet(value as RuleSet).forEach(error => {
+      problems.push(`${path}.${error.context?.field}: invalid value`);
+    });
+  }
+});
+
+/**
+ * 移行済みのセーブデータ全体の構造を検証し、見つかった問題を返す（問題がなければ空配列）
+ */
+export const validateSaveData = (save: unknown): string[] => {
+  const problems: Problems = [];
+
+  checkObject(save, 'save', problems, session => {
+    checkString(session.id, 'id', problems);
+    checkArray(session.players, 'players', problems, checkPlayer);
+    checkNumber(session.currentRound, 'currentRound', problems);
+    checkOneOf(session.currentPhase, GAME_PHASES, 'currentPhase', problems);
+    checkOptional(session.currentSubPhase, 'currentSubPhase', problems, (subPhase, p, pr) =>
+      checkOneOf(subPhase, ['card-reveal', 'goods-purchase', 'piece-placement'], p, pr));
+    checkNumber(session.activePlayerIndex, 'activePlayerIndex', problems);
+    checkNumber(session.startPlayerIndex, 'startPlayerIndex', problems);
+    checkObject(session.gameState, 'gameState', problems, gameState => {
+      checkObject(gameState.hanamichiBoardState, 'gameState.hanamichiBoardState', problems, board => {
+        checkArray(board.spots, 'gameState.hanamichiBoardState.spots', problems, checkBoardSpot);
+      });
+      checkArray(gameState.oshiPieces, 'gameState.oshiPieces', problems, checkOshiPiece);
+      checkArray(gameState.fanserviceSpotCards, 'gameState.fanserviceSpotCards', problems, checkFanserviceCard);
+      checkArray(gameState.revealedCards, 'gameState.revealedCards', problems, checkFanserviceCard);
+      checkOptional(gameState.fanserviceDiscardPile, 'gameState.fanserviceDiscardPile', problems, (pile, p, pr) =>
+        checkArray(pile, p, pr, checkFanserviceCard));
+      checkArray(gameState.rewardDistributionCards, 'gameState.rewardDistributionCards', problems, checkRewardCard);
+      checkOptional(gameState.currentDiceResult, 'gameState.currentDiceResult', problems, checkNumber);
+      checkArray(gameState.roundHistory, 'gameState.roundHistory', problems, checkRoundResult);
+    });
+    checkObject(session.turnManager, 'turnManager', problems, turnManager => {
+      checkNumber(turnManager.currentPlayer, 'turnManager.currentPlayer', problems);
+      checkArray(turnManager.waitingForPlayers, 'turnManager.waitingForPlayers', problems, checkString);
+      checkObject(turnManager.phaseActions, 'turnManager.phaseActions', problems, phaseActions => {
+        Object.entries(phaseActions).forEach(([playerId, completed]) =>
+          checkBoolean(completed, `turnManager.phaseActions.${playerId}`, problems));
+      });
+    });
+    checkThat(typeof session.createdAt === 'string' && !isNaN(new Date(session.createdAt).getTime()), 'createdAt', 'ISO date string', problems);
+    checkNumber(session.seed, 'seed', problems);
+    checkNumber(session.rngState, 'rngState', problems);
+    checkRules(session.rules, 'rules', problems);
+  });
+
+  return problems;
+};
+
+const checkDateString = (value: unknown, path: string, problems: Problems) =>
+  checkThat(typeof value === 'string' && !isNaN(new Date(value).getTime()), path, 'ISO date string', problems);
+
+/**
+ * 書き出したゲーム履歴の1件の構造を検証し、見つかった問題を返す
+ * （ルール設定のない履歴や、後から追加されたルール項目のない履歴は古い形式として許容する）
+ */
+export const validateGameHistoryEntry = (entry: unknown, path: string): string[] => {
+  const problems: Problems = [];
+
+  checkObject(entry, path, problems, history => {
+    checkString(history.gameId, `${path}.gameId`, problems);
+    checkDateString(history.startTime, `${path}.startTime`, problems);
+    checkOptional(history.endTime, `${path}.endTime`, problems, checkDateString);
+    checkArray(history.players, `${path}.players`, problems, (player, p, pr) => checkObject(player, p, pr, fields => {
+      checkString(fields.id, `${p}.id`, pr);
+      checkString(fields.name, `${p}.name`, pr);
+    }));
+    checkOptional(history.finalScores, `${path}.finalScores`, problems, (scores, p, pr) => checkArray(scores, p, pr, (score, sp, spr) =>
+      checkObject(score, sp, spr, fields => {
+        checkString(fields.playerId, `${sp}.playerId`, spr);
+        checkString(fields.playerName, `${sp}.playerName`, spr);
+        checkNumber(fields.totalPoints, `${sp}.totalPoints`, spr);
+        checkNumber(fields.totalMoney, `${sp}.totalMoney`, spr);
+      })));
+    checkNumber(history.totalRounds, `${path}.totalRounds`, problems);
+    checkOneOf(history.gameStatus, ['in-progress', 'completed', 'abandoned'], `${path}.gameStatus`, problems);
+    checkOptional(history.rules, `${path}.rules`, problems, (rules, p, pr) =>
+      checkObject(rules, p, pr, () => checkRules(withSavedRuleDefaults(rules as RuleSet), p, pr)));
+    checkOptional(history.name, `${path}.name`, problems, checkString);
+    checkOptional(history.currentPhase, `${path}.currentPhase`, problems, (phase, p, pr) => checkOneOf(phase, GAME_PHASES, p, pr));
+    checkOptional(history.lastModified, `${path}.lastModified`, problems, checkDateString);
+    checkOptional(history.archived, `${path}.archived`, problems, checkBoolean);
+  });
+
+  return problems;
+};
+
+/**
+ * 書き出したゲームログの1件の構造を検証し、見つかった問題を返す
+ */
+export const validateGameLogEntry = (entry: unknown, path: string): string[] => {
+  const problems: Problems = [];
+
+  checkObject(entry, path, problems, log => {
+    checkDateString(log.timestamp, `${path}.timestamp`, problems);
+    checkString(log.action, `${path}.action`, problems);
+    checkOptional(log.playerId, `${path}.playerId`, problems, checkString);
+    checkOptional(log.data, `${path}.data`, problems, (data, p, pr) => checkObject(data, p, pr, () => undefined));
+    checkNumber(log.roundNumber, `${path}.roundNumber`, problems);
+    checkString(log.phase, `${path}.phase`, problems);
+  });
+
+  return problems;
+};
@@ -0,0 +1,233 @@
+/**
+ * ストレージバックエンド
+ * セーブデータ・ログ・統計の保存先を localStorage / IndexedDB / メモリから選べるようにし、
+ * 容量超過を検出して GameError として通知する
+ */
+
+import { GameError } from '../types/game';
+import { createGameError, ERROR_MESSAGES } from './errorHandling';
+
+export type StorageBackendType = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * ストレージバックエンドのインターフェース
+ * 読み書きは同期的に行う（IndexedDB は起動時に読み込んだ内容をメモリに保持し、書き込みを後から反映する）
+ */
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  getItem(key: string): string | null;
+  /** 容量超過の場合は QuotaExceededError を投げる */
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * 容量超過のエラーかどうか（ブラウザごとに名前とコードが異なる）
+ */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+};
+
+/**
+ * 容量超過を知らせる GameError を作成
+ */
+export const createStorageQuotaError = (backend: StorageBackendType, key?: string): GameError => {
+  return createGameError('system', ERROR_MESSAGES.STORAGE_QUOTA_EXCEEDED, undefined, { backend, key });
+};
+
+type StorageErrorListener = (error: GameError) => void;
+
+const storageErrorListeners = new Set<StorageErrorListener>();
+
+/**
+ * ストレージのエラー通知を購読する（戻り値で購読を解除）
+ */
+export const subscribeStorageErrors = (listener: StorageErrorListener): (() => void) => {
+  storageErrorListeners.add(listener);
+  return () => {
+    storageErrorListeners.delete(listener);
+  };
+};
+
+/**
+ * ストレージのエラーを購読者に通知する（購読者がいなければコンソールに出力）
+ */
+export const notifyStorageError = (error: GameError): void => {
+  if (storageErrorListeners.size === 0) {
+    console.error(error.message, error.context);
+    return;
+  }
+  storageErrorListeners.forEach(listener => listener(error));
+};
+
+/**
+ * メモリ上のストレージ（テストや保存不要なプレイ向け）
+ * quota を指定すると、キーと値の文字数の合計が上限を超える書き込みで QuotaExceededError を投げる
+ */
+export const createMemoryBackend = (
+  options: { initialEntries?: { [key: string]: string }; quota?: number } = {}
+): StorageBackend => {
+  const entries = new Map<string, string>(Object.entries(options.initialEntries ?? {}));
+  const usedSize = (): number => {
+    let size = 0;
+    entries.forEach((value, key) => {
+      size += key.length + value.length;
+    });
+    return size;
+  };
+
+  return {
+    type: 'memory',
+    getItem: key => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      if (options.quota !== undefined) {
+        const current = entries.get(key);
+        const nextSize = usedSize() - (current !== undefined ? key.length + current.length : 0) + key.length + value.length;
+        if (nextSize > options.quota) {
+          throw new DOMException(`Memory storage quota exceeded: ${key}`, 'QuotaExceededError');
+        }
+      }
+      entries.set(key, value);
+    },
+    removeItem: key => {
+      entries.delete(key);
+    },
+    keys: () => Array.from(entries.keys())
+  };
+};
+
+/**
+ * localStorage を使うストレージ
+ */
+export const createLocalStorageBackend = (storage: Storage = window.localStorage): StorageBackend => ({
+  type: 'localStorage',
+  getItem: key => storage.getItem(key),
+  setItem: (key, value) => storage.setItem(key, value),
+  removeItem: key => storage.removeItem(key),
+  keys: () => Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter((key): key is string => key !== null)
+});
+
+const INDEXED_DB_NAME = 'oshi-game';
+const INDEXED_DB_STORE = 'entries';
+
+const openDatabase = (databaseName: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(databaseName, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(INDEXED_DB_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+  // 別のタブが古いバージョンで開いたままの場合は開けるまで待たされるため、開けなかったものとして扱う
+  request.onblocked = () => reject(new Error(`IndexedDB "${databaseName}" is blocked by another connection`));
+});
+
+const readAllEntries = (database: IDBDatabase): Promise<Map<string, string>> => new Promise((resolve, reject) => {
+  const entries = new Map<string, string>();
+  const request = database.transaction(INDEXED_DB_STORE, 'readonly').objectStore(INDEXED_DB_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      entries.set(String(cursor.key), cursor.value);
+      cursor.continue();
+    } else {
+      resolve(entries);
+    }
+  };
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * IndexedDB を使うストレージ（localStorage より大きな容量が使えるため、長いセッションのログ向け）
+ * 保存済みの内容を読み込んでから使えるようになる。書き込みの失敗は非同期に onWriteError へ通知する
+ */
+export const createIndexedDBBackend = async (
+  options: { databaseName?: string; onWriteError?: (error: unknown, key: string) => void } = {}
+): Promise<StorageBackend> => {
+  const database = await openDatabase(options.databaseName ?? INDEXED_DB_NAME);
+  const cache = await readAllEntries(database);
+
+  const write = (key: string, apply: (store: IDBObjectStore) => void): void => {
+    const transaction = database.transaction(INDEXED_DB_STORE, 'readwrite');
+    apply(transaction.objectStore(INDEXED_DB_STORE));
+    transaction.onabort = () => options.onWriteError?.(transaction.error, key);
+  };
+
+  return {
+    type: 'indexedDB',
+    getItem: key => cache.get(key) ?? null,
+    setItem: (key, value) => {
+      cache.set(key, value);
+      write(key, store => store.put(value, key));
+    },
+    removeItem: key => {
+      cache.delete(key);
+      write(key, store => store.delete(key));
+    },
+    keys: () => Array.from(cache.keys())
+  };
+};
+
+/**
+ * 既定のストレージ（localStorage が使えない環境（サーバーサイドなど）ではメモリに保存する）
+ */
+export const createDefaultBackend = (): StorageBackend => {
+  return typeof window !== 'undefined' && window.localStorage ? createLocalStorageBackend() : createMemoryBackend();
+};
+
+let activeBackend: StorageBackend | null = null;
+
+/**
+ * 現在のストレージバックエンドを取得
+ */
+export const getStorageBackend = (): StorageBackend => {
+  if (!activeBackend) {
+    activeBackend = createDefaultBackend();
+  }
+  return activeBackend;
+};
+
+/**
+ * ストレージバックエンドを切り替える
+ */
+export const setStorageBackend = (backend: StorageBackend): void => {
+  activeBackend = backend;
+};
+
+/**
+ * 指定したストレージバックエンドを使える状態にする
+ * IndexedDB が使えない・開けない場合は localStorage を使う
+ */
+export const resolveStorageBackend = async (selection: StorageBackendType | StorageBackend): Promise<StorageBackend> => {
+  if (typeof selection !== 'string') {
+    return selection;
+  }
+
+  switch (selection) {
+    case 'memory':
+      return createMemoryBackend();
+    case 'indexedDB':
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          return await createIndexedDBBackend({
+            onWriteError: (error, key) => {
+              if (isQuotaExceededError(error)) {
+                notifyStorageError(createStorageQuotaError('indexedDB', key));
+              } else {
+                console.error('Failed to write to IndexedDB:', error);
+              }
+            }
+          });
+        } catch (error) {
+          console.error('Failed to open IndexedDB, falling back to localStorage:', error);
+        }
+      }
+      return createDefaultBackend();
+    case 'localStorage':
+      return createDefaultBackend();
+  }
+};
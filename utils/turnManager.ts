@@ -0,0 +1,82 @@
+/**
+ * ターン管理
+ * TurnManager はプレーンなデータだけを持ち（保存・読み込みで失われないよう関数は持たせない）、
+ * 手番の移動や完了状態の更新はすべてここの純粋関数で行う
+ */
+
+import { Player, TurnManager } from '../types/game';
+
+/**
+ * 全員が未完了のアクション完了状態を作成
+ */
+export const createResetPhaseActions = (players: Player[]): { [playerId: string]: boolean } => {
+  const phaseActions: { [playerId: string]: boolean } = {};
+  players.forEach(player => {
+    phaseActions[player.id] = false;
+  });
+  return phaseActions;
+};
+
+/**
+ * 初期状態のターンマネージャーを作成
+ */
+export const createInitialTurnManager = (players: Player[], startPlayerIndex: number = 0): TurnManager => ({
+  currentPlayer: startPlayerIndex,
+  waitingForPlayers: players.map(p => p.id),
+  phaseActions: createResetPhaseActions(players)
+});
+
+/**
+ * 手番のプレイヤーを設定
+ */
+export const setCurrentPlayer = (turnManager: TurnManager, playerIndex: number): TurnManager => ({
+  ...turnManager,
+  currentPlayer: playerIndex
+});
+
+/**
+ * 指定プレイヤーの手番かどうか
+ */
+export const isPlayerTurn = (turnManager: TurnManager, players: Player[], playerId: string): boolean => {
+  return players[turnManager.currentPlayer]?.id === playerId;
+};
+
+/**
+ * 全プレイヤーがアクションを完了したかどうか
+ */
+export const allPlayersCompleted = (turnManager: TurnManager, players: Player[]): boolean => {
+  return players.every(player => turnManager.phaseActions[player.id] === true);
+};
+
+/**
+ * プレイヤーのアクション完了状態を更新し、待ちプレイヤーの一覧にも反映する
+ */
+export const setPlayerActionCompleted = (turnManager: TurnManager, playerId: string, completed: boolean): TurnManager => ({
+  ...turnManager,
+  phaseActions: {
+    ...turnManager.phaseActions,
+    [playerId]: completed
+  },
+  waitingForPlayers: completed
+    ? turnManager.waitingForPlayers.filter(id => id !== playerId)
+    : [...turnManager.waitingForPlayers, playerId].filter((id, index, arr) => arr.indexOf(id) === index)
+});
+
+/**
+ * 全プレイヤーのアクション完了状態を未完了に戻す
+ */
+export const resetPhaseActions = (turnManager: TurnManager, players: Player[]): TurnManager => ({
+  ...turnManager,
+  phaseActions: createResetPhaseActions(players),
+  waitingForPlayers: players.map(p => p.id)
+});
+
+/**
+ * 読み込んだターンマネージャーをプレーンなデータに戻す
+ * 以前のバージョンで作られたセッションが持っていた関数などのデータ以外の項目は取り除く
+ */
+export const rehydrateTurnManager = (turnManager: TurnManager): TurnManager => ({
+  currentPlayer: turnManager.currentPlayer,
+  waitingForPlayers: [...turnManager.waitingForPlayers],
+  phaseActions: { ...turnManager.phaseActions }
+});
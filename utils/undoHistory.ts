@@ -0,0 +1,109 @@
+/**
+ * 取り消し・やり直し履歴
+ * フェーズ内のプレイヤー操作だけを取り消し対象とし、サイコロやフェーズ遷移などの確定操作で履歴を打ち切る
+ */
+
+import { GameCommand, Player } from '../types/game';
+import { isBotPlayer } from './botPlayer';
+
+// 取り消し可能なコマンド
+export const UNDOABLE_COMMANDS: ReadonlyArray<GameCommand['type']> = [
+  'SELECT_REWARD_CARD',
+  'PURCHASE_GOODS',
+  'CREATE_KAGEBUNSHIN',
+  'MOVE_PIECE',
+  'ASSIGN_GOODS',
+  'PASS_TURN'
+];
+
+// 保持する取り消し履歴の上限
+export const MAX_UNDO_HISTORY = 50;
+
+export interface UndoHistory<T> {
+  past: T[];   // 取り消しで戻れる過去の状態（末尾が直前）
+  future: T[]; // やり直しで進める状態（末尾が直後）
+}
+
+/**
+ * 空の履歴を作成
+ */
+export const createUndoHistory = <T>(): UndoHistory<T> => ({ past: [], future: [] });
+
+/**
+ * コマンドが取り消し可能かどうかを判定
+ */
+export const isUndoableCommand = (command: GameCommand): boolean => {
+  return UNDOABLE_COMMANDS.includes(command.type);
+};
+
+/**
+ * ボットの操作かどうかを判定（オタクコマの移動はコマの持ち主で判定する）
+ */
+export const isBotCommand = (command: GameCommand, players: Player[]): boolean => {
+  const playerId = command.type === 'MOVE_PIECE'
+    ? players.find(player => player.otakuPieces.some(piece => piece.id === command.payload.pieceId))?.id
+    : 'payload' in command && 'playerId' in command.payload ? command.payload.playerId : undefined;
+  const player = players.find(p => p.id === playerId);
+  return player !== undefined && isBotPlayer(player);
+};
+
+/**
+ * 状態を変化させたコマンドを履歴に反映する
+ * 取り消し可能なコマンドは直前の状態を積み、それ以外は確定操作として履歴を破棄する
+ * ボットの操作も確定操作として扱う（取り消すとボットが選び直し、人が結果を引き直せてしまうため）
+ */
+export const recordCommandInHistory = <T>(
+  history: UndoHistory<T>,
+  command: GameCommand,
+  previous: T,
+  byBot: boolean = false
+): UndoHistory<T> => {
+  if (!isUndoableCommand(command) || byBot) {
+    return createUndoHistory<T>();
+  }
+
+  return {
+    past: [...history.past, previous].slice(-MAX_UNDO_HISTORY),
+    future: []
+  };
+};
+
+/**
+ * 直前の状態に戻す（戻れない場合は null）
+ */
+export const undoHistory = <T>(
+  history: UndoHistory<T>,
+  current: T
+): { history: UndoHistory<T>; state: T } | null => {
+  if (history.past.length === 0) {
+    return null;
+  }
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current]
+    },
+    state: history.past[history.past.length - 1]
+  };
+};
+
+/**
+ * 取り消した操作をやり直す（やり直せない場合は null）
+ */
+export const redoHistory = <T>(
+  history: UndoHistory<T>,
+  current: T
+): { history: UndoHistory<T>; state: T } | null => {
+  if (history.future.length === 0) {
+    return null;
+  }
+
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(0, -1)
+    },
+    state: history.future[history.future.length - 1]
+  };
+};